@@ -1,7 +1,27 @@
 import type { NextConfig } from "next";
 
+/**
+ * Where generated and uploaded media is served from (see getMediaUrl),
+ * so next/image can optimize it
+ */
+function getMediaPattern(): URL {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || "http://localhost:3000";
+  return new URL(process.env.MEDIA_BASE_URL || `${appUrl}/media`);
+}
+
+const media = getMediaPattern();
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  images: {
+    remotePatterns: [
+      {
+        protocol: media.protocol === "http:" ? "http" : "https",
+        hostname: media.hostname,
+        port: media.port,
+        pathname: `${media.pathname.replace(/\/$/, "")}/**`,
+      },
+    ],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,73 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Autopilot Worker CLI
+ *
+ * Processes queued autopilot jobs outside of the Next.js request cycle.
+ * Run one or more of these alongside the app; jobs are claimed with a
+ * heartbeated lock so workers never process the same job twice, and jobs
+ * left behind by a crashed worker are picked up again. The worker also
+ * enqueues jobs for due autopilot schedules (see /admin/autopilot/schedules).
+ *
+ * Usage:
+ *   npx tsx scripts/autopilot-worker.ts                    # Run until Ctrl+C
+ *   npx tsx scripts/autopilot-worker.ts --once             # Drain the queue and exit
+ *   npx tsx scripts/autopilot-worker.ts --concurrency 2    # Override AUTOPILOT_MAX_CONCURRENT_JOBS
+ *   npx tsx scripts/autopilot-worker.ts --poll 10          # Poll every 10 seconds
+ *   npx tsx scripts/autopilot-worker.ts --no-schedules     # Don't enqueue scheduled runs
+ *   npx tsx scripts/autopilot-worker.ts --requeue <jobId>  # Retry a dead-lettered/failed job
+ */
+
+import { runWorker } from '../src/lib/automation/worker';
+import { requeueJob } from '../src/lib/automation/job-queue';
+import { isAutopilotEnabled } from '../src/lib/config/env';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const requeueId = getArg('--requeue');
+  if (requeueId) {
+    const ok = await requeueJob(requeueId);
+    console.log(ok ? `✅ Job ${requeueId} requeued` : `❌ Job ${requeueId} is not failed or dead-lettered`);
+    process.exit(ok ? 0 : 1);
+  }
+
+  if (!isAutopilotEnabled()) {
+    console.error('Autopilot is disabled (AUTOPILOT_ENABLED=false)');
+    process.exit(1);
+  }
+
+  const concurrencyArg = getArg('--concurrency');
+  const pollArg = getArg('--poll');
+
+  const controller = new AbortController();
+  const shutdown = (signal: string) => {
+    if (controller.signal.aborted) {
+      console.log('Forcing exit');
+      process.exit(1);
+    }
+    console.log(`${signal} received - finishing in-flight jobs (repeat to force)`);
+    controller.abort();
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+  const stats = await runWorker({
+    concurrency: concurrencyArg ? parseInt(concurrencyArg, 10) : undefined,
+    pollIntervalMs: pollArg ? parseInt(pollArg, 10) * 1000 : undefined,
+    once: process.argv.includes('--once'),
+    runSchedules: !process.argv.includes('--no-schedules'),
+    signal: controller.signal,
+  });
+
+  process.exit(stats.failed > 0 && process.argv.includes('--once') ? 1 : 0);
+}
+
+main().catch((e) => {
+  console.error('Worker crashed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,92 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Keyword Cannibalization Report CLI
+ *
+ * Lists groups of posts and open content ideas that compete for the same
+ * query and the page each group should consolidate on.
+ *
+ * Usage:
+ *   npx tsx scripts/cannibalization-report.ts                      # Keyword + embedding checks (embeds new ideas)
+ *   npx tsx scripts/cannibalization-report.ts --no-semantic        # Keyword checks only
+ *   npx tsx scripts/cannibalization-report.ts --min-similarity 0.85
+ *   npx tsx scripts/cannibalization-report.ts --json               # Print the raw report
+ */
+
+import { analyzeCannibalization, type CannibalizationMember } from '../src/lib/discovery/cannibalization';
+import { embedOpenIdeas } from '../src/lib/discovery/semantic-dedup';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+const recommendationLabels: Record<CannibalizationMember['recommendation'], string> = {
+  keep_canonical: 'KEEP',
+  merge_or_redirect: 'MERGE / REDIRECT',
+  differentiate: 'DIFFERENTIATE',
+  drop_or_retarget: 'DROP / RETARGET',
+};
+
+async function main(): Promise<void> {
+  const minSimilarityArg = getArg('--min-similarity');
+  const semantic = !process.argv.includes('--no-semantic');
+
+  if (semantic) {
+    await embedOpenIdeas().catch((error) => {
+      console.warn('Could not embed open ideas, comparing those already embedded:', error);
+    });
+  }
+
+  const report = await analyzeCannibalization({
+    semantic,
+    minSimilarity: minSimilarityArg ? Number(minSimilarityArg) : undefined,
+  });
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+
+  console.log('\n🔀 Keyword Cannibalization Report\n');
+  console.log('━'.repeat(60));
+  console.log(`   Posts analyzed: ${report.stats.postsAnalyzed}`);
+  console.log(`   Ideas analyzed: ${report.stats.ideasAnalyzed}`);
+  console.log(`   Embedding check: ${report.stats.semantic ? 'on' : 'off'}`);
+  if (report.stats.unembeddedIdeas > 0) {
+    console.log(`   Ideas not yet embedded: ${report.stats.unembeddedIdeas}`);
+  }
+  console.log(`   Competing groups: ${report.stats.clusters} (${report.stats.competingPages} pages)`);
+
+  if (report.clusters.length === 0) {
+    console.log('\n✅ No competing pages found\n');
+    return;
+  }
+
+  for (const cluster of report.clusters) {
+    console.log(`\n📌 "${cluster.keyword}"`);
+    console.log(`   Canonical: ${cluster.canonicalReason}`);
+
+    for (const member of cluster.members) {
+      const clicks = member.performance?.clicks;
+      const perf = clicks != null ? ` · ${clicks} clicks` : '';
+      const label = recommendationLabels[member.recommendation].padEnd(16);
+      console.log(`   ${label} [${member.kind}/${member.status}] ${member.title}${perf}`);
+    }
+
+    const signals = [...new Set(cluster.links.map((l) =>
+      l.signal === 'semantic' ? `semantic ${Math.round((l.similarity ?? 0) * 100)}%` : l.signal
+    ))];
+    console.log(`   Signals: ${signals.join(', ')}`);
+  }
+
+  console.log('\n✅ Done!\n');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,56 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Create User CLI
+ *
+ * Creates a sign-in account for the admin. Use it for the first admin;
+ * after that, admins can manage users at /admin/users.
+ *
+ * Usage:
+ *   npx tsx scripts/create-user.ts --email you@example.com --name "Your Name" --role admin --password "..."
+ *
+ * The password can also come from the NEW_USER_PASSWORD environment variable
+ * to keep it out of shell history. Roles: writer, editor, publisher, admin.
+ */
+
+import { createUser, UserError } from '../src/lib/auth/users';
+import { isUserRole } from '../src/lib/auth/roles';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const email = getArg('--email');
+  const name = getArg('--name');
+  const role = getArg('--role') ?? 'writer';
+  const password = getArg('--password') ?? process.env.NEW_USER_PASSWORD;
+
+  if (!email || !name || !password) {
+    console.error('Usage: create-user.ts --email <email> --name <name> [--role <role>] --password <password>');
+    process.exit(1);
+  }
+  if (!isUserRole(role)) {
+    console.error(`Unknown role "${role}"`);
+    process.exit(1);
+  }
+
+  try {
+    const user = await createUser({ email, name, role, password });
+    console.log(`✅ Created ${user.role} ${user.email} (${user.id})`);
+    process.exit(0);
+  } catch (error) {
+    if (error instanceof UserError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
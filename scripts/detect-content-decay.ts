@@ -0,0 +1,98 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Content Decay CLI
+ *
+ * Flags published posts whose clicks or position dropped, that fell behind
+ * the rest of their cluster, or that present past years as current, and
+ * files a refresh idea for each. Refresh ideas are processed by the
+ * autopilot, which regenerates only the sections in the brief.
+ *
+ * Usage:
+ *   npx tsx scripts/detect-content-decay.ts                  # Scan and create refresh ideas
+ *   npx tsx scripts/detect-content-decay.ts --dry-run        # Report only
+ *   npx tsx scripts/detect-content-decay.ts --post <id>      # Scan one post
+ *   npx tsx scripts/detect-content-decay.ts --refresh <idea> # Run the autopilot on a refresh idea
+ */
+
+import { detectContentDecay } from '../src/lib/performance';
+import { createJob, processJob } from '../src/lib/automation/auto-writer';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function runRefresh(ideaId: string): Promise<void> {
+  console.log('\n🔄 Refreshing post from idea...\n');
+  const job = await createJob({ ideaId, triggeredBy: 'cli' });
+  const result = await processJob(job.id);
+
+  console.log(`   Post: ${result.postTitle}`);
+  for (const heading of result.refreshedSections ?? []) {
+    console.log(`   ✅ ${heading}`);
+  }
+  for (const issue of result.validationIssues ?? []) {
+    console.log(`   ⚠️  ${issue}`);
+  }
+  console.log(`\n✅ Done! Job ${job.id}\n`);
+}
+
+async function main(): Promise<void> {
+  const refreshIdeaId = getArg('--refresh');
+  if (refreshIdeaId) {
+    await runRefresh(refreshIdeaId);
+    return;
+  }
+
+  const postId = getArg('--post');
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('\n📉 Content Decay Scan\n');
+  console.log('━'.repeat(60));
+
+  const result = await detectContentDecay({
+    dryRun,
+    postIds: postId ? [postId] : undefined,
+    createdBy: 'cli',
+  });
+
+  console.log(`   Posts scanned: ${result.scanned}`);
+  if (result.windows) {
+    console.log(`   Compared: ${result.windows.prior.from} → ${result.windows.prior.to} vs ${result.windows.recent.from} → ${result.windows.recent.to}`);
+  } else {
+    console.log('   No Search Console history - traffic checks skipped');
+  }
+  console.log(`   Flagged: ${result.flagged.length}`);
+
+  const ideaByPost = new Map(result.ideasCreated.map((i) => [i.postId, i.ideaId]));
+  const skipped = new Set(result.skippedExisting);
+
+  for (const candidate of result.flagged) {
+    console.log(`\n📌 ${candidate.title} (/${candidate.slug})`);
+    for (const signal of candidate.signals) {
+      console.log(`   [${signal.type}] ${signal.detail}`);
+    }
+    for (const section of candidate.refreshBrief.sections) {
+      console.log(`   → ${section.headingText}: ${section.reason}`);
+    }
+    for (const note of candidate.refreshBrief.notes) {
+      console.log(`   ✎ ${note}`);
+    }
+    if (ideaByPost.has(candidate.postId)) {
+      console.log(`   Refresh idea: ${ideaByPost.get(candidate.postId)}`);
+    } else if (skipped.has(candidate.postId)) {
+      console.log('   Already has an open refresh idea');
+    }
+  }
+
+  console.log(`\n✅ Done! ${dryRun ? 'Dry run - no ideas created' : `${result.ideasCreated.length} refresh ideas created`}\n`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
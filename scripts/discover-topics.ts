@@ -41,6 +41,7 @@ import {
   formatScoredTopic,
   type ScoredTopic,
 } from '../src/lib/discovery/topic-scorer';
+import { loadProductCatalog } from '../src/lib/shopify/product-catalog';
 
 // ============================================================================
 // CLI ARGUMENT PARSING
@@ -160,8 +161,8 @@ function parseArgs(): CLIOptions {
   return options;
 }
 
-function showHelp(): void {
-  const collections = getCollectionHandles().slice(0, 10).join(', ');
+async function showHelp(): Promise<void> {
+  const collections = (await getCollectionHandles()).slice(0, 10).join(', ');
 
   console.log(`
 Alliance Chemical Topic Discovery
@@ -240,7 +241,7 @@ async function discoverForCollection(
     strictness?: 'strict' | 'moderate' | 'loose';
   }
 ): Promise<{ topics: TopicSuggestion[]; filtered: FilteredTopicsResult['filtered'] }> {
-  const collection = getCollectionInfo(handle);
+  const collection = await getCollectionInfo(handle);
   if (!collection) {
     console.error(`Collection not found: ${handle}`);
     return { topics: [], filtered: [] };
@@ -275,7 +276,7 @@ async function main(): Promise<void> {
   const options = parseArgs();
 
   if (options.help) {
-    showHelp();
+    await showHelp();
     process.exit(0);
   }
 
@@ -331,6 +332,13 @@ async function main(): Promise<void> {
       console.log(`   ✅ UNIQUE - No matching content found`);
     }
 
+    if (result.semanticMatches && result.semanticMatches.length > 0) {
+      console.log(`\n   Nearest by meaning:`);
+      for (const match of result.semanticMatches) {
+        console.log(`   - [${match.kind}] ${match.title} (${Math.round(match.similarity * 100)}%)`);
+      }
+    }
+
     if (result.relatedPosts.length > 0) {
       console.log(`\n   Related posts for internal linking:`);
       for (const post of result.relatedPosts) {
@@ -425,7 +433,7 @@ async function main(): Promise<void> {
 
   // ALL COLLECTIONS MODE
   else if (options.all) {
-    const collections = getCollectionHandles();
+    const collections = await getCollectionHandles();
     console.log(`\n📚 Generating topics for ${collections.length} collections...`);
 
     // Limit to avoid overwhelming the API
@@ -456,7 +464,7 @@ async function main(): Promise<void> {
 
   // Score and prioritize
   console.log('\n📊 Scoring and prioritizing topics...');
-  const scoredTopics = prioritizeTopics(allTopics);
+  const scoredTopics = prioritizeTopics(allTopics, await loadProductCatalog());
 
   // Filter by minimum score
   const filteredTopics =
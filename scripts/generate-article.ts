@@ -18,6 +18,7 @@ import * as path from 'path';
 import { generateArticle, generateArticleSectionBySection } from '../src/lib/shopify/article-generator';
 import { validateArticle, autoFixArticle, getValidationSummary } from '../src/lib/shopify/article-validator';
 import { matchTopicToProducts } from '../src/lib/shopify/product-matcher';
+import { loadProductCatalog } from '../src/lib/shopify/product-catalog';
 import { formatForCopyPaste, formatAsJson, publishGeneratedArticle, testConnection } from '../src/lib/shopify/api-client';
 import { outlineToContentBrief, isOutlineFile, type OutlineFile } from '../src/lib/outline';
 import type { ContentBrief, ShopifyContentType, GenerationOptions } from '../src/lib/shopify/content-types';
@@ -247,10 +248,12 @@ async function main(): Promise<void> {
     };
   }
 
+  const catalog = await loadProductCatalog();
+
   // Match products (only if not already in brief from outline)
   if (!brief.relatedProducts || brief.relatedProducts.length === 0) {
     console.log('\n📦 Matching relevant products...');
-    const products = matchTopicToProducts(brief.topic, { maxResults: 5 });
+    const products = matchTopicToProducts(brief.topic, { maxResults: 5, catalog });
     brief.relatedProducts = products;
 
     if (options.verbose) {
@@ -272,9 +275,9 @@ async function main(): Promise<void> {
   let article;
   try {
     if (options.sectionBySection) {
-      article = await generateArticleSectionBySection(brief);
+      article = await generateArticleSectionBySection(brief, { catalog });
     } else {
-      article = await generateArticle(brief);
+      article = await generateArticle(brief, { catalog });
     }
   } catch (error) {
     console.error('\n❌ Generation failed:', error instanceof Error ? error.message : error);
@@ -0,0 +1,88 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Generate Post Images CLI
+ *
+ * Generates a hero image and/or inline images for a stored post and
+ * attaches them: the hero becomes the JSON-LD and Shopify article image,
+ * inline images replace the body's image placeholders.
+ *
+ * Usage:
+ *   npx tsx scripts/generate-post-images.ts --post <id>                 # Hero + inline
+ *   npx tsx scripts/generate-post-images.ts --post <id> --hero-only --style illustration
+ *   npx tsx scripts/generate-post-images.ts --post <id> --inline-only --limit 5
+ *   npx tsx scripts/generate-post-images.ts --post <id> --list          # Show attached images
+ */
+
+import {
+  generateHeroImage,
+  generateInlineImages,
+  listPostMedia,
+  type ImageStyle,
+} from '../src/lib/media';
+import type { ImageModel } from '../src/lib/ai/generation/images';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main(): Promise<void> {
+  const postId = getArg('--post');
+  if (!postId) {
+    console.error('Usage: npx tsx scripts/generate-post-images.ts --post <id> [--hero-only|--inline-only|--list]');
+    process.exit(1);
+  }
+
+  if (!process.argv.includes('--list')) {
+    const style = getArg('--style') as ImageStyle | undefined;
+    const model = getArg('--model') as ImageModel | undefined;
+    const limitArg = getArg('--limit');
+
+    if (!process.argv.includes('--inline-only')) {
+      console.log('\n🖼️  Generating hero image...');
+      const hero = await generateHeroImage(postId, { style, model });
+      console.log(`   ✅ ${hero.url} (${hero.width ?? '?'}x${hero.height ?? '?'})`);
+    }
+
+    if (!process.argv.includes('--hero-only')) {
+      console.log('\n🖼️  Generating inline images...');
+      const result = await generateInlineImages(postId, {
+        model,
+        limit: limitArg ? Number(limitArg) : undefined,
+        createdBy: 'cli',
+      });
+      for (const asset of result.assets) {
+        console.log(`   ✅ ${asset.altText}`);
+      }
+      for (const failure of result.failures) {
+        console.log(`   ❌ ${failure.suggestion}: ${failure.error}`);
+      }
+      if (result.assets.length === 0 && result.failures.length === 0) {
+        console.log('   No image placeholders in this post');
+      }
+      if (result.remaining > 0) {
+        console.log(`   ${result.remaining} placeholder(s) left - run again to fill them`);
+      }
+    }
+  }
+
+  const assets = await listPostMedia(postId);
+  console.log(`\n📁 Attached images (${assets.length})\n`);
+  for (const asset of assets) {
+    const size = asset.width && asset.height ? `${asset.width}x${asset.height}` : 'unknown size';
+    const shopify = asset.shopifyImageSrc ? ' · on Shopify' : '';
+    console.log(`   [${asset.role}] ${asset.url}`);
+    console.log(`      ${size} · alt: "${asset.altText}"${shopify}`);
+  }
+
+  console.log('\n✅ Done!\n');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
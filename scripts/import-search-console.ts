@@ -0,0 +1,110 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Search Console Import CLI
+ *
+ * Imports a Search Console performance export (CSV or JSON), stores daily
+ * history per post and refreshes each post's performance metrics.
+ *
+ * Usage:
+ *   npx tsx scripts/import-search-console.ts --file export.csv
+ *   npx tsx scripts/import-search-console.ts --file pages.csv --date 2026-10-01   # Export without a date column
+ *   npx tsx scripts/import-search-console.ts --file export.json --dry-run         # Match only, write nothing
+ *   npx tsx scripts/import-search-console.ts --rollup                             # Recompute from stored history
+ *
+ * Offline stand-in (synthetic data for the posts in this database):
+ *   npx tsx scripts/import-search-console.ts --stand-in fixtures/search-console/local.json --days 28
+ *   npx tsx scripts/import-search-console.ts --file fixtures/search-console/local.json
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { db } from '../src/lib/db/client';
+import { blogPosts } from '../src/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  parseSearchConsoleExport,
+  detectExportFormat,
+  importSearchPerformance,
+  rollupPerformance,
+  buildStandInExport,
+} from '../src/lib/performance';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function writeStandIn(outputPath: string): Promise<void> {
+  const days = Number(getArg('--days') ?? 28);
+  const endDate = getArg('--end-date') ?? new Date(Date.now() - 2 * 86_400_000).toISOString().slice(0, 10);
+
+  const posts = await db.query.blogPosts.findMany({
+    where: eq(blogPosts.status, 'published'),
+    columns: { canonicalUrl: true, primaryKeyword: true, secondaryKeywords: true },
+  });
+
+  const standIn = buildStandInExport(
+    posts.map((p) => ({ url: p.canonicalUrl, keywords: [p.primaryKeyword, ...p.secondaryKeywords] })),
+    { endDate, days }
+  );
+
+  fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+  fs.writeFileSync(outputPath, JSON.stringify(standIn, null, 2));
+  console.log(`\n✅ Wrote ${standIn.rows.length} rows for ${posts.length} published posts to ${outputPath}\n`);
+}
+
+async function main(): Promise<void> {
+  const standInPath = getArg('--stand-in');
+  if (standInPath) {
+    await writeStandIn(standInPath);
+    return;
+  }
+
+  if (process.argv.includes('--rollup')) {
+    const updated = await rollupPerformance();
+    console.log(`\n✅ Rolled up performance for ${updated} posts\n`);
+    return;
+  }
+
+  const file = getArg('--file');
+  if (!file) {
+    console.error('Usage: npx tsx scripts/import-search-console.ts --file <export.csv|export.json> [--date YYYY-MM-DD] [--dry-run]');
+    process.exit(1);
+  }
+
+  const content = fs.readFileSync(file, 'utf-8');
+  const format = detectExportFormat(content, file);
+  const dryRun = process.argv.includes('--dry-run');
+
+  console.log('\n📈 Search Console Import\n');
+  console.log('━'.repeat(60));
+
+  const records = parseSearchConsoleExport(content, { format, date: getArg('--date') });
+  const result = await importSearchPerformance(records, { source: format, dryRun });
+
+  console.log(`   Rows read: ${result.rowsRead}`);
+  console.log(`   Rows matched to posts: ${result.rowsMatched}`);
+  console.log(`   Rows stored: ${result.rowsStored}${dryRun ? ' (dry run)' : ''}`);
+  console.log(`   Posts updated: ${result.postsUpdated}`);
+  if (result.dateRange) {
+    console.log(`   Dates: ${result.dateRange.from} → ${result.dateRange.to}`);
+  }
+
+  if (result.unmatchedPages.length > 0) {
+    console.log('\n⚠️  Unmatched pages (by impressions):');
+    for (const page of result.unmatchedPages) {
+      console.log(`   ${page.impressions.toString().padStart(7)}  ${page.page}`);
+    }
+  }
+
+  console.log('\n✅ Done!\n');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
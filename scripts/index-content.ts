@@ -24,6 +24,7 @@ import {
   findRelatedPosts,
   type ContentIndex,
 } from '../src/lib/discovery/existing-content';
+import { loadProductCatalog } from '../src/lib/shopify/product-catalog';
 
 // ============================================================================
 // CLI ARGUMENT PARSING
@@ -223,7 +224,8 @@ async function main(): Promise<void> {
   if (options.check) {
     console.log(`\n🔍 Checking: "${options.check}"\n`);
 
-    const check = isDuplicateTopic(options.check, index!, {
+    const catalog = await loadProductCatalog();
+    const check = isDuplicateTopic(options.check, index!, catalog, {
       strictness: 'moderate',
     });
 
@@ -251,7 +253,7 @@ async function main(): Promise<void> {
     }
 
     // Show related posts
-    const related = findRelatedPosts(options.check, index!, 5);
+    const related = findRelatedPosts(options.check, index!, catalog, 5);
     if (related.length > 0) {
       console.log(`\n   Related Posts (for internal linking):`);
       for (const post of related) {
@@ -0,0 +1,65 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Publish Scheduled Posts CLI
+ *
+ * Publishes every post whose scheduledFor time has arrived.
+ * Safe to run alongside the /api/cron/publish-scheduled route.
+ *
+ * Usage:
+ *   npx tsx scripts/publish-scheduled.ts              # Publish due posts once
+ *   npx tsx scripts/publish-scheduled.ts --limit 5    # Cap posts per run
+ *   npx tsx scripts/publish-scheduled.ts --watch 60   # Re-run every 60 seconds
+ */
+
+import { dispatchScheduledPosts } from '../src/lib/publishing/scheduled-dispatcher';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function runOnce(limit?: number): Promise<boolean> {
+  const result = await dispatchScheduledPosts({ limit });
+
+  console.log(`[${new Date().toISOString()}] ${result.due} post(s) due`);
+  result.published.forEach((p) => console.log(`  ✅ Published: ${p.title}`));
+  result.partialFailures.forEach((p) =>
+    console.log(`  ⚠️  Published locally, Shopify failed: ${p.title}\n     ${p.errors.join('\n     ')}`)
+  );
+  result.failed.forEach((p) => console.log(`  ❌ ${p.title}: ${p.error}`));
+  if (result.skipped.length > 0) {
+    console.log(`  ⏭️  ${result.skipped.length} claimed by another runner`);
+  }
+
+  return result.failed.length === 0;
+}
+
+async function main() {
+  const limitArg = getArg('--limit');
+  const watchArg = getArg('--watch');
+  const limit = limitArg ? parseInt(limitArg, 10) : undefined;
+
+  if (!watchArg) {
+    const ok = await runOnce(limit);
+    process.exit(ok ? 0 : 1);
+  }
+
+  const intervalMs = parseInt(watchArg, 10) * 1000;
+  console.log(`Watching for scheduled posts every ${watchArg}s (Ctrl+C to stop)`);
+
+  while (true) {
+    try {
+      await runOnce(limit);
+    } catch (error) {
+      console.error('Dispatch failed:', error);
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
+
+main().catch((e) => {
+  console.error('Publish failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,44 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Product Catalog Sync CLI
+ *
+ * Refreshes the product_catalog table from Shopify collections. Seed
+ * collections are inserted first, so the catalog is usable even when
+ * Shopify can't be reached. Curated matching terms are never overwritten.
+ *
+ * Usage:
+ *   npx tsx scripts/sync-catalog.ts             # Seed, then sync from Shopify
+ *   npx tsx scripts/sync-catalog.ts --seed-only # Only insert missing seed collections
+ */
+
+import { syncProductCatalog, seedProductCatalog } from '../src/lib/shopify/product-catalog';
+
+async function main() {
+  if (process.argv.includes('--seed-only')) {
+    const seeded = await seedProductCatalog();
+    console.log(`✅ Added ${seeded} seed collections`);
+    process.exit(0);
+  }
+
+  const result = await syncProductCatalog();
+
+  console.log('\n=== Catalog Sync Results ===');
+  console.log(`Source:      ${result.source}`);
+  console.log(`Seeded:      ${result.seeded}`);
+  console.log(`Created:     ${result.created}`);
+  console.log(`Updated:     ${result.updated}`);
+  console.log(`Deactivated: ${result.deactivated}`);
+
+  if (result.error) {
+    console.warn(`\n⚠️  Shopify unavailable: ${result.error}`);
+  }
+
+  process.exit(0);
+}
+
+main().catch((e) => {
+  console.error('Catalog sync failed:', e);
+  process.exit(1);
+});
@@ -0,0 +1,65 @@
+#!/usr/bin/env npx tsx
+import 'dotenv/config';
+
+/**
+ * Shopify Sync CLI
+ *
+ * Two-way sync between posts and Shopify articles: pulls articles edited in
+ * Shopify since the last run, pushes local edits, and flags posts changed
+ * on both sides as conflicts (resolve them on /admin/import).
+ *
+ * Usage:
+ *   npx tsx scripts/sync-shopify.ts                 # Pull and push
+ *   npx tsx scripts/sync-shopify.ts --pull          # Only pull
+ *   npx tsx scripts/sync-shopify.ts --push          # Only push
+ *   npx tsx scripts/sync-shopify.ts --full          # Look at every article, not just recent changes
+ *   npx tsx scripts/sync-shopify.ts --author <id>   # Author for newly imported articles
+ */
+
+import { runShopifySync, ShopifySyncError, type SyncDirection } from '../src/lib/import/shopify-sync';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+}
+
+async function main() {
+  const pullOnly = process.argv.includes('--pull');
+  const pushOnly = process.argv.includes('--push');
+  const direction: SyncDirection = pullOnly && !pushOnly ? 'pull' : pushOnly && !pullOnly ? 'push' : 'both';
+
+  try {
+    const run = await runShopifySync({
+      direction,
+      full: process.argv.includes('--full'),
+      defaultAuthorId: getArg('--author'),
+      triggeredBy: 'cli',
+      onProgress: (message) => console.log(`  ${message}`),
+    });
+
+    console.log('\n=== Sync Results ===');
+    console.log(`Pulled:    ${run.pulled}`);
+    console.log(`Created:   ${run.created}`);
+    console.log(`Pushed:    ${run.pushed}`);
+    console.log(`Conflicts: ${run.conflicts}`);
+    console.log(`Unchanged: ${run.unchanged}`);
+
+    if (run.errors.length > 0) {
+      console.log('\nErrors:');
+      run.errors.forEach((e) => console.log(`- ${e.articleId ?? e.postId ?? 'sync'}: ${e.error}`));
+    }
+
+    process.exit(run.errors.length > 0 ? 1 : 0);
+  } catch (error) {
+    if (error instanceof ShopifySyncError) {
+      console.error(`❌ ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+main().catch((e) => {
+  console.error('Sync failed:', e);
+  process.exit(1);
+});
@@ -40,15 +40,66 @@ interface JobResult {
   draftWordCount?: number;
 }
 
+interface TopicCandidate {
+  topic: string;
+  primaryKeyword: string;
+  angle: string;
+  searchIntent: string;
+  uniqueAngle: string;
+  totalScore: number;
+  recommendation: string;
+  scoreBreakdown: {
+    eeatScore: number;
+    uniquenessScore: number;
+    productRelevanceScore: number;
+    contentTypeFitScore: number;
+  };
+}
+
+interface Approval {
+  collectionName: string;
+  candidates: TopicCandidate[];
+  requestedAt: string;
+}
+
+interface PendingApproval {
+  id: string;
+  triggeredBy: string | null;
+  scheduleId: string | null;
+  createdAt: string;
+  approval: Approval | null;
+}
+
+interface TopicEdits {
+  primaryKeyword: string;
+  angle: string;
+  uniqueAngle: string;
+}
+
+const ANGLES = ['howto', 'comparison', 'safety', 'technical', 'faq', 'application'];
+
 interface JobMeta {
   mode: 'full' | 'dry_run';
   durationMs?: number;
   validationWarningsCount?: number;
+  costUsd?: number;
+  inputTokens?: number;
+  outputTokens?: number;
 }
 
 interface JobState {
   id: string | null;
-  status: 'idle' | 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  status:
+    | 'idle'
+    | 'pending'
+    | 'running'
+    | 'awaiting_approval'
+    | 'completed'
+    | 'failed'
+    | 'cancelled'
+    | 'dead_letter';
+  attempts: number;
+  nextAttemptAt: string | null;
   currentStep: string | null;
   completedSteps: number;
   totalSteps: number;
@@ -56,13 +107,21 @@ interface JobState {
   result: JobResult | null;
   errorMessage: string | null;
   meta: JobMeta | null;
+  approval: Approval | null;
 }
 
 export default function AutopilotPage() {
   const [mode, setMode] = useState<'full' | 'dry_run'>('full');
+  const [requireApproval, setRequireApproval] = useState(false);
+  const [pendingApprovals, setPendingApprovals] = useState<PendingApproval[]>([]);
+  const [selectedCandidate, setSelectedCandidate] = useState(0);
+  const [topicEdits, setTopicEdits] = useState<TopicEdits>({ primaryKeyword: '', angle: '', uniqueAngle: '' });
+  const [deciding, setDeciding] = useState(false);
   const [jobState, setJobState] = useState<JobState>({
     id: null,
     status: 'idle',
+    attempts: 0,
+    nextAttemptAt: null,
     currentStep: null,
     completedSteps: 0,
     totalSteps: 8,
@@ -70,6 +129,7 @@ export default function AutopilotPage() {
     result: null,
     errorMessage: null,
     meta: null,
+    approval: null,
   });
 
   const eventSourceRef = useRef<EventSource | null>(null);
@@ -87,6 +147,32 @@ export default function AutopilotPage() {
     };
   }, []);
 
+  const fetchPendingApprovals = useCallback(async () => {
+    try {
+      const res = await fetch('/api/automation/approvals');
+      const data = await res.json();
+      if (data.success) {
+        setPendingApprovals(data.jobs);
+      }
+    } catch (error) {
+      console.error('Failed to fetch pending approvals:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPendingApprovals();
+  }, [fetchPendingApprovals]);
+
+  function selectCandidate(approval: Approval, index: number) {
+    const candidate = approval.candidates[index];
+    setSelectedCandidate(index);
+    setTopicEdits({
+      primaryKeyword: candidate?.primaryKeyword ?? '',
+      angle: candidate?.angle ?? '',
+      uniqueAngle: candidate?.uniqueAngle ?? '',
+    });
+  }
+
   const connectToStream = useCallback((jobId: string) => {
     // Close existing connection
     eventSourceRef.current?.close();
@@ -111,6 +197,8 @@ export default function AutopilotPage() {
       setJobState((prev) => ({
         ...prev,
         status: progress.status,
+        attempts: progress.attempts ?? prev.attempts,
+        nextAttemptAt: progress.nextAttemptAt ?? null,
         currentStep: progress.currentStep,
         completedSteps: progress.completedSteps,
         totalSteps: progress.totalSteps,
@@ -129,6 +217,19 @@ export default function AutopilotPage() {
       eventSource.close();
     });
 
+    eventSource.addEventListener('awaiting_approval', (event) => {
+      const data = JSON.parse(event.data);
+      setJobState((prev) => ({
+        ...prev,
+        status: 'awaiting_approval',
+        approval: data.approval,
+      }));
+      if (data.approval) {
+        selectCandidate(data.approval, 0);
+      }
+      eventSource.close();
+    });
+
     eventSource.addEventListener('error', (event) => {
       console.error('SSE error:', event);
       // Don't close on error - let the server close it
@@ -139,6 +240,8 @@ export default function AutopilotPage() {
     setJobState({
       id: null,
       status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
       currentStep: null,
       completedSteps: 0,
       totalSteps: 8,
@@ -146,10 +249,11 @@ export default function AutopilotPage() {
       result: null,
       errorMessage: null,
       meta: { mode },
+      approval: null,
     });
 
     try {
-      // Create job asynchronously
+      // Queue the job; the autopilot worker picks it up
       const res = await fetch('/api/automation/run', {
         method: 'POST',
         headers: {
@@ -158,6 +262,7 @@ export default function AutopilotPage() {
         },
         body: JSON.stringify({
           mode,
+          requireApproval: mode === 'full' && requireApproval,
           async: true, // Return immediately
         }),
       });
@@ -171,24 +276,11 @@ export default function AutopilotPage() {
       setJobState((prev) => ({
         ...prev,
         id: data.jobId,
-        status: 'running',
+        status: 'pending',
       }));
 
       // Connect to SSE stream
       connectToStream(data.jobId);
-
-      // Trigger job processing (fire and forget)
-      fetch('/api/automation/run', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Idempotency-Key': `manual-${Date.now()}`,
-        },
-        body: JSON.stringify({
-          mode,
-          async: false,
-        }),
-      }).catch(console.error);
     } catch (error) {
       setJobState((prev) => ({
         ...prev,
@@ -218,11 +310,109 @@ export default function AutopilotPage() {
     }
   }
 
+  async function handleReviewJob(jobId: string) {
+    try {
+      const res = await fetch(`/api/automation/job/${jobId}`);
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load job');
+      }
+
+      const job = data.job;
+      setJobState({
+        id: job.id,
+        status: job.status,
+        attempts: job.attempts,
+        nextAttemptAt: job.nextAttemptAt,
+        currentStep: job.currentStep,
+        completedSteps: job.completedSteps,
+        totalSteps: job.totalSteps,
+        logs: job.logs,
+        result: job.result,
+        errorMessage: job.errorMessage,
+        meta: { mode: job.mode },
+        approval: job.approval,
+      });
+      if (job.approval) {
+        selectCandidate(job.approval, 0);
+      }
+    } catch (error) {
+      console.error('Failed to load job:', error);
+      alert(error instanceof Error ? error.message : 'Failed to load job');
+    }
+  }
+
+  async function submitDecision(body: Record<string, unknown>): Promise<boolean> {
+    if (!jobState.id) return false;
+
+    setDeciding(true);
+    try {
+      const res = await fetch(`/api/automation/job/${jobState.id}/approval`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      });
+      const data = await res.json();
+      if (!res.ok || !data.success) {
+        throw new Error(data.error || 'Failed to record decision');
+      }
+      return true;
+    } catch (error) {
+      console.error('Failed to record decision:', error);
+      alert(error instanceof Error ? error.message : 'Failed to record decision');
+      return false;
+    } finally {
+      setDeciding(false);
+      fetchPendingApprovals();
+    }
+  }
+
+  async function handleApprove() {
+    const candidate = jobState.approval?.candidates[selectedCandidate];
+    if (!jobState.id || !candidate) return;
+
+    // Only send fields the editor actually changed
+    const edits: Partial<TopicEdits> = {};
+    if (topicEdits.primaryKeyword.trim() && topicEdits.primaryKeyword.trim() !== candidate.primaryKeyword) {
+      edits.primaryKeyword = topicEdits.primaryKeyword.trim();
+    }
+    if (topicEdits.angle && topicEdits.angle !== candidate.angle) {
+      edits.angle = topicEdits.angle;
+    }
+    if (topicEdits.uniqueAngle.trim() && topicEdits.uniqueAngle.trim() !== candidate.uniqueAngle) {
+      edits.uniqueAngle = topicEdits.uniqueAngle.trim();
+    }
+
+    const ok = await submitDecision({
+      action: 'approve',
+      candidateIndex: selectedCandidate,
+      edits: Object.keys(edits).length > 0 ? edits : undefined,
+    });
+
+    if (ok) {
+      setJobState((prev) => ({ ...prev, status: 'pending', nextAttemptAt: null, approval: null }));
+      connectToStream(jobState.id);
+    }
+  }
+
+  async function handleRejectAll() {
+    const reason = prompt('Reason for rejecting all topics (optional):');
+    if (reason === null) return;
+
+    const ok = await submitDecision({ action: 'reject', reason: reason || undefined });
+    if (ok) {
+      setJobState((prev) => ({ ...prev, status: 'cancelled', approval: null }));
+    }
+  }
+
   function handleReset() {
+    fetchPendingApprovals();
     eventSourceRef.current?.close();
     setJobState({
       id: null,
       status: 'idle',
+      attempts: 0,
+      nextAttemptAt: null,
       currentStep: null,
       completedSteps: 0,
       totalSteps: 8,
@@ -230,22 +420,32 @@ export default function AutopilotPage() {
       result: null,
       errorMessage: null,
       meta: null,
+      approval: null,
     });
   }
 
   const isIdle = jobState.status === 'idle';
   const isRunning = jobState.status === 'running' || jobState.status === 'pending';
   const isComplete = jobState.status === 'completed';
-  const isFailed = jobState.status === 'failed';
+  const isFailed = jobState.status === 'failed' || jobState.status === 'dead_letter';
   const isCancelled = jobState.status === 'cancelled';
+  const isAwaitingApproval = jobState.status === 'awaiting_approval';
 
   return (
     <div className="px-4 sm:px-0">
-      <div className="mb-8">
-        <h1 className="text-2xl font-semibold text-gray-900">Autopilot</h1>
-        <p className="mt-2 text-sm text-gray-700">
-          AI-powered content generation. Select a mode and click run to generate a new blog post.
-        </p>
+      <div className="mb-8 sm:flex sm:items-start sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-semibold text-gray-900">Autopilot</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            AI-powered content generation. Select a mode and click run to generate a new blog post.
+          </p>
+        </div>
+        <Link
+          href="/admin/autopilot/schedules"
+          className="mt-4 sm:mt-0 inline-flex items-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+        >
+          Schedules
+        </Link>
       </div>
 
       <div className="bg-white shadow sm:rounded-lg overflow-hidden">
@@ -283,6 +483,20 @@ export default function AutopilotPage() {
                 </span>
               </label>
             </div>
+            {mode === 'full' && (
+              <label className="mt-3 flex items-center">
+                <input
+                  type="checkbox"
+                  checked={requireApproval}
+                  onChange={(e) => setRequireApproval(e.target.checked)}
+                  className="h-4 w-4 rounded text-indigo-600 focus:ring-indigo-500"
+                />
+                <span className="ml-2 text-sm text-gray-700">
+                  Require topic approval
+                  <span className="text-gray-500 ml-1">(pause after scoring so an editor can pick the topic)</span>
+                </span>
+              </label>
+            )}
           </div>
         )}
 
@@ -375,12 +589,49 @@ export default function AutopilotPage() {
               >
                 {mode === 'dry_run' ? 'Run Dry Run' : 'Run Autopilot'}
               </button>
+
+              {pendingApprovals.length > 0 && (
+                <div className="mt-8 text-left max-w-2xl mx-auto">
+                  <h4 className="text-sm font-medium text-gray-900">Waiting for topic approval</h4>
+                  <ul className="mt-2 divide-y divide-gray-200 border border-gray-200 rounded-md">
+                    {pendingApprovals.map((pending) => (
+                      <li key={pending.id} className="flex items-center justify-between px-4 py-3 text-sm">
+                        <div>
+                          <p className="text-gray-900">
+                            {pending.approval?.collectionName ?? 'Unknown collection'}
+                            <span className="text-gray-500 ml-2">
+                              {pending.approval?.candidates.length ?? 0} topics
+                            </span>
+                          </p>
+                          <p className="text-xs text-gray-500">
+                            {pending.scheduleId ? 'Scheduled' : pending.triggeredBy ?? 'Manual'} &middot;{' '}
+                            {new Date(pending.createdAt).toLocaleString()}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleReviewJob(pending.id)}
+                          className="text-indigo-600 hover:text-indigo-900 font-medium"
+                        >
+                          Review
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           )}
 
           {/* Running state */}
           {isRunning && (
             <div className="space-y-4">
+              {jobState.status === 'pending' && (
+                <p className="text-sm text-gray-500 text-center">
+                  {jobState.nextAttemptAt
+                    ? `Attempt ${jobState.attempts} failed with a transient error - retrying at ${new Date(jobState.nextAttemptAt).toLocaleTimeString()}`
+                    : 'Queued - waiting for an autopilot worker to pick up the job'}
+                </p>
+              )}
               {/* Logs */}
               <div className="bg-gray-900 rounded-lg p-4 font-mono text-sm h-64 overflow-y-auto">
                 {jobState.logs.map((log, i) => (
@@ -415,6 +666,124 @@ export default function AutopilotPage() {
             </div>
           )}
 
+          {/* Awaiting approval state */}
+          {isAwaitingApproval && jobState.approval && (
+            <div className="space-y-4">
+              <div>
+                <h3 className="text-lg font-medium text-gray-900">Choose a topic</h3>
+                <p className="mt-1 text-sm text-gray-500">
+                  Top {jobState.approval.candidates.length} topics for &quot;{jobState.approval.collectionName}&quot;.
+                  Approve one to generate the draft, or reject them all.
+                </p>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2" />
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Topic</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Total</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">E-E-A-T</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Unique</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Product</th>
+                      <th className="px-3 py-2 text-right font-medium text-gray-500">Fit</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 bg-white">
+                    {jobState.approval.candidates.map((candidate, index) => (
+                      <tr
+                        key={index}
+                        onClick={() => selectCandidate(jobState.approval!, index)}
+                        className={`cursor-pointer ${selectedCandidate === index ? 'bg-indigo-50' : 'hover:bg-gray-50'}`}
+                      >
+                        <td className="px-3 py-2">
+                          <input
+                            type="radio"
+                            name="candidate"
+                            checked={selectedCandidate === index}
+                            onChange={() => selectCandidate(jobState.approval!, index)}
+                            className="h-4 w-4 text-indigo-600 focus:ring-indigo-500"
+                          />
+                        </td>
+                        <td className="px-3 py-2">
+                          <p className="font-medium text-gray-900">{candidate.topic}</p>
+                          <p className="text-xs text-gray-500">
+                            {candidate.primaryKeyword} &middot; {candidate.angle} &middot; {candidate.searchIntent}
+                          </p>
+                        </td>
+                        <td className="px-3 py-2 text-right font-medium text-gray-900">{candidate.totalScore}</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{candidate.scoreBreakdown.eeatScore}/40</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{candidate.scoreBreakdown.uniquenessScore}/20</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{candidate.scoreBreakdown.productRelevanceScore}/20</td>
+                        <td className="px-3 py-2 text-right text-gray-700">{candidate.scoreBreakdown.contentTypeFitScore}/20</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              {/* Edit the selected topic before approving */}
+              <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Primary keyword</label>
+                  <input
+                    type="text"
+                    value={topicEdits.primaryKeyword}
+                    onChange={(e) => setTopicEdits({ ...topicEdits, primaryKeyword: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700">Angle</label>
+                  <select
+                    value={topicEdits.angle}
+                    onChange={(e) => setTopicEdits({ ...topicEdits, angle: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  >
+                    {ANGLES.map((angle) => (
+                      <option key={angle} value={angle}>
+                        {angle}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700">Unique angle</label>
+                  <textarea
+                    rows={2}
+                    value={topicEdits.uniqueAngle}
+                    onChange={(e) => setTopicEdits({ ...topicEdits, uniqueAngle: e.target.value })}
+                    className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                  />
+                </div>
+              </div>
+
+              <div className="flex gap-4 justify-center">
+                <button
+                  onClick={handleApprove}
+                  disabled={deciding}
+                  className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                >
+                  Approve &amp; Generate
+                </button>
+                <button
+                  onClick={handleRejectAll}
+                  disabled={deciding}
+                  className="inline-flex items-center px-4 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Reject All
+                </button>
+                <button
+                  onClick={handleReset}
+                  className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-500 hover:text-gray-700"
+                >
+                  Decide Later
+                </button>
+              </div>
+            </div>
+          )}
+
           {/* Complete/Failed/Cancelled state */}
           {(isComplete || isFailed || isCancelled) && (
             <div className="space-y-6">
@@ -491,6 +860,12 @@ export default function AutopilotPage() {
                             <span className="text-gray-600">Duration:</span> {(jobState.meta.durationMs / 1000).toFixed(1)}s
                           </p>
                         )}
+                        {jobState.meta?.costUsd !== undefined && (
+                          <p>
+                            <span className="text-gray-600">AI Cost:</span> ${jobState.meta.costUsd.toFixed(4)}
+                            {' '}({((jobState.meta.inputTokens ?? 0) + (jobState.meta.outputTokens ?? 0)).toLocaleString()} tokens)
+                          </p>
+                        )}
                         {jobState.meta?.validationWarningsCount !== undefined && jobState.meta.validationWarningsCount > 0 && (
                           <p>
                             <span className="text-gray-600">Validation Warnings:</span> {jobState.meta.validationWarningsCount}
@@ -517,7 +892,11 @@ export default function AutopilotPage() {
                       />
                     </svg>
                     <div className="ml-3">
-                      <h3 className="text-sm font-medium text-red-800">Generation Failed</h3>
+                      <h3 className="text-sm font-medium text-red-800">
+                        {jobState.status === 'dead_letter'
+                          ? `Generation Failed after ${jobState.attempts} attempts`
+                          : 'Generation Failed'}
+                      </h3>
                       <p className="mt-1 text-sm text-red-700">
                         {jobState.errorMessage || 'An unknown error occurred'}
                       </p>
@@ -0,0 +1,440 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface Schedule {
+  id: string;
+  name: string;
+  enabled: boolean;
+  cronExpression: string;
+  collectionHandles: string[];
+  mode: 'dry_run' | 'full';
+  targetWordCount: number;
+  authorId: string | null;
+  author: { id: string; name: string } | null;
+  maxPostsPerWeek: number;
+  postsThisWeek: number;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastJobId: string | null;
+  lastSkipReason: string | null;
+}
+
+interface Collection {
+  handle: string;
+  name: string;
+}
+
+interface Author {
+  id: string;
+  name: string;
+}
+
+interface ScheduleForm {
+  name: string;
+  cronExpression: string;
+  collectionHandles: string[];
+  mode: 'dry_run' | 'full';
+  targetWordCount: number;
+  authorId: string;
+  maxPostsPerWeek: number;
+}
+
+const EMPTY_FORM: ScheduleForm = {
+  name: '',
+  cronExpression: '0 9 * * mon,thu',
+  collectionHandles: [],
+  mode: 'full',
+  targetWordCount: 1500,
+  authorId: '',
+  maxPostsPerWeek: 2,
+};
+
+const CRON_PRESETS = [
+  { label: 'Weekdays 09:00', value: '0 9 * * mon-fri' },
+  { label: 'Mon & Thu 09:00', value: '0 9 * * mon,thu' },
+  { label: 'Daily 06:00', value: '0 6 * * *' },
+  { label: 'Weekly (Mon 08:00)', value: '0 8 * * mon' },
+];
+
+function formatDate(value: string | null): string {
+  return value ? new Date(value).toLocaleString() : '—';
+}
+
+export default function AutopilotSchedulesPage() {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [authors, setAuthors] = useState<Author[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ScheduleForm>(EMPTY_FORM);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSchedules();
+    fetchAuthors();
+  }, []);
+
+  async function fetchSchedules() {
+    try {
+      const res = await fetch('/api/automation/schedules');
+      const data = await res.json();
+      setSchedules(data.schedules || []);
+      setCollections(data.collections || []);
+    } catch (error) {
+      console.error('Failed to fetch schedules:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function fetchAuthors() {
+    try {
+      const res = await fetch('/api/authors');
+      const data = await res.json();
+      setAuthors(data.authors || []);
+    } catch (error) {
+      console.error('Failed to fetch authors:', error);
+    }
+  }
+
+  function openNew() {
+    setEditingId(null);
+    setForm(EMPTY_FORM);
+    setFormError(null);
+    setShowForm(true);
+  }
+
+  function openEdit(schedule: Schedule) {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      cronExpression: schedule.cronExpression,
+      collectionHandles: schedule.collectionHandles,
+      mode: schedule.mode,
+      targetWordCount: schedule.targetWordCount,
+      authorId: schedule.authorId ?? '',
+      maxPostsPerWeek: schedule.maxPostsPerWeek,
+    });
+    setFormError(null);
+    setShowForm(true);
+  }
+
+  function toggleCollection(handle: string) {
+    setForm((prev) => ({
+      ...prev,
+      collectionHandles: prev.collectionHandles.includes(handle)
+        ? prev.collectionHandles.filter((h) => h !== handle)
+        : [...prev.collectionHandles, handle],
+    }));
+  }
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setFormError(null);
+
+    try {
+      const res = await fetch(
+        editingId ? `/api/automation/schedules/${editingId}` : '/api/automation/schedules',
+        {
+          method: editingId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ...form, authorId: form.authorId || null }),
+        }
+      );
+
+      if (!res.ok) {
+        const data = await res.json();
+        const fieldErrors = data.details?.fieldErrors as Record<string, string[]> | undefined;
+        const firstFieldError = fieldErrors ? Object.values(fieldErrors).flat()[0] : undefined;
+        setFormError(firstFieldError || data.error || 'Failed to save schedule');
+        return;
+      }
+
+      setShowForm(false);
+      setEditingId(null);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to save schedule:', error);
+    }
+  }
+
+  async function toggleEnabled(schedule: Schedule) {
+    try {
+      await fetch(`/api/automation/schedules/${schedule.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ enabled: !schedule.enabled }),
+      });
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to toggle schedule:', error);
+    }
+  }
+
+  async function deleteSchedule(id: string) {
+    if (!confirm('Delete this schedule? Jobs it already created are kept.')) return;
+
+    try {
+      const res = await fetch(`/api/automation/schedules/${id}`, { method: 'DELETE' });
+      if (!res.ok) {
+        const data = await res.json();
+        alert(data.error || 'Failed to delete schedule');
+        return;
+      }
+      fetchSchedules();
+    } catch (error) {
+      console.error('Failed to delete schedule:', error);
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Autopilot Schedules</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Recurring autopilot runs. Due schedules are queued by the autopilot worker (times are UTC).
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none flex gap-2">
+          <Link
+            href="/admin/autopilot"
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50"
+          >
+            Run Now
+          </Link>
+          <button
+            onClick={openNew}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700"
+          >
+            New Schedule
+          </button>
+        </div>
+      </div>
+
+      {/* Schedule Form */}
+      {showForm && (
+        <div className="mt-6 bg-white shadow sm:rounded-lg p-6">
+          <form onSubmit={handleSubmit}>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <div>
+                <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  id="name"
+                  required
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="e.g., Twice-weekly acids posts"
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="cron" className="block text-sm font-medium text-gray-700">
+                  Cron Expression (UTC)
+                </label>
+                <input
+                  type="text"
+                  id="cron"
+                  required
+                  value={form.cronExpression}
+                  onChange={(e) => setForm({ ...form, cronExpression: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm font-mono focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+                <div className="mt-1 flex flex-wrap gap-2">
+                  {CRON_PRESETS.map((preset) => (
+                    <button
+                      key={preset.value}
+                      type="button"
+                      onClick={() => setForm({ ...form, cronExpression: preset.value })}
+                      className="text-xs text-indigo-600 hover:text-indigo-800"
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <label htmlFor="mode" className="block text-sm font-medium text-gray-700">
+                  Mode
+                </label>
+                <select
+                  id="mode"
+                  value={form.mode}
+                  onChange={(e) => setForm({ ...form, mode: e.target.value as ScheduleForm['mode'] })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="full">Full Generation (creates draft)</option>
+                  <option value="dry_run">Dry Run (topic selection only)</option>
+                </select>
+              </div>
+              <div>
+                <label htmlFor="author" className="block text-sm font-medium text-gray-700">
+                  Author
+                </label>
+                <select
+                  id="author"
+                  value={form.authorId}
+                  onChange={(e) => setForm({ ...form, authorId: e.target.value })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                >
+                  <option value="">Default author</option>
+                  {authors.map((author) => (
+                    <option key={author.id} value={author.id}>
+                      {author.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label htmlFor="wordCount" className="block text-sm font-medium text-gray-700">
+                  Target Word Count
+                </label>
+                <input
+                  type="number"
+                  id="wordCount"
+                  min={500}
+                  max={5000}
+                  step={100}
+                  value={form.targetWordCount}
+                  onChange={(e) => setForm({ ...form, targetWordCount: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="weeklyCap" className="block text-sm font-medium text-gray-700">
+                  Max Posts per Week
+                </label>
+                <input
+                  type="number"
+                  id="weeklyCap"
+                  min={0}
+                  max={100}
+                  value={form.maxPostsPerWeek}
+                  onChange={(e) => setForm({ ...form, maxPostsPerWeek: Number(e.target.value) })}
+                  className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+                />
+              </div>
+            </div>
+
+            <div className="mt-4">
+              <span className="block text-sm font-medium text-gray-700">
+                Collections{' '}
+                <span className="font-normal text-gray-500">
+                  (none selected = any collection allowed by AUTOPILOT_ALLOWED_COLLECTIONS)
+                </span>
+              </span>
+              <div className="mt-2 grid grid-cols-2 gap-1 sm:grid-cols-3 max-h-48 overflow-y-auto border border-gray-200 rounded-md p-2">
+                {collections.map((collection) => (
+                  <label key={collection.handle} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.collectionHandles.includes(collection.handle)}
+                      onChange={() => toggleCollection(collection.handle)}
+                      className="h-4 w-4 rounded text-indigo-600 focus:ring-indigo-500"
+                    />
+                    <span className="ml-2 truncate">{collection.name}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {formError && <p className="mt-4 text-sm text-red-600">{formError}</p>}
+
+            <div className="mt-4 flex gap-2">
+              <button
+                type="submit"
+                className="px-4 py-2 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700"
+              >
+                {editingId ? 'Save' : 'Create'}
+              </button>
+              <button
+                type="button"
+                onClick={() => setShowForm(false)}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      {/* Schedules Table */}
+      <div className="mt-8">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : schedules.length === 0 ? (
+          <div className="text-center py-12 bg-white rounded-lg border border-dashed border-gray-300">
+            <h3 className="text-sm font-medium text-gray-900">No schedules</h3>
+            <p className="mt-1 text-sm text-gray-500">Create a schedule to run autopilot automatically.</p>
+          </div>
+        ) : (
+          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Schedule</th>
+                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Runs</th>
+                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">This Week</th>
+                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Next / Last Run</th>
+                  <th className="relative py-3 pl-3 pr-4"><span className="sr-only">Actions</span></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {schedules.map((schedule) => (
+                  <tr key={schedule.id} className={schedule.enabled ? '' : 'opacity-60'}>
+                    <td className="py-4 pl-4 pr-3 text-sm">
+                      <div className="font-medium text-gray-900">{schedule.name}</div>
+                      <div className="text-gray-500">
+                        {schedule.mode === 'dry_run' ? 'Dry run' : 'Full'} · {schedule.targetWordCount} words ·{' '}
+                        {schedule.author?.name ?? 'Default author'}
+                      </div>
+                      <div className="text-xs text-gray-400">
+                        {schedule.collectionHandles.length > 0
+                          ? schedule.collectionHandles.join(', ')
+                          : 'Any collection'}
+                      </div>
+                    </td>
+                    <td className="px-3 py-4 text-sm font-mono text-gray-700">{schedule.cronExpression}</td>
+                    <td className="px-3 py-4 text-sm text-gray-700">
+                      {schedule.mode === 'full'
+                        ? `${schedule.postsThisWeek} / ${schedule.maxPostsPerWeek}`
+                        : '—'}
+                    </td>
+                    <td className="px-3 py-4 text-sm text-gray-500">
+                      <div>{schedule.enabled ? formatDate(schedule.nextRunAt) : 'Paused'}</div>
+                      <div className="text-xs">Last: {formatDate(schedule.lastRunAt)}</div>
+                      {schedule.lastSkipReason && (
+                        <div className="text-xs text-yellow-700">{schedule.lastSkipReason}</div>
+                      )}
+                    </td>
+                    <td className="py-4 pl-3 pr-4 text-right text-sm whitespace-nowrap space-x-3">
+                      <button
+                        onClick={() => toggleEnabled(schedule)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        {schedule.enabled ? 'Pause' : 'Resume'}
+                      </button>
+                      <button onClick={() => openEdit(schedule)} className="text-indigo-600 hover:text-indigo-900">
+                        Edit
+                      </button>
+                      <button onClick={() => deleteSchedule(schedule.id)} className="text-red-600 hover:text-red-800">
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type CatalogKind = 'product' | 'industry';
+
+interface CatalogEntry {
+  id: string;
+  handle: string;
+  name: string;
+  url: string;
+  kind: CatalogKind;
+  productsCount: number | null;
+  keywords: string[];
+  chemicals: string[];
+  industries: string[];
+  applications: string[];
+  curatedBy: string | null;
+  curatedAt: string | null;
+  source: 'seed' | 'shopify';
+  active: boolean;
+  syncedAt: string | null;
+}
+
+interface SyncResult {
+  source: 'shopify' | 'seed';
+  seeded: number;
+  created: number;
+  updated: number;
+  deactivated: number;
+  error?: string;
+}
+
+const TERM_FIELDS = ['keywords', 'chemicals', 'industries', 'applications'] as const;
+type TermField = typeof TERM_FIELDS[number];
+
+type TermDraft = Record<TermField, string>;
+
+function toDraft(entry: CatalogEntry): TermDraft {
+  return {
+    keywords: entry.keywords.join(', '),
+    chemicals: entry.chemicals.join(', '),
+    industries: entry.industries.join(', '),
+    applications: entry.applications.join(', '),
+  };
+}
+
+function parseTerms(value: string): string[] {
+  return value.split(',').map((term) => term.trim()).filter(Boolean);
+}
+
+export default function CatalogPage() {
+  const [entries, setEntries] = useState<CatalogEntry[]>([]);
+  const [configured, setConfigured] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [syncing, setSyncing] = useState(false);
+  const [syncResult, setSyncResult] = useState<SyncResult | null>(null);
+  const [filter, setFilter] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<TermDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchCatalog();
+  }, []);
+
+  async function fetchCatalog() {
+    try {
+      const res = await fetch('/api/catalog');
+      const data = await res.json();
+      setEntries(data.entries || []);
+      setConfigured(!!data.configured);
+    } catch (error) {
+      console.error('Failed to fetch catalog:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function runSync() {
+    setSyncing(true);
+    setError(null);
+    setSyncResult(null);
+
+    try {
+      const res = await fetch('/api/catalog/sync', { method: 'POST' });
+      const data = await res.json();
+
+      if (!res.ok) {
+        throw new Error(data.error || 'Sync failed');
+      }
+
+      setSyncResult(data.result);
+      await fetchCatalog();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  async function updateEntry(id: string, changes: Partial<Pick<CatalogEntry, 'kind' | 'active' | TermField>>) {
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/catalog/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update collection');
+      }
+
+      await fetchCatalog();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+      return false;
+    }
+  }
+
+  function startEditing(entry: CatalogEntry) {
+    setEditingId(entry.id);
+    setDraft(toDraft(entry));
+  }
+
+  async function saveTerms(id: string) {
+    if (!draft) return;
+    setSaving(true);
+
+    const saved = await updateEntry(id, {
+      keywords: parseTerms(draft.keywords),
+      chemicals: parseTerms(draft.chemicals),
+      industries: parseTerms(draft.industries),
+      applications: parseTerms(draft.applications),
+    });
+
+    setSaving(false);
+    if (saved) {
+      setEditingId(null);
+      setDraft(null);
+    }
+  }
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? entries.filter((e) => e.name.toLowerCase().includes(query) || e.handle.includes(query))
+    : entries;
+  const lastSyncedAt = entries.reduce<string | null>(
+    (latest, e) => (e.syncedAt && (!latest || e.syncedAt > latest) ? e.syncedAt : latest),
+    null
+  );
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Product Catalog</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Collections that topics and articles are matched to. Names, URLs and product counts
+            come from Shopify; edited keywords, chemicals, industries and applications are kept
+            across syncs.
+          </p>
+          <p className="mt-1 text-xs text-gray-500">
+            {entries.filter((e) => e.active).length} active of {entries.length} ·{' '}
+            {lastSyncedAt ? `last synced ${new Date(lastSyncedAt).toLocaleString()}` : 'never synced from Shopify'}
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={runSync}
+            disabled={syncing}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {syncing ? 'Syncing...' : configured ? 'Sync from Shopify' : 'Load seed data'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {syncResult && (
+        <div className={`mt-6 rounded-md p-4 border ${syncResult.error ? 'bg-yellow-50 border-yellow-200' : 'bg-green-50 border-green-200'}`}>
+          <p className="text-sm text-gray-700">
+            {syncResult.source === 'shopify'
+              ? `Synced from Shopify: ${syncResult.created} new, ${syncResult.updated} updated, ${syncResult.deactivated} deactivated.`
+              : `Shopify unavailable${syncResult.error ? ` (${syncResult.error})` : ''}; using seed data.`}
+            {syncResult.seeded > 0 && ` ${syncResult.seeded} seed collections added.`}
+          </p>
+        </div>
+      )}
+
+      <div className="mt-6">
+        <input
+          type="search"
+          placeholder="Filter by name or handle"
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="block w-full max-w-sm rounded-md border border-gray-300 px-3 py-2 text-sm"
+        />
+      </div>
+
+      <div className="mt-4 overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : visible.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">
+            {entries.length === 0 ? 'Catalog is empty - run a sync to populate it' : 'No matching collections'}
+          </div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Collection</th>
+                <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Kind</th>
+                <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Matching Terms</th>
+                <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {visible.map((entry) => (
+                <tr key={entry.id} className={`align-top ${entry.active ? '' : 'opacity-50'}`}>
+                  <td className="py-3 pl-4 pr-3 text-sm">
+                    <a href={entry.url} target="_blank" rel="noopener noreferrer" className="font-medium text-gray-900 hover:text-indigo-600">
+                      {entry.name}
+                    </a>
+                    <div className="text-gray-500">{entry.handle}</div>
+                    <div className="text-xs text-gray-400">
+                      {entry.source === 'shopify' ? 'Shopify' : 'Seed'}
+                      {entry.productsCount !== null && ` · ${entry.productsCount} products`}
+                    </div>
+                  </td>
+                  <td className="px-3 py-3 text-sm">
+                    <select
+                      value={entry.kind}
+                      onChange={(e) => updateEntry(entry.id, { kind: e.target.value as CatalogKind })}
+                      className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      <option value="product">product</option>
+                      <option value="industry">industry</option>
+                    </select>
+                  </td>
+                  <td className="px-3 py-3 text-sm">
+                    {editingId === entry.id && draft ? (
+                      <div className="space-y-2 min-w-[20rem]">
+                        {TERM_FIELDS.map((field) => (
+                          <div key={field}>
+                            <label className="block text-xs font-medium text-gray-500 capitalize">{field}</label>
+                            <textarea
+                              rows={2}
+                              value={draft[field]}
+                              onChange={(e) => setDraft({ ...draft, [field]: e.target.value })}
+                              className="mt-1 block w-full rounded-md border border-gray-300 px-2 py-1 text-sm"
+                            />
+                          </div>
+                        ))}
+                        <p className="text-xs text-gray-400">Comma-separated</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-1 text-gray-600">
+                        {TERM_FIELDS.map((field) => (
+                          <div key={field}>
+                            <span className="text-xs font-medium text-gray-400 capitalize">{field}: </span>
+                            {entry[field].length > 0 ? entry[field].join(', ') : <span className="text-gray-300">none</span>}
+                          </div>
+                        ))}
+                        {entry.curatedBy && (
+                          <div className="text-xs text-gray-400">Edited by {entry.curatedBy}</div>
+                        )}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-3 pl-3 pr-4 text-right text-sm space-x-3 whitespace-nowrap">
+                    {editingId === entry.id ? (
+                      <>
+                        <button
+                          onClick={() => saveTerms(entry.id)}
+                          disabled={saving}
+                          className="text-indigo-600 hover:text-indigo-900 disabled:opacity-50"
+                        >
+                          {saving ? 'Saving...' : 'Save'}
+                        </button>
+                        <button
+                          onClick={() => { setEditingId(null); setDraft(null); }}
+                          className="text-gray-600 hover:text-gray-900"
+                        >
+                          Cancel
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        onClick={() => startEditing(entry)}
+                        className="text-indigo-600 hover:text-indigo-900"
+                      >
+                        Edit terms
+                      </button>
+                    )}
+                    <button
+                      onClick={() => updateEntry(entry.id, { active: !entry.active })}
+                      className={entry.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                    >
+                      {entry.active ? 'Disable' : 'Enable'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
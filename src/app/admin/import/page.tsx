@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import Link from 'next/link';
 
 interface ImportResult {
   success: boolean;
@@ -15,8 +16,34 @@ interface Author {
   name: string;
 }
 
+interface SyncRun {
+  id: string;
+  status: 'running' | 'completed' | 'partial' | 'failed';
+  direction: 'both' | 'pull' | 'push';
+  updatedSince: string | null;
+  pulled: number;
+  created: number;
+  pushed: number;
+  conflicts: number;
+  unchanged: number;
+  errors: Array<{ articleId?: string; postId?: string; error: string }>;
+  triggeredBy: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface SyncConflict {
+  postId: string;
+  slug: string;
+  status: string;
+  articleId: string | null;
+  detectedAt: string;
+  local: { title: string; summary: string | null; bodyHtml: string; updatedAt: string };
+  remote: { title: string; summary: string | null; bodyHtml: string; handle: string; updatedAt: string | null };
+}
+
 export default function ImportPage() {
-  const [activeTab, setActiveTab] = useState<'shopify' | 'urls' | 'sitemap'>('urls');
+  const [activeTab, setActiveTab] = useState<'shopify' | 'urls' | 'sitemap' | 'sync'>('urls');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<ImportResult | null>(null);
   const [authors, setAuthors] = useState<Author[]>([]);
@@ -152,6 +179,7 @@ export default function ImportPage() {
             { id: 'urls', label: 'From URLs' },
             { id: 'sitemap', label: 'From Sitemap' },
             { id: 'shopify', label: 'From Shopify' },
+            { id: 'sync', label: 'Shopify Sync' },
           ].map((tab) => (
             <button
               key={tab.id}
@@ -168,8 +196,10 @@ export default function ImportPage() {
         </nav>
       </div>
 
+      {activeTab === 'sync' && <ShopifySyncPanel authorId={selectedAuthor} />}
+
       {/* Import Forms */}
-      <div className="mt-6 bg-white shadow sm:rounded-lg p-6">
+      <div className={`mt-6 bg-white shadow sm:rounded-lg p-6 ${activeTab === 'sync' ? 'hidden' : ''}`}>
         {activeTab === 'urls' && (
           <div>
             <label htmlFor="urls" className="block text-sm font-medium text-gray-700">
@@ -298,7 +328,7 @@ export default function ImportPage() {
       </div>
 
       {/* Results */}
-      {result && (
+      {result && activeTab !== 'sync' && (
         <div className="mt-8 bg-white shadow sm:rounded-lg">
           <div className="px-6 py-5 border-b border-gray-200">
             <h3 className="text-lg font-medium text-gray-900">Import Results</h3>
@@ -337,3 +367,232 @@ export default function ImportPage() {
     </div>
   );
 }
+
+function ShopifySyncPanel({ authorId }: { authorId: string }) {
+  const [configured, setConfigured] = useState(true);
+  const [runs, setRuns] = useState<SyncRun[]>([]);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [full, setFull] = useState(false);
+
+  useEffect(() => {
+    fetchStatus();
+  }, []);
+
+  async function fetchStatus() {
+    try {
+      const res = await fetch('/api/import/shopify/sync');
+      const data = await res.json();
+      setConfigured(data.configured);
+      setRuns(data.runs || []);
+      setConflicts(data.conflicts || []);
+    } catch (error) {
+      console.error('Failed to fetch sync status:', error);
+    }
+  }
+
+  async function runSync(direction: 'both' | 'pull' | 'push') {
+    setSyncing(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/import/shopify/sync', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ direction, full, authorId: authorId || undefined }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Sync failed');
+      }
+
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSyncing(false);
+    }
+  }
+
+  async function resolveConflict(postId: string, resolution: 'local' | 'remote') {
+    setResolving(postId);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/import/shopify/conflicts/${postId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ resolution }),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to resolve conflict');
+      }
+
+      await fetchStatus();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setResolving(null);
+    }
+  }
+
+  return (
+    <div className="mt-6 space-y-6">
+      <div className="bg-white shadow sm:rounded-lg p-6">
+        <p className="text-sm text-gray-600">
+          Pulls articles edited in Shopify since the last sync and pushes posts edited here.
+          Posts changed on both sides are held as conflicts below until you pick a version.
+          Uses the store configured in SHOPIFY_STORE / SHOPIFY_ACCESS_TOKEN.
+        </p>
+
+        {!configured && (
+          <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded-md p-4">
+            <p className="text-sm text-yellow-800">Shopify is not configured on the server.</p>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-sm text-red-600">{error}</p>
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => runSync('both')}
+            disabled={syncing || !configured}
+            className="inline-flex items-center px-4 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {syncing ? 'Syncing...' : 'Sync Now'}
+          </button>
+          <button
+            onClick={() => runSync('pull')}
+            disabled={syncing || !configured}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Pull only
+          </button>
+          <button
+            onClick={() => runSync('push')}
+            disabled={syncing || !configured}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+          >
+            Push only
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={full} onChange={(e) => setFull(e.target.checked)} />
+            Check every article (ignore last sync time)
+          </label>
+        </div>
+      </div>
+
+      {/* Conflicts */}
+      {conflicts.length > 0 && (
+        <div className="bg-white shadow sm:rounded-lg">
+          <div className="px-6 py-5 border-b border-gray-200">
+            <h3 className="text-lg font-medium text-gray-900">Conflicts ({conflicts.length})</h3>
+            <p className="mt-1 text-sm text-gray-500">Changed here and in Shopify since the last sync.</p>
+          </div>
+          {conflicts.map((conflict) => (
+            <div key={conflict.postId} className="px-6 py-5 border-b border-gray-100">
+              <div className="flex items-center justify-between">
+                <Link href={`/admin/posts/${conflict.postId}`} className="text-sm font-medium text-indigo-600 hover:text-indigo-500">
+                  {conflict.local.title}
+                </Link>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => resolveConflict(conflict.postId, 'local')}
+                    disabled={resolving === conflict.postId}
+                    className="px-3 py-1 rounded-md text-sm text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+                  >
+                    Keep local
+                  </button>
+                  <button
+                    onClick={() => resolveConflict(conflict.postId, 'remote')}
+                    disabled={resolving === conflict.postId}
+                    className="px-3 py-1 rounded-md text-sm text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                  >
+                    Keep Shopify
+                  </button>
+                </div>
+              </div>
+              <div className="mt-4 grid grid-cols-2 gap-4">
+                {[
+                  { label: 'Local', side: conflict.local, updatedAt: conflict.local.updatedAt },
+                  { label: 'Shopify', side: conflict.remote, updatedAt: conflict.remote.updatedAt },
+                ].map(({ label, side, updatedAt }) => (
+                  <div key={label} className="border border-gray-200 rounded-md">
+                    <div className="px-3 py-2 bg-gray-50 border-b border-gray-200 text-xs text-gray-500">
+                      {label} {updatedAt && `· edited ${new Date(updatedAt).toLocaleString()}`}
+                    </div>
+                    <div className="px-3 py-2">
+                      <p className="text-sm font-medium text-gray-900">{side.title}</p>
+                      {side.summary && <p className="mt-1 text-xs text-gray-600">{side.summary}</p>}
+                    </div>
+                    <iframe
+                      srcDoc={side.bodyHtml}
+                      sandbox=""
+                      title={`${label} version`}
+                      className="w-full h-80 border-t border-gray-200"
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Recent runs */}
+      <div className="bg-white shadow sm:rounded-lg">
+        <div className="px-6 py-5 border-b border-gray-200">
+          <h3 className="text-lg font-medium text-gray-900">Recent Syncs</h3>
+        </div>
+        {runs.length === 0 ? (
+          <div className="p-6 text-sm text-gray-500">No syncs yet</div>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {runs.map((run) => (
+              <li key={run.id} className="px-6 py-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-gray-900">
+                    {new Date(run.startedAt).toLocaleString()} · {run.direction}
+                    {run.updatedSince ? '' : ' (full)'}
+                    {run.triggeredBy && <span className="text-gray-400"> · {run.triggeredBy}</span>}
+                  </span>
+                  <span
+                    className={
+                      run.status === 'failed'
+                        ? 'text-red-600'
+                        : run.status === 'running' || run.status === 'partial'
+                          ? 'text-yellow-600'
+                          : 'text-green-600'
+                    }
+                  >
+                    {run.status}
+                  </span>
+                </div>
+                <div className="mt-1 text-xs text-gray-500">
+                  {run.pulled} pulled · {run.created} new · {run.pushed} pushed · {run.conflicts} conflicts ·{' '}
+                  {run.unchanged} unchanged
+                </div>
+                {run.errors.length > 0 && (
+                  <ul className="mt-1 list-disc list-inside text-xs text-red-600">
+                    {run.errors.map((e, i) => (
+                      <li key={i}>{e.error}</li>
+                    ))}
+                  </ul>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
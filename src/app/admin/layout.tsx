@@ -19,6 +19,23 @@ export default function AdminLayout({
             <Link href="/admin/posts" className="text-muted-foreground hover:text-foreground">
               Posts
             </Link>
+            <Link href="/admin/catalog" className="text-muted-foreground hover:text-foreground">
+              Catalog
+            </Link>
+            <Link href="/admin/links" className="text-muted-foreground hover:text-foreground">
+              Links
+            </Link>
+            <Link href="/admin/usage" className="text-muted-foreground hover:text-foreground">
+              Usage
+            </Link>
+            <Link href="/admin/users" className="text-muted-foreground hover:text-foreground">
+              Users
+            </Link>
+            <form action="/api/auth/logout" method="post">
+              <button type="submit" className="text-muted-foreground hover:text-foreground">
+                Sign out
+              </button>
+            </form>
           </div>
         </div>
       </nav>
@@ -0,0 +1,271 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import Link from 'next/link';
+
+interface LinkGraphNode {
+  id: string;
+  slug: string;
+  title: string;
+  status: string;
+  clusterTopicId: string | null;
+  inbound: number;
+  outbound: number;
+}
+
+interface LinkIssue {
+  sourcePostId: string;
+  sourceTitle: string;
+  href: string;
+  anchorText: string;
+  targetPostId: string | null;
+  targetTitle?: string;
+}
+
+type PillarLinkStatus = 'ok' | 'partial' | 'unlinked' | 'no_members' | 'missing_pillar';
+
+interface PillarCheck {
+  clusterId: string;
+  clusterName: string;
+  pillarPostId: string;
+  pillarTitle: string | null;
+  status: PillarLinkStatus;
+  members: number;
+  linkingMembers: number;
+  missingLinksFrom: Array<{ id: string; title: string }>;
+}
+
+interface LinkGraphReport {
+  nodes: LinkGraphNode[];
+  orphans: LinkGraphNode[];
+  brokenLinks: LinkIssue[];
+  archivedLinks: LinkIssue[];
+  pillars: PillarCheck[];
+  stats: {
+    posts: number;
+    links: number;
+    orphans: number;
+    brokenLinks: number;
+    archivedLinks: number;
+  };
+  generatedAt: string;
+}
+
+const pillarStatusStyles: Record<PillarLinkStatus, { label: string; className: string }> = {
+  ok: { label: 'All members link', className: 'bg-green-100 text-green-800' },
+  partial: { label: 'Partly linked', className: 'bg-yellow-100 text-yellow-800' },
+  unlinked: { label: 'No member links', className: 'bg-red-100 text-red-800' },
+  no_members: { label: 'No published members', className: 'bg-gray-100 text-gray-800' },
+  missing_pillar: { label: 'Pillar missing or archived', className: 'bg-red-100 text-red-800' },
+};
+
+function IssueTable({ title, issues, empty }: { title: string; issues: LinkIssue[]; empty: string }) {
+  return (
+    <div className="bg-white shadow rounded-lg">
+      <h2 className="px-5 pt-5 text-lg font-medium text-gray-900">{title}</h2>
+      {issues.length === 0 ? (
+        <p className="p-5 text-sm text-gray-500">{empty}</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 mt-3">
+          {issues.map((issue, i) => (
+            <li key={`${issue.sourcePostId}-${i}`} className="px-5 py-3 text-sm">
+              <Link href={`/admin/posts/${issue.sourcePostId}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                {issue.sourceTitle}
+              </Link>
+              <div className="text-gray-500">
+                &ldquo;{issue.anchorText}&rdquo; → {issue.targetTitle ?? issue.href}
+                {!issue.targetTitle && issue.targetPostId && (
+                  <span className="ml-1 text-xs text-gray-400">({issue.targetPostId})</span>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default function LinkGraphPage() {
+  const [report, setReport] = useState<LinkGraphReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [showAll, setShowAll] = useState(false);
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  async function fetchReport() {
+    setLoading(true);
+    try {
+      const res = await fetch('/api/link-graph');
+      const data = await res.json();
+      setReport(data.report ?? null);
+    } catch (error) {
+      console.error('Failed to fetch link graph:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const nodes = report ? (showAll ? report.nodes : report.nodes.slice(0, 25)) : [];
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Internal Links</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            How posts link to each other. Inbound counts only include links from published posts.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={fetchReport}
+            disabled={loading}
+            className="inline-flex items-center justify-center rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 shadow-sm hover:bg-gray-50 disabled:opacity-50"
+          >
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : !report ? (
+        <div className="p-8 text-center text-gray-500">Failed to load link graph</div>
+      ) : (
+        <div className="mt-8 space-y-8">
+          {/* Totals */}
+          <div className="grid grid-cols-2 gap-5 sm:grid-cols-5">
+            {[
+              { label: 'Posts', value: report.stats.posts },
+              { label: 'Blog Links', value: report.stats.links },
+              { label: 'Orphans', value: report.stats.orphans },
+              { label: 'Broken Targets', value: report.stats.brokenLinks },
+              { label: 'Links to Archived', value: report.stats.archivedLinks },
+            ].map((stat) => (
+              <div key={stat.label} className="bg-white shadow rounded-lg p-5">
+                <dt className="text-sm font-medium text-gray-500">{stat.label}</dt>
+                <dd className="mt-1 text-2xl font-semibold text-gray-900">{stat.value}</dd>
+              </div>
+            ))}
+          </div>
+
+          {/* Pillars */}
+          <div className="bg-white shadow rounded-lg">
+            <h2 className="px-5 pt-5 text-lg font-medium text-gray-900">Cluster Pillars</h2>
+            {report.pillars.length === 0 ? (
+              <p className="p-5 text-sm text-gray-500">No clusters have a pillar post set</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mt-3">
+                {report.pillars.map((pillar) => (
+                  <li key={pillar.clusterId} className="px-5 py-3 text-sm">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-gray-900">{pillar.clusterName}</div>
+                        <div className="text-gray-500">
+                          Pillar:{' '}
+                          {pillar.pillarTitle ? (
+                            <Link href={`/admin/posts/${pillar.pillarPostId}`} className="hover:text-indigo-600">
+                              {pillar.pillarTitle}
+                            </Link>
+                          ) : (
+                            pillar.pillarPostId
+                          )}
+                          {pillar.members > 0 && ` · ${pillar.linkingMembers} of ${pillar.members} members link to it`}
+                        </div>
+                      </div>
+                      <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${pillarStatusStyles[pillar.status].className}`}>
+                        {pillarStatusStyles[pillar.status].label}
+                      </span>
+                    </div>
+                    {pillar.missingLinksFrom.length > 0 && (
+                      <div className="mt-2 text-xs text-gray-500">
+                        Missing links from:{' '}
+                        {pillar.missingLinksFrom.map((member, i) => (
+                          <span key={member.id}>
+                            {i > 0 && ', '}
+                            <Link href={`/admin/posts/${member.id}`} className="text-indigo-600 hover:text-indigo-900">
+                              {member.title}
+                            </Link>
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* Orphans */}
+          <div className="bg-white shadow rounded-lg">
+            <h2 className="px-5 pt-5 text-lg font-medium text-gray-900">Orphan Posts</h2>
+            {report.orphans.length === 0 ? (
+              <p className="p-5 text-sm text-gray-500">Every published post has at least one inbound link</p>
+            ) : (
+              <ul className="divide-y divide-gray-200 mt-3">
+                {report.orphans.map((node) => (
+                  <li key={node.id} className="px-5 py-3 text-sm flex justify-between">
+                    <Link href={`/admin/posts/${node.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                      {node.title}
+                    </Link>
+                    <span className="text-gray-500">{node.outbound} outbound</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <IssueTable
+            title="Broken Link Targets"
+            issues={report.brokenLinks}
+            empty="Every targetPostId points at an existing post"
+          />
+          <IssueTable
+            title="Links to Archived Posts"
+            issues={report.archivedLinks}
+            empty="No links point at archived posts"
+          />
+
+          {/* Per-post counts */}
+          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Post</th>
+                  <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Status</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Inbound</th>
+                  <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Outbound</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {nodes.map((node) => (
+                  <tr key={node.id}>
+                    <td className="py-3 pl-4 pr-3 text-sm">
+                      <Link href={`/admin/posts/${node.id}`} className="font-medium text-gray-900 hover:text-indigo-600">
+                        {node.title}
+                      </Link>
+                      <div className="text-xs text-gray-500">{node.slug}</div>
+                    </td>
+                    <td className="px-3 py-3 text-sm text-gray-500">{node.status}</td>
+                    <td className="px-3 py-3 text-right text-sm text-gray-700">{node.inbound}</td>
+                    <td className="py-3 pl-3 pr-4 text-right text-sm text-gray-700">{node.outbound}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {report.nodes.length > 25 && (
+              <div className="bg-gray-50 px-4 py-3 text-center">
+                <button onClick={() => setShowAll(!showAll)} className="text-sm text-indigo-600 hover:text-indigo-900">
+                  {showAll ? 'Show top 25' : `Show all ${report.nodes.length} posts`}
+                </button>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { SectionEditor } from '@/components/admin/section-editor';
+import type { ExperienceEvidence, FAQ, HeadingLevel, InternalLink } from '@/lib/schema/canonical';
 
 interface Post {
   id: string;
@@ -21,19 +23,18 @@ interface Post {
   aiAssisted: boolean;
   publishedAt: string | null;
   updatedAt: string;
+  version: number;
   rawHtml: string | null;
   source: string;
   sections: Array<{
     id: string;
-    headingLevel: string;
+    headingLevel: HeadingLevel;
     headingText: string;
     body: string;
   }>;
-  faq: Array<{
-    id: string;
-    question: string;
-    answer: string;
-  }>;
+  faq: FAQ[];
+  internalLinks: InternalLink[];
+  experienceEvidence: ExperienceEvidence;
   author: {
     id: string;
     name: string;
@@ -56,6 +57,63 @@ interface ValidationReport {
   publishBlockers: string[];
 }
 
+interface RevisionSummary {
+  id: string;
+  version: number;
+  source: string;
+  changedFields: string[];
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+  title: string;
+  wordCount: number;
+}
+
+interface RevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  fields: Array<{ field: string; before: unknown; after: unknown }>;
+  sections: Array<{
+    type: 'added' | 'removed' | 'modified' | 'moved';
+    sectionId: string;
+    headingText: string;
+    changedProperties: string[];
+    before: { headingText: string; headingLevel: string; body: string } | null;
+    after: { headingText: string; headingLevel: string; body: string } | null;
+    wordCountDelta: number;
+  }>;
+  faq: Array<{
+    type: 'added' | 'removed' | 'modified' | 'moved';
+    faqId: string;
+    question: string;
+    changedProperties: string[];
+    before: { question: string; answer: string } | null;
+    after: { question: string; answer: string } | null;
+  }>;
+  wordCountDelta: number;
+}
+
+const REVISION_SOURCE_COLORS: Record<string, string> = {
+  initial: 'bg-gray-100 text-gray-800',
+  manual: 'bg-blue-100 text-blue-800',
+  autopilot: 'bg-purple-100 text-purple-800',
+  import: 'bg-yellow-100 text-yellow-800',
+  restore: 'bg-green-100 text-green-800',
+};
+
+const CHANGE_TYPE_COLORS: Record<string, string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  modified: 'bg-yellow-100 text-yellow-800',
+  moved: 'bg-blue-100 text-blue-800',
+};
+
+function formatDiffValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
 const STATUS_COLORS: Record<string, string> = {
   draft: 'bg-yellow-100 text-yellow-800',
   reviewing: 'bg-blue-100 text-blue-800',
@@ -71,8 +129,13 @@ export default function PostDetailPage() {
   const [validation, setValidation] = useState<ValidationReport | null>(null);
   const [loading, setLoading] = useState(true);
   const [publishing, setPublishing] = useState(false);
-  const [activeTab, setActiveTab] = useState<'content' | 'seo' | 'html' | 'validation'>('content');
+  const [activeTab, setActiveTab] = useState<'content' | 'edit' | 'seo' | 'html' | 'validation' | 'history'>('content');
   const [copied, setCopied] = useState(false);
+  const [revisions, setRevisions] = useState<RevisionSummary[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [diff, setDiff] = useState<RevisionDiff | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const [changingStatus, setChangingStatus] = useState(false);
 
   function copyHtml() {
     if (post?.rawHtml) {
@@ -139,6 +202,83 @@ export default function PostDetailPage() {
     }
   }
 
+  async function changeStatus(status: string) {
+    if (!post) return;
+
+    setChangingStatus(true);
+    try {
+      const res = await fetch(`/api/posts/${post.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status }),
+      });
+
+      if (res.ok) {
+        fetchPost(post.id);
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to change status');
+      }
+    } catch (error) {
+      console.error('Failed to change status:', error);
+    } finally {
+      setChangingStatus(false);
+    }
+  }
+
+  async function fetchRevisions() {
+    if (!post) return;
+
+    try {
+      const res = await fetch(`/api/posts/${post.id}/revisions`);
+      const data = await res.json();
+      setRevisions(data.revisions || []);
+      setCurrentVersion(data.currentVersion ?? null);
+    } catch (error) {
+      console.error('Failed to fetch revisions:', error);
+    }
+  }
+
+  async function showDiff(from: number, to?: number) {
+    if (!post) return;
+
+    try {
+      const query = to !== undefined ? `from=${from}&to=${to}` : `from=${from}`;
+      const res = await fetch(`/api/posts/${post.id}/revisions/diff?${query}`);
+      const data = await res.json();
+      setDiff(data.diff || null);
+    } catch (error) {
+      console.error('Failed to load diff:', error);
+    }
+  }
+
+  async function restoreVersion(version: number) {
+    if (!post) return;
+    if (!confirm(`Restore content from version ${version}? The current content is kept in history.`)) return;
+
+    setRestoring(true);
+    try {
+      const res = await fetch(`/api/posts/${post.id}/revisions/${version}/restore`, { method: 'POST' });
+      if (res.ok) {
+        setDiff(null);
+        await fetchPost(post.id);
+        await fetchRevisions();
+      } else {
+        const data = await res.json();
+        alert(data.error || 'Failed to restore');
+      }
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+    } finally {
+      setRestoring(false);
+    }
+  }
+
+  function openHistory() {
+    setActiveTab('history');
+    fetchRevisions();
+  }
+
   async function deletePost() {
     if (!post) return;
     if (!confirm('Are you sure you want to delete this post? This cannot be undone.')) return;
@@ -202,6 +342,30 @@ export default function PostDetailPage() {
                   >
                     Validate
                   </button>
+                  <button
+                    onClick={() => changeStatus('reviewing')}
+                    disabled={changingStatus}
+                    className="px-3 py-1.5 text-sm font-medium text-white bg-yellow-600 rounded-md hover:bg-yellow-700 disabled:opacity-50"
+                  >
+                    Send to Review
+                  </button>
+                </>
+              )}
+              {post.status === 'reviewing' && (
+                <>
+                  <button
+                    onClick={validatePost}
+                    className="px-3 py-1.5 text-sm font-medium text-indigo-600 bg-indigo-50 rounded-md hover:bg-indigo-100"
+                  >
+                    Validate
+                  </button>
+                  <button
+                    onClick={() => changeStatus('draft')}
+                    disabled={changingStatus}
+                    className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+                  >
+                    Back to Draft
+                  </button>
                   <button
                     onClick={publishPost}
                     disabled={publishing || !validation?.publishReady}
@@ -224,10 +388,10 @@ export default function PostDetailPage() {
         {/* Tabs */}
         <div className="border-b border-gray-200 px-6">
           <nav className="-mb-px flex space-x-8">
-            {(['content', 'seo', 'html', 'validation'] as const).map((tab) => (
+            {(['content', 'edit', 'seo', 'html', 'validation', 'history'] as const).map((tab) => (
               <button
                 key={tab}
-                onClick={() => setActiveTab(tab)}
+                onClick={() => (tab === 'history' ? openHistory() : setActiveTab(tab))}
                 className={`${
                   activeTab === tab
                     ? 'border-indigo-500 text-indigo-600'
@@ -292,6 +456,10 @@ export default function PostDetailPage() {
             </div>
           )}
 
+          {activeTab === 'edit' && (
+            <SectionEditor post={post} onSaved={() => fetchPost(post.id)} />
+          )}
+
           {activeTab === 'seo' && (
             <div className="space-y-6">
               <div className="grid grid-cols-1 gap-6 sm:grid-cols-2">
@@ -477,6 +645,160 @@ export default function PostDetailPage() {
               )}
             </div>
           )}
+          {activeTab === 'history' && (
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+              {/* Timeline */}
+              <div className="lg:col-span-1">
+                <h3 className="text-sm font-medium text-gray-700 mb-3">
+                  Timeline {currentVersion !== null && <span className="text-gray-400">(current v{currentVersion})</span>}
+                </h3>
+                {revisions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No revisions recorded yet. History starts with the next edit.</p>
+                ) : (
+                  <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+                    {revisions.map((revision, index) => {
+                      const previous = revisions[index + 1];
+                      return (
+                        <li key={revision.id} className="ml-4">
+                          <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                          <div className="flex items-center gap-2">
+                            <span className="text-sm font-medium text-gray-900">v{revision.version}</span>
+                            <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${REVISION_SOURCE_COLORS[revision.source] || 'bg-gray-100 text-gray-800'}`}>
+                              {revision.source}
+                            </span>
+                          </div>
+                          <p className="text-xs text-gray-500">
+                            {new Date(revision.createdAt).toLocaleString()}
+                            {revision.createdBy && ` · ${revision.createdBy}`}
+                          </p>
+                          {revision.note && <p className="mt-1 text-xs text-gray-600">{revision.note}</p>}
+                          {revision.changedFields.length > 0 && (
+                            <div className="mt-1 flex flex-wrap gap-1">
+                              {revision.changedFields.map((field) => (
+                                <span key={field} className="text-xs bg-gray-100 text-gray-700 px-1.5 py-0.5 rounded">{field}</span>
+                              ))}
+                            </div>
+                          )}
+                          <div className="mt-2 flex gap-3 text-xs">
+                            {previous && (
+                              <button onClick={() => showDiff(previous.version, revision.version)} className="text-indigo-600 hover:text-indigo-500">
+                                What changed
+                              </button>
+                            )}
+                            {revision.version !== currentVersion && (
+                              <>
+                                <button onClick={() => showDiff(revision.version)} className="text-indigo-600 hover:text-indigo-500">
+                                  Compare to current
+                                </button>
+                                <button
+                                  onClick={() => restoreVersion(revision.version)}
+                                  disabled={restoring}
+                                  className="text-red-600 hover:text-red-500 disabled:opacity-50"
+                                >
+                                  Restore
+                                </button>
+                              </>
+                            )}
+                          </div>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                )}
+              </div>
+
+              {/* Diff */}
+              <div className="lg:col-span-2">
+                {!diff ? (
+                  <p className="text-sm text-gray-500 text-center py-12">Select a revision to see what changed.</p>
+                ) : (
+                  <div className="space-y-6">
+                    <div className="flex items-center justify-between">
+                      <h3 className="text-sm font-medium text-gray-700">
+                        v{diff.fromVersion} &rarr; v{diff.toVersion}
+                      </h3>
+                      <span className="text-xs text-gray-500">
+                        {diff.wordCountDelta >= 0 ? '+' : ''}{diff.wordCountDelta} words
+                      </span>
+                    </div>
+
+                    {diff.fields.length === 0 && diff.sections.length === 0 && diff.faq.length === 0 && (
+                      <p className="text-sm text-gray-500">No content changes.</p>
+                    )}
+
+                    {diff.fields.map((change) => (
+                      <div key={change.field}>
+                        <h4 className="text-xs font-mono text-gray-500 mb-1">{change.field}</h4>
+                        <div className="grid grid-cols-2 gap-2">
+                          <pre className="text-xs bg-red-50 text-red-800 p-2 rounded whitespace-pre-wrap">{formatDiffValue(change.before)}</pre>
+                          <pre className="text-xs bg-green-50 text-green-800 p-2 rounded whitespace-pre-wrap">{formatDiffValue(change.after)}</pre>
+                        </div>
+                      </div>
+                    ))}
+
+                    {diff.sections.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Sections ({diff.sections.length} changed)</h4>
+                        <div className="space-y-3">
+                          {diff.sections.map((change) => (
+                            <div key={`${change.type}-${change.sectionId}`} className="border border-gray-200 rounded-lg p-3">
+                              <div className="flex items-center gap-2 mb-2">
+                                <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${CHANGE_TYPE_COLORS[change.type]}`}>
+                                  {change.type}
+                                </span>
+                                <span className="text-sm font-medium text-gray-900">{change.headingText}</span>
+                                {change.changedProperties.length > 0 && (
+                                  <span className="text-xs text-gray-500">({change.changedProperties.join(', ')})</span>
+                                )}
+                              </div>
+                              {change.type !== 'moved' && (
+                                <div className="grid grid-cols-2 gap-2">
+                                  <pre className="text-xs bg-red-50 text-red-800 p-2 rounded whitespace-pre-wrap max-h-48 overflow-auto">
+                                    {change.before ? `${change.before.headingLevel}: ${change.before.headingText}\n\n${change.before.body}` : '—'}
+                                  </pre>
+                                  <pre className="text-xs bg-green-50 text-green-800 p-2 rounded whitespace-pre-wrap max-h-48 overflow-auto">
+                                    {change.after ? `${change.after.headingLevel}: ${change.after.headingText}\n\n${change.after.body}` : '—'}
+                                  </pre>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {diff.faq.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">FAQs ({diff.faq.length} changed)</h4>
+                        <div className="space-y-3">
+                          {diff.faq.map((change) => (
+                            <div key={`${change.type}-${change.faqId}`} className="border border-gray-200 rounded-lg p-3">
+                              <div className="flex items-center gap-2 mb-2">
+                                <span className={`inline-flex rounded-full px-2 text-xs font-semibold leading-5 ${CHANGE_TYPE_COLORS[change.type]}`}>
+                                  {change.type}
+                                </span>
+                                <span className="text-sm font-medium text-gray-900">{change.question}</span>
+                              </div>
+                              {change.type !== 'moved' && (
+                                <div className="grid grid-cols-2 gap-2">
+                                  <pre className="text-xs bg-red-50 text-red-800 p-2 rounded whitespace-pre-wrap">
+                                    {change.before ? `Q: ${change.before.question}\nA: ${change.before.answer}` : '—'}
+                                  </pre>
+                                  <pre className="text-xs bg-green-50 text-green-800 p-2 rounded whitespace-pre-wrap">
+                                    {change.after ? `Q: ${change.after.question}\nA: ${change.after.answer}` : '—'}
+                                  </pre>
+                                </div>
+                              )}
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
         </div>
       </div>
     </div>
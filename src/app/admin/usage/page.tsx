@@ -0,0 +1,250 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface BudgetStatus {
+  monthlyBudgetUsd: number | null;
+  autopilotMonthlyBudgetUsd: number | null;
+  spentUsd: number;
+  autopilotSpentUsd: number;
+  exceeded: boolean;
+  reason: string | null;
+}
+
+interface MonthlySpend extends UsageTotals {
+  month: string;
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+  bySource: Array<UsageTotals & { source: string }>;
+  byDay: Array<{ date: string; costUsd: number; calls: number }>;
+  topJobs: Array<UsageTotals & { jobId: string }>;
+  budget: BudgetStatus;
+}
+
+function formatUsd(value: number): string {
+  return value < 1 ? `$${value.toFixed(4)}` : `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  if (value >= 1_000_000) return `${(value / 1_000_000).toFixed(1)}M`;
+  if (value >= 1_000) return `${(value / 1_000).toFixed(1)}K`;
+  return String(value);
+}
+
+function shiftMonth(month: string, delta: number): string {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthIndex - 1 + delta, 1)).toISOString().slice(0, 7);
+}
+
+function BudgetBar({ label, spent, budget }: { label: string; spent: number; budget: number | null }) {
+  const percent = budget ? Math.min(100, (spent / budget) * 100) : 0;
+  const color = percent >= 100 ? 'bg-red-500' : percent >= 80 ? 'bg-yellow-500' : 'bg-green-500';
+
+  return (
+    <div>
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-700">{label}</span>
+        <span className="text-gray-500">
+          {formatUsd(spent)} {budget !== null ? `of ${formatUsd(budget)}` : '(no cap)'}
+        </span>
+      </div>
+      {budget !== null && (
+        <div className="mt-1 h-2 rounded-full bg-gray-200">
+          <div className={`h-2 rounded-full ${color}`} style={{ width: `${percent}%` }} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function UsagePage() {
+  const [month, setMonth] = useState(() => new Date().toISOString().slice(0, 7));
+  const [spend, setSpend] = useState<MonthlySpend | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchUsage(month);
+  }, [month]);
+
+  async function fetchUsage(selectedMonth: string) {
+    setLoading(true);
+    try {
+      const res = await fetch(`/api/usage?month=${selectedMonth}`);
+      const data = await res.json();
+      setSpend(data.spend ?? null);
+    } catch (error) {
+      console.error('Failed to fetch usage:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const maxDailyCost = spend ? Math.max(0, ...spend.byDay.map((d) => d.costUsd)) : 0;
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">AI Usage</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Token usage and estimated cost of every AI call, by model, source and autopilot job (UTC months).
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 flex items-center gap-2">
+          <button
+            onClick={() => setMonth(shiftMonth(month, -1))}
+            className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            ←
+          </button>
+          <span className="w-20 text-center text-sm font-medium text-gray-900">{month}</span>
+          <button
+            onClick={() => setMonth(shiftMonth(month, 1))}
+            className="rounded-md border border-gray-300 bg-white px-3 py-2 text-sm text-gray-700 hover:bg-gray-50"
+          >
+            →
+          </button>
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="p-8 text-center text-gray-500">Loading...</div>
+      ) : !spend ? (
+        <div className="p-8 text-center text-gray-500">Failed to load usage</div>
+      ) : (
+        <div className="mt-8 space-y-8">
+          {/* Totals */}
+          <div className="grid grid-cols-1 gap-5 sm:grid-cols-3">
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Estimated Cost</dt>
+              <dd className="mt-1 text-2xl font-semibold text-gray-900">{formatUsd(spend.costUsd)}</dd>
+            </div>
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Calls</dt>
+              <dd className="mt-1 text-2xl font-semibold text-gray-900">{spend.calls}</dd>
+            </div>
+            <div className="bg-white shadow rounded-lg p-5">
+              <dt className="text-sm font-medium text-gray-500">Tokens (in / out)</dt>
+              <dd className="mt-1 text-2xl font-semibold text-gray-900">
+                {formatTokens(spend.inputTokens)} / {formatTokens(spend.outputTokens)}
+              </dd>
+            </div>
+          </div>
+
+          {/* Budgets */}
+          <div className="bg-white shadow rounded-lg p-5 space-y-4">
+            <h2 className="text-lg font-medium text-gray-900">Budgets</h2>
+            {spend.budget.exceeded && (
+              <div className="rounded-md bg-red-50 p-3 text-sm text-red-700">
+                {spend.budget.reason}. New autopilot jobs are blocked until next month.
+              </div>
+            )}
+            <BudgetBar label="All AI usage" spent={spend.budget.spentUsd} budget={spend.budget.monthlyBudgetUsd} />
+            <BudgetBar
+              label="Autopilot"
+              spent={spend.budget.autopilotSpentUsd}
+              budget={spend.budget.autopilotMonthlyBudgetUsd}
+            />
+          </div>
+
+          {/* Daily spend */}
+          {spend.byDay.length > 0 && (
+            <div className="bg-white shadow rounded-lg p-5">
+              <h2 className="text-lg font-medium text-gray-900">Daily Spend</h2>
+              <div className="mt-4 flex h-32 items-end gap-1">
+                {spend.byDay.map((day) => (
+                  <div
+                    key={day.date}
+                    title={`${day.date}: ${formatUsd(day.costUsd)} (${day.calls} calls)`}
+                    className="flex-1 rounded-t bg-indigo-500"
+                    style={{ height: `${maxDailyCost > 0 ? Math.max(2, (day.costUsd / maxDailyCost) * 100) : 2}%` }}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* By model */}
+          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+            <table className="min-w-full divide-y divide-gray-300">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Model</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Calls</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Input</th>
+                  <th className="px-3 py-3 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Output</th>
+                  <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200 bg-white">
+                {spend.byModel.length === 0 ? (
+                  <tr>
+                    <td colSpan={5} className="py-6 text-center text-sm text-gray-500">No AI calls this month</td>
+                  </tr>
+                ) : (
+                  spend.byModel.map((row) => (
+                    <tr key={`${row.provider}:${row.model}`}>
+                      <td className="py-3 pl-4 pr-3 text-sm">
+                        <div className="font-medium text-gray-900">{row.model}</div>
+                        <div className="text-xs text-gray-500">{row.provider}</div>
+                      </td>
+                      <td className="px-3 py-3 text-right text-sm text-gray-700">{row.calls}</td>
+                      <td className="px-3 py-3 text-right text-sm text-gray-700">{formatTokens(row.inputTokens)}</td>
+                      <td className="px-3 py-3 text-right text-sm text-gray-700">{formatTokens(row.outputTokens)}</td>
+                      <td className="py-3 pl-3 pr-4 text-right text-sm font-medium text-gray-900">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="grid grid-cols-1 gap-8 lg:grid-cols-2">
+            {/* By source */}
+            <div className="bg-white shadow rounded-lg p-5">
+              <h2 className="text-lg font-medium text-gray-900">By Source</h2>
+              <ul className="mt-3 divide-y divide-gray-100">
+                {spend.bySource.map((row) => (
+                  <li key={row.source} className="flex justify-between py-2 text-sm">
+                    <span className="text-gray-700">{row.source}</span>
+                    <span className="text-gray-900">
+                      {formatUsd(row.costUsd)} <span className="text-gray-400">· {row.calls} calls</span>
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Most expensive jobs */}
+            <div className="bg-white shadow rounded-lg p-5">
+              <h2 className="text-lg font-medium text-gray-900">Most Expensive Jobs</h2>
+              <ul className="mt-3 divide-y divide-gray-100">
+                {spend.topJobs.length === 0 ? (
+                  <li className="py-2 text-sm text-gray-500">No autopilot jobs this month</li>
+                ) : (
+                  spend.topJobs.map((job) => (
+                    <li key={job.jobId} className="flex justify-between py-2 text-sm">
+                      <span className="font-mono text-xs text-gray-600">{job.jobId.slice(0, 8)}</span>
+                      <span className="text-gray-900">
+                        {formatUsd(job.costUsd)}{' '}
+                        <span className="text-gray-400">
+                          · {formatTokens(job.inputTokens + job.outputTokens)} tokens
+                        </span>
+                      </span>
+                    </li>
+                  ))
+                )}
+              </ul>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+type UserRole = 'writer' | 'editor' | 'publisher' | 'admin';
+
+interface User {
+  id: string;
+  email: string;
+  name: string;
+  role: UserRole;
+  active: boolean;
+  lastLoginAt: string | null;
+  createdAt: string;
+}
+
+const ROLES: UserRole[] = ['writer', 'editor', 'publisher', 'admin'];
+
+const roleDescriptions: Record<UserRole, string> = {
+  writer: 'Write and edit drafts',
+  editor: 'Run autopilot, approve topics, import content',
+  publisher: 'Publish and schedule posts',
+  admin: 'Manage users and AI spend',
+};
+
+const emptyForm = { email: '', name: '', role: 'writer' as UserRole, password: '' };
+
+export default function UsersPage() {
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchUsers();
+  }, []);
+
+  async function fetchUsers() {
+    try {
+      const res = await fetch('/api/users');
+      const data = await res.json();
+      setUsers(data.users || []);
+    } catch (error) {
+      console.error('Failed to fetch users:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleCreate(e: React.FormEvent) {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/users', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to create user');
+      }
+
+      setFormData(emptyForm);
+      setShowForm(false);
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function updateUser(id: string, changes: Partial<{ role: UserRole; active: boolean; password: string }>) {
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/users/${id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes),
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || 'Failed to update user');
+      }
+
+      await fetchUsers();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    }
+  }
+
+  function resetPassword(user: User) {
+    const password = prompt(`New password for ${user.email} (at least 10 characters):`);
+    if (password) {
+      updateUser(user.id, { password });
+    }
+  }
+
+  return (
+    <div className="px-4 sm:px-0">
+      <div className="sm:flex sm:items-center">
+        <div className="sm:flex-auto">
+          <h1 className="text-2xl font-semibold text-gray-900">Users</h1>
+          <p className="mt-2 text-sm text-gray-700">
+            Who can sign in and what they can do. Changing a role, deactivating or resetting a
+            password signs the user out everywhere.
+          </p>
+        </div>
+        <div className="mt-4 sm:mt-0 sm:ml-16 sm:flex-none">
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className="inline-flex items-center justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700"
+          >
+            {showForm ? 'Cancel' : 'New User'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="mt-6 bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="mt-6 bg-white shadow sm:rounded-lg">
+          <div className="px-6 py-5 grid grid-cols-1 gap-6 sm:grid-cols-2">
+            <div>
+              <label htmlFor="name" className="block text-sm font-medium text-gray-700">
+                Name
+              </label>
+              <input
+                type="text"
+                id="name"
+                required
+                maxLength={100}
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border px-3 py-2"
+              />
+            </div>
+            <div>
+              <label htmlFor="email" className="block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                type="email"
+                id="email"
+                required
+                value={formData.email}
+                onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border px-3 py-2"
+              />
+            </div>
+            <div>
+              <label htmlFor="role" className="block text-sm font-medium text-gray-700">
+                Role
+              </label>
+              <select
+                id="role"
+                value={formData.role}
+                onChange={(e) => setFormData({ ...formData, role: e.target.value as UserRole })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border px-3 py-2"
+              >
+                {ROLES.map((role) => (
+                  <option key={role} value={role}>
+                    {role} - {roleDescriptions[role]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                Initial Password
+              </label>
+              <input
+                type="password"
+                id="password"
+                required
+                minLength={10}
+                autoComplete="new-password"
+                value={formData.password}
+                onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                className="mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm border px-3 py-2"
+              />
+            </div>
+          </div>
+          <div className="px-6 py-4 bg-gray-50 flex justify-end sm:rounded-b-lg">
+            <button
+              type="submit"
+              disabled={saving}
+              className="inline-flex justify-center rounded-md border border-transparent bg-indigo-600 px-4 py-2 text-sm font-medium text-white shadow-sm hover:bg-indigo-700 disabled:opacity-50"
+            >
+              {saving ? 'Creating...' : 'Create User'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="mt-8 overflow-hidden shadow ring-1 ring-black ring-opacity-5 sm:rounded-lg">
+        {loading ? (
+          <div className="p-8 text-center text-gray-500">Loading...</div>
+        ) : users.length === 0 ? (
+          <div className="p-8 text-center text-gray-500">No users yet</div>
+        ) : (
+          <table className="min-w-full divide-y divide-gray-300">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="py-3 pl-4 pr-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">User</th>
+                <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Role</th>
+                <th className="px-3 py-3 text-left text-xs font-medium uppercase tracking-wide text-gray-500">Last Sign-in</th>
+                <th className="py-3 pl-3 pr-4 text-right text-xs font-medium uppercase tracking-wide text-gray-500">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200 bg-white">
+              {users.map((user) => (
+                <tr key={user.id} className={user.active ? '' : 'opacity-50'}>
+                  <td className="py-3 pl-4 pr-3 text-sm">
+                    <div className="font-medium text-gray-900">{user.name}</div>
+                    <div className="text-gray-500">{user.email}</div>
+                  </td>
+                  <td className="px-3 py-3 text-sm">
+                    <select
+                      value={user.role}
+                      onChange={(e) => updateUser(user.id, { role: e.target.value as UserRole })}
+                      className="rounded-md border border-gray-300 px-2 py-1 text-sm"
+                    >
+                      {ROLES.map((role) => (
+                        <option key={role} value={role}>{role}</option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className="px-3 py-3 text-sm text-gray-500">
+                    {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                  </td>
+                  <td className="py-3 pl-3 pr-4 text-right text-sm space-x-3">
+                    <button
+                      onClick={() => resetPassword(user)}
+                      className="text-indigo-600 hover:text-indigo-900"
+                    >
+                      Reset password
+                    </button>
+                    <button
+                      onClick={() => updateUser(user.id, { active: !user.active })}
+                      className={user.active ? 'text-red-600 hover:text-red-900' : 'text-green-600 hover:text-green-900'}
+                    >
+                      {user.active ? 'Deactivate' : 'Reactivate'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+}
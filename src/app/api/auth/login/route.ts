@@ -0,0 +1,68 @@
+/**
+ * Login API
+ *
+ * POST /api/auth/login - Check credentials and set the session cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { signIn, SESSION_COOKIE } from '@/lib/auth/session';
+import { getAuthConfig } from '@/lib/config/env';
+
+const LoginSchema = z.object({
+  email: z.string().email().max(255),
+  password: z.string().min(1).max(200),
+});
+
+/**
+ * POST /api/auth/login
+ * Sign in with email and password
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = LoginSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const session = await signIn(
+      parsed.data.email,
+      parsed.data.password,
+      request.headers.get('user-agent')
+    );
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Invalid email or password' },
+        { status: 401 }
+      );
+    }
+
+    const { user, token, expiresAt } = session;
+    const response = NextResponse.json({
+      user: { id: user.id, email: user.email, name: user.name, role: user.role },
+      expiresAt: expiresAt.toISOString(),
+    });
+
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: getAuthConfig().secureCookies,
+      path: '/',
+      expires: expiresAt,
+    });
+
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign in' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Logout API
+ *
+ * POST /api/auth/logout - End the current session and clear the cookie
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { signOut, SESSION_COOKIE } from '@/lib/auth/session';
+
+/**
+ * POST /api/auth/logout
+ * Sign out. Plain form posts (the admin nav) are redirected to /login.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const token = request.cookies.get(SESSION_COOKIE)?.value;
+    if (token) {
+      await signOut(token);
+    }
+
+    const contentType = request.headers.get('content-type') ?? '';
+    const response = contentType.includes('application/json')
+      ? NextResponse.json({ success: true })
+      : NextResponse.redirect(new URL('/login', request.url), 303);
+
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json(
+      { error: 'Failed to sign out' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Current User API
+ *
+ * GET /api/auth/me - The signed-in user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authorizeRequest } from '@/lib/auth/session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/auth/me
+ * Get the user the request is authenticated as
+ */
+export async function GET(request: NextRequest) {
+  const auth = await authorizeRequest(request);
+  if (!auth.user) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  return NextResponse.json({ user: auth.user });
+}
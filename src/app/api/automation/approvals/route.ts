@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getJobsAwaitingApproval } from '@/lib/automation/approval';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/automation/approvals
+ * Jobs paused for topic approval
+ */
+export async function GET() {
+  try {
+    const jobs = await getJobsAwaitingApproval();
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map((job) => ({
+        id: job.id,
+        mode: job.mode,
+        triggeredBy: job.triggeredBy,
+        scheduleId: job.scheduleId,
+        createdAt: job.createdAt,
+        approval: job.approval,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to list jobs awaiting approval:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
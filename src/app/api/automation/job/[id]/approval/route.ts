@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  decideApproval,
+  ApprovalDecisionSchema,
+  ApprovalError,
+} from '@/lib/automation/approval';
+import { authorizeRequest } from '@/lib/auth/session';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/automation/job/[id]/approval
+ * Approve one of a paused job's topics (optionally editing it) or reject them all
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const auth = await authorizeRequest(request, 'editor');
+    if (!auth.user) {
+      return NextResponse.json({ success: false, error: auth.error }, { status: auth.status });
+    }
+
+    const body = await request.json();
+
+    const parsed = ApprovalDecisionSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    // Record who decided, not whatever the client claims
+    const job = await decideApproval(id, { ...parsed.data, decidedBy: auth.user.email });
+
+    return NextResponse.json({
+      success: true,
+      job: {
+        id: job.id,
+        status: job.status,
+        approval: job.approval,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ApprovalError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'INVALID_CANDIDATE' ? 400 : 409;
+      return NextResponse.json(
+        { success: false, error: error.message, code: error.code },
+        { status }
+      );
+    }
+
+    console.error('Failed to record approval:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
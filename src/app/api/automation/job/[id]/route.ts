@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getJob, cancelJob } from '@/lib/automation/auto-writer';
+import { getJobCostSummary } from '@/lib/ai/usage/ledger';
 
 export const dynamic = 'force-dynamic';
 
@@ -22,6 +23,8 @@ export async function GET(
       );
     }
 
+    const cost = await getJobCostSummary(job.id);
+
     return NextResponse.json({
       success: true,
       job: {
@@ -33,7 +36,15 @@ export async function GET(
         totalSteps: job.totalSteps,
         result: job.result,
         errorMessage: job.errorMessage,
+        requireApproval: job.requireApproval,
+        approval: job.approval,
+        attempts: job.attempts,
+        maxAttempts: job.maxAttempts,
+        nextAttemptAt: job.nextAttemptAt,
+        workerId: job.workerId,
+        heartbeatAt: job.heartbeatAt,
         logs: job.logs,
+        cost,
         createdAt: job.createdAt,
         startedAt: job.startedAt,
         completedAt: job.completedAt,
@@ -53,7 +64,7 @@ export async function GET(
 
 /**
  * DELETE /api/automation/job/[id]
- * Cancel a running or pending job
+ * Cancel a pending, running or awaiting-approval job
  */
 export async function DELETE(
   request: NextRequest,
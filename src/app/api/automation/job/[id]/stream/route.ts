@@ -1,12 +1,29 @@
 import { NextRequest } from 'next/server';
-import { getJob } from '@/lib/automation/auto-writer';
+import {
+  getJob,
+  getJobProgress,
+  getJobLogsSince,
+  type JobProgressSnapshot,
+} from '@/lib/automation/auto-writer';
+import { getJobCostSummary } from '@/lib/ai/usage/ledger';
+import { subscribeToJobEvents, type JobEvent } from '@/lib/events';
+import type { AutopilotJobStatus } from '@/lib/db/schema';
 
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
+// Statuses after which the stream sends its final event and closes
+const TERMINAL_STATUSES: AutopilotJobStatus[] = ['completed', 'failed', 'cancelled', 'dead_letter'];
+
+// Heartbeat, plus a cheap status check in case a notification was missed
+const RECONCILE_INTERVAL_MS = 15000;
+
 /**
  * GET /api/automation/job/[id]/stream
- * Server-Sent Events stream for real-time job updates
+ * Server-Sent Events stream for real-time job updates. Updates are pushed
+ * from the job event bus as they're published; log events carry their
+ * position in the stored logs as the event ID, so a reconnect with
+ * Last-Event-ID replays only the entries the client missed.
  */
 export async function GET(
   request: NextRequest,
@@ -16,10 +33,10 @@ export async function GET(
 
   // Get Last-Event-ID for reconnection support
   const lastEventId = request.headers.get('Last-Event-ID');
-  const startFromLog = lastEventId ? parseInt(lastEventId, 10) : 0;
+  const startFromLog = Math.max(0, parseInt(lastEventId ?? '0', 10) || 0);
 
   // Check if job exists
-  const initialJob = await getJob(id);
+  const initialJob = await getJobProgress(id);
   if (!initialJob) {
     return new Response('Job not found', { status: 404 });
   }
@@ -28,116 +45,177 @@ export async function GET(
   const stream = new ReadableStream({
     async start(controller) {
       const encoder = new TextEncoder();
-      let eventId = startFromLog;
+      let closed = false;
+      let finished = false;
+      let lastLogSent = startFromLog;
+      let progress = toProgress(initialJob);
+
+      // Helper to send SSE event; log events carry their log position as ID
+      const sendEvent = (event: string, data: unknown, eventId?: number) => {
+        if (closed) return;
+        const idLine = eventId !== undefined ? `id: ${eventId}\n` : '';
+        controller.enqueue(encoder.encode(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`));
+      };
 
-      // Helper to send SSE event with incremental ID
-      const sendEvent = (event: string, data: unknown) => {
-        eventId++;
-        const message = `id: ${eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
-        controller.enqueue(encoder.encode(message));
+      let reconcileInterval: ReturnType<typeof setInterval> | undefined;
+      let unsubscribe: (() => Promise<void>) | undefined;
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(reconcileInterval);
+        unsubscribe?.().catch(() => {});
+        controller.close();
       };
 
-      // Helper to send heartbeat (comment line)
-      const sendHeartbeat = () => {
-        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      // Send stored log entries the client hasn't seen
+      const catchUpLogs = async () => {
+        const logs = await getJobLogsSince(id, lastLogSent);
+        for (const log of logs) {
+          lastLogSent++;
+          sendEvent('log', log, lastLogSent);
+        }
       };
 
-      // Send initial state
-      sendEvent('connected', { jobId: id, reconnected: startFromLog > 0 });
+      // Final events, then close
+      const finishIfDone = async (status: AutopilotJobStatus) => {
+        if (finished) return;
 
-      let lastLogCount = startFromLog;
-      let isComplete = false;
-      let lastHeartbeat = Date.now();
+        // Paused for an editor - hand over the candidates and stop streaming;
+        // the client reconnects once a topic is approved
+        if (status === 'awaiting_approval') {
+          finished = true;
+          const job = await getJob(id);
+          sendEvent('awaiting_approval', { status, approval: job?.approval ?? null });
+          setTimeout(close, 500);
+          return;
+        }
 
-      // Heartbeat interval (every 20 seconds)
-      const heartbeatInterval = setInterval(() => {
-        const now = Date.now();
-        if (now - lastHeartbeat >= 20000) {
-          sendHeartbeat();
-          lastHeartbeat = now;
+        if (!TERMINAL_STATUSES.includes(status)) return;
+        finished = true;
+
+        const job = await getJob(id);
+        if (!job) {
+          sendEvent('error', { message: 'Job not found' });
+          close();
+          return;
         }
-      }, 20000);
 
-      // Poll for updates
-      const pollInterval = setInterval(async () => {
-        try {
-          const job = await getJob(id);
+        // Calculate duration
+        const startedAt = job.startedAt ? new Date(job.startedAt).getTime() : null;
+        const completedAt = job.completedAt ? new Date(job.completedAt).getTime() : Date.now();
+        const durationMs = startedAt ? completedAt - startedAt : undefined;
+
+        // Count validation warnings
+        const validationWarningsCount = job.result?.validationIssues?.length ?? 0;
+
+        const cost = await getJobCostSummary(id);
+
+        sendEvent('complete', {
+          status: job.status,
+          result: job.result,
+          errorMessage: job.errorMessage,
+          meta: {
+            mode: job.mode,
+            durationMs,
+            validationWarningsCount,
+            costUsd: cost.costUsd,
+            inputTokens: cost.inputTokens,
+            outputTokens: cost.outputTokens,
+          },
+        });
+
+        // Keep connection open briefly to ensure client receives final event
+        setTimeout(close, 500);
+      };
 
-          if (!job) {
-            sendEvent('error', { message: 'Job not found' });
-            clearInterval(pollInterval);
-            clearInterval(heartbeatInterval);
-            controller.close();
-            return;
-          }
-
-          // Send new logs
-          if (job.logs.length > lastLogCount) {
-            const newLogs = job.logs.slice(lastLogCount);
-            for (const log of newLogs) {
-              sendEvent('log', log);
-            }
-            lastLogCount = job.logs.length;
-          }
-
-          // Send progress update
-          sendEvent('progress', {
-            status: job.status,
-            currentStep: job.currentStep,
-            completedSteps: job.completedSteps,
-            totalSteps: job.totalSteps,
-          });
-
-          // Check if job is complete
-          if (
-            job.status === 'completed' ||
-            job.status === 'failed' ||
-            job.status === 'cancelled'
-          ) {
-            if (!isComplete) {
-              isComplete = true;
-
-              // Calculate duration
-              const startedAt = job.startedAt ? new Date(job.startedAt).getTime() : null;
-              const completedAt = job.completedAt ? new Date(job.completedAt).getTime() : Date.now();
-              const durationMs = startedAt ? completedAt - startedAt : undefined;
-
-              // Count validation warnings
-              const validationWarningsCount = job.result?.validationIssues?.length ?? 0;
-
-              sendEvent('complete', {
-                status: job.status,
-                result: job.result,
-                errorMessage: job.errorMessage,
-                meta: {
-                  mode: job.mode,
-                  durationMs,
-                  validationWarningsCount,
-                },
-              });
-
-              // Keep connection open briefly to ensure client receives final event
-              setTimeout(() => {
-                clearInterval(pollInterval);
-                clearInterval(heartbeatInterval);
-                controller.close();
-              }, 500);
+      const handleEvent = async (event: JobEvent) => {
+        if (closed || finished) return;
+
+        switch (event.type) {
+          case 'log':
+            // A gap or a dropped payload means the entries come from the table
+            if (event.truncated || event.seq === undefined || event.seq > lastLogSent + 1) {
+              await catchUpLogs();
+            } else if (event.seq === lastLogSent + 1) {
+              lastLogSent = event.seq;
+              sendEvent('log', event.data, lastLogSent);
             }
-          }
-        } catch (error) {
-          console.error('SSE poll error:', error);
-          sendEvent('error', {
-            message: error instanceof Error ? error.message : 'Unknown error',
-          });
+            break;
+
+          case 'progress':
+            progress = { ...progress, ...(event.data as Partial<JobProgress>) };
+            sendEvent('progress', progress);
+            break;
+
+          case 'status':
+            progress = { ...progress, ...(event.data as Partial<JobProgress>) };
+            sendEvent('progress', progress);
+            await catchUpLogs();
+            await finishIfDone(progress.status);
+            break;
         }
-      }, 1000); // Poll every second
+      };
+
+      // Handle events one at a time, in the order they arrive
+      let queue = Promise.resolve();
+      const enqueue = (event: JobEvent) => {
+        queue = queue.then(() => handleEvent(event)).catch((error) => {
+          console.error('SSE event error:', error);
+          sendEvent('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        });
+      };
 
       // Handle client disconnect
-      request.signal.addEventListener('abort', () => {
-        clearInterval(pollInterval);
-        clearInterval(heartbeatInterval);
-        controller.close();
-      });
+      request.signal.addEventListener('abort', close);
+
+      try {
+        // Subscribe before replaying so nothing published in between is lost;
+        // events queue behind the replay
+        let replayed: () => void = () => {};
+        queue = new Promise<void>((resolve) => (replayed = resolve));
+
+        const subscription = await subscribeToJobEvents('autopilot', id, enqueue);
+        unsubscribe = subscription.unsubscribe;
+        if (closed) {
+          await subscription.unsubscribe();
+          return;
+        }
+
+        // Send initial state
+        sendEvent('connected', { jobId: id, reconnected: startFromLog > 0 });
+        const current = await getJobProgress(id);
+        if (current) progress = toProgress(current);
+        await catchUpLogs();
+        sendEvent('progress', progress);
+        await finishIfDone(progress.status);
+        replayed();
+
+        reconcileInterval = setInterval(() => {
+          if (closed || finished) return;
+          controller.enqueue(encoder.encode(': heartbeat\n\n'));
+
+          queue = queue
+            .then(async () => {
+              const latest = await getJobProgress(id);
+              if (!latest || closed || finished) return;
+
+              if (latest.logCount > lastLogSent) await catchUpLogs();
+              if (latest.status !== progress.status || latest.completedSteps !== progress.completedSteps) {
+                progress = toProgress(latest);
+                sendEvent('progress', progress);
+                await finishIfDone(progress.status);
+              }
+            })
+            .catch((error) => console.error('SSE reconcile error:', error));
+        }, RECONCILE_INTERVAL_MS);
+      } catch (error) {
+        console.error('SSE setup error:', error);
+        sendEvent('error', {
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        close();
+      }
     },
   });
 
@@ -150,3 +228,16 @@ export async function GET(
     },
   });
 }
+
+type JobProgress = Omit<JobProgressSnapshot, 'logCount'>;
+
+function toProgress(snapshot: JobProgressSnapshot): JobProgress {
+  return {
+    status: snapshot.status,
+    currentStep: snapshot.currentStep,
+    completedSteps: snapshot.completedSteps,
+    totalSteps: snapshot.totalSteps,
+    attempts: snapshot.attempts,
+    nextAttemptAt: snapshot.nextAttemptAt,
+  };
+}
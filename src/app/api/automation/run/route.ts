@@ -4,9 +4,12 @@ import {
   createJob,
   processJob,
   getJob,
+  getRunningJobs,
   type CreateJobOptions,
 } from '@/lib/automation/auto-writer';
 import { isAutopilotEnabled, getAutopilotConfig } from '@/lib/config/env';
+import { authorizeRequest } from '@/lib/auth/session';
+import { RefreshError } from '@/lib/performance/refresh';
 
 // Allow this to run for up to 60 seconds (Vercel Hobby limit is 10s, Pro is 60s)
 export const maxDuration = 60;
@@ -24,6 +27,7 @@ interface ApiResponse {
     postTitle?: string;
     topic?: string;
     collection?: string;
+    awaitingApproval?: boolean;
   };
   logs?: Array<{
     timestamp: string;
@@ -34,37 +38,6 @@ interface ApiResponse {
   error?: string;
 }
 
-/**
- * Validate authorization
- */
-function validateAuth(request: NextRequest): { valid: boolean; user?: string; error?: string } {
-  const config = getAutopilotConfig();
-
-  // Check for admin secret header (for API/cron access)
-  const authHeader = request.headers.get('x-autopilot-secret');
-  if (authHeader && config.adminSecret) {
-    if (authHeader === config.adminSecret) {
-      return { valid: true, user: 'api' };
-    }
-    return { valid: false, error: 'Invalid admin secret' };
-  }
-
-  // TODO: Add session-based auth check here
-  // For now, allow requests in development without secret
-  if (process.env.NODE_ENV === 'development') {
-    return { valid: true, user: 'dev' };
-  }
-
-  // In production without secret configured, allow (for testing)
-  // You should configure AUTOPILOT_ADMIN_SECRET in production!
-  if (!config.adminSecret) {
-    console.warn('AUTOPILOT_ADMIN_SECRET not configured - allowing unauthenticated access');
-    return { valid: true, user: 'anonymous' };
-  }
-
-  return { valid: false, error: 'Authentication required' };
-}
-
 /**
  * POST /api/automation/run
  * Creates a job and optionally processes it immediately
@@ -84,9 +57,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate auth
-    const auth = validateAuth(request);
-    if (!auth.valid) {
-      return respond({ success: false, error: auth.error }, 401);
+    const auth = await authorizeRequest(request, 'editor');
+    if (!auth.user) {
+      return respond({ success: false, error: auth.error }, auth.status);
     }
 
     // Parse request body
@@ -95,7 +68,9 @@ export async function POST(request: NextRequest) {
       collectionHandle?: string;
       targetWordCount?: number;
       idempotencyKey?: string;
-      async?: boolean; // If true, return immediately after creating job
+      requireApproval?: boolean; // Pause after topic scoring for an editor to pick a topic
+      ideaId?: string; // Refresh idea: regenerate its sections instead of writing a new post
+      async?: boolean; // If true, queue the job for the worker and return immediately
     } = {};
 
     try {
@@ -116,15 +91,17 @@ export async function POST(request: NextRequest) {
       mode: body.mode || 'full',
       collectionHandle: body.collectionHandle,
       targetWordCount: body.targetWordCount,
-      triggeredBy: auth.user,
+      triggeredBy: auth.user.email,
       idempotencyKey,
       requestId,
+      requireApproval: body.requireApproval,
+      ideaId: body.ideaId,
     };
 
     // Create the job
     const job = await createJob(options);
 
-    // If async mode, return immediately
+    // If async mode, leave it for the worker (scripts/autopilot-worker.ts)
     if (body.async) {
       return respond({
         success: true,
@@ -132,6 +109,15 @@ export async function POST(request: NextRequest) {
       }, 202);
     }
 
+    // Don't exceed the concurrency limit inline - the worker will pick it up
+    const runningJobs = await getRunningJobs();
+    if (runningJobs.length >= getAutopilotConfig().maxConcurrentJobs) {
+      return respond({
+        success: true,
+        jobId: job.id,
+      }, 202);
+    }
+
     // Process the job synchronously
     const result = await processJob(job.id);
 
@@ -146,10 +132,16 @@ export async function POST(request: NextRequest) {
         postTitle: result.postTitle,
         topic: result.topic,
         collection: result.collection,
+        awaitingApproval: result.awaitingApproval,
       },
       logs: updatedJob?.logs || [],
     });
   } catch (error) {
+    if (error instanceof RefreshError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'CONFLICT' ? 409 : 400;
+      return respond({ success: false, error: error.message }, status);
+    }
+
     console.error('Autopilot failed:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -157,7 +149,7 @@ export async function POST(request: NextRequest) {
     // Determine appropriate status code
     let status = 500;
     if (errorMessage.includes('Rate limit')) status = 429;
-    if (errorMessage.includes('Max concurrent')) status = 429;
+    if (errorMessage.includes('budget exceeded')) status = 402;
     if (errorMessage.includes('disabled')) status = 503;
 
     return respond({ success: false, error: errorMessage }, status);
@@ -0,0 +1,169 @@
+/**
+ * Single Autopilot Schedule API
+ *
+ * GET /api/automation/schedules/[id] - Get schedule with recent jobs
+ * PATCH /api/automation/schedules/[id] - Update schedule
+ * DELETE /api/automation/schedules/[id] - Delete schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { autopilotJobs, autopilotSchedules } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { CronParseError, getNextRunAt } from '@/lib/automation/cron';
+import { ScheduleSchema } from '@/lib/automation/scheduler';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+const UpdateScheduleSchema = ScheduleSchema.partial();
+
+/**
+ * GET /api/automation/schedules/[id]
+ * Get a schedule and the jobs it has enqueued
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const schedule = await db.query.autopilotSchedules.findFirst({
+      where: eq(autopilotSchedules.id, id),
+      with: {
+        author: { columns: { id: true, name: true } },
+        jobs: {
+          columns: {
+            id: true,
+            status: true,
+            mode: true,
+            collectionHandle: true,
+            blogPostId: true,
+            errorMessage: true,
+            createdAt: true,
+            completedAt: true,
+          },
+          orderBy: (jobs, { desc }) => [desc(jobs.createdAt)],
+          limit: 20,
+        },
+      },
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    console.error('Error getting schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to get schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH /api/automation/schedules/[id]
+ * Update a schedule. Changing the cron expression or re-enabling it
+ * recomputes the next run from now.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const existing = await db.query.autopilotSchedules.findFirst({
+      where: eq(autopilotSchedules.id, id),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const parsed = UpdateScheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+    const enabled = data.enabled ?? existing.enabled;
+    const cronExpression = data.cronExpression ?? existing.cronExpression;
+
+    let nextRunAt = existing.nextRunAt;
+    if (!enabled) {
+      nextRunAt = null;
+    } else if (!existing.enabled || cronExpression !== existing.cronExpression || !nextRunAt) {
+      nextRunAt = getNextRunAt(cronExpression);
+    }
+
+    const [schedule] = await db
+      .update(autopilotSchedules)
+      .set({
+        ...data,
+        nextRunAt,
+        updatedAt: new Date(),
+      })
+      .where(eq(autopilotSchedules.id, id))
+      .returning();
+
+    return NextResponse.json({ schedule });
+  } catch (error) {
+    if (error instanceof CronParseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error updating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/automation/schedules/[id]
+ * Delete a schedule. Jobs it created are kept.
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const existing = await db.query.autopilotSchedules.findFirst({
+      where: eq(autopilotSchedules.id, id),
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    await db
+      .update(autopilotJobs)
+      .set({ scheduleId: null })
+      .where(eq(autopilotJobs.scheduleId, id));
+
+    await db.delete(autopilotSchedules).where(eq(autopilotSchedules.id, id));
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Autopilot Schedules API
+ *
+ * GET /api/automation/schedules - List schedules with weekly usage
+ * POST /api/automation/schedules - Create a schedule
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { autopilotSchedules } from '@/lib/db/schema';
+import { CronParseError, getNextRunAt } from '@/lib/automation/cron';
+import { countScheduledPostsThisWeek, ScheduleSchema } from '@/lib/automation/scheduler';
+import { loadProductCollections } from '@/lib/shopify/product-catalog';
+
+/**
+ * GET /api/automation/schedules
+ * List schedules, plus the collections they can target
+ */
+export async function GET() {
+  try {
+    const schedules = await db.query.autopilotSchedules.findMany({
+      with: {
+        author: { columns: { id: true, name: true } },
+      },
+      orderBy: (schedules, { asc }) => [asc(schedules.name)],
+    });
+
+    const withUsage = await Promise.all(
+      schedules.map(async (schedule) => ({
+        ...schedule,
+        postsThisWeek: await countScheduledPostsThisWeek(schedule.id),
+      }))
+    );
+
+    return NextResponse.json({
+      schedules: withUsage,
+      collections: (await loadProductCollections()).map((c) => ({ handle: c.handle, name: c.name })),
+    });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/automation/schedules
+ * Create a schedule. The first run is the next cron tick after now.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = ScheduleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const data = parsed.data;
+
+    const [schedule] = await db
+      .insert(autopilotSchedules)
+      .values({
+        ...data,
+        authorId: data.authorId ?? null,
+        nextRunAt: data.enabled ? getNextRunAt(data.cronExpression) : null,
+      })
+      .returning();
+
+    return NextResponse.json({ schedule }, { status: 201 });
+  } catch (error) {
+    if (error instanceof CronParseError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error creating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
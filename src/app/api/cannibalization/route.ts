@@ -0,0 +1,84 @@
+/**
+ * Keyword Cannibalization API
+ *
+ * GET /api/cannibalization - Groups of posts and ideas competing for the
+ * same query, with a recommended canonical page per group. Read-only:
+ * the semantic check compares embeddings already stored.
+ * POST /api/cannibalization - Embed open ideas that have no embedding yet
+ * (paid), then rebuild the report
+ *
+ * Query params (both methods):
+ *   semantic=false      Skip embedding similarity (keyword checks only)
+ *   minSimilarity=0.9   Cosine similarity at which two pages compete
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { analyzeCannibalization, embedOpenIdeas } from '@/lib/discovery';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/cannibalization
+ * Build the cannibalization report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const options = parseReportOptions(request);
+    if (!options) {
+      return NextResponse.json(
+        { error: 'minSimilarity must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const report = await analyzeCannibalization(options);
+
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error analyzing keyword cannibalization:', error);
+    return NextResponse.json(
+      { error: 'Failed to analyze keyword cannibalization' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/cannibalization
+ * Embed open ideas missing from the semantic check, then rebuild the report
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const options = parseReportOptions(request);
+    if (!options) {
+      return NextResponse.json(
+        { error: 'minSimilarity must be a number between 0 and 1' },
+        { status: 400 }
+      );
+    }
+
+    const embedded = await embedOpenIdeas();
+    const report = await analyzeCannibalization(options);
+
+    return NextResponse.json({ embedded, report });
+  } catch (error) {
+    console.error('Error embedding ideas for cannibalization:', error);
+    return NextResponse.json(
+      { error: 'Failed to embed ideas' },
+      { status: 500 }
+    );
+  }
+}
+
+function parseReportOptions(request: NextRequest): { semantic: boolean; minSimilarity?: number } | null {
+  const { searchParams } = new URL(request.url);
+  const minSimilarityParam = searchParams.get('minSimilarity');
+  const minSimilarity = minSimilarityParam ? Number(minSimilarityParam) : undefined;
+
+  if (minSimilarity !== undefined && (Number.isNaN(minSimilarity) || minSimilarity <= 0 || minSimilarity > 1)) {
+    return null;
+  }
+
+  return { semantic: searchParams.get('semantic') !== 'false', minSimilarity };
+}
@@ -0,0 +1,58 @@
+/**
+ * Single Catalog Entry API
+ *
+ * PATCH /api/catalog/[id] - Edit curated matching fields, kind or active flag
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  updateCatalogEntry,
+  UpdateCatalogEntrySchema,
+  CatalogError,
+} from '@/lib/shopify/product-catalog';
+import { authorizeRequest } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/catalog/[id]
+ * Update a catalog entry. Edited matching terms are kept across syncs.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const auth = await authorizeRequest(request, 'editor');
+    if (!auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body = await request.json();
+
+    const parsed = UpdateCatalogEntrySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const entry = await updateCatalogEntry(id, parsed.data, auth.user.email);
+    return NextResponse.json({ entry });
+  } catch (error) {
+    if (error instanceof CatalogError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    console.error('Error updating catalog entry:', error);
+    return NextResponse.json(
+      { error: 'Failed to update catalog entry' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Product Catalog API
+ *
+ * GET /api/catalog - Every collection in the product catalog
+ */
+
+import { NextResponse } from 'next/server';
+import { listProductCatalog } from '@/lib/shopify/product-catalog';
+import { isShopifyConfigured } from '@/lib/config/env';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/catalog
+ * List catalog entries, including ones no longer in the store
+ */
+export async function GET() {
+  try {
+    const entries = await listProductCatalog();
+
+    return NextResponse.json({
+      configured: isShopifyConfigured(),
+      entries,
+    });
+  } catch (error) {
+    console.error('Error listing product catalog:', error);
+    return NextResponse.json(
+      { error: 'Failed to list product catalog' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Product Catalog Sync API
+ *
+ * POST /api/catalog/sync - Refresh the catalog from Shopify collections
+ */
+
+import { NextResponse } from 'next/server';
+import { syncProductCatalog } from '@/lib/shopify/product-catalog';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * POST /api/catalog/sync
+ * Seed missing collections, then pull names, URLs and product counts from
+ * Shopify. Reports source 'seed' when Shopify couldn't be reached.
+ */
+export async function POST() {
+  try {
+    const result = await syncProductCatalog();
+    return NextResponse.json({ success: true, result });
+  } catch (error) {
+    console.error('Error syncing product catalog:', error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { enqueueDueSchedules } from '@/lib/automation/scheduler';
+import { validateCronAuth } from '@/lib/auth/cron';
+import { isAutopilotEnabled } from '@/lib/config/env';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * Enqueue jobs for due autopilot schedules.
+ * Only enqueues - the autopilot worker processes the jobs.
+ */
+async function tick(request: NextRequest) {
+  const auth = validateCronAuth(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+  }
+
+  if (!isAutopilotEnabled()) {
+    return NextResponse.json({ success: false, error: 'Autopilot is disabled' }, { status: 503 });
+  }
+
+  try {
+    const ticks = await enqueueDueSchedules();
+
+    return NextResponse.json({
+      success: ticks.every((t) => t.outcome !== 'error'),
+      ticks,
+    });
+  } catch (error) {
+    console.error('Autopilot schedule tick failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/autopilot-schedules
+ * Enqueue due schedules (cron entry point)
+ */
+export async function GET(request: NextRequest) {
+  return tick(request);
+}
+
+/**
+ * POST /api/cron/autopilot-schedules
+ * Same as GET, for schedulers that only send POST
+ */
+export async function POST(request: NextRequest) {
+  return tick(request);
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { detectContentDecay } from '@/lib/performance/decay';
+import { validateCronAuth } from '@/lib/auth/cron';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * Scan published posts for decay and file refresh ideas
+ */
+async function scan(request: NextRequest) {
+  const auth = validateCronAuth(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+  }
+
+  try {
+    const dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+    const result = await detectContentDecay({ dryRun, createdBy: 'cron' });
+
+    return NextResponse.json({
+      success: true,
+      scanned: result.scanned,
+      flagged: result.flagged.map((c) => ({
+        postId: c.postId,
+        title: c.title,
+        signals: c.signals,
+        sections: c.refreshBrief.sections.map((s) => s.headingText),
+      })),
+      ideasCreated: result.ideasCreated,
+      skippedExisting: result.skippedExisting,
+      windows: result.windows,
+      dryRun: result.dryRun,
+    });
+  } catch (error) {
+    console.error('Content decay scan failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/content-decay
+ * Flag decaying posts and create refresh ideas (cron entry point).
+ * `?dryRun=true` reports without creating ideas.
+ */
+export async function GET(request: NextRequest) {
+  return scan(request);
+}
+
+/**
+ * POST /api/cron/content-decay
+ * Same as GET, for schedulers that only send POST
+ */
+export async function POST(request: NextRequest) {
+  return scan(request);
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { dispatchScheduledPosts } from '@/lib/publishing/scheduled-dispatcher';
+import { validateCronAuth } from '@/lib/auth/cron';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+/**
+ * Run the scheduled-post dispatcher
+ */
+async function dispatch(request: NextRequest) {
+  const auth = validateCronAuth(request);
+  if (!auth.valid) {
+    return NextResponse.json({ success: false, error: auth.error }, { status: 401 });
+  }
+
+  try {
+    const result = await dispatchScheduledPosts();
+
+    return NextResponse.json({
+      success: result.failed.length === 0 && result.partialFailures.length === 0,
+      ...result,
+    });
+  } catch (error) {
+    console.error('Scheduled publish failed:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * GET /api/cron/publish-scheduled
+ * Publish posts whose scheduledFor has arrived (cron entry point)
+ */
+export async function GET(request: NextRequest) {
+  return dispatch(request);
+}
+
+/**
+ * POST /api/cron/publish-scheduled
+ * Same as GET, for schedulers that only send POST
+ */
+export async function POST(request: NextRequest) {
+  return dispatch(request);
+}
@@ -11,7 +11,15 @@ import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { generateDraft } from '@/lib/ai/generation/drafts';
 import { searchSimilarPosts } from '@/lib/ai/retrieval';
+import { withUsageContext } from '@/lib/ai/usage/context';
 import type { BlogPost as CanonicalBlogPost, Brief } from '@/lib/schema/canonical';
+import {
+  assertTransition,
+  recordStatusChange,
+  transitionIdeaStatus,
+  StatusTransitionError,
+} from '@/lib/workflow/status-machine';
+import { authorizeRequest } from '@/lib/auth/session';
 
 const GenerateDraftSchema = z.object({
   ideaId: z.string().uuid(),
@@ -58,6 +66,9 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Check the workflow before spending tokens on generation
+    assertTransition('idea', idea.status, 'draft');
+
     // Get the author
     const author = await db.query.authors.findFirst({
       where: eq(authors.id, authorId),
@@ -70,13 +81,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const usageContext = { contentIdeaId: ideaId, source: 'drafts' };
+
     // Find similar posts as exemplars
     let exemplarPosts: CanonicalBlogPost[] = [];
     try {
-      const similarResults = await searchSimilarPosts(idea.topic, {
+      const similarResults = await withUsageContext(usageContext, () => searchSimilarPosts(idea.topic, {
         limit: 3,
         minSimilarity: 0.6,
-      });
+      }));
 
       if (similarResults.length > 0) {
         const postIds = similarResults.map((r) => r.postId);
@@ -93,7 +106,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate the draft
-    const draft = await generateDraft({
+    const draft = await withUsageContext(usageContext, () => generateDraft({
       brief: idea.brief as Brief,
       authorInfo: {
         id: author.id,
@@ -106,56 +119,81 @@ export async function POST(request: NextRequest) {
       primaryKeyword: idea.primaryKeyword,
       searchIntent: idea.searchIntent,
       clusterTopicId: idea.clusterTopicId,
-    });
+    }));
+
+    const auth = await authorizeRequest(request);
+    const changedBy = auth.user?.email ?? null;
+
+    // Save the draft, its status audit row and the idea's transition together
+    const newPost = await db.transaction(async (tx) => {
+      const [inserted] = await tx
+        .insert(blogPosts)
+        .values({
+          id: draft.id,
+          slug: draft.slug,
+          source: 'manual',
+          status: 'draft',
+          title: draft.title,
+          summary: draft.summary,
+          heroAnswer: draft.heroAnswer,
+          sections: draft.sections,
+          faq: draft.faq,
+          primaryKeyword: draft.primaryKeyword,
+          secondaryKeywords: draft.secondaryKeywords,
+          searchIntent: draft.searchIntent,
+          metaTitle: draft.metaTitle,
+          metaDescription: draft.metaDescription,
+          canonicalUrl: draft.canonicalUrl,
+          focusQuestions: draft.focusQuestions,
+          internalLinks: draft.internalLinks,
+          authorId: author.id,
+          experienceEvidence: draft.experienceEvidence,
+          ldJsonArticle: draft.ldJsonArticle,
+          ldJsonFaqPage: draft.ldJsonFaqPage,
+          clusterTopicId: idea.clusterTopicId,
+          wordCount: draft.wordCount,
+          readingTimeMins: draft.readingTimeMinutes,
+          aiAssisted: true,
+          aiModel: draft.aiModel,
+        } as typeof blogPosts.$inferInsert)
+        .returning();
+
+      await recordStatusChange(
+        'post',
+        inserted.id,
+        null,
+        'draft',
+        { changedBy, reason: `Drafted from idea ${ideaId}` },
+        tx
+      );
+
+      // Update the idea to reference the post
+      await transitionIdeaStatus(
+        ideaId,
+        'draft',
+        {
+          changedBy,
+          reason: 'Draft generated',
+          set: {
+            blogPostId: inserted.id,
+            updatedAt: new Date(),
+          },
+        },
+        tx
+      );
 
-    // Save the draft to database
-    const [newPost] = await db
-      .insert(blogPosts)
-      .values({
-        id: draft.id,
-        slug: draft.slug,
-        source: 'manual',
-        status: 'draft',
-        title: draft.title,
-        summary: draft.summary,
-        heroAnswer: draft.heroAnswer,
-        sections: draft.sections,
-        faq: draft.faq,
-        primaryKeyword: draft.primaryKeyword,
-        secondaryKeywords: draft.secondaryKeywords,
-        searchIntent: draft.searchIntent,
-        metaTitle: draft.metaTitle,
-        metaDescription: draft.metaDescription,
-        canonicalUrl: draft.canonicalUrl,
-        focusQuestions: draft.focusQuestions,
-        internalLinks: draft.internalLinks,
-        authorId: author.id,
-        experienceEvidence: draft.experienceEvidence,
-        ldJsonArticle: draft.ldJsonArticle,
-        ldJsonFaqPage: draft.ldJsonFaqPage,
-        clusterTopicId: idea.clusterTopicId,
-        wordCount: draft.wordCount,
-        readingTimeMins: draft.readingTimeMinutes,
-        aiAssisted: true,
-        aiModel: draft.aiModel,
-      } as typeof blogPosts.$inferInsert)
-      .returning();
-
-    // Update the idea to reference the post
-    await db
-      .update(contentIdeas)
-      .set({
-        blogPostId: newPost.id,
-        status: 'draft',
-        updatedAt: new Date(),
-      })
-      .where(eq(contentIdeas.id, ideaId));
+      return inserted;
+    });
 
     return NextResponse.json({
       post: newPost,
       ideaId,
     }, { status: 201 });
   } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json(error.toJSON(), { status: 409 });
+    }
+
     console.error('Error generating draft:', error);
     return NextResponse.json(
       { error: 'Failed to generate draft' },
@@ -0,0 +1,82 @@
+/**
+ * Embeddings Backfill API
+ *
+ * POST /api/embeddings/backfill - Embed posts that have no embeddings yet
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { generateMissingEmbeddings } from '@/lib/ai/embeddings';
+import { withUsageContext } from '@/lib/ai/usage/context';
+import { createProgressPublisher, publishJobEvent } from '@/lib/events';
+
+export const maxDuration = 300;
+
+const BackfillEmbeddingsSchema = z.object({
+  limit: z.number().int().min(1).max(1000).default(100),
+  // Publish progress on the job event bus under this ID (follow it at /api/events/embeddings/[id])
+  progressId: z.string().uuid().optional(),
+});
+
+/**
+ * POST /api/embeddings/backfill
+ * Generate embeddings for posts that are missing them
+ */
+export async function POST(request: NextRequest) {
+  let progressJobId: string | undefined;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    const parsed = BackfillEmbeddingsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { limit, progressId } = parsed.data;
+    progressJobId = progressId;
+    const publishProgress = progressId ? createProgressPublisher('embeddings', progressId) : undefined;
+
+    const result = await withUsageContext({ source: 'embeddings:backfill' }, () =>
+      generateMissingEmbeddings({
+        limit,
+        onProgress: publishProgress
+          ? (processed, total) => publishProgress({ processed, total })
+          : undefined,
+      })
+    );
+
+    if (progressId) {
+      await publishJobEvent({
+        source: 'embeddings',
+        jobId: progressId,
+        type: 'status',
+        data: { status: 'completed', ...result },
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      processed: result.processed,
+      total: result.total,
+    });
+  } catch (error) {
+    if (progressJobId) {
+      await publishJobEvent({
+        source: 'embeddings',
+        jobId: progressJobId,
+        type: 'status',
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Backfill failed' },
+      });
+    }
+
+    console.error('Error backfilling embeddings:', error);
+    return NextResponse.json(
+      { error: 'Failed to backfill embeddings' },
+      { status: 500 }
+    );
+  }
+}
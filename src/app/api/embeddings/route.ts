@@ -10,6 +10,7 @@ import { blogPosts } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
 import { generatePostEmbeddings, deletePostEmbeddings } from '@/lib/ai/embeddings';
+import { withUsageContext } from '@/lib/ai/usage/context';
 import type { BlogPost } from '@/lib/schema/canonical';
 
 const GenerateEmbeddingsSchema = z.object({
@@ -48,7 +49,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate embeddings using the library function
-    const result = await generatePostEmbeddings(post as unknown as BlogPost, { force });
+    const result = await withUsageContext({ blogPostId: postId, source: 'embeddings' }, () =>
+      generatePostEmbeddings(post as unknown as BlogPost, { force })
+    );
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server';
+import { subscribeToJobEvents, type JobEventSource } from '@/lib/events';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const SOURCES: JobEventSource[] = ['autopilot', 'import', 'embeddings'];
+
+// Status values after which nothing more is published
+const FINAL_STATUSES = ['completed', 'failed', 'cancelled', 'dead_letter'];
+
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+/**
+ * GET /api/events/[source]/[id]
+ * Server-Sent Events for an operation publishing on the job event bus,
+ * e.g. an import or embedding backfill started with a `progressId`.
+ * Open it before starting the operation - events are live only, with no
+ * replay. Autopilot jobs have a richer stream at
+ * /api/automation/job/[id]/stream.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ source: string; id: string }> }
+) {
+  const { source, id } = await params;
+
+  if (!SOURCES.includes(source as JobEventSource)) {
+    return new Response('Unknown event source', { status: 404 });
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let closed = false;
+      let heartbeatInterval: ReturnType<typeof setInterval> | undefined;
+      let unsubscribe: (() => Promise<void>) | undefined;
+
+      const write = (message: string) => {
+        if (!closed) controller.enqueue(encoder.encode(message));
+      };
+
+      const close = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeatInterval);
+        unsubscribe?.().catch(() => {});
+        controller.close();
+      };
+
+      request.signal.addEventListener('abort', close);
+
+      try {
+        const subscription = await subscribeToJobEvents(source as JobEventSource, id, (event) => {
+          write(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+
+          if (event.type === 'status' && FINAL_STATUSES.includes(String(event.data.status))) {
+            // Keep connection open briefly to ensure client receives final event
+            setTimeout(close, 500);
+          }
+        });
+        unsubscribe = subscription.unsubscribe;
+        if (closed) {
+          await subscription.unsubscribe();
+          return;
+        }
+
+        write(`event: connected\ndata: ${JSON.stringify({ source, id })}\n\n`);
+        heartbeatInterval = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+      } catch (error) {
+        console.error('Event stream error:', error);
+        write(`event: error\ndata: ${JSON.stringify({ message: error instanceof Error ? error.message : 'Unknown error' })}\n\n`);
+        close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    },
+  });
+}
@@ -14,7 +14,14 @@ import { BriefSchema } from '@/lib/schema/canonical.zod';
 import { BRIEF_CREATION_SYSTEM_PROMPT } from '@/lib/ai/prompts/system';
 import { AI_CONFIG } from '@/lib/config/constants';
 import { searchSimilarPosts } from '@/lib/ai/retrieval';
+import { withUsageContext } from '@/lib/ai/usage/context';
 import type { Brief } from '@/lib/schema/canonical';
+import {
+  assertTransition,
+  transitionIdeaStatus,
+  StatusTransitionError,
+} from '@/lib/workflow/status-machine';
+import { authorizeRequest } from '@/lib/auth/session';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -46,6 +53,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     const data = parsed.data;
+    const usageContext = { contentIdeaId: id, source: 'ideas:brief' };
 
     // Get the idea
     const idea = await db.query.contentIdeas.findFirst({
@@ -62,6 +70,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Check the workflow before spending tokens on generation
+    assertTransition('idea', idea.status, 'brief');
+
     // Get the author
     const author = await db.query.authors.findFirst({
       where: eq(authors.id, data.authorId),
@@ -89,7 +100,9 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Find similar posts for reference
     let similarPosts: typeof existingPosts = [];
     try {
-      const results = await searchSimilarPosts(idea.topic, { limit: 3 });
+      const results = await withUsageContext(usageContext, () =>
+        searchSimilarPosts(idea.topic, { limit: 3 })
+      );
       similarPosts = results.map((r) => ({
         id: r.postId,
         title: '',
@@ -124,28 +137,34 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     });
 
     // Generate the brief
-    const brief = await getDefaultProvider().generateStructured(prompt, BriefSchema, {
-      systemPrompt: BRIEF_CREATION_SYSTEM_PROMPT,
-      temperature: AI_CONFIG.temperature.creative,
-      maxTokens: AI_CONFIG.maxTokens.brief,
-    });
+    const brief = await withUsageContext(usageContext, () =>
+      getDefaultProvider().generateStructured(prompt, BriefSchema, {
+        systemPrompt: BRIEF_CREATION_SYSTEM_PROMPT,
+        temperature: AI_CONFIG.temperature.creative,
+        maxTokens: AI_CONFIG.maxTokens.brief,
+      })
+    );
 
     // Update the idea with the brief
-    const [updatedIdea] = await db
-      .update(contentIdeas)
-      .set({
+    const auth = await authorizeRequest(request);
+    const updatedIdea = await transitionIdeaStatus(id, 'brief', {
+      changedBy: auth.user?.email ?? null,
+      reason: 'Brief generated',
+      set: {
         brief: brief as Brief,
-        status: 'brief',
         updatedAt: new Date(),
-      })
-      .where(eq(contentIdeas.id, id))
-      .returning();
+      },
+    });
 
     return NextResponse.json({
       brief,
       idea: updatedIdea,
     });
   } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json(error.toJSON(), { status: 409 });
+    }
+
     console.error('Error generating brief:', error);
     return NextResponse.json(
       { error: 'Failed to generate brief' },
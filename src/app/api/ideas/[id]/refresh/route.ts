@@ -0,0 +1,39 @@
+/**
+ * Refresh Draft API
+ *
+ * POST /api/ideas/[id]/refresh - Apply a refresh idea's pending rewrite to its live post
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { applyRefreshDraft, RefreshError } from '@/lib/performance/refresh';
+import { authorizeRequest } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/ideas/[id]/refresh
+ * Write the refreshed sections held on the idea into the post. Returns 409
+ * when the post changed after the refresh was generated.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorizeRequest(request);
+
+    const post = await applyRefreshDraft(id, { createdBy: auth.user?.email ?? null });
+    return NextResponse.json({ post });
+  } catch (error) {
+    if (error instanceof RefreshError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'CONFLICT' ? 409 : 400;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+
+    console.error('Error applying refresh:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply refresh' },
+      { status: 500 }
+    );
+  }
+}
@@ -11,6 +11,8 @@ import { db } from '@/lib/db/client';
 import { contentIdeas } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { z } from 'zod';
+import { transitionIdeaStatus, StatusTransitionError } from '@/lib/workflow/status-machine';
+import { authorizeRequest } from '@/lib/auth/session';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -28,6 +30,7 @@ const UpdateIdeaSchema = z.object({
   status: z.enum(['idea', 'brief', 'draft', 'reviewing', 'scheduled', 'published', 'archived']).optional(),
   justification: z.string().max(1000).optional().nullable(),
   notes: z.string().max(2000).optional().nullable(),
+  statusReason: z.string().max(1000).optional(),
 });
 
 /**
@@ -40,6 +43,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
 
     const idea = await db.query.contentIdeas.findFirst({
       where: eq(contentIdeas.id, id),
+      columns: { topicEmbedding: false },
       with: {
         cluster: true,
         post: true,
@@ -91,10 +95,28 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    const { status, statusReason, ...topicFields } = parsed.data;
+
+    // A reworded topic needs a fresh embedding for semantic dedup
+    const fields = topicFields.topic && topicFields.topic !== existing.topic
+      ? { ...topicFields, topicEmbedding: null, topicEmbeddingModel: null }
+      : topicFields;
+
+    // Status changes go through the workflow state machine
+    if (status && status !== existing.status) {
+      const auth = await authorizeRequest(request);
+      const updatedIdea = await transitionIdeaStatus(id, status, {
+        changedBy: auth.user?.email,
+        reason: statusReason,
+        set: { ...fields, updatedAt: new Date() },
+      });
+      return NextResponse.json({ idea: updatedIdea });
+    }
+
     const [updatedIdea] = await db
       .update(contentIdeas)
       .set({
-        ...parsed.data,
+        ...fields,
         updatedAt: new Date(),
       })
       .where(eq(contentIdeas.id, id))
@@ -102,6 +124,10 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     return NextResponse.json({ idea: updatedIdea });
   } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json(error.toJSON(), { status: 409 });
+    }
+
     console.error('Error updating idea:', error);
     return NextResponse.json(
       { error: 'Failed to update idea' },
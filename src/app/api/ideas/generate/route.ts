@@ -8,6 +8,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
 import { contentIdeas, blogPosts, topicClusters } from '@/lib/db/schema';
 import { generateTopicSuggestions } from '@/lib/ai/generation/topics';
+import { withUsageContext } from '@/lib/ai/usage/context';
 import { z } from 'zod';
 import type { FunnelStage } from '@/lib/schema/canonical';
 
@@ -67,7 +68,7 @@ export async function POST(request: NextRequest) {
     const existingClusters = clusters.map((c) => c.name);
 
     // Generate suggestions
-    const result = await generateTopicSuggestions({
+    const result = await withUsageContext({ source: 'ideas:generate' }, () => generateTopicSuggestions({
       productLine: data.productLine,
       targetAudience: data.targetAudience,
       funnelStage: data.funnelStage as FunnelStage,
@@ -77,7 +78,7 @@ export async function POST(request: NextRequest) {
         existingClusters,
         preferNewCluster: data.preferNewCluster,
       },
-    });
+    }));
 
     // Optionally save to database
     if (data.saveToDatabase && result.suggestions.length > 0) {
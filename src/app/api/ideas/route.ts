@@ -34,6 +34,7 @@ export async function GET(request: NextRequest) {
     const searchParams = request.nextUrl.searchParams;
     const status = searchParams.get('status');
     const clusterId = searchParams.get('clusterId');
+    const kind = searchParams.get('kind');
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = Math.min(parseInt(searchParams.get('limit') || '20', 10), 100);
     const offset = (page - 1) * limit;
@@ -48,6 +49,10 @@ export async function GET(request: NextRequest) {
       conditions.push(eq(contentIdeas.clusterTopicId, clusterId));
     }
 
+    if (kind === 'new' || kind === 'refresh') {
+      conditions.push(eq(contentIdeas.kind, kind));
+    }
+
     // Get total count
     const countResult = await db
       .select({ count: sql<number>`count(*)` })
@@ -62,6 +67,7 @@ export async function GET(request: NextRequest) {
       orderBy: desc(contentIdeas.createdAt),
       limit,
       offset,
+      columns: { topicEmbedding: false },
       with: {
         cluster: true,
         post: {
@@ -0,0 +1,63 @@
+/**
+ * Search Console Import API
+ *
+ * POST /api/import/search-console - Import a performance export (CSV or JSON)
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  parseSearchConsoleExport,
+  detectExportFormat,
+  importSearchPerformance,
+  PerformanceImportError,
+} from '@/lib/performance';
+
+export const maxDuration = 60;
+
+const ImportSearchConsoleSchema = z.object({
+  content: z.string().min(1),
+  format: z.enum(['csv', 'json']).optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+  dryRun: z.boolean().default(false),
+});
+
+/**
+ * POST /api/import/search-console
+ * Match export rows to posts, store daily history and refresh each
+ * matched post's performance metrics
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = ImportSearchConsoleSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { content, format, date, dryRun } = parsed.data;
+
+    const exportFormat = format ?? detectExportFormat(content);
+    const records = parseSearchConsoleExport(content, { format: exportFormat, date });
+    const result = await importSearchPerformance(records, { source: exportFormat, dryRun });
+
+    return NextResponse.json({ result });
+  } catch (error) {
+    if (error instanceof PerformanceImportError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    console.error('Search Console import failed:', error);
+    return NextResponse.json(
+      { error: 'Search Console import failed' },
+      { status: 500 }
+    );
+  }
+}
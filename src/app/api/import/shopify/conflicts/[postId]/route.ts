@@ -0,0 +1,50 @@
+/**
+ * Shopify Conflict Resolution API
+ *
+ * POST /api/import/shopify/conflicts/[postId] - Keep the local or the Shopify version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { resolveShopifyConflict, ShopifySyncError } from '@/lib/import/shopify-sync';
+
+interface RouteParams {
+  params: Promise<{ postId: string }>;
+}
+
+const ResolveConflictSchema = z.object({
+  resolution: z.enum(['local', 'remote']),
+});
+
+/**
+ * POST /api/import/shopify/conflicts/[postId]
+ * 'local' overwrites the Shopify article; 'remote' overwrites the post
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { postId } = await params;
+    const body = await request.json();
+
+    const parsed = ResolveConflictSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const post = await resolveShopifyConflict(postId, parsed.data.resolution);
+    return NextResponse.json({ post });
+  } catch (error) {
+    if (error instanceof ShopifySyncError) {
+      const status = error.code === 'NOT_FOUND' ? 404 : error.code === 'NO_CONFLICT' ? 409 : 400;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+
+    console.error('Error resolving Shopify conflict:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to resolve conflict' },
+      { status: 500 }
+    );
+  }
+}
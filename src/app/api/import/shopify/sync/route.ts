@@ -0,0 +1,101 @@
+/**
+ * Shopify Sync API
+ *
+ * GET /api/import/shopify/sync - Recent sync runs and unresolved conflicts
+ * POST /api/import/shopify/sync - Run the two-way sync
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import {
+  runShopifySync,
+  getRecentSyncRuns,
+  listShopifyConflicts,
+  ShopifySyncError,
+} from '@/lib/import/shopify-sync';
+import { isShopifyConfigured } from '@/lib/config/env';
+import { authorizeRequest } from '@/lib/auth/session';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const RunSyncSchema = z.object({
+  direction: z.enum(['both', 'pull', 'push']).default('both'),
+  full: z.boolean().default(false),
+  authorId: z.string().uuid().optional(),
+});
+
+/**
+ * GET /api/import/shopify/sync
+ * Sync history and the conflicts waiting for an editor
+ */
+export async function GET() {
+  try {
+    const [runs, conflicts] = await Promise.all([getRecentSyncRuns(), listShopifyConflicts()]);
+
+    return NextResponse.json({
+      configured: isShopifyConfigured(),
+      runs,
+      conflicts,
+    });
+  } catch (error) {
+    console.error('Error loading Shopify sync status:', error);
+    return NextResponse.json(
+      { error: 'Failed to load Shopify sync status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/import/shopify/sync
+ * Pull articles changed in Shopify since the last run and push local edits
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authorizeRequest(request, 'editor');
+    if (!auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    let body: unknown = {};
+    try {
+      const text = await request.text();
+      if (text) {
+        body = JSON.parse(text);
+      }
+    } catch {
+      // Empty body is OK
+    }
+
+    const parsed = RunSyncSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const run = await runShopifySync({
+      direction: parsed.data.direction,
+      full: parsed.data.full,
+      defaultAuthorId: parsed.data.authorId,
+      triggeredBy: auth.user.email,
+    });
+
+    return NextResponse.json({ run });
+  } catch (error) {
+    if (error instanceof ShopifySyncError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'ALREADY_RUNNING' ? 409 : 400 }
+      );
+    }
+
+    console.error('Error running Shopify sync:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to run Shopify sync' },
+      { status: 500 }
+    );
+  }
+}
@@ -7,12 +7,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { importFromSitemap } from '@/lib/import/pipeline';
+import { SitemapError } from '@/lib/import/fetchers/sitemap';
+import { createProgressPublisher, publishJobEvent } from '@/lib/events';
+
+export const maxDuration = 300;
 
 const ImportSitemapSchema = z.object({
   sitemapUrl: z.string().url(),
   blogPathPattern: z.string().default('/blog/'),
   limit: z.number().int().min(1).max(100).default(20),
   authorId: z.string().uuid(),
+  // Skip pages whose lastmod is at or before this time
+  since: z.string().datetime({ offset: true }).optional(),
+  respectRobots: z.boolean().default(true),
+  // Refetch and re-import every page, ignoring lastmod and conditional requests
+  forceRefresh: z.boolean().default(false),
+  // Publish progress on the job event bus under this ID (follow it at /api/events/import/[id])
+  progressId: z.string().uuid().optional(),
 });
 
 /**
@@ -20,6 +31,8 @@ const ImportSitemapSchema = z.object({
  * Import blog posts from a sitemap
  */
 export async function POST(request: NextRequest) {
+  let progressJobId: string | undefined;
+
   try {
     const body = await request.json();
 
@@ -31,22 +44,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { sitemapUrl, blogPathPattern, limit, authorId } = parsed.data;
+    const { sitemapUrl, blogPathPattern, limit, authorId, since, respectRobots, forceRefresh, progressId } = parsed.data;
+    progressJobId = progressId;
+    const publishProgress = progressId ? createProgressPublisher('import', progressId) : undefined;
 
     const result = await importFromSitemap(sitemapUrl, {
+      onProgress: publishProgress
+        ? ({ total, processed, succeeded, failed }) => publishProgress({ total, processed, succeeded, failed })
+        : undefined,
       defaultAuthorId: authorId,
       urlPattern: new RegExp(blogPathPattern),
       limit,
+      since: since ? new Date(since) : undefined,
+      respectRobots,
+      forceRefresh,
     });
 
+    if (progressId) {
+      await publishJobEvent({
+        source: 'import',
+        jobId: progressId,
+        type: 'status',
+        data: { status: 'completed', imported: result.postsCreated, updated: result.postsUpdated, failed: result.postsFailed },
+      });
+    }
+
     return NextResponse.json({
       success: result.success,
       imported: result.postsCreated,
       updated: result.postsUpdated,
       failed: result.postsFailed,
+      discovered: result.discovered,
+      skippedUnchanged: result.skippedUnchanged,
+      notModified: result.notModified,
+      blockedByRobots: result.blockedByRobots,
+      crawlDelay: result.crawlDelay,
+      sitemapsFetched: result.sitemapsFetched,
       errors: result.errors.map(e => e.error),
     });
   } catch (error) {
+    if (progressJobId) {
+      await publishJobEvent({
+        source: 'import',
+        jobId: progressJobId,
+        type: 'status',
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Import failed' },
+      });
+    }
+
+    if (error instanceof SitemapError) {
+      const status = error.code === 'BLOCKED_BY_ROBOTS' ? 403 : error.code === 'INVALID_XML' ? 422 : 502;
+      return NextResponse.json({ error: error.message, code: error.code }, { status });
+    }
+
     console.error('Error importing from sitemap:', error);
     return NextResponse.json(
       { error: 'Failed to import from sitemap' },
@@ -7,10 +7,13 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { importFromUrls } from '@/lib/import/pipeline';
+import { createProgressPublisher, publishJobEvent } from '@/lib/events';
 
 const ImportUrlsSchema = z.object({
   urls: z.array(z.string().url()).min(1).max(50),
   authorId: z.string().uuid(),
+  // Publish progress on the job event bus under this ID (follow it at /api/events/import/[id])
+  progressId: z.string().uuid().optional(),
 });
 
 /**
@@ -18,6 +21,8 @@ const ImportUrlsSchema = z.object({
  * Import blog posts from a list of URLs
  */
 export async function POST(request: NextRequest) {
+  let progressJobId: string | undefined;
+
   try {
     const body = await request.json();
 
@@ -29,12 +34,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { urls, authorId } = parsed.data;
+    const { urls, authorId, progressId } = parsed.data;
+    progressJobId = progressId;
+    const publishProgress = progressId ? createProgressPublisher('import', progressId) : undefined;
 
     const result = await importFromUrls(urls, {
+      onProgress: publishProgress
+        ? ({ total, processed, succeeded, failed }) => publishProgress({ total, processed, succeeded, failed })
+        : undefined,
       defaultAuthorId: authorId,
     });
 
+    if (progressId) {
+      await publishJobEvent({
+        source: 'import',
+        jobId: progressId,
+        type: 'status',
+        data: { status: 'completed', imported: result.postsCreated, updated: result.postsUpdated, failed: result.postsFailed },
+      });
+    }
+
     return NextResponse.json({
       success: result.success,
       imported: result.postsCreated,
@@ -43,6 +62,15 @@ export async function POST(request: NextRequest) {
       errors: result.errors.map(e => e.error),
     });
   } catch (error) {
+    if (progressJobId) {
+      await publishJobEvent({
+        source: 'import',
+        jobId: progressJobId,
+        type: 'status',
+        data: { status: 'failed', error: error instanceof Error ? error.message : 'Import failed' },
+      });
+    }
+
     console.error('Error importing from URLs:', error);
     return NextResponse.json(
       { error: 'Failed to import from URLs' },
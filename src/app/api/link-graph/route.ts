@@ -0,0 +1,28 @@
+/**
+ * Internal Link Graph API
+ *
+ * GET /api/link-graph - Inbound/outbound link counts, orphans, broken and
+ * archived link targets, and pillar coverage per cluster
+ */
+
+import { NextResponse } from 'next/server';
+import { getLinkGraphReport } from '@/lib/seo/link-graph';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/link-graph
+ * Build the site-wide internal link report
+ */
+export async function GET() {
+  try {
+    const report = await getLinkGraphReport();
+    return NextResponse.json({ report });
+  } catch (error) {
+    console.error('Error building link graph:', error);
+    return NextResponse.json(
+      { error: 'Failed to build link graph' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Single Media Asset API
+ *
+ * PATCH /api/media/[id] - Edit alt text or caption
+ * DELETE /api/media/[id] - Remove an image from its post and disk
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  updateMediaAsset,
+  deleteMediaAsset,
+  UpdateMediaAssetSchema,
+  MediaError,
+} from '@/lib/media';
+import { authorizeRequest } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/media/[id]
+ * The post body (inline) or JSON-LD (hero) is updated to match
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = UpdateMediaAssetSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeRequest(request);
+    const asset = await updateMediaAsset(id, parsed.data, { createdBy: auth.user?.email ?? null });
+    return NextResponse.json({ asset });
+  } catch (error) {
+    if (error instanceof MediaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'CONFLICT' ? 409 : 404 }
+      );
+    }
+
+    console.error('Error updating media asset:', error);
+    return NextResponse.json(
+      { error: 'Failed to update media asset' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * DELETE /api/media/[id]
+ */
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const auth = await authorizeRequest(request);
+    await deleteMediaAsset(id, { createdBy: auth.user?.email ?? null });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof MediaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'CONFLICT' ? 409 : 404 }
+      );
+    }
+
+    console.error('Error deleting media asset:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete media asset' },
+      { status: 500 }
+    );
+  }
+}
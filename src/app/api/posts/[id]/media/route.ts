@@ -0,0 +1,94 @@
+/**
+ * Post Media API
+ *
+ * GET /api/posts/[id]/media - List images attached to a post
+ * POST /api/posts/[id]/media - Generate a hero image or inline images
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  listPostMedia,
+  generateHeroImage,
+  generateInlineImages,
+  GenerateMediaSchema,
+  MediaError,
+} from '@/lib/media';
+import { authorizeRequest } from '@/lib/auth/session';
+
+export const maxDuration = 120;
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/media
+ * Hero first, then inline images in the order they were added
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const assets = await listPostMedia(id);
+    return NextResponse.json({ assets });
+  } catch (error) {
+    console.error('Error listing post media:', error);
+    return NextResponse.json(
+      { error: 'Failed to list media' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/posts/[id]/media
+ * role 'hero' replaces the hero image and the JSON-LD image; role 'inline'
+ * fills the body's image placeholders (and any sectionIds given)
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const auth = await authorizeRequest(request);
+    if (!auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+
+    const body = await request.json();
+
+    const parsed = GenerateMediaSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const { role, style, model, altText, limit, sectionIds } = parsed.data;
+
+    if (role === 'hero') {
+      const asset = await generateHeroImage(id, { style, model, altText, createdBy: auth.user.email });
+      return NextResponse.json({ assets: [asset], failures: [], remaining: 0 }, { status: 201 });
+    }
+
+    const result = await generateInlineImages(id, {
+      model,
+      limit,
+      sectionIds,
+      createdBy: auth.user.email,
+    });
+    return NextResponse.json(result, { status: result.assets.length > 0 ? 201 : 200 });
+  } catch (error) {
+    if (error instanceof MediaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : error.code === 'CONFLICT' ? 409 : 503 }
+      );
+    }
+
+    console.error('Error generating post media:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to generate media' },
+      { status: 500 }
+    );
+  }
+}
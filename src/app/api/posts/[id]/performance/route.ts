@@ -0,0 +1,32 @@
+/**
+ * Post Search Performance API
+ *
+ * GET /api/posts/[id]/performance - Daily Search Console history and top queries
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getPerformanceHistory } from '@/lib/performance';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/performance?days=28
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const daysParam = Number(request.nextUrl.searchParams.get('days'));
+    const days = Number.isInteger(daysParam) && daysParam > 0 && daysParam <= 480 ? daysParam : undefined;
+
+    const history = await getPerformanceHistory(id, days);
+    return NextResponse.json(history);
+  } catch (error) {
+    console.error('Error getting post performance:', error);
+    return NextResponse.json(
+      { error: 'Failed to get performance history' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Post Content Preview API
+ *
+ * POST /api/posts/[id]/preview - Render and validate unsaved content edits
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { blogPosts } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { renderSectionsToHtml } from '@/lib/shopify/article-sync';
+import {
+  PostContentDraftSchema,
+  applyContentDraft,
+  checkDraftSchema,
+  checkPostContent,
+} from '@/lib/editor';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * POST /api/posts/[id]/preview
+ * Apply a content draft to the stored post without saving it. Returns the
+ * body HTML Shopify would receive and the validation issues, each pinned to
+ * its section or FAQ where possible.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = PostContentDraftSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const post = await db.query.blogPosts.findFirst({
+      where: eq(blogPosts.id, id),
+      with: { author: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    const draft = applyContentDraft(toCanonicalPost(post, post.author), parsed.data);
+    const check = checkPostContent(draft);
+
+    return NextResponse.json({
+      html: renderSectionsToHtml(draft),
+      // Shopify sync sends rawHtml instead of the sections while it's set
+      rawHtmlOverrides: !!post.rawHtml,
+      wordCount: draft.wordCount,
+      ...check,
+      issues: [...checkDraftSchema(draft), ...check.issues],
+    });
+  } catch (error) {
+    console.error('Error previewing post:', error);
+    return NextResponse.json(
+      { error: 'Failed to preview post' },
+      { status: 500 }
+    );
+  }
+}
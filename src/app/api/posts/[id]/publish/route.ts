@@ -9,7 +9,14 @@ import { db } from '@/lib/db/client';
 import { blogPosts } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { isPublishReady } from '@/lib/seo/validators';
-import type { BlogPost } from '@/lib/schema/canonical';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { publishPost, type PublishTarget } from '@/lib/publishing/publish';
+import {
+  assertTransition,
+  transitionPostStatus,
+  StatusTransitionError,
+} from '@/lib/workflow/status-machine';
+import { authorizeRequest } from '@/lib/auth/session';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -22,16 +29,24 @@ interface RouteParams {
 export async function POST(request: NextRequest, { params }: RouteParams) {
   try {
     const { id } = await params;
+
+    const auth = await authorizeRequest(request, 'publisher');
+    if (!auth.user) {
+      return NextResponse.json({ error: auth.error }, { status: auth.status });
+    }
+    const changedBy = auth.user.email;
+
     const body = await request.json();
 
     const { publishTo, scheduledFor } = body as {
-      publishTo: 'database' | 'shopify' | 'both';
+      publishTo?: PublishTarget;
       scheduledFor?: string;
     };
 
     // Get post
     const post = await db.query.blogPosts.findFirst({
       where: eq(blogPosts.id, id),
+      with: { author: true },
     });
 
     if (!post) {
@@ -41,8 +56,11 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Reject illegal moves (e.g. draft -> published) before anything else
+    assertTransition('post', post.status, scheduledFor ? 'scheduled' : 'published');
+
     // Check publish readiness
-    const readiness = isPublishReady(post as unknown as BlogPost);
+    const readiness = isPublishReady(toCanonicalPost(post, post.author));
     if (!readiness.ready) {
       return NextResponse.json(
         {
@@ -66,15 +84,16 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       }
 
       // Schedule for later
-      const [updatedPost] = await db
-        .update(blogPosts)
-        .set({
-          status: 'scheduled',
+      const updatedPost = await transitionPostStatus(id, 'scheduled', {
+        changedBy,
+        reason: `Scheduled for ${scheduleDate.toISOString()}`,
+        set: {
           scheduledFor: scheduleDate,
+          publishTo: publishTo ?? 'database',
+          publishError: null,
           updatedAt: now,
-        })
-        .where(eq(blogPosts.id, id))
-        .returning();
+        },
+      });
 
       return NextResponse.json({
         success: true,
@@ -84,39 +103,40 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       });
     }
 
-    // Immediate publish
-    const [updatedPost] = await db
-      .update(blogPosts)
-      .set({
-        status: 'published',
-        publishedAt: now,
-        scheduledFor: null,
-        ldJsonArticle: {
-          ...post.ldJsonArticle,
-          datePublished: now.toISOString(),
-          dateModified: now.toISOString(),
+    // Immediate publish (pushes to Shopify too when requested)
+    const outcome = await publishPost(post, publishTo ?? 'database', now, { changedBy });
+
+    if (outcome.status === 'partial_failure') {
+      // The post is published locally but Shopify is out of sync
+      return NextResponse.json(
+        {
+          success: false,
+          status: 'partial_failure',
+          publishedAt: now.toISOString(),
+          shopifyArticleId: outcome.post.shopifyArticleId,
+          shopifyErrors: outcome.shopify?.errors ?? [],
+          post: outcome.post,
         },
-        updatedAt: now,
-      })
-      .where(eq(blogPosts.id, id))
-      .returning();
-
-    // TODO: If publishTo includes 'shopify', push to Shopify
-    let shopifyArticleId: string | undefined;
-    if (publishTo === 'shopify' || publishTo === 'both') {
-      // Placeholder for Shopify publishing
-      // shopifyArticleId = await publishToShopify(updatedPost);
-      console.log('TODO: Publish to Shopify');
+        { status: 207 }
+      );
     }
 
     return NextResponse.json({
       success: true,
       status: 'published',
       publishedAt: now.toISOString(),
-      shopifyArticleId,
-      post: updatedPost,
+      shopifyArticleId: outcome.shopify?.articleId,
+      shopifyArticleHandle: outcome.shopify?.articleHandle,
+      shopifyWarnings: outcome.shopify?.warnings,
+      post: outcome.post,
     });
   } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json(error.toJSON(), {
+        status: error.code === 'NOT_FOUND' ? 404 : 409,
+      });
+    }
+
     console.error('Error publishing post:', error);
     return NextResponse.json(
       { error: 'Failed to publish post' },
@@ -0,0 +1,53 @@
+/**
+ * Post Revision Restore API
+ *
+ * POST /api/posts/[id]/revisions/[version]/restore - Roll back to a version
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreRevision } from '@/lib/revisions';
+import { authorizeRequest } from '@/lib/auth/session';
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * POST /api/posts/[id]/revisions/[version]/restore
+ * Restore content from a revision. The restore is itself recorded as a
+ * new revision.
+ */
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, version } = await params;
+
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { error: '`version` must be a version number' },
+        { status: 400 }
+      );
+    }
+
+    const auth = await authorizeRequest(request);
+    const restored = await restoreRevision(id, versionNumber, auth.user?.email ?? null);
+
+    if (!restored) {
+      return NextResponse.json(
+        { error: 'Post or revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      post: restored.post,
+      revision: restored.revision,
+    });
+  } catch (error) {
+    console.error('Error restoring revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to restore revision' },
+      { status: 500 }
+    );
+  }
+}
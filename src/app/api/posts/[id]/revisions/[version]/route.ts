@@ -0,0 +1,47 @@
+/**
+ * Single Post Revision API
+ *
+ * GET /api/posts/[id]/revisions/[version] - Get a revision snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getRevision } from '@/lib/revisions';
+
+interface RouteParams {
+  params: Promise<{ id: string; version: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/revisions/[version]
+ * Get the full snapshot stored for a version
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, version } = await params;
+
+    const versionNumber = Number(version);
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return NextResponse.json(
+        { error: '`version` must be a version number' },
+        { status: 400 }
+      );
+    }
+
+    const revision = await getRevision(id, versionNumber);
+
+    if (!revision) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ revision });
+  } catch (error) {
+    console.error('Error getting revision:', error);
+    return NextResponse.json(
+      { error: 'Failed to get revision' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Post Revision Diff API
+ *
+ * GET /api/posts/[id]/revisions/diff?from=2&to=3 - Compare two versions
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { diffRevisions } from '@/lib/revisions';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/revisions/diff
+ * Field-level and section-level diff. Omit `to` to compare against the
+ * current post.
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+    const from = Number(searchParams.get('from') ?? '');
+    const toParam = searchParams.get('to');
+    const to = toParam !== null ? Number(toParam) : undefined;
+
+    const isVersion = (value: number) => Number.isInteger(value) && value >= 1;
+    if (!isVersion(from) || (to !== undefined && !isVersion(to))) {
+      return NextResponse.json(
+        { error: '`from` (and optional `to`) must be version numbers' },
+        { status: 400 }
+      );
+    }
+
+    const diff = await diffRevisions(id, from, to);
+
+    if (!diff) {
+      return NextResponse.json(
+        { error: 'Revision not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ diff });
+  } catch (error) {
+    console.error('Error diffing revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to diff revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Post Revisions API
+ *
+ * GET /api/posts/[id]/revisions - List revision history for a post
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { blogPosts } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { listRevisions } from '@/lib/revisions';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/revisions
+ * List revisions, newest first (snapshots omitted)
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const post = await db.query.blogPosts.findFirst({
+      where: eq(blogPosts.id, id),
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    const revisions = await listRevisions(id);
+
+    return NextResponse.json({
+      currentVersion: post.version,
+      revisions,
+    });
+  } catch (error) {
+    console.error('Error listing revisions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list revisions' },
+      { status: 500 }
+    );
+  }
+}
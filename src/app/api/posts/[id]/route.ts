@@ -2,15 +2,25 @@
  * Single Post API
  *
  * GET /api/posts/[id] - Get post by ID
- * PATCH /api/posts/[id] - Update post
+ * PATCH /api/posts/[id] - Update post (returns content/SEO validation of the result)
  * DELETE /api/posts/[id] - Delete post
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db/client';
-import { blogPosts, blogPostEmbeddings } from '@/lib/db/schema';
-import { eq } from 'drizzle-orm';
+import { authors, blogPosts, blogPostEmbeddings } from '@/lib/db/schema';
+import { eq, and } from 'drizzle-orm';
 import { UpdateBlogPostSchema } from '@/lib/schema/canonical.zod';
+import { recordRevision } from '@/lib/revisions';
+import {
+  assertTransition,
+  recordStatusChange,
+  StatusTransitionError,
+} from '@/lib/workflow/status-machine';
+import { authorizeRequest } from '@/lib/auth/session';
+import { deletePostMediaFiles } from '@/lib/media';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { checkPostContent } from '@/lib/editor';
 
 interface RouteParams {
   params: Promise<{ id: string }>;
@@ -81,6 +91,33 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
 
     const data = parsed.data;
 
+    // Editors send the version they loaded; refuse to overwrite newer writes
+    if (data.version !== undefined && data.version !== existing.version) {
+      return NextResponse.json(
+        {
+          error: `Post was changed (now version ${existing.version}) since version ${data.version} was loaded. Reload and try again.`,
+          code: 'VERSION_CONFLICT',
+        },
+        { status: 409 }
+      );
+    }
+
+    // Status changes must follow the workflow. Publishing and scheduling
+    // go through the publish endpoint so readiness checks always run.
+    const statusChanged = !!data.status && data.status !== existing.status;
+    if (statusChanged && (data.status === 'published' || data.status === 'scheduled')) {
+      return NextResponse.json(
+        {
+          error: `Use POST /api/posts/${id}/publish to move a post to "${data.status}"`,
+          code: 'INVALID_STATUS_TRANSITION',
+        },
+        { status: 409 }
+      );
+    }
+    if (statusChanged) {
+      assertTransition('post', existing.status, data.status!);
+    }
+
     // Check slug uniqueness if changing
     if (data.slug && data.slug !== existing.slug) {
       const existingSlug = await db.query.blogPosts.findFirst({
@@ -130,16 +167,71 @@ export async function PATCH(request: NextRequest, { params }: RouteParams) {
     if (data.status) updateData.status = data.status;
     if (data.focusQuestions) updateData.focusQuestions = data.focusQuestions;
     if (data.internalLinks) updateData.internalLinks = data.internalLinks;
+    if (data.experienceEvidence) updateData.experienceEvidence = data.experienceEvidence;
+    // null hands Shopify sync back to the sections
+    if (data.rawHtml !== undefined) updateData.rawHtml = data.rawHtml;
+
+    const auth = await authorizeRequest(request);
+    const changedBy = auth.user?.email ?? null;
 
-    // Update post
-    const [updatedPost] = await db
-      .update(blogPosts)
-      .set(updateData)
-      .where(eq(blogPosts.id, id))
-      .returning();
+    // Update post (guarded against concurrent writes, which all bump the
+    // version, and status changes) together with its status audit row
+    const updatedPost = await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(blogPosts)
+        .set(updateData)
+        .where(
+          and(
+            eq(blogPosts.id, id),
+            eq(blogPosts.version, existing.version),
+            eq(blogPosts.status, existing.status)
+          )
+        )
+        .returning();
 
-    return NextResponse.json({ post: updatedPost });
+      if (row && statusChanged) {
+        await recordStatusChange(
+          'post',
+          id,
+          existing.status,
+          row.status,
+          {
+            changedBy,
+            reason: typeof body.statusReason === 'string' ? body.statusReason : null,
+          },
+          tx
+        );
+      }
+      return row;
+    });
+
+    if (!updatedPost) {
+      return NextResponse.json(
+        { error: 'Post changed while the update was in progress. Reload and try again.', code: 'VERSION_CONFLICT' },
+        { status: 409 }
+      );
+    }
+
+    // Snapshot the new state for revision history
+    await recordRevision(id, {
+      source: 'manual',
+      previous: existing,
+      createdBy: changedBy,
+      note: typeof body.revisionNote === 'string' ? body.revisionNote : null,
+    });
+
+    // Re-run the content and SEO validators on what was saved
+    const author = await db.query.authors.findFirst({
+      where: eq(authors.id, updatedPost.authorId),
+    });
+    const validation = author ? checkPostContent(toCanonicalPost(updatedPost, author)) : null;
+
+    return NextResponse.json({ post: updatedPost, validation });
   } catch (error) {
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json(error.toJSON(), { status: 409 });
+    }
+
     console.error('Error updating post:', error);
     return NextResponse.json(
       { error: 'Failed to update post' },
@@ -173,6 +265,9 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
       .delete(blogPostEmbeddings)
       .where(eq(blogPostEmbeddings.blogPostId, id));
 
+    // Image files on disk (media_assets rows cascade)
+    await deletePostMediaFiles(id);
+
     // Delete post
     await db.delete(blogPosts).where(eq(blogPosts.id, id));
 
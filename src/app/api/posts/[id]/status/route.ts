@@ -0,0 +1,55 @@
+/**
+ * Post Status API
+ *
+ * GET /api/posts/[id]/status - Current status, allowed transitions and audit trail
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import { blogPosts } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import {
+  getAllowedTransitions,
+  getStatusHistory,
+  isPostStatus,
+} from '@/lib/workflow/status-machine';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * GET /api/posts/[id]/status
+ * Get the post's status, where it can move next and its status history
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+
+    const post = await db.query.blogPosts.findFirst({
+      where: eq(blogPosts.id, id),
+      columns: { id: true, status: true },
+    });
+
+    if (!post) {
+      return NextResponse.json(
+        { error: 'Post not found' },
+        { status: 404 }
+      );
+    }
+
+    const history = await getStatusHistory('post', id);
+
+    return NextResponse.json({
+      status: post.status,
+      allowedTransitions: isPostStatus(post.status) ? getAllowedTransitions(post.status) : [],
+      history,
+    });
+  } catch (error) {
+    console.error('Error getting post status:', error);
+    return NextResponse.json(
+      { error: 'Failed to get post status' },
+      { status: 500 }
+    );
+  }
+}
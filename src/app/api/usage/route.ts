@@ -0,0 +1,39 @@
+/**
+ * AI Usage API
+ *
+ * GET /api/usage?month=YYYY-MM - Monthly AI spend and budget status
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getMonthlySpend, getMonthKey } from '@/lib/ai/usage/ledger';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/usage
+ * Spend for a month (defaults to the current one) broken down by model,
+ * source, day and job, plus budget status
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const month = searchParams.get('month') || getMonthKey();
+
+    if (!/^\d{4}-(0[1-9]|1[0-2])$/.test(month)) {
+      return NextResponse.json(
+        { error: 'month must be in YYYY-MM format' },
+        { status: 400 }
+      );
+    }
+
+    const spend = await getMonthlySpend(month);
+
+    return NextResponse.json({ spend });
+  } catch (error) {
+    console.error('Error fetching AI usage:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch AI usage' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,48 @@
+/**
+ * Single User API
+ *
+ * PATCH /api/users/[id] - Change name, role, active flag or password
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { updateUser, UpdateUserSchema, UserError } from '@/lib/auth/users';
+
+interface RouteParams {
+  params: Promise<{ id: string }>;
+}
+
+/**
+ * PATCH /api/users/[id]
+ * Update a user. Role changes, deactivation and password resets end
+ * the user's sessions.
+ */
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    const parsed = UpdateUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const user = await updateUser(id, parsed.data);
+    return NextResponse.json({ user });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
+    console.error('Error updating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    );
+  }
+}
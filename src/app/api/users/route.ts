@@ -0,0 +1,62 @@
+/**
+ * Users API
+ *
+ * GET /api/users - List users
+ * POST /api/users - Create a user
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listUsers, createUser, CreateUserSchema, UserError } from '@/lib/auth/users';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /api/users
+ * List all users
+ */
+export async function GET() {
+  try {
+    const users = await listUsers();
+    return NextResponse.json({ users });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    return NextResponse.json(
+      { error: 'Failed to list users' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * POST /api/users
+ * Create a user
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json();
+
+    const parsed = CreateUserSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json(
+        { error: 'Validation failed', details: parsed.error.flatten() },
+        { status: 400 }
+      );
+    }
+
+    const user = await createUser(parsed.data);
+    return NextResponse.json({ user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 409 }
+      );
+    }
+
+    console.error('Error creating user:', error);
+    return NextResponse.json(
+      { error: 'Failed to create user' },
+      { status: 500 }
+    );
+  }
+}
@@ -14,7 +14,7 @@ import { generateTopicIdeasWithDedup, type TopicSuggestion } from '@/lib/discove
 import { generateOutline } from '@/lib/outline/outline-generator';
 import type { ContentOutline, OutlineSection, FAQOutlineItem } from '@/lib/outline/outline-types';
 import { generateDraft } from '@/lib/ai/generation/drafts';
-import { getProductCollections } from '@/lib/shopify/product-matcher';
+import { loadProductCollections } from '@/lib/shopify/product-catalog';
 import {
   fetchCollectionsGraphQL,
   fetchCollectionProductsGraphQL,
@@ -23,12 +23,14 @@ import {
 } from '@/lib/shopify/api-client';
 import { isShopifyConfigured } from '@/lib/config/env';
 import { getDefaultProvider } from '@/lib/ai/providers';
+import { withUsageContext } from '@/lib/ai/usage/context';
 import { z as zod } from 'zod';
 import { db } from '@/lib/db/client';
 import { authors, blogPosts } from '@/lib/db/schema';
 import { eq } from 'drizzle-orm';
 import { parseAIResponse } from '@/lib/utils/json-repair';
 import { renderBlogHtml, validateBlogContent, type BlogContent } from '@/lib/templates/blog-renderer';
+import { prepareArticlePrompt } from '@/lib/writer';
 
 /**
  * GET - Return list of collections and products from Shopify
@@ -69,8 +71,8 @@ export async function GET(request: NextRequest) {
         source: 'shopify',
       });
     } else {
-      // Fall back to local data
-      const localCollections = getProductCollections();
+      // Fall back to the product catalog table
+      const localCollections = await loadProductCollections();
       return NextResponse.json({
         collections: localCollections.map((c) => ({
           handle: c.handle,
@@ -84,7 +86,7 @@ export async function GET(request: NextRequest) {
   } catch (error) {
     console.error('Failed to fetch from Shopify:', error);
     // Fall back to local
-    const localCollections = getProductCollections();
+    const localCollections = await loadProductCollections();
     return NextResponse.json({
       collections: localCollections.map((c) => ({
         handle: c.handle,
@@ -212,32 +214,34 @@ export async function POST(request: NextRequest) {
 
     const data = parsed.data;
 
-    // Handle each action
-    switch (data.action) {
-      case 'topic':
-        return handleTopicGeneration(data);
+    // Handle each action, attributing AI usage to it
+    return await withUsageContext({ source: `writer:${data.action}` }, async () => {
+      switch (data.action) {
+        case 'topic':
+          return handleTopicGeneration(data);
 
-      case 'outline':
-        return handleOutlineGeneration(data);
+        case 'outline':
+          return handleOutlineGeneration(data);
 
-      case 'generate':
-        return handleContentGeneration(data);
+        case 'generate':
+          return handleContentGeneration(data);
 
-      case 'generate-article':
-        return handleArticleGeneration(data);
+        case 'generate-article':
+          return handleArticleGeneration(data);
 
-      case 'regenerate-section':
-        return handleSectionRegeneration(data);
+        case 'regenerate-section':
+          return handleSectionRegeneration(data);
 
-      case 'render-html':
-        return handleRenderHtml(data);
+        case 'render-html':
+          return handleRenderHtml(data);
 
-      case 'save-article':
-        return handleSaveArticle(data);
+        case 'save-article':
+          return handleSaveArticle(data);
 
-      default:
-        return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
-    }
+        default:
+          return NextResponse.json({ error: 'Unknown action' }, { status: 400 });
+      }
+    });
   } catch (error) {
     console.error('Writer API error:', error);
     return NextResponse.json(
@@ -273,7 +277,7 @@ const TopicSuggestionResponseSchema = zod.object({
 async function handleTopicGeneration(
   data: z.infer<typeof TopicRequestSchema>
 ) {
-  const collections = getProductCollections();
+  const collections = await loadProductCollections();
 
   // Pick collection - use provided or random
   let collectionHandle = data.collectionHandle;
@@ -589,52 +593,16 @@ function slugify(text: string): string {
 async function handleArticleGeneration(
   data: z.infer<typeof GenerateArticleRequestSchema>
 ) {
-  // Fetch product details from Shopify
-  let productContext = '';
-  let productInfo = null;
-
-  if (isShopifyConfigured()) {
-    productInfo = await fetchProductGraphQL(data.productHandle);
-    if (productInfo) {
-      productContext = `
-PRODUCT DETAILS:
-- Name: ${productInfo.title}
-- Handle: ${productInfo.handle}
-- URL: ${productInfo.url}
-- Description: ${productInfo.description}
-- Tags: ${productInfo.tags.join(', ')}
-- Variants: ${productInfo.variants.map(v => `${v.title} ($${v.price})`).join(', ')}
-`;
-    }
-  }
+  // Fetch product details from Shopify and build the generation prompt
+  const prompt = await prepareArticlePrompt(data);
 
-  if (!productContext) {
+  if (!prompt) {
     return NextResponse.json(
       { error: 'Could not fetch product details' },
       { status: 400 }
     );
   }
 
-  // Build the generation prompt
-  const wordTargets = { short: 1000, medium: 2000, long: 3500 };
-  const targetWords = wordTargets[data.targetLength];
-
-  const mustIncludeStr = data.mustInclude?.length
-    ? `\nMUST INCLUDE: ${data.mustInclude.join(', ')}`
-    : '';
-
-  const prompt = buildArticlePrompt({
-    productContext,
-    productHandle: data.productHandle,
-    angle: data.angle,
-    targetWords,
-    primaryKeyword: data.primaryKeyword,
-    secondaryKeywords: data.secondaryKeywords,
-    mustInclude: mustIncludeStr,
-    tone: data.tone || 'professional',
-    additionalNotes: data.additionalNotes,
-  });
-
   try {
     const response = await getDefaultProvider().generateText(prompt, {
       temperature: 0.7,
@@ -674,95 +642,6 @@ PRODUCT DETAILS:
   }
 }
 
-/**
- * Build the prompt for article generation
- */
-function buildArticlePrompt(params: {
-  productContext: string;
-  productHandle: string;
-  angle: string;
-  targetWords: number;
-  primaryKeyword?: string;
-  secondaryKeywords?: string[];
-  mustInclude: string;
-  tone: string;
-  additionalNotes?: string;
-}): string {
-  const angleDescriptions: Record<string, string> = {
-    howto: 'A step-by-step guide showing how to use or apply the product',
-    comparison: 'Compare this product with alternatives, highlighting key differences',
-    safety: 'Focus on safe handling, storage, and regulatory compliance',
-    technical: 'Deep dive into technical specifications, chemical properties, and applications',
-    application: 'Focus on specific industry applications and use cases',
-    guide: 'A comprehensive guide covering multiple aspects of the product',
-  };
-
-  const keywordInstruction = params.primaryKeyword
-    ? `Primary SEO keyword: "${params.primaryKeyword}"`
-    : 'Suggest an appropriate primary SEO keyword';
-
-  const secondaryKeywordsStr = params.secondaryKeywords?.length
-    ? `Secondary keywords to include: ${params.secondaryKeywords.join(', ')}`
-    : '';
-
-  return `You are writing a blog article for Alliance Chemical, a trusted industrial chemical supplier.
-
-${params.productContext}
-
-ARTICLE REQUIREMENTS:
-- Angle: ${params.angle} - ${angleDescriptions[params.angle] || 'General product guide'}
-- Target length: ~${params.targetWords} words
-- Tone: ${params.tone}
-- ${keywordInstruction}
-${secondaryKeywordsStr}
-${params.mustInclude}
-${params.additionalNotes ? `\nADDITIONAL NOTES: ${params.additionalNotes}` : ''}
-
-OUTPUT FORMAT:
-Return a JSON object with this exact structure. Use markdown in content fields for formatting (bold, lists, links).
-
-{
-  "meta": {
-    "title": "Article Title (60 chars max)",
-    "metaDescription": "SEO meta description (150-160 chars)",
-    "primaryKeyword": "main keyword",
-    "secondaryKeywords": ["keyword2", "keyword3"]
-  },
-  "hero": {
-    "subtitle": "One sentence hook that captures attention",
-    "badges": ["Badge 1", "Badge 2", "Badge 3"],
-    "heroImage": "suggested-image-description"
-  },
-  "sections": [
-    { "type": "text", "heading": "Introduction", "content": "Markdown content..." },
-    { "type": "callout", "variant": "warning", "title": "Safety Note", "content": "Important warning..." },
-    { "type": "table", "headers": ["Col1", "Col2"], "rows": [["a", "b"]], "caption": "Table description" },
-    { "type": "comparison", "items": [{ "title": "Option A", "points": ["point1"], "featured": true }] },
-    { "type": "process-steps", "heading": "How to Apply", "steps": [{ "title": "Step 1", "content": "..." }] },
-    { "type": "case-study", "title": "Real-World Example", "stats": [{ "value": "50%", "label": "Improvement" }], "content": "..." },
-    { "type": "product-grid", "products": [{ "handle": "${params.productHandle}", "title": "Product Name", "description": "..." }] },
-    { "type": "image", "suggestion": "Photo description for manual selection", "alt": "alt text", "caption": "..." },
-    { "type": "faq", "heading": "Frequently Asked Questions", "questions": [{ "q": "Question?", "a": "Answer..." }] }
-  ],
-  "cta": {
-    "title": "Ready to Order?",
-    "text": "CTA description mentioning the product",
-    "buttonText": "Shop Now",
-    "productHandle": "${params.productHandle}"
-  }
-}
-
-IMPORTANT RULES:
-1. Output ONLY valid JSON, no other text before or after
-2. Use varied section types appropriate for the angle
-3. Include at least one callout for safety-critical information
-4. Include FAQs with 4-6 questions
-5. Make content specific to the product, not generic
-6. Include product-grid section linking to relevant products
-7. For text sections, use markdown: **bold**, *italic*, bullet lists, [links](url)
-8. For comparison sections, mark the recommended option with "featured": true`;
-}
-
 /**
  * Regenerate a single section
  */
@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server';
+import { WRITER_STREAM_CONFIG } from '@/lib/config/constants';
+import {
+  getWriterJob,
+  canResumeWriterJob,
+  runWriterJob,
+  createWriterEventStream,
+  sendWriterJobEvent,
+  WriterJobError,
+} from '@/lib/writer';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+/**
+ * GET /api/writer/stream/[id]
+ * Reconnect to a streaming writer job. Replays the sections after
+ * Last-Event-ID (or ?lastEventId=), then follows the job live: if the run
+ * that was streaming it died, this request resumes generation from the
+ * last complete section. Same events as POST /api/writer/stream.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  const lastEventId =
+    request.headers.get('Last-Event-ID') ?? request.nextUrl.searchParams.get('lastEventId');
+  const received = Math.max(0, parseInt(lastEventId ?? '0', 10) || 0);
+
+  const initialJob = await getWriterJob(id);
+  if (!initialJob) {
+    return new Response('Job not found', { status: 404 });
+  }
+
+  return createWriterEventStream(request, async (send) => {
+    send('job', { jobId: id, status: initialJob.status, reconnected: true });
+
+    let job = initialJob;
+    let sent = received;
+    const sentFields = new Set<string>();
+
+    // Replay what's been saved since the client's last event
+    const catchUp = () => {
+      for (const [key, value] of Object.entries(job.fields)) {
+        if (sentFields.has(key)) continue;
+        sentFields.add(key);
+        send('field', { key, value });
+      }
+      for (; sent < job.sections.length; sent++) {
+        send('section', { index: sent, section: job.sections[sent] }, sent + 1);
+      }
+    };
+
+    while (!request.signal.aborted) {
+      catchUp();
+
+      if (job.status === 'completed' && job.content && job.html) {
+        send('complete', { content: job.content, html: job.html });
+        return;
+      }
+
+      if (canResumeWriterJob(job)) {
+        try {
+          await runWriterJob(id, (event) => {
+            // Never send a section the client already has
+            if (event.type === 'section') {
+              if (event.index < sent) return;
+              sent = event.index + 1;
+            }
+            sendWriterJobEvent(send, event);
+          });
+          return;
+        } catch (error) {
+          // Another request took the lease first - follow it instead
+          if (!(error instanceof WriterJobError) || error.code !== 'ALREADY_RUNNING') throw error;
+        }
+      } else if (job.status === 'failed') {
+        send('failed', { error: job.errorMessage ?? 'Generation failed', resumable: false });
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, WRITER_STREAM_CONFIG.pollIntervalMs));
+
+      const latest = await getWriterJob(id);
+      if (!latest) {
+        send('error', { message: 'Job not found' });
+        return;
+      }
+      job = latest;
+    }
+  });
+}
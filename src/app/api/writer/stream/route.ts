@@ -0,0 +1,71 @@
+/**
+ * Streaming Writer API
+ *
+ * POST: Start a writer job for a generate-article request and stream it as
+ * Server-Sent Events:
+ * - job:      { jobId } - keep it to reconnect via /api/writer/stream/[jobId]
+ * - field:    { key, value } - meta, hero or cta, once complete
+ * - section:  { index, section } - each BlogSection as soon as it's complete (id = index + 1)
+ * - complete: { content, html }
+ * - failed:   { error, resumable }
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { authorizeRequest } from '@/lib/auth/session';
+import {
+  createWriterJob,
+  runWriterJob,
+  createWriterEventStream,
+  sendWriterJobEvent,
+  WriterJobError,
+} from '@/lib/writer';
+
+export const dynamic = 'force-dynamic';
+export const maxDuration = 300;
+
+const StreamArticleRequestSchema = z.object({
+  productHandle: z.string(),
+  angle: z.enum(['howto', 'comparison', 'safety', 'technical', 'application', 'guide']),
+  targetLength: z.enum(['short', 'medium', 'long']),
+  primaryKeyword: z.string().optional(),
+  secondaryKeywords: z.array(z.string()).optional(),
+  mustInclude: z.array(z.string()).optional(),
+  tone: z.enum(['professional', 'conversational', 'technical']).optional(),
+  additionalNotes: z.string().optional(),
+});
+
+export async function POST(request: NextRequest) {
+  const auth = await authorizeRequest(request);
+  if (!auth.user) {
+    return NextResponse.json({ error: auth.error }, { status: auth.status });
+  }
+
+  const body = await request.json().catch(() => null);
+  const parsed = StreamArticleRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: 'Validation failed', details: parsed.error.flatten() },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const job = await createWriterJob(parsed.data, auth.user.email);
+
+    return createWriterEventStream(request, async (send) => {
+      send('job', { jobId: job.id });
+      await runWriterJob(job.id, (event) => sendWriterJobEvent(send, event));
+    });
+  } catch (error) {
+    if (error instanceof WriterJobError && error.code === 'NO_PRODUCT') {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Failed to start writer job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,166 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { getOrganizationInfo } from '@/lib/config/env';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { getArticleBodyHtml } from '@/lib/shopify/article-sync';
+import { generateBreadcrumbJsonLd } from '@/lib/seo/jsonld';
+import { generateStructuredContentJsonLd, flattenStructuredContent } from '@/lib/seo/structured-data';
+import { getHeroImage, toImageObject } from '@/lib/media';
+import {
+  getBlogUrl,
+  getClusterSlug,
+  getClusterUrl,
+  getPostUrl,
+  getPublishedPost,
+  sanitizeArticleHtml,
+} from '@/lib/blog';
+import { JsonLd } from '@/components/blog/json-ld';
+import { formatPostDate } from '@/components/blog/post-card';
+
+// Prevent static generation - this page queries the database
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+// Hero images saved without dimensions; next/image needs a size to reserve
+const HERO_FALLBACK_SIZE = { width: 1200, height: 630 };
+
+// Shared by generateMetadata and the page within one request
+const loadPost = cache(getPublishedPost);
+const loadHeroImage = cache(getHeroImage);
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const post = await loadPost(slug);
+  if (!post) return {};
+
+  const hero = await loadHeroImage(post.id);
+  const images = hero
+    ? [{ url: hero.url, width: hero.width ?? undefined, height: hero.height ?? undefined, alt: hero.altText }]
+    : undefined;
+
+  return {
+    title: { absolute: post.metaTitle },
+    description: post.metaDescription,
+    keywords: [post.primaryKeyword, ...post.secondaryKeywords],
+    authors: [{ name: post.author.name, url: post.author.profileUrl ?? undefined }],
+    alternates: { canonical: post.canonicalUrl || getPostUrl(post.slug) },
+    openGraph: {
+      type: 'article',
+      title: post.metaTitle,
+      description: post.metaDescription,
+      url: getPostUrl(post.slug),
+      publishedTime: post.publishedAt?.toISOString(),
+      modifiedTime: post.updatedAt.toISOString(),
+      authors: [post.author.name],
+      section: post.cluster?.name,
+      tags: post.secondaryKeywords,
+      images,
+    },
+    twitter: {
+      card: hero ? 'summary_large_image' : 'summary',
+      title: post.metaTitle,
+      description: post.metaDescription,
+      images: hero ? [hero.url] : undefined,
+    },
+  };
+}
+
+export default async function BlogPostPage({ params }: PageProps) {
+  const { slug } = await params;
+  const post = await loadPost(slug);
+  if (!post) notFound();
+
+  const hero = await loadHeroImage(post.id);
+  const canonicalPost = toCanonicalPost(post, post.author);
+  const bodyHtml = sanitizeArticleHtml(getArticleBodyHtml(canonicalPost));
+
+  const breadcrumbs = [
+    { name: 'Blog', url: getBlogUrl() },
+    ...(post.cluster ? [{ name: post.cluster.name, url: getClusterUrl(post.cluster) }] : []),
+    { name: post.title, url: getPostUrl(post.slug) },
+  ];
+
+  // Posts saved before hero images existed have no image in their stored JSON-LD
+  const articleJsonLd = {
+    ...post.ldJsonArticle,
+    image: post.ldJsonArticle.image ?? (hero ? toImageObject(hero) : null),
+  };
+
+  // HowTo, comparison and product markup found in the sections
+  const structuredJsonLd = flattenStructuredContent(
+    generateStructuredContentJsonLd(canonicalPost, {
+      organizationName: getOrganizationInfo().name,
+      image: articleJsonLd.image,
+    })
+  );
+
+  return (
+    <article>
+      <JsonLd data={articleJsonLd} />
+      <JsonLd data={post.ldJsonFaqPage} />
+      <JsonLd data={generateBreadcrumbJsonLd(breadcrumbs)} />
+      {structuredJsonLd.map((data, index) => (
+        <JsonLd key={index} data={data} />
+      ))}
+
+      <nav className="text-sm text-gray-500">
+        <Link href={PUBLIC_BLOG_CONFIG.basePath} className="hover:text-gray-700">Blog</Link>
+        {post.cluster && (
+          <>
+            {' / '}
+            <Link
+              href={`${PUBLIC_BLOG_CONFIG.basePath}/topics/${getClusterSlug(post.cluster)}`}
+              className="hover:text-gray-700"
+            >
+              {post.cluster.name}
+            </Link>
+          </>
+        )}
+      </nav>
+
+      {/* Blog Writer HTML brings its own title and hero */}
+      {!post.rawHtml && (
+        <header className="mt-4">
+          <h1 className="text-3xl font-bold text-gray-900">{post.title}</h1>
+          <p className="mt-3 text-sm text-gray-500">
+            {formatPostDate(post.publishedAt)} · {post.readingTimeMins} min read · {post.author.name}, {post.author.role}
+          </p>
+          {hero && (
+            <Image
+              src={hero.url}
+              alt={hero.altText}
+              width={hero.width ?? HERO_FALLBACK_SIZE.width}
+              height={hero.height ?? HERO_FALLBACK_SIZE.height}
+              sizes="(max-width: 768px) 100vw, 768px"
+              priority
+              className="mt-6 h-auto w-full rounded-lg"
+            />
+          )}
+        </header>
+      )}
+
+      <div className="blog-article mt-6 text-gray-800" dangerouslySetInnerHTML={{ __html: bodyHtml }} />
+
+      <footer className="mt-12 border-t border-gray-200 pt-6">
+        <p className="text-sm font-medium text-gray-900">{post.author.name}</p>
+        <p className="text-sm text-gray-500">{post.author.role}</p>
+        <p className="mt-2 text-sm text-gray-600">{post.author.credentials}</p>
+        {post.cluster && (
+          <Link
+            href={`${PUBLIC_BLOG_CONFIG.basePath}/topics/${getClusterSlug(post.cluster)}`}
+            className="mt-6 inline-block text-sm text-indigo-600 hover:text-indigo-500"
+          >
+            More on {post.cluster.name} &rarr;
+          </Link>
+        )}
+      </footer>
+    </article>
+  );
+}
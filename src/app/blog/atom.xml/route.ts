@@ -0,0 +1,22 @@
+import { buildBlogFeed } from '@/lib/blog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /blog/atom.xml
+ * Atom feed of the most recent published posts
+ */
+export async function GET() {
+  try {
+    const xml = await buildBlogFeed('atom');
+    return new Response(xml, {
+      headers: {
+        'Content-Type': 'application/atom+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building Atom feed:', error);
+    return new Response('Failed to build feed', { status: 500 });
+  }
+}
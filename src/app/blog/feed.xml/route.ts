@@ -0,0 +1,22 @@
+import { buildBlogFeed } from '@/lib/blog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /blog/feed.xml
+ * RSS 2.0 feed of the most recent published posts
+ */
+export async function GET() {
+  try {
+    const xml = await buildBlogFeed('rss');
+    return new Response(xml, {
+      headers: {
+        'Content-Type': 'application/rss+xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building RSS feed:', error);
+    return new Response('Failed to build feed', { status: 500 });
+  }
+}
@@ -0,0 +1,51 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { getOrganizationInfo } from '@/lib/config/env';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+
+export function generateMetadata(): Metadata {
+  const org = getOrganizationInfo();
+  return {
+    title: {
+      default: `${org.name} Blog`,
+      template: `%s | ${org.name}`,
+    },
+    alternates: {
+      types: {
+        'application/rss+xml': `${PUBLIC_BLOG_CONFIG.basePath}/feed.xml`,
+        'application/atom+xml': `${PUBLIC_BLOG_CONFIG.basePath}/atom.xml`,
+      },
+    },
+  };
+}
+
+export default function BlogLayout({ children }: { children: React.ReactNode }) {
+  const org = getOrganizationInfo();
+
+  return (
+    <div className="min-h-screen bg-white">
+      <header className="border-b border-gray-200">
+        <div className="mx-auto max-w-3xl px-4 py-4 flex items-center justify-between">
+          <Link href={PUBLIC_BLOG_CONFIG.basePath} className="text-lg font-semibold text-gray-900">
+            {org.name} Blog
+          </Link>
+          <a href={org.websiteUrl} className="text-sm text-gray-500 hover:text-gray-700">
+            {new URL(org.websiteUrl).host}
+          </a>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-4 py-10">{children}</main>
+
+      <footer className="border-t border-gray-200">
+        <div className="mx-auto max-w-3xl px-4 py-6 flex items-center justify-between text-sm text-gray-500">
+          <span>&copy; {new Date().getFullYear()} {org.name}</span>
+          <span className="flex gap-4">
+            <a href={`${PUBLIC_BLOG_CONFIG.basePath}/feed.xml`} className="hover:text-gray-700">RSS</a>
+            <a href={`${PUBLIC_BLOG_CONFIG.basePath}/atom.xml`} className="hover:text-gray-700">Atom</a>
+          </span>
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { getOrganizationInfo } from '@/lib/config/env';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+import { getBlogUrl, listPublicClusters, listPublishedPosts } from '@/lib/blog';
+import { PostCard } from '@/components/blog/post-card';
+
+// Prevent static generation - this page queries the database
+export const dynamic = 'force-dynamic';
+
+export function generateMetadata(): Metadata {
+  const org = getOrganizationInfo();
+  return {
+    description: `Guides and articles from ${org.name}`,
+    alternates: { canonical: getBlogUrl() },
+  };
+}
+
+export default async function BlogIndexPage() {
+  const [posts, clusters] = await Promise.all([
+    listPublishedPosts({ limit: PUBLIC_BLOG_CONFIG.indexLimit }),
+    listPublicClusters(),
+  ]);
+
+  return (
+    <div className="space-y-12">
+      {clusters.length > 0 && (
+        <section>
+          <h2 className="text-sm font-medium uppercase tracking-wide text-gray-500">Topics</h2>
+          <div className="mt-3 flex flex-wrap gap-2">
+            {clusters.map((cluster) => (
+              <Link
+                key={cluster.id}
+                href={`${PUBLIC_BLOG_CONFIG.basePath}/topics/${cluster.slug}`}
+                className="rounded-full bg-gray-100 px-3 py-1 text-sm text-gray-700 hover:bg-gray-200"
+              >
+                {cluster.name} <span className="text-gray-400">({cluster.postCount})</span>
+              </Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-8">
+        {posts.length === 0 ? (
+          <p className="text-gray-500">No posts published yet.</p>
+        ) : (
+          posts.map((post) => <PostCard key={post.id} post={post} />)
+        )}
+      </section>
+    </div>
+  );
+}
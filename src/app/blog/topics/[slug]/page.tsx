@@ -0,0 +1,106 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { cache } from 'react';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+import { generateBreadcrumbJsonLd } from '@/lib/seo/jsonld';
+import {
+  getBlogUrl,
+  getClusterUrl,
+  getPublicCluster,
+  listPublicClusters,
+  listPublishedPosts,
+} from '@/lib/blog';
+import { JsonLd } from '@/components/blog/json-ld';
+import { PostCard } from '@/components/blog/post-card';
+
+// Prevent static generation - this page queries the database
+export const dynamic = 'force-dynamic';
+
+interface PageProps {
+  params: Promise<{ slug: string }>;
+}
+
+const loadCluster = cache(getPublicCluster);
+
+export async function generateMetadata({ params }: PageProps): Promise<Metadata> {
+  const { slug } = await params;
+  const cluster = await loadCluster(slug);
+  if (!cluster) return {};
+
+  return {
+    title: cluster.name,
+    description: cluster.description ?? `Articles about ${cluster.name}`,
+    alternates: { canonical: getClusterUrl(cluster) },
+  };
+}
+
+/**
+ * Topic cluster index: the pillar post first, then the rest of the
+ * cluster's published posts and links to its sub-topics
+ */
+export default async function ClusterPage({ params }: PageProps) {
+  const { slug } = await params;
+  const cluster = await loadCluster(slug);
+  if (!cluster) notFound();
+
+  const [posts, clusters] = await Promise.all([
+    listPublishedPosts({ clusterId: cluster.id }),
+    listPublicClusters(),
+  ]);
+
+  const pillar = posts.find((post) => post.id === cluster.pillarPostId);
+  const others = posts.filter((post) => post !== pillar);
+  const children = clusters.filter((child) => child.parentId === cluster.id);
+  const parent = clusters.find((candidate) => candidate.id === cluster.parentId);
+
+  const breadcrumbs = [
+    { name: 'Blog', url: getBlogUrl() },
+    ...(parent ? [{ name: parent.name, url: getClusterUrl(parent) }] : []),
+    { name: cluster.name, url: getClusterUrl(cluster) },
+  ];
+
+  return (
+    <div>
+      <JsonLd data={generateBreadcrumbJsonLd(breadcrumbs)} />
+
+      <nav className="text-sm text-gray-500">
+        <Link href={PUBLIC_BLOG_CONFIG.basePath} className="hover:text-gray-700">Blog</Link>
+        {parent && (
+          <>
+            {' / '}
+            <Link href={`${PUBLIC_BLOG_CONFIG.basePath}/topics/${parent.slug}`} className="hover:text-gray-700">
+              {parent.name}
+            </Link>
+          </>
+        )}
+      </nav>
+
+      <header className="mt-4">
+        <h1 className="text-3xl font-bold text-gray-900">{cluster.name}</h1>
+        {cluster.description && <p className="mt-3 text-gray-600">{cluster.description}</p>}
+      </header>
+
+      {children.length > 0 && (
+        <div className="mt-6 flex flex-wrap gap-2">
+          {children.map((child) => (
+            <Link
+              key={child.id}
+              href={`${PUBLIC_BLOG_CONFIG.basePath}/topics/${child.slug}`}
+              className="rounded-full bg-gray-100 px-3 py-1 text-sm text-gray-700 hover:bg-gray-200"
+            >
+              {child.name} <span className="text-gray-400">({child.postCount})</span>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <div className="mt-10 space-y-8">
+        {pillar && <PostCard post={pillar} featured />}
+        {others.map((post) => (
+          <PostCard key={post.id} post={post} />
+        ))}
+      </div>
+    </div>
+  );
+}
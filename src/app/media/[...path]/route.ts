@@ -0,0 +1,34 @@
+import { getMediaMimeType, readMediaFile } from '@/lib/media';
+
+interface RouteParams {
+  params: Promise<{ path: string[] }>;
+}
+
+/**
+ * GET /media/[...path]
+ * Serve a stored image from MEDIA_DIR. Asset IDs are never reused, so
+ * files can be cached indefinitely.
+ */
+export async function GET(_request: Request, { params }: RouteParams) {
+  const { path } = await params;
+  const storagePath = path.join('/');
+  const mimeType = getMediaMimeType(storagePath);
+  if (!mimeType) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  try {
+    const data = await readMediaFile(storagePath);
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': mimeType,
+        'Content-Length': String(data.length),
+        'Cache-Control': 'public, max-age=31536000, immutable',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch {
+    // Missing files and paths outside MEDIA_DIR alike
+    return new Response('Not found', { status: 404 });
+  }
+}
@@ -0,0 +1,23 @@
+import { buildBlogSitemap } from '@/lib/blog';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * GET /sitemap.xml
+ * Public blog sitemap with image entries for each post's hero and inline
+ * images
+ */
+export async function GET() {
+  try {
+    const xml = await buildBlogSitemap();
+    return new Response(xml, {
+      headers: {
+        'Content-Type': 'application/xml; charset=utf-8',
+        'Cache-Control': 'public, max-age=0, s-maxage=3600',
+      },
+    });
+  } catch (error) {
+    console.error('Error building sitemap:', error);
+    return new Response('Failed to build sitemap', { status: 500 });
+  }
+}
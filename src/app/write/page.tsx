@@ -1,6 +1,6 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Textarea } from '@/components/ui/textarea';
@@ -14,6 +14,9 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
+import { renderSection } from '@/lib/templates/section-renderers';
+import type { WriterSection } from '@/lib/writer';
+import { getBlogCSS } from '@/lib/templates/blog-renderer';
 
 type Step = 1 | 2 | 3;
 
@@ -90,6 +93,14 @@ const MUST_INCLUDE_OPTIONS = [
   { id: 'case-study', label: 'Case study' },
 ];
 
+// Unfinished streaming job, so a reload can pick it back up
+const WRITER_JOB_STORAGE_KEY = 'writer:streamJobId';
+
+// Reconnects after a dropped stream before giving up
+const MAX_RECONNECTS = 3;
+
+type StreamOutcome = 'complete' | 'failed' | 'dropped';
+
 const SECTION_ICONS: Record<string, string> = {
   text: '📝',
   callout: '⚠️',
@@ -128,10 +139,37 @@ export default function WritePage() {
   const [saving, setSaving] = useState(false);
   const [savedPost, setSavedPost] = useState<{ id: string; slug: string; title: string } | null>(null);
 
+  // Streaming state
+  const [streamedSections, setStreamedSections] = useState<WriterSection[]>([]);
+  const [streamedTitle, setStreamedTitle] = useState('');
+  const [resumeJobId, setResumeJobId] = useState<string | null>(null);
+  const jobIdRef = useRef<string | null>(null);
+  const receivedRef = useRef(0);
+
   // Shared state
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
+  // Offer to resume an article that was still being written
+  useEffect(() => {
+    setResumeJobId(localStorage.getItem(WRITER_JOB_STORAGE_KEY));
+  }, []);
+
+  // Render sections as they arrive
+  const streamingPreview = useMemo(() => {
+    if (streamedSections.length === 0) return '';
+    const body = streamedSections
+      .map((section) => {
+        try {
+          return renderSection(section);
+        } catch {
+          return '';
+        }
+      })
+      .join('\n');
+    return `<style>${getBlogCSS()}</style><main class="ac-section">${body}</main>`;
+  }, [streamedSections]);
+
   // Load collections on mount
   useEffect(() => {
     fetch('/api/writer')
@@ -171,13 +209,17 @@ export default function WritePage() {
 
     setLoading(true);
     setError('');
+    setResumeJobId(null);
+    setStreamedSections([]);
+    setStreamedTitle('');
+    jobIdRef.current = null;
+    receivedRef.current = 0;
 
     try {
-      const res = await fetch('/api/writer', {
+      const res = await fetch('/api/writer/stream', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          action: 'generate-article',
           productHandle: selectedProduct,
           angle,
           targetLength,
@@ -188,12 +230,12 @@ export default function WritePage() {
         }),
       });
 
-      const data = await res.json();
-      if (!res.ok) throw new Error(data.error);
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error);
+      }
 
-      setContent(data.content);
-      setHtml(data.html);
-      setStep(2);
+      await followStream(await consumeStream(res));
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to generate article');
     } finally {
@@ -201,6 +243,147 @@ export default function WritePage() {
     }
   }
 
+  /**
+   * Reconnect to an unfinished job; the server replays sections we don't
+   * have and resumes generation if it had stopped
+   */
+  async function resumeArticle(jobId: string) {
+    setLoading(true);
+    setError('');
+    setResumeJobId(null);
+    if (jobIdRef.current !== jobId) {
+      jobIdRef.current = jobId;
+      receivedRef.current = 0;
+      setStreamedSections([]);
+      setStreamedTitle('');
+    }
+
+    try {
+      await followStream(await reconnect(jobId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Failed to resume article');
+      setResumeJobId(jobId);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function reconnect(jobId: string): Promise<StreamOutcome> {
+    const res = await fetch(`/api/writer/stream/${jobId}`, {
+      headers: { 'Last-Event-ID': String(receivedRef.current) },
+    });
+    if (res.status === 404) {
+      localStorage.removeItem(WRITER_JOB_STORAGE_KEY);
+      throw new Error('Article job not found');
+    }
+    if (!res.ok) throw new Error(`Reconnect failed (${res.status})`);
+    return consumeStream(res);
+  }
+
+  /**
+   * Reconnect after dropped connections until the job finishes
+   */
+  async function followStream(outcome: StreamOutcome) {
+    for (let attempt = 1; outcome === 'dropped' && attempt <= MAX_RECONNECTS; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 1000 * attempt));
+      if (!jobIdRef.current) break;
+      outcome = await reconnect(jobIdRef.current).catch((): StreamOutcome => 'dropped');
+    }
+
+    if (outcome === 'dropped') {
+      setError('Lost connection while writing. The article is saved so far - resume to continue.');
+      setResumeJobId(jobIdRef.current);
+    }
+  }
+
+  /**
+   * Read a writer event stream until it completes, fails or drops
+   */
+  async function consumeStream(res: Response): Promise<StreamOutcome> {
+    if (!res.body) return 'dropped';
+
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) return 'dropped';
+        buffer += decoder.decode(value, { stream: true });
+
+        let boundary: number;
+        while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+          const message = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+
+          let event = 'message';
+          let data = '';
+          for (const line of message.split('\n')) {
+            if (line.startsWith('event: ')) event = line.slice(7);
+            else if (line.startsWith('data: ')) data += line.slice(6);
+          }
+          if (!data) continue;
+
+          const outcome = handleStreamEvent(event, JSON.parse(data));
+          if (outcome) return outcome;
+        }
+      }
+    } catch {
+      return 'dropped';
+    }
+  }
+
+  function handleStreamEvent(event: string, data: Record<string, unknown>): StreamOutcome | null {
+    switch (event) {
+      case 'job':
+        jobIdRef.current = data.jobId as string;
+        localStorage.setItem(WRITER_JOB_STORAGE_KEY, data.jobId as string);
+        return null;
+
+      case 'field':
+        if (data.key === 'meta') {
+          setStreamedTitle((data.value as BlogContent['meta']).title ?? '');
+        }
+        return null;
+
+      case 'section': {
+        const index = data.index as number;
+        receivedRef.current = Math.max(receivedRef.current, index + 1);
+        setStreamedSections((prev) => {
+          const next = [...prev];
+          next[index] = data.section as WriterSection;
+          return next;
+        });
+        return null;
+      }
+
+      case 'complete':
+        localStorage.removeItem(WRITER_JOB_STORAGE_KEY);
+        setContent(data.content as BlogContent);
+        setHtml(data.html as string);
+        setStep(2);
+        return 'complete';
+
+      case 'failed':
+        setError(data.error as string);
+        if (data.resumable) {
+          setResumeJobId(jobIdRef.current);
+        } else {
+          localStorage.removeItem(WRITER_JOB_STORAGE_KEY);
+        }
+        return 'failed';
+
+      case 'error':
+        setError((data.message as string) || 'Stream error');
+        setResumeJobId(jobIdRef.current);
+        return 'failed';
+
+      default:
+        return null;
+    }
+  }
+
   async function regenerateSection(index: number) {
     if (!content) return;
 
@@ -300,9 +483,10 @@ export default function WritePage() {
     }
   }
 
-  function getSectionLabel(section: BlogSection): string {
+  function getSectionLabel(section: BlogSection | WriterSection): string {
     const icon = SECTION_ICONS[section.type] || '📄';
-    const name = section.heading || section.title || section.type;
+    const name =
+      ('heading' in section && section.heading) || ('title' in section && section.title) || section.type;
     return `${icon} ${name}`;
   }
 
@@ -335,6 +519,8 @@ export default function WritePage() {
     setStep(1);
     setContent(null);
     setHtml('');
+    setStreamedSections([]);
+    setStreamedTitle('');
     setError('');
     setCopied(false);
     setSavedPost(null);
@@ -388,6 +574,30 @@ export default function WritePage() {
           </Card>
         )}
 
+        {/* Unfinished article */}
+        {resumeJobId && !loading && (
+          <Card>
+            <CardContent className="pt-4 flex items-center justify-between gap-2">
+              <p className="text-sm">An article was still being written when the connection dropped.</p>
+              <div className="flex gap-2 shrink-0">
+                <Button size="sm" onClick={() => resumeArticle(resumeJobId)}>
+                  Resume
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    localStorage.removeItem(WRITER_JOB_STORAGE_KEY);
+                    setResumeJobId(null);
+                  }}
+                >
+                  Discard
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Step 1: Setup */}
         {step === 1 && (
           <Card>
@@ -538,13 +748,36 @@ export default function WritePage() {
 
               {loading && (
                 <p className="text-sm text-muted-foreground text-center">
-                  This may take 30-60 seconds...
+                  {streamedSections.length > 0
+                    ? `${streamedSections.length} section${streamedSections.length === 1 ? '' : 's'} written...`
+                    : 'Starting to write...'}
                 </p>
               )}
             </CardContent>
           </Card>
         )}
 
+        {/* Sections written so far */}
+        {step === 1 && streamedSections.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm">{streamedTitle || 'Writing...'}</CardTitle>
+              <CardDescription>
+                {streamedSections.map((section) => getSectionLabel(section)).join(' · ')}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <iframe
+                srcDoc={streamingPreview}
+                sandbox=""
+                title="Article Preview"
+                className="w-full border rounded-lg"
+                style={{ height: '600px' }}
+              />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Step 2: Edit Sections */}
         {step === 2 && content && (
           <Card>
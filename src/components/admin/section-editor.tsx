@@ -0,0 +1,512 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { EditorIssue } from '@/lib/editor';
+import type { ExperienceEvidence, FAQ, HeadingLevel, InternalLink, LinkType } from '@/lib/schema/canonical';
+
+export interface EditablePost {
+  id: string;
+  version: number;
+  heroAnswer: string;
+  rawHtml: string | null;
+  sections: Array<{ id: string; headingLevel: HeadingLevel; headingText: string; body: string }>;
+  faq: FAQ[];
+  internalLinks: InternalLink[];
+  experienceEvidence: ExperienceEvidence;
+}
+
+type Draft = Omit<EditablePost, 'id' | 'version' | 'rawHtml'>;
+
+interface PreviewResult {
+  html: string;
+  rawHtmlOverrides: boolean;
+  wordCount: number;
+  issues: EditorIssue[];
+  contentScore: number;
+  seoScore: number;
+  publishReady: boolean;
+  publishBlockers: string[];
+}
+
+const PREVIEW_DEBOUNCE_MS = 600;
+
+const LINK_TYPES: LinkType[] = ['product', 'collection', 'blog_post', 'category', 'external'];
+
+const SEVERITY_COLORS: Record<EditorIssue['severity'], string> = {
+  error: 'bg-red-50 text-red-700',
+  warning: 'bg-yellow-50 text-yellow-700',
+  info: 'bg-blue-50 text-blue-700',
+};
+
+// Stand-in for the theme stylesheet so the preview is readable
+const PREVIEW_STYLES = `
+  body { font-family: system-ui, sans-serif; line-height: 1.6; color: #1f2937; padding: 16px; }
+  h2 { font-size: 1.4em; margin-top: 1.5em; } h3 { font-size: 1.15em; margin-top: 1.25em; }
+  .hero-answer { background: #f3f4f6; padding: 12px 16px; border-radius: 8px; }
+  .faq-item h3 { margin-bottom: 0.25em; }
+`;
+
+function toDraft(post: EditablePost): Draft {
+  return {
+    heroAnswer: post.heroAnswer,
+    sections: post.sections.map(({ id, headingLevel, headingText, body }) => ({ id, headingLevel, headingText, body })),
+    faq: post.faq.map(({ id, question, answer }) => ({ id, question, answer })),
+    internalLinks: post.internalLinks,
+    experienceEvidence: post.experienceEvidence,
+  };
+}
+
+function move<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+function IssueList({ issues }: { issues: EditorIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <ul className="mt-2 space-y-1">
+      {issues.map((issue, i) => (
+        <li key={i} className={`text-xs px-2 py-1 rounded ${SEVERITY_COLORS[issue.severity]}`}>
+          <span className="font-medium">{issue.field}:</span> {issue.message}
+          {issue.suggestion && <span className="block opacity-80">{issue.suggestion}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Structured editor for a post's sections, FAQs, internal links and
+ * experience evidence, with a live preview of the HTML Shopify receives.
+ */
+export function SectionEditor({ post, onSaved }: { post: EditablePost; onSaved: () => void }) {
+  const [draft, setDraft] = useState<Draft>(() => toDraft(post));
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const [dirty, setDirty] = useState(false);
+  const [useSectionsForShopify, setUseSectionsForShopify] = useState(false);
+  const previewRequest = useRef(0);
+
+  // Re-render and re-validate shortly after each edit
+  useEffect(() => {
+    const requestId = ++previewRequest.current;
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/posts/${post.id}/preview`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(draft),
+        });
+        const data = await res.json();
+        if (requestId !== previewRequest.current) return;
+        if (res.ok) {
+          setPreview(data);
+          setPreviewError(null);
+        } else {
+          setPreviewError(data.error || 'Preview failed');
+        }
+      } catch (error) {
+        console.error('Failed to preview post:', error);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [draft, post.id]);
+
+  function update(changes: Partial<Draft>) {
+    setDraft((current) => ({ ...current, ...changes }));
+    setDirty(true);
+  }
+
+  function updateSection(index: number, changes: Partial<Draft['sections'][number]>) {
+    update({ sections: draft.sections.map((s, i) => (i === index ? { ...s, ...changes } : s)) });
+  }
+
+  function addSection(index: number) {
+    const section = { id: crypto.randomUUID(), headingLevel: 'h2' as HeadingLevel, headingText: '', body: '' };
+    update({ sections: [...draft.sections.slice(0, index), section, ...draft.sections.slice(index)] });
+  }
+
+  function updateFaq(index: number, changes: Partial<FAQ>) {
+    update({ faq: draft.faq.map((f, i) => (i === index ? { ...f, ...changes } : f)) });
+  }
+
+  function updateLink(index: number, changes: Partial<InternalLink>) {
+    update({ internalLinks: draft.internalLinks.map((l, i) => (i === index ? { ...l, ...changes } : l)) });
+  }
+
+  async function save() {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      const res = await fetch(`/api/posts/${post.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...draft,
+          sections: draft.sections.map((section) => ({
+            ...section,
+            wordCount: section.body.split(/\s+/).filter(Boolean).length,
+          })),
+          ...(useSectionsForShopify && { rawHtml: null }),
+          // The version the draft was loaded from; a newer one is a conflict
+          version: post.version,
+          revisionNote: 'Edited in section editor',
+        }),
+      });
+      const data = await res.json();
+
+      if (!res.ok) {
+        // Schema problems are already listed inline from the preview
+        setSaveError(data.error || 'Failed to save');
+        return;
+      }
+
+      setDirty(false);
+      setUseSectionsForShopify(false);
+      if (data.validation && preview) {
+        setPreview({ ...preview, ...data.validation });
+      }
+      onSaved();
+    } catch (error) {
+      console.error('Failed to save post:', error);
+      setSaveError('Failed to save');
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  const issues = preview?.issues ?? [];
+  const sectionIssues = (id: string) => issues.filter((issue) => issue.sectionId === id);
+  const faqIssues = (id: string) => issues.filter((issue) => issue.faqId === id);
+  const fieldIssues = (prefix: string) =>
+    issues.filter((issue) => !issue.sectionId && !issue.faqId && issue.field.startsWith(prefix));
+  const otherIssues = issues.filter(
+    (issue) =>
+      !issue.sectionId &&
+      !issue.faqId &&
+      !['heroAnswer', 'sections', 'faq', 'internalLinks', 'experienceEvidence'].some((prefix) => issue.field.startsWith(prefix))
+  );
+  const schemaErrors = issues.filter((issue) => issue.source === 'schema').length;
+
+  const inputClass = 'w-full rounded-md border border-gray-300 px-2 py-1 text-sm';
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          {preview && (
+            <>
+              <span>{preview.wordCount} words</span>
+              <span>Content score {preview.contentScore}</span>
+              <span>SEO score {preview.seoScore}</span>
+              <span className={preview.publishReady ? 'text-green-600' : 'text-red-600'}>
+                {preview.publishReady ? 'Ready to publish' : `${preview.publishBlockers.length} publish blocker(s)`}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {saveError && <span className="text-sm text-red-600">{saveError}</span>}
+          <button
+            onClick={() => {
+              setDraft(toDraft(post));
+              setUseSectionsForShopify(false);
+              setDirty(false);
+            }}
+            disabled={!dirty || saving}
+            className="px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            Discard
+          </button>
+          <button
+            onClick={save}
+            disabled={!dirty || saving || schemaErrors > 0}
+            title={schemaErrors > 0 ? 'Fix the schema errors before saving' : undefined}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-indigo-600 rounded-md hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </button>
+        </div>
+      </div>
+
+      {post.rawHtml && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-md p-3 text-sm text-yellow-800">
+          This post has Blog Writer HTML, which Shopify receives instead of the sections below.
+          <label className="mt-2 flex items-center gap-2">
+            <input
+              type="checkbox"
+              checked={useSectionsForShopify}
+              onChange={(e) => {
+                setUseSectionsForShopify(e.target.checked);
+                setDirty(true);
+              }}
+            />
+            Discard the Blog Writer HTML on save and publish these sections instead
+          </label>
+        </div>
+      )}
+
+      {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+      <IssueList issues={otherIssues} />
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {/* Editor */}
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-1">Hero Answer</h3>
+            <textarea
+              value={draft.heroAnswer}
+              onChange={(e) => update({ heroAnswer: e.target.value })}
+              rows={3}
+              className={inputClass}
+            />
+            <IssueList issues={fieldIssues('heroAnswer')} />
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Sections ({draft.sections.length})</h3>
+            <IssueList issues={fieldIssues('sections')} />
+            <div className="space-y-3 mt-2">
+              {draft.sections.map((section, index) => (
+                <div key={section.id} className="border border-gray-200 rounded-lg p-3">
+                  <div className="flex items-center gap-2 mb-2">
+                    <select
+                      value={section.headingLevel}
+                      onChange={(e) => updateSection(index, { headingLevel: e.target.value as HeadingLevel })}
+                      className="rounded-md border border-gray-300 px-1 py-1 text-xs font-mono"
+                    >
+                      <option value="h2">h2</option>
+                      <option value="h3">h3</option>
+                    </select>
+                    <input
+                      value={section.headingText}
+                      onChange={(e) => updateSection(index, { headingText: e.target.value })}
+                      placeholder="Heading"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => update({ sections: move(draft.sections, index, index - 1) })}
+                      disabled={index === 0}
+                      className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      &uarr;
+                    </button>
+                    <button
+                      onClick={() => update({ sections: move(draft.sections, index, index + 1) })}
+                      disabled={index === draft.sections.length - 1}
+                      className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      &darr;
+                    </button>
+                    <button
+                      onClick={() => update({ sections: draft.sections.filter((s) => s.id !== section.id) })}
+                      className="px-1.5 text-red-500 hover:text-red-700"
+                      title="Remove section"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                  <textarea
+                    value={section.body}
+                    onChange={(e) => updateSection(index, { body: e.target.value })}
+                    rows={6}
+                    placeholder="Section body (HTML)"
+                    className={`${inputClass} font-mono text-xs`}
+                  />
+                  <IssueList issues={sectionIssues(section.id)} />
+                  <button
+                    onClick={() => addSection(index + 1)}
+                    className="mt-2 text-xs text-indigo-600 hover:text-indigo-500"
+                  >
+                    + Add section below
+                  </button>
+                </div>
+              ))}
+              {draft.sections.length === 0 && (
+                <button onClick={() => addSection(0)} className="text-sm text-indigo-600 hover:text-indigo-500">
+                  + Add section
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">FAQs ({draft.faq.length})</h3>
+            <IssueList issues={fieldIssues('faq')} />
+            <div className="space-y-3 mt-2">
+              {draft.faq.map((faq, index) => (
+                <div key={faq.id} className="bg-gray-50 rounded-lg p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={faq.question}
+                      onChange={(e) => updateFaq(index, { question: e.target.value })}
+                      placeholder="Question?"
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => update({ faq: move(draft.faq, index, index - 1) })}
+                      disabled={index === 0}
+                      className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      &uarr;
+                    </button>
+                    <button
+                      onClick={() => update({ faq: move(draft.faq, index, index + 1) })}
+                      disabled={index === draft.faq.length - 1}
+                      className="px-1.5 text-gray-500 hover:text-gray-800 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      &darr;
+                    </button>
+                    <button
+                      onClick={() => update({ faq: draft.faq.filter((f) => f.id !== faq.id) })}
+                      className="px-1.5 text-red-500 hover:text-red-700"
+                      title="Remove FAQ"
+                    >
+                      &times;
+                    </button>
+                  </div>
+                  <textarea
+                    value={faq.answer}
+                    onChange={(e) => updateFaq(index, { answer: e.target.value })}
+                    rows={3}
+                    placeholder="Answer"
+                    className={inputClass}
+                  />
+                  <IssueList issues={faqIssues(faq.id)} />
+                </div>
+              ))}
+              <button
+                onClick={() => update({ faq: [...draft.faq, { id: crypto.randomUUID(), question: '', answer: '' }] })}
+                className="text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                + Add FAQ
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Internal Links ({draft.internalLinks.length})</h3>
+            <IssueList issues={fieldIssues('internalLinks')} />
+            <div className="space-y-2 mt-2">
+              {draft.internalLinks.map((link, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={link.anchorText}
+                    onChange={(e) => updateLink(index, { anchorText: e.target.value })}
+                    placeholder="Anchor text"
+                    className={inputClass}
+                  />
+                  <input
+                    value={link.href}
+                    onChange={(e) => updateLink(index, { href: e.target.value })}
+                    placeholder="/collections/..."
+                    className={inputClass}
+                  />
+                  <select
+                    value={link.linkType}
+                    onChange={(e) => updateLink(index, { linkType: e.target.value as LinkType })}
+                    className="rounded-md border border-gray-300 px-1 py-1 text-xs"
+                  >
+                    {LINK_TYPES.map((type) => (
+                      <option key={type} value={type}>{type}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => update({ internalLinks: draft.internalLinks.filter((_, i) => i !== index) })}
+                    className="px-1.5 text-red-500 hover:text-red-700"
+                    title="Remove link"
+                  >
+                    &times;
+                  </button>
+                </div>
+              ))}
+              <button
+                onClick={() =>
+                  update({
+                    internalLinks: [
+                      ...draft.internalLinks,
+                      { href: '', anchorText: '', linkType: 'product', targetPostId: null },
+                    ],
+                  })
+                }
+                className="text-sm text-indigo-600 hover:text-indigo-500"
+              >
+                + Add link
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Experience Evidence</h3>
+            <div className="space-y-2">
+              <textarea
+                value={draft.experienceEvidence.summary}
+                onChange={(e) => update({ experienceEvidence: { ...draft.experienceEvidence, summary: e.target.value } })}
+                rows={2}
+                placeholder="Summary of first-hand experience"
+                className={inputClass}
+              />
+              <textarea
+                value={draft.experienceEvidence.details ?? ''}
+                onChange={(e) =>
+                  update({ experienceEvidence: { ...draft.experienceEvidence, details: e.target.value || null } })
+                }
+                rows={3}
+                placeholder="Details (optional)"
+                className={inputClass}
+              />
+              {draft.experienceEvidence.placeholders.length > 0 && (
+                <div className="flex flex-wrap items-center gap-1 text-xs">
+                  {draft.experienceEvidence.placeholders.map((placeholder, index) => (
+                    <span key={index} className="inline-flex items-center gap-1 bg-yellow-100 text-yellow-800 px-1.5 py-0.5 rounded">
+                      {placeholder}
+                      <button
+                        onClick={() =>
+                          update({
+                            experienceEvidence: {
+                              ...draft.experienceEvidence,
+                              placeholders: draft.experienceEvidence.placeholders.filter((_, i) => i !== index),
+                            },
+                          })
+                        }
+                        title="Mark as filled"
+                      >
+                        &times;
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+            <IssueList issues={fieldIssues('experienceEvidence')} />
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="lg:sticky lg:top-4 self-start">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Shopify Preview</h3>
+          <div className="border border-gray-200 rounded-lg overflow-hidden">
+            <iframe
+              srcDoc={`<!DOCTYPE html><html><head><style>${PREVIEW_STYLES}</style></head><body>${preview?.html ?? ''}</body></html>`}
+              sandbox=""
+              title="Shopify Preview"
+              className="w-full"
+              style={{ height: '80vh', border: 'none' }}
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Structured data script tag. `<` is escaped so text inside the JSON can't
+ * close the script element.
+ */
+export function JsonLd({ data }: { data: object | null | undefined }) {
+  if (!data) return null;
+  return (
+    <script
+      type="application/ld+json"
+      dangerouslySetInnerHTML={{ __html: JSON.stringify(data).replace(/</g, '\\u003c') }}
+    />
+  );
+}
@@ -0,0 +1,34 @@
+import Link from 'next/link';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+
+export interface PostCardPost {
+  slug: string;
+  title: string;
+  summary: string;
+  publishedAt: Date | null;
+  readingTimeMins: number;
+  author: { name: string };
+}
+
+export function formatPostDate(date: Date | null): string {
+  return date ? date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }) : '';
+}
+
+/**
+ * Blog listing card
+ */
+export function PostCard({ post, featured = false }: { post: PostCardPost; featured?: boolean }) {
+  return (
+    <article className={featured ? 'border-l-4 border-indigo-500 pl-4' : ''}>
+      <Link href={`${PUBLIC_BLOG_CONFIG.basePath}/${post.slug}`} className="group">
+        <h2 className={`font-semibold text-gray-900 group-hover:text-indigo-600 ${featured ? 'text-2xl' : 'text-xl'}`}>
+          {post.title}
+        </h2>
+      </Link>
+      <p className="mt-1 text-sm text-gray-500">
+        {formatPostDate(post.publishedAt)} · {post.readingTimeMins} min read · {post.author.name}
+      </p>
+      <p className="mt-2 text-gray-700">{post.summary}</p>
+    </article>
+  );
+}
@@ -6,7 +6,7 @@
 
 import { db } from '@/lib/db/client';
 import { blogPostEmbeddings, blogPosts } from '@/lib/db/schema';
-import { openaiEmbeddings } from './providers/openai';
+import { getEmbeddingProvider } from './providers';
 import { eq, and, sql } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 import type { BlogPost, Section } from '@/lib/schema/canonical';
@@ -51,7 +51,7 @@ export async function generatePostEmbeddings(
 
   // Generate embeddings in batch
   const texts = chunks.map((c) => c.text);
-  const embeddings = await openaiEmbeddings.embedBatch(texts);
+  const embeddings = await getEmbeddingProvider().embedBatch(texts);
 
   // Store embeddings
   const records = chunks.map((chunk, i) => ({
@@ -207,7 +207,15 @@ export async function deletePostEmbeddings(postId: string): Promise<void> {
  * Embed a query string for similarity search
  */
 export async function embedQuery(query: string): Promise<number[]> {
-  return openaiEmbeddings.embed(query);
+  return getEmbeddingProvider().embed(query);
+}
+
+/**
+ * Embed several query strings in one provider call
+ */
+export async function embedQueries(queries: string[]): Promise<number[][]> {
+  if (queries.length === 0) return [];
+  return getEmbeddingProvider().embedBatch(queries);
 }
 
 // ============================================================================
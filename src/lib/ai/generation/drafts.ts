@@ -264,7 +264,7 @@ function updateArticleJsonLd(
     '@type': 'BlogPosting',
     headline: post.title.slice(0, 110),
     description: post.summary,
-    image: null,
+    image: existing.image ?? null,
     author: {
       '@type': 'Person',
       name: post.author.name,
@@ -313,7 +313,7 @@ function generateFaqPageJsonLd(faqs: FAQ[]): FaqPageJsonLd {
 /**
  * Calculate total word count
  */
-function calculateWordCount(post: BlogPost): number {
+export function calculateWordCount(post: BlogPost): number {
   let count = 0;
 
   // Hero answer
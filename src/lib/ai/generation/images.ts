@@ -9,6 +9,7 @@
 import { GoogleGenAI } from '@google/genai';
 import * as fs from 'fs';
 import * as path from 'path';
+import { reportUsage } from '../usage/context';
 
 // Image aspect ratios
 export type AspectRatio = '1:1' | '2:3' | '3:2' | '3:4' | '4:3' | '4:5' | '5:4' | '9:16' | '16:9' | '21:9';
@@ -99,6 +100,24 @@ function parseResponse(response: unknown): { imageData?: string; mimeType?: stri
   return { imageData, mimeType, text };
 }
 
+/**
+ * Report token usage for an image generation call
+ */
+function reportImageUsage(model: ImageModel, response: unknown, startedAt: number): void {
+  const usage = (response as {
+    usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+  }).usageMetadata;
+
+  reportUsage({
+    provider: 'google',
+    model,
+    operation: 'image',
+    inputTokens: usage?.promptTokenCount ?? 0,
+    outputTokens: usage?.candidatesTokenCount ?? 0,
+    latencyMs: Date.now() - startedAt,
+  });
+}
+
 /**
  * Generate an image from a text prompt
  */
@@ -132,11 +151,13 @@ export async function generateImage(
     };
   }
 
+  const startedAt = Date.now();
   const response = await client.models.generateContent({
     model,
     contents: prompt,
     config,
   });
+  reportImageUsage(model, response, startedAt);
 
   // Parse response using candidates[0].content.parts pattern
   const { imageData, mimeType, text } = parseResponse(response);
@@ -307,6 +328,7 @@ export async function editImage(
 
   const client = getClient();
 
+  const startedAt = Date.now();
   const response = await client.models.generateContent({
     model,
     contents: [
@@ -330,6 +352,7 @@ export async function editImage(
       },
     },
   });
+  reportImageUsage(model, response, startedAt);
 
   const { imageData, mimeType, text } = parseResponse(response);
 
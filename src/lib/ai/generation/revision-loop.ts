@@ -0,0 +1,362 @@
+/**
+ * Draft Revision Loop
+ *
+ * Feeds content-validator issues back to the AI provider and revises only
+ * the sections and FAQs that fail, re-validating after each pass.
+ * Stops when the post passes, after N iterations, or when the score stops
+ * improving by at least `minScoreDelta`.
+ */
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { getDefaultProvider } from '../providers';
+import { REVISION_SYSTEM_PROMPT } from '../prompts/system';
+import { generateRevisionPrompt } from './style-aware-prompts';
+import { calculateWordCount } from './drafts';
+import {
+  validateContent,
+  type ValidationResult,
+  type ValidationConfig,
+} from '../validation/content-validator';
+import { FAQSchema } from '@/lib/schema/canonical.zod';
+import { generateFaqPageJsonLd } from '@/lib/seo/jsonld';
+import { AI_CONFIG } from '@/lib/config/constants';
+import type { BlogPost } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RevisionLoopOptions {
+  /** Maximum revision passes (default 3) */
+  maxIterations?: number;
+  /** Stop when a pass improves the score by less than this (default 2) */
+  minScoreDelta?: number;
+  validationConfig?: ValidationConfig;
+  /** Called after every pass, e.g. to write job logs */
+  onIteration?: (iteration: RevisionIteration) => Promise<void> | void;
+}
+
+export interface RevisionIteration {
+  iteration: number;
+  scoreBefore: number;
+  scoreAfter: number;
+  delta: number;
+  valid: boolean;
+  errorsBefore: number;
+  errorsAfter: number;
+  /** Indexes of the sections that were rewritten */
+  revisedSections: number[];
+  revisedFaqs: boolean;
+  changeLog: string[];
+}
+
+export type RevisionStopReason =
+  | 'passed'
+  | 'max_iterations'
+  | 'plateau'
+  | 'no_targets'
+  | 'error';
+
+export interface RevisionLoopResult {
+  /** Best-scoring version of the post */
+  post: BlogPost;
+  validation: ValidationResult;
+  iterations: RevisionIteration[];
+  stopReason: RevisionStopReason;
+  error?: string;
+}
+
+/**
+ * What one pass should rewrite, with the validator's repair prompts as goals
+ */
+interface RevisionTargets {
+  sections: Map<number, string[]>;
+  faqGoals: string[];
+}
+
+const DEFAULT_MAX_ITERATIONS = 3;
+const DEFAULT_MIN_SCORE_DELTA = 2;
+
+// Sections to lengthen when the whole post is under the word count
+const SHORTEST_SECTIONS_TO_EXTEND = 2;
+
+/**
+ * Provider response - follows the output format of generateRevisionPrompt()
+ */
+const RevisionResponseSchema = z.object({
+  updatedFields: z.object({
+    sections: z
+      .array(
+        z.object({
+          index: z.number().int().min(0),
+          body: z.string().min(50),
+        })
+      )
+      .optional(),
+    faq: z.array(FAQSchema.omit({ id: true })).max(10).optional(),
+  }),
+  changeLog: z.array(z.string()).default([]),
+  qualityImprovements: z.array(z.string()).default([]),
+});
+
+type RevisionResponse = z.infer<typeof RevisionResponseSchema>;
+
+// ============================================================================
+// MAIN LOOP
+// ============================================================================
+
+/**
+ * Revise a draft until it passes validation, runs out of iterations or
+ * stops improving. Never returns a version that scores lower than the input.
+ */
+export async function reviseUntilValid(
+  post: BlogPost,
+  options: RevisionLoopOptions = {}
+): Promise<RevisionLoopResult> {
+  const maxIterations = options.maxIterations ?? DEFAULT_MAX_ITERATIONS;
+  const minScoreDelta = options.minScoreDelta ?? DEFAULT_MIN_SCORE_DELTA;
+  const iterations: RevisionIteration[] = [];
+
+  let current = post;
+  let validation = validateContent(current, options.validationConfig);
+
+  if (validation.valid) {
+    return { post: current, validation, iterations, stopReason: 'passed' };
+  }
+
+  for (let i = 1; i <= maxIterations; i++) {
+    const targets = collectRevisionTargets(current, validation);
+    if (targets.sections.size === 0 && targets.faqGoals.length === 0) {
+      return { post: current, validation, iterations, stopReason: 'no_targets' };
+    }
+
+    let response: RevisionResponse;
+    try {
+      response = await requestRevision(current, targets);
+    } catch (error) {
+      return {
+        post: current,
+        validation,
+        iterations,
+        stopReason: 'error',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const revised = applyRevision(current, targets, response);
+    const revisedValidation = validateContent(revised.post, options.validationConfig);
+
+    const iteration: RevisionIteration = {
+      iteration: i,
+      scoreBefore: validation.score,
+      scoreAfter: revisedValidation.score,
+      delta: revisedValidation.score - validation.score,
+      valid: revisedValidation.valid,
+      errorsBefore: countErrors(validation),
+      errorsAfter: countErrors(revisedValidation),
+      revisedSections: revised.revisedSections,
+      revisedFaqs: revised.revisedFaqs,
+      changeLog: response.changeLog,
+    };
+    iterations.push(iteration);
+    await options.onIteration?.(iteration);
+
+    // Keep the revision unless it made things worse
+    const improved =
+      revisedValidation.valid ||
+      revisedValidation.score > validation.score ||
+      (revisedValidation.score === validation.score && iteration.errorsAfter < iteration.errorsBefore);
+    if (improved) {
+      current = revised.post;
+      validation = revisedValidation;
+    }
+
+    if (validation.valid) {
+      return { post: current, validation, iterations, stopReason: 'passed' };
+    }
+    if (iteration.delta < minScoreDelta && iteration.errorsAfter >= iteration.errorsBefore) {
+      return { post: current, validation, iterations, stopReason: 'plateau' };
+    }
+  }
+
+  return { post: current, validation, iterations, stopReason: 'max_iterations' };
+}
+
+/**
+ * Rewrite the given sections once, each toward its own goals, leaving the
+ * rest of the post untouched. Used for content refreshes, where the goals
+ * come from a refresh brief rather than from the validator.
+ */
+export async function reviseSections(
+  post: BlogPost,
+  goals: Map<number, string[]>
+): Promise<{ post: BlogPost; revisedSections: number[]; changeLog: string[] }> {
+  const targets: RevisionTargets = { sections: new Map(), faqGoals: [] };
+  for (const [index, sectionGoals] of goals) {
+    if (post.sections[index] && sectionGoals.length > 0) {
+      targets.sections.set(index, sectionGoals);
+    }
+  }
+  if (targets.sections.size === 0) {
+    return { post, revisedSections: [], changeLog: [] };
+  }
+
+  const response = await requestRevision(post, targets);
+  const revised = applyRevision(post, targets, response);
+  return { post: revised.post, revisedSections: revised.revisedSections, changeLog: response.changeLog };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Map validator repair suggestions onto concrete sections and FAQs.
+ * Post-level section repairs go to the sections most likely to fix them:
+ * the shortest sections for word count, the closing section for additions
+ * such as the CTA or safety callouts.
+ */
+function collectRevisionTargets(post: BlogPost, validation: ValidationResult): RevisionTargets {
+  const targets: RevisionTargets = { sections: new Map(), faqGoals: [] };
+
+  const addSectionGoal = (index: number, goal: string) => {
+    if (!post.sections[index]) return;
+    if (!targets.sections.has(index)) {
+      targets.sections.set(index, []);
+    }
+    targets.sections.get(index)!.push(goal);
+  };
+
+  for (const repair of validation.repairSuggestions) {
+    const sectionMatch = repair.field.match(/^sections\[(\d+)\]$/);
+
+    if (sectionMatch) {
+      addSectionGoal(parseInt(sectionMatch[1], 10), repair.prompt);
+    } else if (repair.field === 'sections' && repair.action === 'extend') {
+      const shortest = post.sections
+        .map((section, index) => ({ index, words: section.wordCount }))
+        .sort((a, b) => a.words - b.words)
+        .slice(0, SHORTEST_SECTIONS_TO_EXTEND);
+      for (const { index } of shortest) {
+        addSectionGoal(index, repair.prompt);
+      }
+    } else if (repair.field === 'sections') {
+      addSectionGoal(post.sections.length - 1, repair.prompt);
+    } else if (repair.field === 'faqs') {
+      targets.faqGoals.push(repair.prompt);
+    }
+  }
+
+  // Short FAQ answers are only flagged as info, with no repair prompt
+  for (const issue of validation.issues) {
+    if (issue.field.startsWith('faqs[')) {
+      targets.faqGoals.push(`${issue.message}. Expand the answer to 2-4 sentences.`);
+    }
+  }
+
+  return targets;
+}
+
+/**
+ * Ask the provider to rewrite the targeted sections and FAQs
+ */
+async function requestRevision(
+  post: BlogPost,
+  targets: RevisionTargets
+): Promise<RevisionResponse> {
+  const goals = [
+    ...[...targets.sections].map(
+      ([index, sectionGoals]) =>
+        `Section ${index} ("${post.sections[index].headingText}"): ${sectionGoals.join(' ')}`
+    ),
+    ...targets.faqGoals.map((goal) => `FAQ: ${goal}`),
+  ];
+
+  const basePrompt = await generateRevisionPrompt(post, goals);
+
+  const sectionBlocks = [...targets.sections.keys()]
+    .sort((a, b) => a - b)
+    .map((index) => {
+      const section = post.sections[index];
+      return `#### Section ${index}: ${section.headingText}\n${section.body}`;
+    });
+
+  const faqBlock =
+    targets.faqGoals.length > 0
+      ? `#### Current FAQs\n${post.faq.map((f) => `Q: ${f.question}\nA: ${f.answer}`).join('\n\n')}`
+      : '';
+
+  const prompt = `
+${basePrompt}
+
+### CONTENT TO REVISE
+
+${[...sectionBlocks, faqBlock].filter(Boolean).join('\n\n')}
+
+### UPDATED FIELDS
+
+- \`updatedFields.sections\`: array of { "index", "body" } for sections ${[...targets.sections.keys()].join(', ') || '(none)'} only. Return the complete revised HTML body; keep the heading.
+- \`updatedFields.faq\`: ${targets.faqGoals.length > 0 ? 'the complete revised FAQ list as { "question", "answer" } items (max 10).' : 'omit - FAQs are not being revised.'}
+`.trim();
+
+  return getDefaultProvider().generateStructured(prompt, RevisionResponseSchema, {
+    systemPrompt: REVISION_SYSTEM_PROMPT,
+    temperature: AI_CONFIG.temperature.revision,
+    maxTokens: AI_CONFIG.maxTokens.revision,
+  });
+}
+
+/**
+ * Merge a revision into a copy of the post, ignoring anything that was not
+ * targeted
+ */
+function applyRevision(
+  post: BlogPost,
+  targets: RevisionTargets,
+  response: RevisionResponse
+): { post: BlogPost; revisedSections: number[]; revisedFaqs: boolean } {
+  const sections = [...post.sections];
+  const revisedSections: number[] = [];
+
+  for (const update of response.updatedFields.sections ?? []) {
+    if (!targets.sections.has(update.index) || !sections[update.index]) continue;
+    sections[update.index] = {
+      ...sections[update.index],
+      body: update.body,
+      wordCount: countWords(update.body.replace(/<[^>]*>/g, ' ')),
+    };
+    revisedSections.push(update.index);
+  }
+
+  let faq = post.faq;
+  const revisedFaqs = targets.faqGoals.length > 0 && (response.updatedFields.faq?.length ?? 0) > 0;
+  if (revisedFaqs) {
+    // Keep IDs for questions that survived the revision
+    faq = response.updatedFields.faq!.map((item) => ({
+      id: post.faq.find((f) => f.question === item.question)?.id ?? uuidv4(),
+      question: item.question,
+      answer: item.answer,
+    }));
+  }
+
+  const revised: BlogPost = {
+    ...post,
+    sections,
+    faq,
+    updatedAt: new Date().toISOString(),
+  };
+  revised.ldJsonFaqPage = generateFaqPageJsonLd(revised);
+  revised.wordCount = calculateWordCount(revised);
+  revised.readingTimeMinutes = Math.ceil(revised.wordCount / 200);
+
+  return { post: revised, revisedSections: revisedSections.sort((a, b) => a - b), revisedFaqs };
+}
+
+function countErrors(validation: ValidationResult): number {
+  return validation.issues.filter((i) => i.severity === 'error').length;
+}
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter((w) => w.length > 0).length;
+}
@@ -8,8 +8,9 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type { z } from 'zod';
-import type { AIProvider, GenerationOptions } from './types';
+import type { AIProvider, GenerationOptions, UsageOperation } from './types';
 import { AI_CONFIG } from '@/lib/config/constants';
+import { reportUsage } from '../usage/context';
 
 /**
  * Create Anthropic client lazily
@@ -209,6 +210,7 @@ export class AnthropicProvider implements AIProvider {
     }
 
     // Use tool_use to get structured output
+    const startedAt = Date.now();
     const response = await this.client.messages.create({
       model,
       max_tokens: maxTokens,
@@ -224,6 +226,7 @@ export class AnthropicProvider implements AIProvider {
       tool_choice: { type: 'tool', name: 'structured_output' },
       messages: [{ role: 'user', content: prompt }],
     });
+    reportMessageUsage(model, 'structured', response.usage, startedAt);
 
     // Extract the tool use result
     const toolUseBlock = response.content.find(
@@ -341,6 +344,7 @@ export class AnthropicProvider implements AIProvider {
       model = DEFAULT_CLAUDE_MODEL,
     } = options;
 
+    const startedAt = Date.now();
     const response = await this.client.messages.create({
       model,
       max_tokens: maxTokens,
@@ -348,6 +352,7 @@ export class AnthropicProvider implements AIProvider {
       system: systemPrompt || undefined,
       messages: [{ role: 'user', content: prompt }],
     });
+    reportMessageUsage(model, 'text', response.usage, startedAt);
 
     // Extract text from response
     const textBlock = response.content.find(
@@ -368,6 +373,7 @@ export class AnthropicProvider implements AIProvider {
       model = DEFAULT_CLAUDE_MODEL,
     } = options;
 
+    const startedAt = Date.now();
     const stream = this.client.messages.stream({
       model,
       max_tokens: maxTokens,
@@ -376,16 +382,52 @@ export class AnthropicProvider implements AIProvider {
       messages: [{ role: 'user', content: prompt }],
     });
 
-    for await (const event of stream) {
-      if (
-        event.type === 'content_block_delta' &&
-        event.delta.type === 'text_delta'
-      ) {
-        yield event.delta.text;
+    // Usage is tracked from the events rather than finalMessage() so the
+    // spend is still reported when the caller stops reading early or the
+    // stream fails part-way
+    const usage = { input_tokens: 0, output_tokens: 0 };
+
+    try {
+      for await (const event of stream) {
+        if (event.type === 'message_start') {
+          usage.input_tokens = event.message.usage.input_tokens;
+          usage.output_tokens = event.message.usage.output_tokens;
+        } else if (event.type === 'message_delta') {
+          usage.input_tokens = event.usage.input_tokens ?? usage.input_tokens;
+          usage.output_tokens = event.usage.output_tokens;
+        } else if (
+          event.type === 'content_block_delta' &&
+          event.delta.type === 'text_delta'
+        ) {
+          yield event.delta.text;
+        }
       }
+    } finally {
+      // Stop generating (and paying for) tokens nobody will read
+      if (!stream.ended) stream.abort();
+      reportMessageUsage(model, 'stream', usage, startedAt);
     }
   }
 }
 
+/**
+ * Report token usage for a Messages API call
+ */
+function reportMessageUsage(
+  model: string,
+  operation: UsageOperation,
+  usage: Pick<Anthropic.Usage, 'input_tokens' | 'output_tokens'>,
+  startedAt: number
+): void {
+  reportUsage({
+    provider: 'anthropic',
+    model,
+    operation,
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    latencyMs: Date.now() - startedAt,
+  });
+}
+
 // Default instance
 export const anthropicProvider = new AnthropicProvider();
@@ -1,30 +1,84 @@
 /**
  * AI Providers Index
  *
- * Exports all AI providers and a helper to get the configured default.
+ * Exports all AI providers and helpers to get the configured default.
+ * AI_PROVIDER overrides AI_CONFIG.defaultProvider; set it to 'offline' to
+ * run without API keys (see offline.ts).
  */
 
 export * from './types';
-export { openaiProvider, OpenAIProvider } from './openai';
+export { openaiProvider, OpenAIProvider, openaiEmbeddings, OpenAIEmbeddingProvider } from './openai';
 export { anthropicProvider, AnthropicProvider } from './anthropic';
+export { OfflineProvider, OfflineEmbeddingProvider, type FixtureMode } from './offline';
 
-import { openaiProvider } from './openai';
+import * as path from 'path';
+import { openaiProvider, openaiEmbeddings } from './openai';
 import { anthropicProvider } from './anthropic';
+import { OfflineProvider, OfflineEmbeddingProvider } from './offline';
 import { AI_CONFIG } from '@/lib/config/constants';
-import type { AIProvider } from './types';
+import type { AIProvider, EmbeddingProvider } from './types';
+
+export type ProviderName = 'openai' | 'anthropic' | 'offline';
+
+/**
+ * Provider selected by AI_PROVIDER, falling back to AI_CONFIG
+ */
+export function getConfiguredProviderName(): ProviderName {
+  const name = process.env.AI_PROVIDER;
+  if (name === 'openai' || name === 'anthropic' || name === 'offline') {
+    return name;
+  }
+  return AI_CONFIG.defaultProvider;
+}
 
 /**
  * Get the default AI provider based on config
  */
 export function getDefaultProvider(): AIProvider {
-  return AI_CONFIG.defaultProvider === 'anthropic'
-    ? anthropicProvider
-    : openaiProvider;
+  return getProvider(getConfiguredProviderName());
 }
 
 /**
  * Get a specific provider by name
  */
-export function getProvider(name: 'openai' | 'anthropic'): AIProvider {
-  return name === 'anthropic' ? anthropicProvider : openaiProvider;
+export function getProvider(name: ProviderName): AIProvider {
+  switch (name) {
+    case 'anthropic':
+      return anthropicProvider;
+    case 'openai':
+      return openaiProvider;
+    case 'offline':
+      return getOfflineProvider();
+  }
 }
+
+/**
+ * Get the embedding provider (offline when AI_PROVIDER=offline)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  return getConfiguredProviderName() === 'offline' ? offlineEmbeddings : openaiEmbeddings;
+}
+
+/**
+ * Offline provider configured from env (lazy, so record mode only needs
+ * the real provider's key when it is actually used):
+ * - AI_FIXTURES_DIR: fixture directory (default fixtures/ai)
+ * - AI_FIXTURE_MODE: 'replay' (default) or 'record'
+ * - AI_RECORD_PROVIDER: provider to record from (default AI_CONFIG.defaultProvider)
+ */
+let _offlineProvider: OfflineProvider | null = null;
+function getOfflineProvider(): OfflineProvider {
+  if (!_offlineProvider) {
+    const mode = process.env.AI_FIXTURE_MODE === 'record' ? 'record' : 'replay';
+    const recordFrom = process.env.AI_RECORD_PROVIDER === 'openai' ? openaiProvider : anthropicProvider;
+
+    _offlineProvider = new OfflineProvider({
+      fixturesDir: process.env.AI_FIXTURES_DIR || path.join(process.cwd(), 'fixtures', 'ai'),
+      mode,
+      recordFrom: mode === 'record' ? recordFrom : undefined,
+    });
+  }
+  return _offlineProvider;
+}
+
+const offlineEmbeddings = new OfflineEmbeddingProvider();
@@ -0,0 +1,240 @@
+/**
+ * Offline Provider
+ *
+ * Deterministic AI provider for CI and local development without API keys.
+ * Responses are replayed from fixture files keyed by a hash of the prompt;
+ * prompts without a fixture get schema-driven fake output (structured) or
+ * placeholder prose (text). In record mode every call goes to a real
+ * provider and the response is written as a fixture for later replay.
+ *
+ * Embeddings are hashed bag-of-words vectors: stable, keyless, and similar
+ * for texts that share words.
+ */
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type { z } from 'zod';
+import type { AIProvider, EmbeddingProvider, GenerationOptions } from './types';
+import { fakeFromSchema } from './schema-fake';
+import { EMBEDDING_CONFIG } from '@/lib/config/constants';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type FixtureMode = 'replay' | 'record';
+
+type FixtureKind = 'structured' | 'text';
+
+/**
+ * A recorded response, stored as <fixturesDir>/<key>.json
+ */
+export interface AIFixture {
+  key: string;
+  kind: FixtureKind;
+  recordedAt: string;
+  /** Provider that produced the response */
+  provider: string;
+  model?: string;
+  /** First part of the prompt, to make fixture files recognisable */
+  promptExcerpt: string;
+  response: unknown;
+}
+
+export interface OfflineProviderOptions {
+  fixturesDir: string;
+  mode?: FixtureMode;
+  /** Real provider to call in record mode */
+  recordFrom?: AIProvider;
+}
+
+const PROMPT_EXCERPT_LENGTH = 300;
+
+// ============================================================================
+// PROVIDER
+// ============================================================================
+
+/**
+ * Fixture-replaying text generation provider
+ */
+export class OfflineProvider implements AIProvider {
+  name = 'offline';
+  private fixturesDir: string;
+  private mode: FixtureMode;
+  private recordFrom?: AIProvider;
+
+  constructor(options: OfflineProviderOptions) {
+    this.fixturesDir = options.fixturesDir;
+    this.mode = options.mode ?? 'replay';
+    this.recordFrom = options.recordFrom;
+
+    if (this.mode === 'record' && !this.recordFrom) {
+      throw new Error('Offline provider record mode requires a provider to record from');
+    }
+  }
+
+  async generateStructured<T>(
+    prompt: string,
+    schema: z.ZodSchema<T>,
+    options: GenerationOptions = {}
+  ): Promise<T> {
+    const key = getFixtureKey('structured', prompt, options.systemPrompt);
+
+    if (this.mode === 'record') {
+      const result = await this.recordFrom!.generateStructured(prompt, schema, options);
+      this.writeFixture(key, 'structured', prompt, options, result);
+      return result;
+    }
+
+    const fixture = this.readFixture(key);
+    if (fixture) {
+      const parsed = schema.safeParse(fixture.response);
+      if (parsed.success) {
+        return parsed.data;
+      }
+      console.warn(`Offline fixture ${key} no longer matches its schema - using fake output`);
+    }
+
+    return fakeFromSchema(schema, key);
+  }
+
+  async generateText(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): Promise<string> {
+    const key = getFixtureKey('text', prompt, options.systemPrompt);
+
+    if (this.mode === 'record') {
+      const result = await this.recordFrom!.generateText(prompt, options);
+      this.writeFixture(key, 'text', prompt, options, result);
+      return result;
+    }
+
+    const fixture = this.readFixture(key);
+    if (fixture && typeof fixture.response === 'string') {
+      return fixture.response;
+    }
+
+    return fakeText(prompt, key);
+  }
+
+  async *streamText(
+    prompt: string,
+    options: GenerationOptions = {}
+  ): AsyncIterable<string> {
+    // Streams share fixtures with generateText
+    const key = getFixtureKey('text', prompt, options.systemPrompt);
+
+    if (this.mode === 'record') {
+      let text = '';
+      for await (const chunk of this.recordFrom!.streamText(prompt, options)) {
+        text += chunk;
+        yield chunk;
+      }
+      this.writeFixture(key, 'text', prompt, options, text);
+      return;
+    }
+
+    const text = await this.generateText(prompt, options);
+    for (const chunk of text.match(/\S+\s*/g) ?? []) {
+      yield chunk;
+    }
+  }
+
+  private readFixture(key: string): AIFixture | null {
+    const file = path.join(this.fixturesDir, `${key}.json`);
+    if (!fs.existsSync(file)) return null;
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf-8')) as AIFixture;
+    } catch (error) {
+      console.warn(`Unreadable offline fixture ${file}:`, error);
+      return null;
+    }
+  }
+
+  private writeFixture(
+    key: string,
+    kind: FixtureKind,
+    prompt: string,
+    options: GenerationOptions,
+    response: unknown
+  ): void {
+    const fixture: AIFixture = {
+      key,
+      kind,
+      recordedAt: new Date().toISOString(),
+      provider: this.recordFrom!.name,
+      model: options.model,
+      promptExcerpt: prompt.trim().slice(0, PROMPT_EXCERPT_LENGTH),
+      response,
+    };
+
+    fs.mkdirSync(this.fixturesDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(this.fixturesDir, `${key}.json`),
+      JSON.stringify(fixture, null, 2) + '\n'
+    );
+  }
+}
+
+/**
+ * Deterministic keyless embedding provider
+ */
+export class OfflineEmbeddingProvider implements EmbeddingProvider {
+  name = 'offline';
+  dimensions = EMBEDDING_CONFIG.dimensions;
+
+  async embed(text: string): Promise<number[]> {
+    return hashEmbedding(text, this.dimensions);
+  }
+
+  async embedBatch(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => hashEmbedding(text, this.dimensions));
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Fixture key for a call. Generation options other than the system prompt
+ * are left out so tuning temperature or token limits keeps fixtures valid.
+ */
+export function getFixtureKey(kind: FixtureKind, prompt: string, systemPrompt?: string): string {
+  return createHash('sha256')
+    .update(JSON.stringify([kind, systemPrompt ?? '', prompt]))
+    .digest('hex')
+    .slice(0, 24);
+}
+
+function fakeText(prompt: string, key: string): string {
+  const subject = prompt.trim().split('\n').find((line) => line.trim())?.trim().slice(0, 120) ?? '';
+  return (
+    `Offline response ${key}.\n\n` +
+    `This placeholder text was generated without an AI provider for: ${subject}\n\n` +
+    'Record a fixture for this prompt to replay a real response.'
+  );
+}
+
+// Feature hashing: each word adds to one signed dimension, then L2-normalise
+function hashEmbedding(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[a-z0-9]+/g) ?? [];
+
+  for (const word of words) {
+    const digest = createHash('md5').update(word).digest();
+    const index = digest.readUInt32BE(0) % dimensions;
+    vector[index] += digest[4] & 1 ? 1 : -1;
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  if (norm === 0) {
+    // Cosine distance is undefined for the zero vector
+    vector[0] = 1;
+    return vector;
+  }
+  return vector.map((v) => v / norm);
+}
@@ -7,8 +7,9 @@
 import OpenAI from 'openai';
 import { zodToJsonSchema } from 'zod-to-json-schema';
 import type { z } from 'zod';
-import type { AIProvider, EmbeddingProvider, GenerationOptions } from './types';
+import type { AIProvider, EmbeddingProvider, GenerationOptions, UsageOperation } from './types';
 import { AI_CONFIG, EMBEDDING_CONFIG } from '@/lib/config/constants';
+import { reportUsage } from '../usage/context';
 
 /**
  * Create OpenAI client lazily
@@ -68,6 +69,7 @@ export class OpenAIProvider implements AIProvider {
 
     messages.push({ role: 'user', content: prompt });
 
+    const startedAt = Date.now();
     const response = await this.client.chat.completions.create({
       model,
       messages,
@@ -82,6 +84,7 @@ export class OpenAIProvider implements AIProvider {
         },
       },
     });
+    reportChatUsage(model, 'structured', response.usage, startedAt);
 
     const content = response.choices[0]?.message?.content;
     if (!content) {
@@ -114,12 +117,14 @@ export class OpenAIProvider implements AIProvider {
 
     messages.push({ role: 'user', content: prompt });
 
+    const startedAt = Date.now();
     const response = await this.client.chat.completions.create({
       model,
       messages,
       temperature,
       max_tokens: maxTokens,
     });
+    reportChatUsage(model, 'text', response.usage, startedAt);
 
     return response.choices[0]?.message?.content || '';
   }
@@ -143,19 +148,38 @@ export class OpenAIProvider implements AIProvider {
 
     messages.push({ role: 'user', content: prompt });
 
+    const startedAt = Date.now();
     const stream = await this.client.chat.completions.create({
       model,
       messages,
       temperature,
       max_tokens: maxTokens,
       stream: true,
+      // Usage arrives on a final chunk with no choices
+      stream_options: { include_usage: true },
     });
 
-    for await (const chunk of stream) {
-      const content = chunk.choices[0]?.delta?.content;
-      if (content) {
-        yield content;
+    // Usage only arrives on the last chunk; if the caller stops reading or
+    // the stream fails before then, report an estimate so the spend isn't lost
+    let usage: OpenAI.CompletionUsage | undefined;
+    const promptChars = systemPrompt ? systemPrompt.length + prompt.length : prompt.length;
+    let completionChars = 0;
+
+    try {
+      for await (const chunk of stream) {
+        if (chunk.usage) {
+          usage = chunk.usage;
+        }
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) {
+          completionChars += content.length;
+          yield content;
+        }
       }
+    } finally {
+      // Stop generating (and paying for) tokens nobody will read
+      if (!usage) stream.controller.abort();
+      reportChatUsage(model, 'stream', usage ?? estimateUsage(promptChars, completionChars), startedAt);
     }
   }
 }
@@ -172,10 +196,12 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
   private model = EMBEDDING_CONFIG.model;
 
   async embed(text: string): Promise<number[]> {
+    const startedAt = Date.now();
     const response = await this.client.embeddings.create({
       model: this.model,
       input: text,
     });
+    this.reportUsage(response.usage, startedAt);
 
     return response.data[0].embedding;
   }
@@ -190,10 +216,12 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
     const results: number[][] = [];
 
     for (const batch of batches) {
+      const startedAt = Date.now();
       const response = await this.client.embeddings.create({
         model: this.model,
         input: batch,
       });
+      this.reportUsage(response.usage, startedAt);
 
       for (const item of response.data) {
         results.push(item.embedding);
@@ -202,6 +230,46 @@ export class OpenAIEmbeddingProvider implements EmbeddingProvider {
 
     return results;
   }
+
+  private reportUsage(usage: OpenAI.CreateEmbeddingResponse.Usage, startedAt: number): void {
+    reportUsage({
+      provider: 'openai',
+      model: this.model,
+      operation: 'embedding',
+      inputTokens: usage?.prompt_tokens ?? 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - startedAt,
+    });
+  }
+}
+
+/**
+ * Rough token counts (~4 characters per token) for a stream that ended
+ * before OpenAI sent its usage chunk
+ */
+function estimateUsage(promptChars: number, completionChars: number): OpenAI.CompletionUsage {
+  const prompt_tokens = Math.ceil(promptChars / 4);
+  const completion_tokens = Math.ceil(completionChars / 4);
+  return { prompt_tokens, completion_tokens, total_tokens: prompt_tokens + completion_tokens };
+}
+
+/**
+ * Report token usage for a chat completion
+ */
+function reportChatUsage(
+  model: string,
+  operation: UsageOperation,
+  usage: OpenAI.CompletionUsage | undefined,
+  startedAt: number
+): void {
+  reportUsage({
+    provider: 'openai',
+    model,
+    operation,
+    inputTokens: usage?.prompt_tokens ?? 0,
+    outputTokens: usage?.completion_tokens ?? 0,
+    latencyMs: Date.now() - startedAt,
+  });
 }
 
 // Default instances
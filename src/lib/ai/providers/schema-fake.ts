@@ -0,0 +1,292 @@
+/**
+ * Schema-Driven Fake Output
+ *
+ * Builds a deterministic value that satisfies a zod schema, for the offline
+ * provider when no recorded fixture exists. The schema is converted to JSON
+ * Schema (input side) and walked; string lengths, numeric bounds, array
+ * sizes, enums, formats and simple patterns are honoured. The result is
+ * parsed with the original schema so refinements the walk can't see still
+ * surface as errors.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+type JsonSchema = {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  prefixItems?: JsonSchema[];
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  multipleOf?: number;
+  format?: string;
+  pattern?: string;
+  enum?: unknown[];
+  const?: unknown;
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  $ref?: string;
+  $defs?: Record<string, JsonSchema>;
+};
+
+interface FakeContext {
+  root: JsonSchema;
+  seed: string;
+  depth: number;
+}
+
+/** Arrays get this many items unless the schema says otherwise */
+const DEFAULT_ARRAY_LENGTH = 3;
+
+/** Stop descending into recursive schemas past this depth */
+const MAX_DEPTH = 12;
+
+/** Fixed timestamp so fake output is stable across runs */
+const FAKE_DATE = '2025-01-01T00:00:00.000Z';
+
+// ============================================================================
+// PUBLIC API
+// ============================================================================
+
+/**
+ * Produce a value for `schema`, deterministic for a given seed
+ * (the offline provider uses the prompt hash).
+ */
+export function fakeFromSchema<T>(schema: z.ZodSchema<T>, seed: string): T {
+  const jsonSchema = z.toJSONSchema(schema as z.ZodType, {
+    io: 'input',
+    unrepresentable: 'any',
+  }) as JsonSchema;
+
+  const value = fakeValue(jsonSchema, '', { root: jsonSchema, seed, depth: 0 });
+  const parsed = schema.safeParse(value);
+
+  if (!parsed.success) {
+    const issues = parsed.error.issues
+      .slice(0, 5)
+      .map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`)
+      .join('; ');
+    throw new Error(
+      `Offline provider could not fake output for this schema (${issues}). ` +
+      'Record a fixture for this prompt instead.'
+    );
+  }
+
+  return parsed.data;
+}
+
+// ============================================================================
+// GENERATORS
+// ============================================================================
+
+function fakeValue(schema: JsonSchema, path: string, ctx: FakeContext): unknown {
+  if (schema.$ref) {
+    return fakeValue(resolveRef(schema.$ref, ctx.root), path, ctx);
+  }
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum && schema.enum.length > 0) return schema.enum[0];
+  if (schema.default !== undefined) return schema.default;
+
+  const branches = schema.anyOf ?? schema.oneOf;
+  if (branches && branches.length > 0) {
+    const branch = branches.find((b) => b.type !== 'null') ?? branches[0];
+    return fakeValue(branch, path, ctx);
+  }
+  if (schema.allOf && schema.allOf.length > 0) {
+    return fakeValue(Object.assign({}, ...schema.allOf), path, ctx);
+  }
+
+  const type = Array.isArray(schema.type)
+    ? schema.type.find((t) => t !== 'null') ?? 'null'
+    : schema.type;
+
+  switch (type) {
+    case 'object':
+      return fakeObject(schema, path, ctx);
+    case 'array':
+      return fakeArray(schema, path, ctx);
+    case 'string':
+      return fakeString(schema, path, ctx);
+    case 'integer':
+      return fakeNumber(schema, true);
+    case 'number':
+      return fakeNumber(schema, false);
+    case 'boolean':
+      return true;
+    case 'null':
+      return null;
+    default:
+      // Unconstrained (z.any/z.unknown)
+      return null;
+  }
+}
+
+function fakeObject(schema: JsonSchema, path: string, ctx: FakeContext): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  if (ctx.depth > MAX_DEPTH) return result;
+
+  for (const [key, propSchema] of Object.entries(schema.properties ?? {})) {
+    result[key] = fakeValue(propSchema, joinPath(path, key), { ...ctx, depth: ctx.depth + 1 });
+  }
+
+  return result;
+}
+
+function fakeArray(schema: JsonSchema, path: string, ctx: FakeContext): unknown[] {
+  const next = { ...ctx, depth: ctx.depth + 1 };
+
+  if (schema.prefixItems) {
+    return schema.prefixItems.map((item, i) => fakeValue(item, joinPath(path, String(i)), next));
+  }
+
+  const min = schema.minItems ?? 0;
+  const max = schema.maxItems ?? Infinity;
+  const length = ctx.depth > MAX_DEPTH
+    ? min
+    : Math.min(max, Math.max(min, DEFAULT_ARRAY_LENGTH));
+
+  const itemSchema = schema.items ?? {};
+  return Array.from({ length }, (_, i) => fakeValue(itemSchema, joinPath(path, String(i)), next));
+}
+
+function fakeNumber(schema: JsonSchema, integer: boolean): number {
+  const step = integer ? 1 : 0.5;
+  let min = schema.minimum ?? (schema.exclusiveMinimum !== undefined ? schema.exclusiveMinimum + step : undefined);
+  let max = schema.maximum ?? (schema.exclusiveMaximum !== undefined ? schema.exclusiveMaximum - step : undefined);
+
+  // z.number().int() reports the safe-integer range as its bounds
+  if (min !== undefined && min <= Number.MIN_SAFE_INTEGER) min = undefined;
+  if (max !== undefined && max >= Number.MAX_SAFE_INTEGER) max = undefined;
+
+  if (integer) {
+    min = min !== undefined ? Math.ceil(min) : undefined;
+    max = max !== undefined ? Math.floor(max) : undefined;
+  }
+
+  let value: number;
+  if (min !== undefined && max !== undefined) {
+    // Upper-middle of the range: plausible scores, counts and ratings
+    value = min + (max - min) * 0.75;
+  } else if (min !== undefined) {
+    value = Math.max(min, 1);
+  } else if (max !== undefined) {
+    value = Math.min(max, 1);
+  } else {
+    value = 1;
+  }
+
+  if (integer) value = Math.round(value);
+  if (schema.multipleOf) value = Math.ceil(value / schema.multipleOf) * schema.multipleOf;
+
+  return value;
+}
+
+function fakeString(schema: JsonSchema, path: string, ctx: FakeContext): string {
+  const key = lastKey(path);
+
+  switch (schema.format) {
+    case 'uuid':
+      return fakeUuid(`${ctx.seed}:${path}`);
+    case 'uri':
+    case 'url':
+      return `https://example.com/offline/${slugify(path) || 'item'}`;
+    case 'email':
+      return 'offline@example.com';
+    case 'date-time':
+      return FAKE_DATE;
+    case 'date':
+      return FAKE_DATE.slice(0, 10);
+  }
+
+  const min = schema.minLength ?? 0;
+  const max = schema.maxLength ?? Infinity;
+
+  if (schema.pattern) {
+    const pattern = new RegExp(schema.pattern);
+    const candidates = [slugify(`offline ${humanize(key)}`), 'offline', 'a', '1'];
+    const match = candidates.find((c) => pattern.test(c) && c.length >= min && c.length <= max);
+    if (match) return match;
+  }
+
+  // Key-specific shapes the zod refinements expect
+  const isQuestion = /question/i.test(key);
+  const isSlug = /slug|handle/i.test(key);
+
+  let text = isSlug ? slugify(`offline ${humanize(key)}`) : `Offline ${humanize(key) || 'text'}`;
+  const filler = isSlug ? '-sample' : ' placeholder sentence for local development.';
+  while (text.length < min) {
+    text += filler;
+  }
+
+  if (isQuestion) {
+    text = `${text.replace(/[.?\s]+$/, '')}?`;
+    if (text.length < min) text = `${text.slice(0, -1)} ${'x'.repeat(min - text.length)}?`;
+  }
+
+  if (text.length > max) {
+    text = isQuestion ? `${text.slice(0, max - 1)}?` : text.slice(0, max);
+  }
+
+  return text;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function resolveRef(ref: string, root: JsonSchema): JsonSchema {
+  if (ref === '#') return root;
+  const name = ref.replace(/^#\/\$defs\//, '');
+  return root.$defs?.[name] ?? {};
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+// Nearest non-index segment, e.g. 'faqs.0.question' -> 'question'
+function lastKey(path: string): string {
+  const segments = path.split('.').filter((s) => s && !/^\d+$/.test(s));
+  return segments[segments.length - 1] ?? '';
+}
+
+function humanize(key: string): string {
+  return key
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .toLowerCase()
+    .trim();
+}
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+// v4-shaped UUID derived from the seed
+function fakeUuid(seed: string): string {
+  const hex = createHash('sha256').update(seed).digest('hex');
+  return [
+    hex.slice(0, 8),
+    hex.slice(8, 12),
+    `4${hex.slice(13, 16)}`,
+    `8${hex.slice(17, 20)}`,
+    hex.slice(20, 32),
+  ].join('-');
+}
@@ -16,6 +16,24 @@ export interface GenerationOptions {
   model?: string;
 }
 
+/**
+ * Which kind of call a usage report belongs to
+ */
+export type UsageOperation = 'structured' | 'text' | 'stream' | 'embedding' | 'image';
+
+/**
+ * Token usage and latency for a single provider call.
+ * Providers hand these to reportUsage() (src/lib/ai/usage) after every call.
+ */
+export interface UsageReport {
+  provider: 'openai' | 'anthropic' | 'google';
+  model: string;
+  operation: UsageOperation;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+}
+
 /**
  * AI provider interface
  */
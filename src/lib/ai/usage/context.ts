@@ -0,0 +1,76 @@
+/**
+ * Usage Context
+ *
+ * Attributes provider calls to whatever triggered them (autopilot job,
+ * post, content idea, API action) without threading IDs through every
+ * generation function. Callers wrap work in withUsageContext(); providers
+ * call reportUsage() and the report is written to the ledger with the
+ * active context.
+ *
+ * This module has no database import so providers stay usable in scripts
+ * that never touch the ledger; the ledger is loaded on first report.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { UsageReport } from '../providers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsageContext {
+  jobId?: string;
+  blogPostId?: string;
+  contentIdeaId?: string;
+  /** What triggered the call, e.g. 'autopilot' or 'writer:generate-article' */
+  source?: string;
+}
+
+const storage = new AsyncLocalStorage<UsageContext>();
+
+// Ledger writes still in flight (see flushUsage)
+const pendingWrites = new Set<Promise<void>>();
+
+// ============================================================================
+// CONTEXT
+// ============================================================================
+
+/**
+ * Run `fn` with usage attributed to `context`. Nested contexts inherit
+ * fields they don't override.
+ */
+export function withUsageContext<T>(context: UsageContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run({ ...storage.getStore(), ...context }, fn);
+}
+
+/**
+ * The active usage context, if any
+ */
+export function getUsageContext(): UsageContext {
+  return storage.getStore() ?? {};
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+/**
+ * Record a provider call. Never throws - accounting must not break generation.
+ */
+export function reportUsage(report: UsageReport): void {
+  const context = getUsageContext();
+
+  const write = import('./ledger')
+    .then(({ recordUsage }) => recordUsage(report, context))
+    .catch((error) => console.error('Failed to record AI usage:', error))
+    .finally(() => pendingWrites.delete(write));
+
+  pendingWrites.add(write);
+}
+
+/**
+ * Wait for outstanding ledger writes, e.g. before summarizing a job's cost
+ */
+export async function flushUsage(): Promise<void> {
+  await Promise.all([...pendingWrites]);
+}
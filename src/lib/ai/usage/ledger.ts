@@ -0,0 +1,290 @@
+/**
+ * AI Usage Ledger
+ *
+ * Persists one row per provider call and answers the spend questions:
+ * what did a job cost, what have we spent this month, and are we over
+ * budget.
+ */
+
+import { db } from '@/lib/db/client';
+import { aiUsage } from '@/lib/db/schema';
+import { eq, and, gte, lt, isNull, isNotNull, sql, desc } from 'drizzle-orm';
+import { getBudgetConfig } from '@/lib/config/env';
+import { estimateCostUsd } from './pricing';
+import type { UsageReport } from '../providers/types';
+import type { UsageContext } from './context';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  provider: string;
+  model: string;
+}
+
+export interface JobCostSummary extends UsageTotals {
+  latencyMs: number;
+  byModel: ModelUsage[];
+}
+
+export interface BudgetStatus {
+  month: string;
+  monthlyBudgetUsd: number | null;
+  autopilotMonthlyBudgetUsd: number | null;
+  spentUsd: number;
+  autopilotSpentUsd: number;
+  exceeded: boolean;
+  reason: string | null;
+}
+
+export interface MonthlySpend extends UsageTotals {
+  month: string;
+  byModel: ModelUsage[];
+  bySource: Array<UsageTotals & { source: string }>;
+  byDay: Array<{ date: string; costUsd: number; calls: number }>;
+  topJobs: Array<UsageTotals & { jobId: string }>;
+  budget: BudgetStatus;
+}
+
+export class BudgetExceededError extends Error {
+  constructor(public status: BudgetStatus) {
+    super(status.reason ?? 'AI budget exceeded');
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Aggregate columns shared by the summaries
+const totalsColumns = {
+  calls: sql<number>`count(*)`,
+  inputTokens: sql<number>`coalesce(sum(${aiUsage.inputTokens}), 0)`,
+  outputTokens: sql<number>`coalesce(sum(${aiUsage.outputTokens}), 0)`,
+  costUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+};
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Write a usage report to the ledger
+ */
+export async function recordUsage(report: UsageReport, context: UsageContext = {}): Promise<void> {
+  await db.insert(aiUsage).values({
+    provider: report.provider,
+    model: report.model,
+    operation: report.operation,
+    inputTokens: report.inputTokens,
+    outputTokens: report.outputTokens,
+    latencyMs: Math.round(report.latencyMs),
+    costUsd: estimateCostUsd(report),
+    source: context.source,
+    jobId: context.jobId,
+    blogPostId: context.blogPostId,
+    contentIdeaId: context.contentIdeaId,
+  });
+}
+
+/**
+ * Link a job's usage to the post it produced (the post doesn't exist yet
+ * while it is being generated)
+ */
+export async function attachJobUsageToPost(jobId: string, blogPostId: string): Promise<void> {
+  await db
+    .update(aiUsage)
+    .set({ blogPostId })
+    .where(and(eq(aiUsage.jobId, jobId), isNull(aiUsage.blogPostId)));
+}
+
+// ============================================================================
+// SUMMARIES
+// ============================================================================
+
+/**
+ * Tokens, cost and time spent by one autopilot job
+ */
+export async function getJobCostSummary(jobId: string): Promise<JobCostSummary> {
+  const byModel = await db
+    .select({
+      provider: aiUsage.provider,
+      model: aiUsage.model,
+      ...totalsColumns,
+      latencyMs: sql<number>`coalesce(sum(${aiUsage.latencyMs}), 0)`,
+    })
+    .from(aiUsage)
+    .where(eq(aiUsage.jobId, jobId))
+    .groupBy(aiUsage.provider, aiUsage.model);
+
+  const models = byModel.map((row) => ({
+    provider: row.provider,
+    model: row.model,
+    ...normalizeTotals(row),
+  }));
+
+  return {
+    ...sumTotals(models),
+    latencyMs: byModel.reduce((sum, row) => sum + Number(row.latencyMs), 0),
+    byModel: models.sort((a, b) => b.costUsd - a.costUsd),
+  };
+}
+
+/**
+ * Spend for a calendar month (UTC), defaulting to the current one
+ */
+export async function getMonthlySpend(month: string = getMonthKey()): Promise<MonthlySpend> {
+  const { start, end } = getMonthRange(month);
+  const inMonth = and(gte(aiUsage.createdAt, start), lt(aiUsage.createdAt, end));
+
+  const [byModelRows, bySourceRows, byDayRows, topJobRows, budget] = await Promise.all([
+    db
+      .select({ provider: aiUsage.provider, model: aiUsage.model, ...totalsColumns })
+      .from(aiUsage)
+      .where(inMonth)
+      .groupBy(aiUsage.provider, aiUsage.model),
+    db
+      .select({ source: sql<string>`coalesce(${aiUsage.source}, 'unknown')`, ...totalsColumns })
+      .from(aiUsage)
+      .where(inMonth)
+      .groupBy(sql`coalesce(${aiUsage.source}, 'unknown')`),
+    db
+      .select({
+        date: sql<string>`to_char(${aiUsage.createdAt} at time zone 'UTC', 'YYYY-MM-DD')`,
+        costUsd: totalsColumns.costUsd,
+        calls: totalsColumns.calls,
+      })
+      .from(aiUsage)
+      .where(inMonth)
+      .groupBy(sql`1`)
+      .orderBy(sql`1`),
+    db
+      .select({ jobId: aiUsage.jobId, ...totalsColumns })
+      .from(aiUsage)
+      .where(and(inMonth, isNotNull(aiUsage.jobId)))
+      .groupBy(aiUsage.jobId)
+      .orderBy(desc(sql`sum(${aiUsage.costUsd})`))
+      .limit(10),
+    getBudgetStatus(start),
+  ]);
+
+  const byModel = byModelRows
+    .map((row) => ({ provider: row.provider, model: row.model, ...normalizeTotals(row) }))
+    .sort((a, b) => b.costUsd - a.costUsd);
+
+  return {
+    month,
+    ...sumTotals(byModel),
+    byModel,
+    bySource: bySourceRows
+      .map((row) => ({ source: row.source, ...normalizeTotals(row) }))
+      .sort((a, b) => b.costUsd - a.costUsd),
+    byDay: byDayRows.map((row) => ({
+      date: row.date,
+      costUsd: Number(row.costUsd),
+      calls: Number(row.calls),
+    })),
+    topJobs: topJobRows.map((row) => ({ jobId: row.jobId!, ...normalizeTotals(row) })),
+    budget,
+  };
+}
+
+// ============================================================================
+// BUDGETS
+// ============================================================================
+
+/**
+ * This month's spend against the configured caps
+ */
+export async function getBudgetStatus(now: Date = new Date()): Promise<BudgetStatus> {
+  const config = getBudgetConfig();
+  const month = getMonthKey(now);
+  const { start, end } = getMonthRange(month);
+
+  const [row] = await db
+    .select({
+      spentUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}), 0)`,
+      autopilotSpentUsd: sql<number>`coalesce(sum(${aiUsage.costUsd}) filter (where ${aiUsage.jobId} is not null), 0)`,
+    })
+    .from(aiUsage)
+    .where(and(gte(aiUsage.createdAt, start), lt(aiUsage.createdAt, end)));
+
+  const spentUsd = Number(row?.spentUsd ?? 0);
+  const autopilotSpentUsd = Number(row?.autopilotSpentUsd ?? 0);
+
+  let reason: string | null = null;
+  if (config.monthlyBudgetUsd !== null && spentUsd >= config.monthlyBudgetUsd) {
+    reason = `Monthly AI budget exceeded: $${spentUsd.toFixed(2)} of $${config.monthlyBudgetUsd.toFixed(2)} spent`;
+  } else if (
+    config.autopilotMonthlyBudgetUsd !== null &&
+    autopilotSpentUsd >= config.autopilotMonthlyBudgetUsd
+  ) {
+    reason = `Monthly autopilot budget exceeded: $${autopilotSpentUsd.toFixed(2)} of $${config.autopilotMonthlyBudgetUsd.toFixed(2)} spent`;
+  }
+
+  return {
+    month,
+    monthlyBudgetUsd: config.monthlyBudgetUsd,
+    autopilotMonthlyBudgetUsd: config.autopilotMonthlyBudgetUsd,
+    spentUsd,
+    autopilotSpentUsd,
+    exceeded: reason !== null,
+    reason,
+  };
+}
+
+/**
+ * Throw BudgetExceededError if either monthly cap has been reached
+ */
+export async function assertWithinBudget(): Promise<void> {
+  const status = await getBudgetStatus();
+  if (status.exceeded) {
+    throw new BudgetExceededError(status);
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * 'YYYY-MM' for a date (UTC)
+ */
+export function getMonthKey(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+function getMonthRange(month: string): { start: Date; end: Date } {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return {
+    start: new Date(Date.UTC(year, monthIndex - 1, 1)),
+    end: new Date(Date.UTC(year, monthIndex, 1)),
+  };
+}
+
+// postgres-js returns aggregates as strings
+function normalizeTotals(row: UsageTotals): UsageTotals {
+  return {
+    calls: Number(row.calls),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    costUsd: Number(row.costUsd),
+  };
+}
+
+function sumTotals(rows: UsageTotals[]): UsageTotals {
+  return rows.reduce(
+    (acc, row) => ({
+      calls: acc.calls + row.calls,
+      inputTokens: acc.inputTokens + row.inputTokens,
+      outputTokens: acc.outputTokens + row.outputTokens,
+      costUsd: acc.costUsd + row.costUsd,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 }
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Model Pricing
+ *
+ * List prices used to turn token counts into spend. Prices are USD per
+ * million tokens; models are matched by longest prefix so dated snapshots
+ * (e.g. claude-sonnet-4-5-20250929) pick up their family's price.
+ * Gemini image output is billed as tokens (~1290 per 1K image).
+ */
+
+import type { UsageReport } from '../providers/types';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ModelPrice {
+  /** USD per 1M input tokens */
+  input: number;
+  /** USD per 1M output tokens */
+  output: number;
+}
+
+// ============================================================================
+// PRICE TABLE
+// ============================================================================
+
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  // OpenAI
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+  'text-embedding-3-large': { input: 0.13, output: 0 },
+
+  // Anthropic
+  'claude-opus-4': { input: 15, output: 75 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-haiku-4-5': { input: 1, output: 5 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+
+  // Google (image generation)
+  'gemini-2.5-flash-image': { input: 0.3, output: 30 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+};
+
+// Longest prefixes first so 'gpt-4o-mini' wins over 'gpt-4o'
+const PRICE_PREFIXES = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+// ============================================================================
+// COST
+// ============================================================================
+
+/**
+ * Price for a model, or null if it isn't in the table
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  const prefix = PRICE_PREFIXES.find((p) => model.startsWith(p));
+  return prefix ? MODEL_PRICING[prefix] : null;
+}
+
+/**
+ * Estimated cost of a call in USD (0 for unknown models)
+ */
+export function estimateCostUsd(
+  usage: Pick<UsageReport, 'model' | 'inputTokens' | 'outputTokens'>
+): number {
+  const price = getModelPrice(usage.model);
+  if (!price) return 0;
+
+  return (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
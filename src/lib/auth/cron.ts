@@ -0,0 +1,30 @@
+/**
+ * Cron Authorization
+ *
+ * Shared check for the /api/cron/* routes. Accepts the admin secret either
+ * as `x-autopilot-secret` or as a `Bearer` token (the form Vercel Cron
+ * sends).
+ */
+
+import type { NextRequest } from 'next/server';
+import { getAutopilotConfig } from '@/lib/config/env';
+import { getRequestSecret, secretsMatch } from './secret';
+
+/**
+ * Validate cron authorization
+ */
+export function validateCronAuth(request: NextRequest): { valid: boolean; error?: string } {
+  const config = getAutopilotConfig();
+
+  if (config.adminSecret) {
+    return secretsMatch(getRequestSecret(request), config.adminSecret)
+      ? { valid: true }
+      : { valid: false, error: 'Invalid admin secret' };
+  }
+
+  if (process.env.NODE_ENV === 'development') {
+    return { valid: true };
+  }
+
+  return { valid: false, error: 'AUTOPILOT_ADMIN_SECRET must be configured' };
+}
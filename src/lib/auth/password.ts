@@ -0,0 +1,52 @@
+/**
+ * Password Hashing
+ *
+ * scrypt from node:crypto, stored as `scrypt$<N>$<r>$<p>$<salt>$<hash>`
+ * (base64) so parameters can be raised later without breaking existing
+ * hashes.
+ */
+
+import { randomBytes, scrypt, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_BYTES = 16;
+
+/** Shortest password accepted when creating or changing a password */
+export const MIN_PASSWORD_LENGTH = 10;
+
+function deriveKey(password: string, salt: Buffer, params: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, params, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+/**
+ * Hash a password for storage
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ['scrypt', N, r, p, salt.toString('base64'), key.toString('base64')].join('$');
+}
+
+/**
+ * Check a password against a stored hash (constant time)
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, N, r, p, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+
+  const expected = Buffer.from(hash, 'base64');
+  const key = await deriveKey(password, Buffer.from(salt, 'base64'), {
+    N: Number(N),
+    r: Number(r),
+    p: Number(p),
+  });
+
+  return key.length === expected.length && timingSafeEqual(key, expected);
+}
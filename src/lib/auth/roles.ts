@@ -0,0 +1,96 @@
+/**
+ * Roles and Route Access
+ *
+ * Roles are ordered: each one includes the permissions of those before it.
+ * ROUTE_RULES maps admin pages and API routes to the lowest role allowed;
+ * the proxy (src/proxy.ts) enforces them for every request, and handlers
+ * that act on behalf of a user re-check with authorizeRequest().
+ */
+
+import type { UserRole } from '@/lib/db/schema';
+
+// ============================================================================
+// ROLES
+// ============================================================================
+
+export const USER_ROLES: readonly UserRole[] = ['writer', 'editor', 'publisher', 'admin'];
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Whether `role` is at least `required`
+ */
+export function hasRole(role: UserRole, required: UserRole): boolean {
+  return USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+}
+
+// ============================================================================
+// ROUTE RULES
+// ============================================================================
+
+interface RouteRule {
+  pattern: RegExp;
+  /** Methods the rule applies to; all methods when omitted */
+  methods?: string[];
+  role: UserRole;
+}
+
+const MUTATING = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+/**
+ * First matching rule wins; anything else under /admin, /api or /write
+ * needs a signed-in writer.
+ */
+const ROUTE_RULES: RouteRule[] = [
+  // Publishing
+  { pattern: /^\/api\/posts\/[^/]+\/publish$/, role: 'publisher' },
+  // Applying a refresh rewrites a live post
+  { pattern: /^\/api\/ideas\/[^/]+\/refresh$/, role: 'publisher' },
+
+  // User management and spend
+  { pattern: /^\/api\/users(\/|$)/, role: 'admin' },
+  { pattern: /^\/admin\/users(\/|$)/, role: 'admin' },
+  { pattern: /^\/api\/usage(\/|$)/, role: 'admin' },
+  { pattern: /^\/admin\/usage(\/|$)/, role: 'admin' },
+
+  // Autopilot and imports
+  { pattern: /^\/api\/automation\/(run|approvals)(\/|$)/, role: 'editor' },
+  { pattern: /^\/api\/automation\/job\/[^/]+\/approval$/, role: 'editor' },
+  { pattern: /^\/api\/automation\/job\/[^/]+$/, methods: ['DELETE'], role: 'editor' },
+  { pattern: /^\/api\/automation\/schedules(\/|$)/, methods: MUTATING, role: 'editor' },
+  { pattern: /^\/admin\/autopilot(\/|$)/, role: 'editor' },
+  { pattern: /^\/api\/import(\/|$)/, role: 'editor' },
+  { pattern: /^\/admin\/import(\/|$)/, role: 'editor' },
+  { pattern: /^\/api\/embeddings\/backfill$/, role: 'editor' },
+  { pattern: /^\/api\/cannibalization$/, methods: ['POST'], role: 'editor' },
+
+  // Paid image generation and image edits that rewrite a post's body
+  { pattern: /^\/api\/posts\/[^/]+\/media$/, methods: ['POST'], role: 'editor' },
+  { pattern: /^\/api\/media\/[^/]+$/, methods: MUTATING, role: 'editor' },
+
+  // Shared reference data
+  { pattern: /^\/api\/(authors|clusters|catalog)(\/|$)/, methods: MUTATING, role: 'editor' },
+];
+
+/** Reachable without a session */
+const PUBLIC_ROUTES: RegExp[] = [
+  /^\/api\/auth\/(login|logout)$/,
+  // Cron routes check the admin secret themselves (see cron.ts)
+  /^\/api\/cron(\/|$)/,
+];
+
+export function isPublicRoute(pathname: string): boolean {
+  return PUBLIC_ROUTES.some((pattern) => pattern.test(pathname));
+}
+
+/**
+ * Lowest role allowed to make this request
+ */
+export function getRequiredRole(pathname: string, method: string): UserRole {
+  const rule = ROUTE_RULES.find(
+    (r) => r.pattern.test(pathname) && (!r.methods || r.methods.includes(method.toUpperCase()))
+  );
+  return rule?.role ?? 'writer';
+}
@@ -0,0 +1,29 @@
+/**
+ * Admin Secret
+ *
+ * Machine callers send the autopilot admin secret as `x-autopilot-secret`
+ * or as a `Bearer` token. Both the session and cron checks read it here and
+ * compare it in constant time.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { NextRequest } from 'next/server';
+
+/**
+ * The secret a request presents, if any
+ */
+export function getRequestSecret(request: NextRequest): string | undefined {
+  const bearer = request.headers.get('authorization')?.replace(/^Bearer\s+/i, '');
+  return request.headers.get('x-autopilot-secret') || bearer || undefined;
+}
+
+/**
+ * Compare a presented secret with the configured one without leaking how
+ * much of it matched. Both sides are hashed first so differing lengths take
+ * the same path.
+ */
+export function secretsMatch(provided: string | null | undefined, expected: string | null | undefined): boolean {
+  if (!provided || !expected) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(expected));
+}
@@ -0,0 +1,159 @@
+/**
+ * Sessions and Request Authentication
+ *
+ * Users sign in with email and password and get a random session token in
+ * an httpOnly cookie; the database only keeps its hash. Machine callers
+ * (scripts, external cron) can instead send the autopilot admin secret as
+ * `x-autopilot-secret` or a Bearer token and act as the 'api' user.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { db } from '@/lib/db/client';
+import { users, sessions, type User, type UserRole } from '@/lib/db/schema';
+import { eq, and, gt, lt } from 'drizzle-orm';
+import { getAuthConfig, getAutopilotConfig } from '@/lib/config/env';
+import { verifyPassword } from './password';
+import { hasRole } from './roles';
+import { getRequestSecret, secretsMatch } from './secret';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const SESSION_COOKIE = 'blog_session';
+
+/**
+ * The user a request acts as. `id` is null for the admin-secret principal.
+ */
+export interface AuthUser {
+  id: string | null;
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+export interface AuthResult {
+  user?: AuthUser;
+  error?: string;
+  status?: 401 | 403;
+}
+
+const API_USER: AuthUser = { id: null, email: 'api', name: 'API', role: 'admin' };
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+/**
+ * Check credentials and open a session. Returns null for unknown emails,
+ * wrong passwords and deactivated accounts alike.
+ */
+export async function signIn(
+  email: string,
+  password: string,
+  userAgent?: string | null
+): Promise<{ user: User; token: string; expiresAt: Date } | null> {
+  const user = await db.query.users.findFirst({
+    where: eq(users.email, email.trim().toLowerCase()),
+  });
+
+  if (!user || !user.active || !(await verifyPassword(password, user.passwordHash))) {
+    return null;
+  }
+
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + getAuthConfig().sessionTtlHours * 60 * 60 * 1000);
+
+  await db.insert(sessions).values({
+    tokenHash: hashToken(token),
+    userId: user.id,
+    expiresAt,
+    userAgent: userAgent?.slice(0, 500) ?? null,
+  });
+
+  await db
+    .update(users)
+    .set({ lastLoginAt: new Date() })
+    .where(eq(users.id, user.id));
+
+  // Opportunistic cleanup
+  await db.delete(sessions).where(lt(sessions.expiresAt, new Date()));
+
+  return { user, token, expiresAt };
+}
+
+/**
+ * End the session for a token
+ */
+export async function signOut(token: string): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.tokenHash, hashToken(token)));
+}
+
+/**
+ * End every session for a user (deactivation, password or role change)
+ */
+export async function revokeUserSessions(userId: string): Promise<void> {
+  await db.delete(sessions).where(eq(sessions.userId, userId));
+}
+
+/**
+ * Active user for a session token, or null
+ */
+export async function getSessionUser(token: string): Promise<AuthUser | null> {
+  const session = await db.query.sessions.findFirst({
+    where: and(eq(sessions.tokenHash, hashToken(token)), gt(sessions.expiresAt, new Date())),
+    with: { user: true },
+  });
+
+  if (!session || !session.user.active) return null;
+
+  const { id, email, name, role } = session.user;
+  return { id, email, name, role };
+}
+
+// ============================================================================
+// REQUESTS
+// ============================================================================
+
+/**
+ * Who is making this request: the admin-secret principal, a session user,
+ * or nobody
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthUser | null> {
+  const { adminSecret } = getAutopilotConfig();
+
+  if (secretsMatch(getRequestSecret(request), adminSecret)) {
+    return API_USER;
+  }
+
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  return token ? getSessionUser(token) : null;
+}
+
+/**
+ * Authenticate a request and check it has at least `role`
+ */
+export async function authorizeRequest(
+  request: NextRequest,
+  role: UserRole = 'writer'
+): Promise<AuthResult> {
+  const user = await authenticateRequest(request);
+
+  if (!user) {
+    return { error: 'Authentication required', status: 401 };
+  }
+  if (!hasRole(user.role, role)) {
+    return { error: `Requires the ${role} role`, status: 403 };
+  }
+
+  return { user };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,158 @@
+/**
+ * User Accounts
+ *
+ * Local accounts for the admin. Users are created by an admin (or
+ * scripts/create-user.ts for the first one); role changes, deactivation
+ * and password resets sign the user out everywhere.
+ */
+
+import { db } from '@/lib/db/client';
+import { users, type User } from '@/lib/db/schema';
+import { eq, and, ne, asc, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { hashPassword, MIN_PASSWORD_LENGTH } from './password';
+import { revokeUserSessions } from './session';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type UserErrorCode = 'NOT_FOUND' | 'EMAIL_TAKEN' | 'LAST_ADMIN';
+
+export class UserError extends Error {
+  constructor(
+    public code: UserErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'UserError';
+  }
+}
+
+const RoleSchema = z.enum(['writer', 'editor', 'publisher', 'admin']);
+
+export const CreateUserSchema = z.object({
+  email: z.string().email().max(255),
+  name: z.string().min(1).max(100),
+  role: RoleSchema.default('writer'),
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200),
+});
+
+export const UpdateUserSchema = z.object({
+  name: z.string().min(1).max(100).optional(),
+  role: RoleSchema.optional(),
+  active: z.boolean().optional(),
+  password: z.string().min(MIN_PASSWORD_LENGTH).max(200).optional(),
+});
+
+export type CreateUserInput = z.input<typeof CreateUserSchema>;
+export type UpdateUserInput = z.infer<typeof UpdateUserSchema>;
+
+/** User fields safe to return from the API */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+export async function listUsers(): Promise<PublicUser[]> {
+  const rows = await db.query.users.findMany({
+    orderBy: [asc(users.email)],
+  });
+  return rows.map(toPublicUser);
+}
+
+// ============================================================================
+// MUTATIONS
+// ============================================================================
+
+/**
+ * Create a user
+ */
+export async function createUser(input: CreateUserInput): Promise<PublicUser> {
+  const data = CreateUserSchema.parse(input);
+  const email = data.email.trim().toLowerCase();
+
+  const [user] = await db
+    .insert(users)
+    .values({
+      email,
+      name: data.name,
+      role: data.role,
+      passwordHash: await hashPassword(data.password),
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!user) {
+    throw new UserError('EMAIL_TAKEN', `A user with email ${email} already exists`);
+  }
+
+  return toPublicUser(user);
+}
+
+/**
+ * Update a user's name, role, active flag or password
+ */
+export async function updateUser(id: string, input: UpdateUserInput): Promise<PublicUser> {
+  const existing = await db.query.users.findFirst({ where: eq(users.id, id) });
+  if (!existing) {
+    throw new UserError('NOT_FOUND', 'User not found');
+  }
+
+  // Never lock everyone out of user management
+  const losesAdmin =
+    existing.role === 'admin' &&
+    existing.active &&
+    ((input.role && input.role !== 'admin') || input.active === false);
+  if (losesAdmin && (await countOtherActiveAdmins(id)) === 0) {
+    throw new UserError('LAST_ADMIN', 'Cannot demote or deactivate the last active admin');
+  }
+
+  const [user] = await db
+    .update(users)
+    .set({
+      ...(input.name !== undefined && { name: input.name }),
+      ...(input.role !== undefined && { role: input.role }),
+      ...(input.active !== undefined && { active: input.active }),
+      ...(input.password !== undefined && { passwordHash: await hashPassword(input.password) }),
+      updatedAt: new Date(),
+    })
+    .where(eq(users.id, id))
+    .returning();
+
+  const changesAccess =
+    (input.role !== undefined && input.role !== existing.role) ||
+    input.active === false ||
+    input.password !== undefined;
+  if (changesAccess) {
+    await revokeUserSessions(id);
+  }
+
+  return toPublicUser(user);
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+async function countOtherActiveAdmins(excludeId: string): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(users)
+    .where(and(eq(users.role, 'admin'), eq(users.active, true), ne(users.id, excludeId)));
+  return Number(row?.count ?? 0);
+}
+
+function toPublicUser(user: User): PublicUser {
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    active: user.active,
+    lastLoginAt: user.lastLoginAt,
+    createdAt: user.createdAt,
+    updatedAt: user.updatedAt,
+  };
+}
@@ -0,0 +1,187 @@
+/**
+ * Autopilot Approval Gate
+ *
+ * Jobs created with `requireApproval` pause in 'awaiting_approval' after
+ * topic scoring, with the top candidates stored on the job. An editor
+ * approves one (optionally editing its keyword or angle) or rejects them
+ * all. Approval puts the job back in the queue; the worker resumes it at
+ * draft generation without re-running topic discovery.
+ */
+
+import { db } from '@/lib/db/client';
+import { autopilotJobs, type AutopilotJob, type AutopilotLogEntry } from '@/lib/db/schema';
+import { eq, and, desc, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { publishJobEvent } from '@/lib/events';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** How many scored topics an editor chooses from */
+export const APPROVAL_CANDIDATE_COUNT = 5;
+
+export type ApprovalErrorCode = 'NOT_FOUND' | 'NOT_AWAITING_APPROVAL' | 'INVALID_CANDIDATE';
+
+export class ApprovalError extends Error {
+  constructor(
+    public code: ApprovalErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ApprovalError';
+  }
+}
+
+/**
+ * Editor decision on a paused job (admin API)
+ */
+export const ApprovalDecisionSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('approve'),
+    candidateIndex: z.number().int().min(0),
+    edits: z
+      .object({
+        primaryKeyword: z.string().min(2).max(200).optional(),
+        angle: z
+          .enum(['howto', 'comparison', 'safety', 'technical', 'faq', 'application'])
+          .optional(),
+        uniqueAngle: z.string().min(5).max(1000).optional(),
+      })
+      .optional(),
+    decidedBy: z.string().max(100).optional(),
+  }),
+  z.object({
+    action: z.literal('reject'),
+    reason: z.string().max(1000).optional(),
+    decidedBy: z.string().max(100).optional(),
+  }),
+]);
+
+export type ApprovalDecision = z.infer<typeof ApprovalDecisionSchema>;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * Jobs currently paused for topic approval, newest first
+ */
+export async function getJobsAwaitingApproval(limit = 20): Promise<AutopilotJob[]> {
+  return db.query.autopilotJobs.findMany({
+    where: eq(autopilotJobs.status, 'awaiting_approval'),
+    orderBy: [desc(autopilotJobs.createdAt)],
+    limit,
+  });
+}
+
+// ============================================================================
+// DECISIONS
+// ============================================================================
+
+/**
+ * Apply an editor's decision. Approval requeues the job; rejection
+ * cancels it.
+ */
+export async function decideApproval(
+  jobId: string,
+  decision: ApprovalDecision
+): Promise<AutopilotJob> {
+  const job = await db.query.autopilotJobs.findFirst({
+    where: eq(autopilotJobs.id, jobId),
+  });
+
+  if (!job) {
+    throw new ApprovalError('NOT_FOUND', 'Job not found');
+  }
+  if (job.status !== 'awaiting_approval' || !job.approval) {
+    throw new ApprovalError(
+      'NOT_AWAITING_APPROVAL',
+      `Job is ${job.status}, not awaiting approval`
+    );
+  }
+
+  const now = new Date();
+  const decidedBy = decision.decidedBy ?? null;
+  let update: Partial<AutopilotJob>;
+  let message: string;
+
+  if (decision.action === 'approve') {
+    const candidate = job.approval.candidates[decision.candidateIndex];
+    if (!candidate) {
+      throw new ApprovalError(
+        'INVALID_CANDIDATE',
+        `Candidate ${decision.candidateIndex} does not exist (job has ${job.approval.candidates.length})`
+      );
+    }
+
+    const approvedTopic = { ...candidate, ...decision.edits };
+    message = `Topic approved${decidedBy ? ` by ${decidedBy}` : ''}: "${approvedTopic.topic}"`;
+
+    // Fresh attempts for the generation phase; the worker picks it up
+    update = {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+      approval: {
+        ...job.approval,
+        decision: 'approved',
+        approvedTopic,
+        decidedBy,
+        decidedAt: now.toISOString(),
+      },
+    };
+  } else {
+    message = `All topics rejected${decidedBy ? ` by ${decidedBy}` : ''}` +
+      (decision.reason ? `: ${decision.reason}` : '');
+
+    update = {
+      status: 'cancelled',
+      completedAt: now,
+      errorMessage: message,
+      approval: {
+        ...job.approval,
+        decision: 'rejected',
+        decidedBy,
+        decidedAt: now.toISOString(),
+        reason: decision.reason ?? null,
+      },
+    };
+  }
+
+  const entry: AutopilotLogEntry = {
+    timestamp: now.toISOString(),
+    step: 'approval',
+    level: 'info',
+    message,
+    payload: decision.action === 'approve'
+      ? { candidateIndex: decision.candidateIndex, edits: decision.edits }
+      : undefined,
+  };
+
+  // Guard on status so two editors can't both decide
+  const result = await db
+    .update(autopilotJobs)
+    .set({
+      ...update,
+      logs: sql`${autopilotJobs.logs} || ${JSON.stringify([entry])}::jsonb`,
+    })
+    .where(and(eq(autopilotJobs.id, jobId), eq(autopilotJobs.status, 'awaiting_approval')))
+    .returning();
+
+  if (result.length === 0) {
+    throw new ApprovalError('NOT_AWAITING_APPROVAL', 'Job was decided by someone else');
+  }
+
+  const [decided] = result;
+  await publishJobEvent({
+    source: 'autopilot',
+    jobId,
+    type: 'log',
+    seq: decided.logs.length,
+    data: { ...entry },
+  });
+  await publishJobEvent({ source: 'autopilot', jobId, type: 'status', data: { status: decided.status } });
+
+  return decided;
+}
@@ -4,27 +4,40 @@
  * Production-grade autopilot content generation with:
  * - Job persistence and status tracking
  * - Structured logging
- * - Concurrency control
- * - Rate limiting
+ * - Queue-backed processing (see job-queue.ts and scripts/autopilot-worker.ts)
+ * - Rate limiting and monthly budget caps
  * - Dry-run mode
- * - Validation gates
+ * - Validation gates, with an optional revision loop for failing drafts
+ * - Refresh jobs that regenerate the sections named by a refresh idea
  */
 
 import { db } from '@/lib/db/client';
 import {
   authors,
   autopilotJobs,
+  blogPosts,
   type AutopilotJob,
   type AutopilotLogEntry,
   type AutopilotJobResult,
   type TopicScoreBreakdown,
 } from '@/lib/db/schema';
-import { eq, and, lt, or, isNull, sql, desc } from 'drizzle-orm';
+import { eq, and, or, sql, desc } from 'drizzle-orm';
 import { generateTopicIdeasWithDedup } from '@/lib/discovery/topic-finder';
 import { prioritizeTopics, type ScoredTopic } from '@/lib/discovery/topic-scorer';
 import { generatePostFromBrief } from '@/lib/ai/generation/orchestrator';
-import { getProductCollections, type CollectionData } from '@/lib/shopify/product-matcher';
+import { reviseUntilValid } from '@/lib/ai/generation/revision-loop';
+import type { CollectionData } from '@/lib/shopify/product-matcher';
+import { loadProductCatalog, loadProductCollections } from '@/lib/shopify/product-catalog';
 import { getAutopilotConfig } from '@/lib/config/env';
+import { withUsageContext, flushUsage } from '@/lib/ai/usage/context';
+import { assertWithinBudget, attachJobUsageToPost } from '@/lib/ai/usage/ledger';
+import { recordRevision } from '@/lib/revisions';
+import { recordStatusChange } from '@/lib/workflow/status-machine';
+import { getRefreshIdea, refreshPostFromIdea } from '@/lib/performance/refresh';
+import { publishJobEvent } from '@/lib/events';
+import { claimJob, startHeartbeat, decideRetry } from './job-queue';
+import { APPROVAL_CANDIDATE_COUNT } from './approval';
+import type { BlogPost } from '@/lib/schema/canonical';
 
 // ============================================================================
 // TYPES
@@ -39,6 +52,31 @@ export interface CreateJobOptions {
   triggeredBy?: string;
   idempotencyKey?: string;
   requestId?: string;
+  /** Use this author instead of the default */
+  authorId?: string;
+  /** Schedule that enqueued the job */
+  scheduleId?: string;
+  /** Pause after topic scoring until an editor approves a topic (full mode) */
+  requireApproval?: boolean;
+  /** Refresh idea to process: regenerates its sections instead of writing a new post */
+  ideaId?: string;
+}
+
+export interface ProcessJobOptions {
+  /** Identifies the process holding the lock (defaults to an inline ID) */
+  workerId?: string;
+  /** The worker already claimed the job via claimNextJob() */
+  alreadyClaimed?: boolean;
+}
+
+export interface JobProgressSnapshot {
+  status: AutopilotJob['status'];
+  currentStep: string | null;
+  completedSteps: number;
+  totalSteps: number;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  logCount: number;
 }
 
 export interface JobLogger {
@@ -96,19 +134,21 @@ export async function createJob(options: CreateJobOptions = {}): Promise<Autopil
     }
   }
 
+  // Fail fast on ideas the job couldn't process
+  if (options.ideaId) {
+    await getRefreshIdea(options.ideaId);
+  }
+
   // Check rate limit
   const recentJobsCount = await checkRateLimit(options.triggeredBy);
   if (recentJobsCount >= config.rateLimitPerHour) {
     throw new Error(`Rate limit exceeded: ${config.rateLimitPerHour} jobs per hour`);
   }
 
-  // Check concurrent jobs
-  const runningJobs = await getRunningJobs();
-  if (runningJobs.length >= config.maxConcurrentJobs) {
-    throw new Error(`Max concurrent jobs reached: ${config.maxConcurrentJobs}`);
-  }
+  // Check monthly spend caps
+  await assertWithinBudget();
 
-  // Create the job
+  // Create the job (concurrency is enforced when it is picked up, not here)
   const [job] = await db
     .insert(autopilotJobs)
     .values({
@@ -118,11 +158,25 @@ export async function createJob(options: CreateJobOptions = {}): Promise<Autopil
       triggeredBy: options.triggeredBy,
       idempotencyKey: options.idempotencyKey,
       requestId: options.requestId,
+      authorId: options.authorId,
+      scheduleId: options.scheduleId,
+      requireApproval: options.requireApproval ?? false,
+      ideaId: options.ideaId,
       status: 'pending',
       totalSteps: STEP_ORDER.length,
+      maxAttempts: config.jobMaxAttempts,
     })
+    .onConflictDoNothing()
     .returning();
 
+  // Lost a race with another caller using the same idempotency key
+  if (!job && options.idempotencyKey) {
+    const existing = await db.query.autopilotJobs.findFirst({
+      where: eq(autopilotJobs.idempotencyKey, options.idempotencyKey),
+    });
+    if (existing) return existing;
+  }
+
   return job;
 }
 
@@ -136,6 +190,44 @@ export async function getJob(jobId: string): Promise<AutopilotJob | null> {
   return job ?? null;
 }
 
+/**
+ * Job status and step counters without the logs
+ */
+export async function getJobProgress(jobId: string): Promise<JobProgressSnapshot | null> {
+  const [row] = await db
+    .select({
+      status: autopilotJobs.status,
+      currentStep: autopilotJobs.currentStep,
+      completedSteps: autopilotJobs.completedSteps,
+      totalSteps: autopilotJobs.totalSteps,
+      attempts: autopilotJobs.attempts,
+      nextAttemptAt: autopilotJobs.nextAttemptAt,
+      logCount: sql<number>`jsonb_array_length(${autopilotJobs.logs})`,
+    })
+    .from(autopilotJobs)
+    .where(eq(autopilotJobs.id, jobId));
+
+  return row ? { ...row, logCount: Number(row.logCount) } : null;
+}
+
+/**
+ * Log entries after the first `from`, read without loading the rest of the row
+ */
+export async function getJobLogsSince(jobId: string, from: number): Promise<AutopilotLogEntry[]> {
+  const [row] = await db
+    .select({
+      logs: sql<AutopilotLogEntry[]>`(
+        select coalesce(jsonb_agg(t.entry order by t.idx), '[]'::jsonb)
+        from jsonb_array_elements(${autopilotJobs.logs}) with ordinality as t(entry, idx)
+        where t.idx > ${Math.max(0, Math.floor(from))}
+      )`,
+    })
+    .from(autopilotJobs)
+    .where(eq(autopilotJobs.id, jobId));
+
+  return row?.logs ?? [];
+}
+
 /**
  * Get recent jobs for a user
  */
@@ -175,35 +267,6 @@ async function checkRateLimit(triggeredBy?: string): Promise<number> {
   return Number(result[0]?.count || 0);
 }
 
-/**
- * Try to acquire a lock on a job for processing
- */
-async function acquireJobLock(jobId: string, timeoutSeconds: number): Promise<boolean> {
-  const now = new Date();
-  const lockUntil = new Date(now.getTime() + timeoutSeconds * 1000);
-
-  const result = await db
-    .update(autopilotJobs)
-    .set({
-      status: 'running',
-      startedAt: now,
-      lockedUntil: lockUntil,
-    })
-    .where(
-      and(
-        eq(autopilotJobs.id, jobId),
-        eq(autopilotJobs.status, 'pending'),
-        or(
-          isNull(autopilotJobs.lockedUntil),
-          lt(autopilotJobs.lockedUntil, now)
-        )
-      )
-    )
-    .returning();
-
-  return result.length > 0;
-}
-
 /**
  * Update job progress
  */
@@ -219,6 +282,13 @@ async function updateJobProgress(
       completedSteps,
     })
     .where(eq(autopilotJobs.id, jobId));
+
+  await publishJobEvent({
+    source: 'autopilot',
+    jobId,
+    type: 'progress',
+    data: { currentStep: step, completedSteps },
+  });
 }
 
 /**
@@ -241,21 +311,59 @@ async function completeJob(
       lockedUntil: null,
     })
     .where(eq(autopilotJobs.id, jobId));
+
+  await publishJobEvent({ source: 'autopilot', jobId, type: 'status', data: { status: 'completed' } });
 }
 
 /**
- * Fail a job
+ * Record a job error: retry transient failures with backoff, dead-letter
+ * them once attempts run out, fail everything else. Cancelled jobs are
+ * left alone.
  */
-async function failJob(jobId: string, errorMessage: string): Promise<void> {
-  await db
+async function failJob(
+  jobId: string,
+  error: unknown,
+  logger: JobLogger
+): Promise<void> {
+  const job = await getJob(jobId);
+  if (!job || job.status !== 'running') return;
+
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  const decision = decideRetry(job, error);
+
+  if (decision.status === 'pending') {
+    await logger.warn('error', `Transient failure, retrying at ${decision.nextAttemptAt?.toISOString()}`, {
+      attempt: job.attempts,
+      maxAttempts: job.maxAttempts,
+    });
+  } else if (decision.status === 'dead_letter') {
+    await logger.error('error', `Giving up after ${job.attempts} attempts - moved to dead letter`);
+  }
+
+  const updated = await db
     .update(autopilotJobs)
     .set({
-      status: 'failed',
+      status: decision.status,
       errorMessage,
-      completedAt: new Date(),
+      nextAttemptAt: decision.nextAttemptAt,
+      completedAt: decision.status === 'pending' ? null : new Date(),
       lockedUntil: null,
     })
-    .where(eq(autopilotJobs.id, jobId));
+    .where(and(eq(autopilotJobs.id, jobId), eq(autopilotJobs.status, 'running')))
+    .returning({ id: autopilotJobs.id });
+
+  if (updated.length > 0) {
+    await publishJobEvent({
+      source: 'autopilot',
+      jobId,
+      type: 'status',
+      data: {
+        status: decision.status,
+        attempts: job.attempts,
+        nextAttemptAt: decision.nextAttemptAt?.toISOString() ?? null,
+      },
+    });
+  }
 }
 
 /**
@@ -274,17 +382,22 @@ export async function cancelJob(jobId: string): Promise<boolean> {
         eq(autopilotJobs.id, jobId),
         or(
           eq(autopilotJobs.status, 'pending'),
-          eq(autopilotJobs.status, 'running')
+          eq(autopilotJobs.status, 'running'),
+          eq(autopilotJobs.status, 'awaiting_approval')
         )
       )
     )
     .returning();
 
+  if (result.length > 0) {
+    await publishJobEvent({ source: 'autopilot', jobId, type: 'status', data: { status: 'cancelled' } });
+  }
+
   return result.length > 0;
 }
 
 /**
- * Create a logger that persists to the job record
+ * Create a logger that persists to the job record and publishes each entry
  */
 function createJobLogger(jobId: string): JobLogger {
   const addLog = async (
@@ -301,12 +414,24 @@ function createJobLogger(jobId: string): JobLogger {
       payload,
     };
 
-    await db
+    const [updated] = await db
       .update(autopilotJobs)
       .set({
         logs: sql`${autopilotJobs.logs} || ${JSON.stringify([entry])}::jsonb`,
       })
-      .where(eq(autopilotJobs.id, jobId));
+      .where(eq(autopilotJobs.id, jobId))
+      .returning({ logCount: sql<number>`jsonb_array_length(${autopilotJobs.logs})` });
+
+    // The entry's position in the stored logs doubles as its SSE event ID
+    if (updated) {
+      await publishJobEvent({
+        source: 'autopilot',
+        jobId,
+        type: 'log',
+        seq: Number(updated.logCount),
+        data: { ...entry },
+      });
+    }
   };
 
   return {
@@ -340,16 +465,35 @@ async function checkCancellation(jobId: string, logger: JobLogger, step: string)
 }
 
 /**
- * Process a job - the main worker function
+ * Process a job - the main worker function.
+ * The lock is heartbeated for as long as the job runs, and every AI call
+ * made along the way is billed to the job.
  */
-export async function processJob(jobId: string): Promise<AutopilotJobResult> {
+export async function processJob(
+  jobId: string,
+  options: ProcessJobOptions = {}
+): Promise<AutopilotJobResult> {
+  try {
+    return await withUsageContext({ jobId, source: 'autopilot' }, () => runJob(jobId, options));
+  } finally {
+    await flushUsage();
+  }
+}
+
+async function runJob(
+  jobId: string,
+  options: ProcessJobOptions
+): Promise<AutopilotJobResult> {
   const config = getAutopilotConfig();
   const logger = createJobLogger(jobId);
+  const workerId = options.workerId ?? `inline-${process.pid}`;
 
   // Try to acquire lock
-  const locked = await acquireJobLock(jobId, config.jobTimeoutSeconds);
-  if (!locked) {
-    throw new Error('Could not acquire job lock - job may be running or already completed');
+  if (!options.alreadyClaimed) {
+    const claimed = await claimJob(jobId, workerId, config.jobTimeoutSeconds);
+    if (!claimed) {
+      throw new Error('Could not acquire job lock - job may be running or already completed');
+    }
   }
 
   const job = await getJob(jobId);
@@ -357,17 +501,37 @@ export async function processJob(jobId: string): Promise<AutopilotJobResult> {
     throw new Error('Job not found');
   }
 
+  const stopHeartbeat = startHeartbeat(jobId, workerId, config.jobTimeoutSeconds);
+
   try {
+    if (job.attempts > 1) {
+      await logger.info(STEPS.INIT, `Retry attempt ${job.attempts}/${job.maxAttempts}`);
+    }
     await logger.info(STEPS.INIT, 'Starting autopilot cycle');
     await updateJobProgress(jobId, STEPS.INIT, 1);
 
+    // Refresh ideas update an existing post; no author or topic discovery
+    if (job.ideaId) {
+      return await runRefresh(jobId, job, job.ideaId, logger);
+    }
+
     // Step 1: Get author
-    await logger.info(STEPS.AUTHOR, 'Fetching default author');
+    await logger.info(STEPS.AUTHOR, job.authorId ? 'Fetching requested author' : 'Fetching default author');
     await updateJobProgress(jobId, STEPS.AUTHOR, 2);
 
-    let author = await db.query.authors.findFirst({
-      where: eq(authors.name, 'Alliance Chemical Team'),
-    });
+    let author = job.authorId
+      ? await db.query.authors.findFirst({ where: eq(authors.id, job.authorId) })
+      : undefined;
+
+    if (job.authorId && !author) {
+      await logger.warn(STEPS.AUTHOR, `Requested author ${job.authorId} not found, using default`);
+    }
+
+    if (!author) {
+      author = await db.query.authors.findFirst({
+        where: eq(authors.name, 'Alliance Chemical Team'),
+      });
+    }
 
     if (!author) {
       await logger.warn(STEPS.AUTHOR, '"Alliance Chemical Team" not found, using first available');
@@ -389,72 +553,41 @@ export async function processJob(jobId: string): Promise<AutopilotJobResult> {
     // Check for cancellation before next step
     await checkCancellation(jobId, logger, STEPS.AUTHOR);
 
-    // Step 2: Select collection
-    await logger.info(STEPS.COLLECTION, 'Selecting product collection');
-    await updateJobProgress(jobId, STEPS.COLLECTION, 3);
-
-    const collection = await selectCollection(job.collectionHandle, config, logger);
-    await logger.info(STEPS.COLLECTION, `Selected: "${collection.name}"`, {
-      handle: collection.handle,
-    });
-
-    // Check for cancellation before next step
-    await checkCancellation(jobId, logger, STEPS.COLLECTION);
-
-    // Step 3: Generate topics
-    await logger.info(STEPS.TOPICS, 'Generating and deduplicating topics');
-    await updateJobProgress(jobId, STEPS.TOPICS, 4);
-
-    // Use cached index for performance (don't refresh every time)
-    const topicResult = await generateTopicIdeasWithDedup(collection.handle, 5, {
-      excludeDuplicates: true,
-      strictness: 'moderate',
-      refreshIndex: false, // Use cached index
-    });
-
-    if (topicResult.topics.length === 0) {
-      await logger.warn(STEPS.TOPICS, 'No unique topics found for this collection');
-      const result: AutopilotJobResult = {
-        collection: collection.name,
-        topic: undefined,
-      };
-      await completeJob(jobId, result);
-      return result;
-    }
-
-    await logger.info(STEPS.TOPICS, `Found ${topicResult.topics.length} unique candidates`, {
-      stats: topicResult.stats,
-    });
-
-    // Check for cancellation before next step
-    await checkCancellation(jobId, logger, STEPS.TOPICS);
-
-    // Step 4: Score topics
-    await logger.info(STEPS.SCORING, 'Scoring and ranking topics');
-    await updateJobProgress(jobId, STEPS.SCORING, 5);
+    let collectionName: string;
+    let bestTopic: ScoredTopic;
+
+    if (job.approval?.decision === 'approved' && job.approval.approvedTopic) {
+      // Resumed after editor approval - topic discovery already ran
+      collectionName = job.approval.collectionName;
+      bestTopic = job.approval.approvedTopic;
+      await logger.info(STEPS.SCORING, `Resuming with approved topic: "${bestTopic.topic}"`, {
+        approvedBy: job.approval.decidedBy,
+        primaryKeyword: bestTopic.primaryKeyword,
+        angle: bestTopic.angle,
+      });
+    } else {
+      // Steps 2-4: Select collection, generate and score topics
+      const { collection, scoredTopics } = await discoverTopics(jobId, job, config, logger);
+
+      if (scoredTopics.length === 0) {
+        const result: AutopilotJobResult = {
+          collection: collection.name,
+          topic: undefined,
+        };
+        await completeJob(jobId, result);
+        return result;
+      }
 
-    const scoredTopics = prioritizeTopics(topicResult.topics);
+      // Approval mode pauses here until an editor picks a topic
+      if (job.mode === 'full' && job.requireApproval) {
+        return pauseForApproval(jobId, collection, scoredTopics, logger);
+      }
 
-    // Guard against empty scored topics
-    if (scoredTopics.length === 0) {
-      await logger.warn(STEPS.SCORING, 'No topics passed scoring threshold');
-      const result: AutopilotJobResult = {
-        collection: collection.name,
-        topic: undefined,
-      };
-      await completeJob(jobId, result);
-      return result;
+      collectionName = collection.name;
+      bestTopic = scoredTopics[0];
     }
 
-    const bestTopic = scoredTopics[0];
-    const scoreBreakdown: TopicScoreBreakdown = {
-      novelty: bestTopic.scoreBreakdown.uniquenessScore,
-      searchIntentMatch: bestTopic.scoreBreakdown.contentTypeFitScore,
-      conversionPotential: bestTopic.scoreBreakdown.productRelevanceScore,
-      internalLinkPotential: 0, // TODO: Calculate from related posts
-      eeatScore: bestTopic.scoreBreakdown.eeatScore,
-      total: bestTopic.totalScore,
-    };
+    const scoreBreakdown = toScoreBreakdown(bestTopic);
 
     await logger.info(STEPS.SCORING, `Selected: "${bestTopic.topic}"`, {
       score: bestTopic.totalScore,
@@ -467,7 +600,7 @@ export async function processJob(jobId: string): Promise<AutopilotJobResult> {
       await logger.info(STEPS.COMPLETE, 'Dry run complete - skipping draft generation');
       const result: AutopilotJobResult = {
         topic: bestTopic.topic,
-        collection: collection.name,
+        collection: collectionName,
         scoreBreakdown,
       };
       await completeJob(jobId, result);
@@ -481,6 +614,9 @@ export async function processJob(jobId: string): Promise<AutopilotJobResult> {
     await logger.info(STEPS.GENERATION, 'Generating brief, outline, and draft');
     await updateJobProgress(jobId, STEPS.GENERATION, 6);
 
+    // The revision loop replaces the orchestrator's single placeholder repair
+    const revisionEnabled = config.revisionMaxIterations > 0;
+
     const generationResult = await generatePostFromBrief(
       { topic: bestTopic },
       {
@@ -494,53 +630,360 @@ export async function processJob(jobId: string): Promise<AutopilotJobResult> {
         targetWordCount: job.targetWordCount,
         useStyleAnalysis: true,
         skipValidation: false,
-        autoRepairAttempts: 1,
+        autoRepairAttempts: revisionEnabled ? 0 : 1,
       }
     );
 
     // Check for cancellation after generation
     await checkCancellation(jobId, logger, STEPS.GENERATION);
 
-    // Step 6: Validate
+    // Step 6: Validate (and revise failing sections/FAQs if enabled)
     await logger.info(STEPS.VALIDATION, 'Validating generated content');
     await updateJobProgress(jobId, STEPS.VALIDATION, 7);
 
-    const validationPassed = generationResult.success && generationResult.validation?.valid;
-    const validationIssues = generationResult.errors.concat(generationResult.warnings);
+    let post = generationResult.post;
+    let validationPassed = generationResult.success && generationResult.validation?.valid;
+    let validationIssues = generationResult.errors.concat(generationResult.warnings);
+    let generationErrors = generationResult.errors;
+
+    if (revisionEnabled && post && !validationPassed) {
+      const revision = await reviseUntilValid(post, {
+        maxIterations: config.revisionMaxIterations,
+        minScoreDelta: config.revisionMinScoreDelta,
+        onIteration: async (iteration) => {
+          const sign = iteration.delta >= 0 ? '+' : '';
+          await logger.info(
+            STEPS.VALIDATION,
+            `Revision ${iteration.iteration}/${config.revisionMaxIterations}: score ` +
+              `${iteration.scoreBefore} -> ${iteration.scoreAfter} (${sign}${iteration.delta})`,
+            { ...iteration }
+          );
+          await checkCancellation(jobId, logger, STEPS.VALIDATION);
+        },
+      });
+
+      await logger.info(STEPS.VALIDATION, `Revision loop stopped: ${revision.stopReason}`, {
+        iterations: revision.iterations.length,
+        score: revision.validation.score,
+        error: revision.error,
+      });
 
-    if (!generationResult.success || !generationResult.post) {
+      post = revision.post;
+      validationPassed = revision.validation.valid;
+      validationIssues = revision.validation.issues
+        .filter((i) => i.severity !== 'info')
+        .map((i) => `[${i.field}] ${i.message}`);
+      generationErrors = revision.validation.issues
+        .filter((i) => i.severity === 'error')
+        .map((i) => `[${i.field}] ${i.message}`);
+    }
+
+    if (!validationPassed || !post) {
       await logger.error(STEPS.VALIDATION, 'Generation failed', {
-        errors: generationResult.errors,
+        errors: generationErrors,
       });
-      throw new Error(`Generation failed: ${generationResult.errors.join(', ')}`);
+      throw new Error(`Generation failed: ${generationErrors.join(', ')}`);
     }
 
     await logger.info(STEPS.VALIDATION, `Validation ${validationPassed ? 'passed' : 'has issues'}`, {
       issues: validationIssues,
     });
 
+    // Persist the draft for editorial review
+    const savedPost = await saveGeneratedDraft(post, author.id);
+    await flushUsage();
+    await attachJobUsageToPost(jobId, savedPost.id);
+    await recordRevision(savedPost.id, {
+      source: 'autopilot',
+      createdBy: job.triggeredBy,
+      note: `Generated by autopilot job ${jobId}`,
+    });
+    await recordStatusChange('post', savedPost.id, null, 'draft', {
+      changedBy: job.triggeredBy ?? 'autopilot',
+      reason: `Generated by autopilot job ${jobId}`,
+    });
+
     // Complete
-    await logger.info(STEPS.COMPLETE, `Draft created: "${generationResult.post.title}"`);
+    await logger.info(STEPS.COMPLETE, `Draft created: "${savedPost.title}"`, {
+      postId: savedPost.id,
+    });
 
     const result: AutopilotJobResult = {
-      postId: generationResult.post.id,
-      postTitle: generationResult.post.title,
+      postId: savedPost.id,
+      postTitle: savedPost.title,
       topic: bestTopic.topic,
-      collection: collection.name,
+      collection: collectionName,
       scoreBreakdown,
       validationPassed,
       validationIssues,
-      draftWordCount: generationResult.post.wordCount,
+      draftWordCount: post.wordCount,
     };
 
-    await completeJob(jobId, result, generationResult.post.id);
+    await completeJob(jobId, result, savedPost.id);
     return result;
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : String(error);
     await logger.error('error', `Job failed: ${errorMessage}`);
-    await failJob(jobId, errorMessage);
+    await failJob(jobId, error, logger);
     throw error;
+  } finally {
+    stopHeartbeat();
+  }
+}
+
+/**
+ * Regenerate the sections listed in a refresh idea's brief.
+ * Dry runs only log the brief.
+ */
+async function runRefresh(
+  jobId: string,
+  job: AutopilotJob,
+  ideaId: string,
+  logger: JobLogger
+): Promise<AutopilotJobResult> {
+  const idea = await getRefreshIdea(ideaId, { allowRefreshed: true });
+  const brief = idea.refreshBrief!;
+
+  // A retry after the refresh was saved has nothing left to do
+  if (idea.status !== 'brief') {
+    await logger.info(STEPS.COMPLETE, 'Refresh idea was already processed - nothing to do', { ideaId });
+    const result: AutopilotJobResult = { ideaId, topic: idea.topic, postId: idea.blogPostId ?? undefined };
+    await completeJob(jobId, result, idea.blogPostId ?? undefined);
+    return result;
   }
+
+  await logger.info(STEPS.SCORING, `Refresh idea: "${idea.topic}"`, {
+    ideaId,
+    postId: idea.blogPostId,
+    signals: brief.signals.map((s) => s.detail),
+    sections: brief.sections.map((s) => s.headingText),
+  });
+
+  if (job.mode === 'dry_run') {
+    await logger.info(STEPS.COMPLETE, 'Dry run complete - skipping section refresh');
+    const result: AutopilotJobResult = { ideaId, topic: idea.topic };
+    await completeJob(jobId, result);
+    return result;
+  }
+
+  await checkCancellation(jobId, logger, STEPS.SCORING);
+
+  await logger.info(STEPS.GENERATION, `Regenerating ${brief.sections.length} section(s)`);
+  await updateJobProgress(jobId, STEPS.GENERATION, 6);
+
+  const refresh = await refreshPostFromIdea(ideaId, {
+    createdBy: job.triggeredBy,
+    note: `Refreshed by autopilot job ${jobId}`,
+  });
+  await flushUsage();
+  await attachJobUsageToPost(jobId, refresh.postId);
+
+  await updateJobProgress(jobId, STEPS.VALIDATION, 7);
+  if (refresh.missingSections.length > 0) {
+    await logger.warn(STEPS.GENERATION, 'Sections in the brief are no longer in the post', {
+      sections: refresh.missingSections,
+    });
+  }
+  if (refresh.unsyncedSections.length > 0) {
+    await logger.warn(STEPS.GENERATION, 'Could not find these headings in rawHtml - update the body by hand', {
+      sections: refresh.unsyncedSections,
+    });
+  }
+  if (refresh.pending) {
+    await logger.info(STEPS.GENERATION, 'Post is live - the refresh waits on the idea until an editor applies it');
+  }
+
+  const validationIssues = refresh.validation.issues
+    .filter((i) => i.severity !== 'info')
+    .map((i) => `[${i.field}] ${i.message}`);
+  await logger.info(STEPS.VALIDATION, `Validation ${refresh.validation.valid ? 'passed' : 'has issues'}`, {
+    score: refresh.validation.score,
+    issues: validationIssues,
+  });
+
+  await logger.info(STEPS.COMPLETE, `Refreshed "${refresh.postTitle}"`, {
+    postId: refresh.postId,
+    sections: refresh.refreshedSections,
+    changeLog: refresh.changeLog,
+  });
+
+  const result: AutopilotJobResult = {
+    postId: refresh.postId,
+    postTitle: refresh.postTitle,
+    topic: idea.topic,
+    ideaId,
+    refreshedSections: refresh.refreshedSections,
+    validationPassed: refresh.validation.valid,
+    validationIssues,
+    draftWordCount: refresh.wordCount,
+  };
+
+  await completeJob(jobId, result, refresh.postId);
+  return result;
+}
+
+/**
+ * Steps 2-4: pick a collection, generate deduplicated topics and rank them.
+ * Returns no topics when nothing unique or nothing good enough was found.
+ */
+async function discoverTopics(
+  jobId: string,
+  job: AutopilotJob,
+  config: ReturnType<typeof getAutopilotConfig>,
+  logger: JobLogger
+): Promise<{ collection: CollectionData; scoredTopics: ScoredTopic[] }> {
+  // Step 2: Select collection
+  await logger.info(STEPS.COLLECTION, 'Selecting product collection');
+  await updateJobProgress(jobId, STEPS.COLLECTION, 3);
+
+  const collection = await selectCollection(job.collectionHandle, config, logger);
+  await logger.info(STEPS.COLLECTION, `Selected: "${collection.name}"`, {
+    handle: collection.handle,
+  });
+
+  // Check for cancellation before next step
+  await checkCancellation(jobId, logger, STEPS.COLLECTION);
+
+  // Step 3: Generate topics
+  await logger.info(STEPS.TOPICS, 'Generating and deduplicating topics');
+  await updateJobProgress(jobId, STEPS.TOPICS, 4);
+
+  // Use cached index for performance (don't refresh every time)
+  const topicResult = await generateTopicIdeasWithDedup(collection.handle, 5, {
+    excludeDuplicates: true,
+    strictness: 'moderate',
+    refreshIndex: false, // Use cached index
+  });
+
+  if (topicResult.topics.length === 0) {
+    await logger.warn(STEPS.TOPICS, 'No unique topics found for this collection');
+    return { collection, scoredTopics: [] };
+  }
+
+  await logger.info(STEPS.TOPICS, `Found ${topicResult.topics.length} unique candidates`, {
+    stats: topicResult.stats,
+  });
+
+  // Check for cancellation before next step
+  await checkCancellation(jobId, logger, STEPS.TOPICS);
+
+  // Step 4: Score topics
+  await logger.info(STEPS.SCORING, 'Scoring and ranking topics');
+  await updateJobProgress(jobId, STEPS.SCORING, 5);
+
+  const scoredTopics = prioritizeTopics(topicResult.topics, await loadProductCatalog());
+
+  // Guard against empty scored topics
+  if (scoredTopics.length === 0) {
+    await logger.warn(STEPS.SCORING, 'No topics passed scoring threshold');
+  }
+
+  return { collection, scoredTopics };
+}
+
+/**
+ * Park a job in 'awaiting_approval' with its top candidates and release
+ * the lock. Fails if the job was cancelled in the meantime.
+ */
+async function pauseForApproval(
+  jobId: string,
+  collection: CollectionData,
+  scoredTopics: ScoredTopic[],
+  logger: JobLogger
+): Promise<AutopilotJobResult> {
+  const candidates = scoredTopics.slice(0, APPROVAL_CANDIDATE_COUNT);
+
+  const paused = await db
+    .update(autopilotJobs)
+    .set({
+      status: 'awaiting_approval',
+      approval: {
+        collectionHandle: collection.handle,
+        collectionName: collection.name,
+        candidates,
+        requestedAt: new Date().toISOString(),
+      },
+      lockedUntil: null,
+      workerId: null,
+    })
+    .where(and(eq(autopilotJobs.id, jobId), eq(autopilotJobs.status, 'running')))
+    .returning({ id: autopilotJobs.id });
+
+  if (paused.length === 0) {
+    throw new Error('Job cancelled');
+  }
+
+  await publishJobEvent({ source: 'autopilot', jobId, type: 'status', data: { status: 'awaiting_approval' } });
+
+  await logger.info(STEPS.SCORING, `Waiting for an editor to approve one of ${candidates.length} topics`, {
+    topics: candidates.map((c) => ({ topic: c.topic, score: c.totalScore })),
+  });
+
+  return {
+    collection: collection.name,
+    awaitingApproval: true,
+  };
+}
+
+/**
+ * Map a scored topic onto the breakdown stored in job results
+ */
+function toScoreBreakdown(topic: ScoredTopic): TopicScoreBreakdown {
+  return {
+    novelty: topic.scoreBreakdown.uniquenessScore,
+    searchIntentMatch: topic.scoreBreakdown.contentTypeFitScore,
+    conversionPotential: topic.scoreBreakdown.productRelevanceScore,
+    internalLinkPotential: 0, // TODO: Calculate from related posts
+    eeatScore: topic.scoreBreakdown.eeatScore,
+    total: topic.totalScore,
+  };
+}
+
+/**
+ * Save a generated post as a draft, suffixing the slug if it is taken
+ */
+async function saveGeneratedDraft(post: BlogPost, authorId: string) {
+  let slug = post.slug;
+  const taken = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.slug, slug),
+  });
+  if (taken) {
+    slug = `${slug.substring(0, 90)}-${Date.now().toString(36)}`;
+  }
+
+  const [saved] = await db
+    .insert(blogPosts)
+    .values({
+      id: post.id,
+      slug,
+      source: 'manual',
+      status: 'draft',
+      title: post.title,
+      summary: post.summary,
+      heroAnswer: post.heroAnswer,
+      sections: post.sections,
+      faq: post.faq,
+      primaryKeyword: post.primaryKeyword,
+      secondaryKeywords: post.secondaryKeywords,
+      searchIntent: post.searchIntent,
+      metaTitle: post.metaTitle,
+      metaDescription: post.metaDescription,
+      canonicalUrl: post.canonicalUrl,
+      focusQuestions: post.focusQuestions,
+      internalLinks: post.internalLinks,
+      authorId,
+      experienceEvidence: post.experienceEvidence,
+      ldJsonArticle: post.ldJsonArticle,
+      ldJsonFaqPage: post.ldJsonFaqPage,
+      clusterTopicId: post.clusterTopicId,
+      wordCount: post.wordCount,
+      readingTimeMins: post.readingTimeMinutes,
+      aiAssisted: true,
+      aiModel: post.aiModel,
+    })
+    .returning();
+
+  return saved;
 }
 
 /**
@@ -551,7 +994,7 @@ async function selectCollection(
   config: ReturnType<typeof getAutopilotConfig>,
   logger: JobLogger
 ): Promise<CollectionData> {
-  let collections = getProductCollections();
+  let collections = await loadProductCollections();
 
   // Apply allowlist
   if (config.allowedCollections && config.allowedCollections.length > 0) {
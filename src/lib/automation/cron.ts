@@ -0,0 +1,225 @@
+/**
+ * Cron Expressions
+ *
+ * Minimal 5-field cron parser (minute hour day-of-month month day-of-week)
+ * for autopilot schedules. Supports `*`, lists (`1,15`), ranges (`1-5`),
+ * steps (`*\/15`, `0-30/10`) and month/day names (`jan`, `mon`).
+ * All times are evaluated in UTC.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  /** Day-of-month field was restricted (not `*`) */
+  domRestricted: boolean;
+  /** Day-of-week field was restricted (not `*`) */
+  dowRestricted: boolean;
+}
+
+export class CronParseError extends Error {
+  constructor(expression: string, reason: string) {
+    super(`Invalid cron expression "${expression}": ${reason}`);
+    this.name = 'CronParseError';
+  }
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: Record<string, number>;
+}
+
+const MONTH_NAMES: Record<string, number> = {
+  jan: 1, feb: 2, mar: 3, apr: 4, may: 5, jun: 6,
+  jul: 7, aug: 8, sep: 9, oct: 10, nov: 11, dec: 12,
+};
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday and folded into 0
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Give up after ~4 years of searching (e.g. "0 0 30 2 *" never matches)
+const MAX_SEARCH_ITERATIONS = 5000;
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse a 5-field cron expression
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(expression, `expected 5 fields, got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, rawDaysOfWeek] = parts.map((part, i) =>
+    parseField(expression, part, FIELDS[i])
+  );
+
+  const daysOfWeek = new Set([...rawDaysOfWeek].map((d) => (d === 7 ? 0 : d)));
+
+  return {
+    expression: parts.join(' '),
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    domRestricted: parts[2] !== '*',
+    dowRestricted: parts[4] !== '*',
+  };
+}
+
+/**
+ * Whether an expression parses
+ */
+export function isValidCronExpression(expression: string): boolean {
+  try {
+    parseCronExpression(expression);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function parseField(expression: string, field: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const item of field.split(',')) {
+    const [rangePart, stepPart] = item.split('/');
+    const step = stepPart === undefined ? 1 : Number(stepPart);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new CronParseError(expression, `bad step "${stepPart}" in ${spec.name}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (rangePart === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (rangePart.includes('-')) {
+      const [a, b] = rangePart.split('-');
+      start = parseValue(expression, a, spec);
+      end = parseValue(expression, b, spec);
+    } else {
+      start = parseValue(expression, rangePart, spec);
+      // "5/15" means "from 5 every 15"
+      end = stepPart === undefined ? start : spec.max;
+    }
+
+    if (start > end) {
+      throw new CronParseError(expression, `range ${rangePart} is backwards in ${spec.name}`);
+    }
+
+    for (let v = start; v <= end; v += step) {
+      values.add(v);
+    }
+  }
+
+  return values;
+}
+
+function parseValue(expression: string, raw: string, spec: FieldSpec): number {
+  const named = spec.names?.[raw.toLowerCase()];
+  const value = named ?? Number(raw);
+
+  if (!Number.isInteger(value) || value < spec.min || value > spec.max) {
+    throw new CronParseError(
+      expression,
+      `"${raw}" is out of range for ${spec.name} (${spec.min}-${spec.max})`
+    );
+  }
+  return value;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Standard cron semantics: when both day fields are restricted, a day
+ * matches if either does
+ */
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dom = schedule.daysOfMonth.has(date.getUTCDate());
+  const dow = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.domRestricted && schedule.dowRestricted) return dom || dow;
+  if (schedule.domRestricted) return dom;
+  if (schedule.dowRestricted) return dow;
+  return true;
+}
+
+/**
+ * Whether a schedule fires at the given minute
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return (
+    schedule.minutes.has(date.getUTCMinutes()) &&
+    schedule.hours.has(date.getUTCHours()) &&
+    schedule.months.has(date.getUTCMonth() + 1) &&
+    matchesDay(schedule, date)
+  );
+}
+
+/**
+ * First time strictly after `after` that the schedule fires
+ */
+export function getNextRunAt(
+  expressionOrSchedule: string | CronSchedule,
+  after: Date = new Date()
+): Date {
+  const schedule =
+    typeof expressionOrSchedule === 'string'
+      ? parseCronExpression(expressionOrSchedule)
+      : expressionOrSchedule;
+
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+
+  // Skip whole months/days/hours that can't match instead of stepping by minute
+  for (let i = 0; i < MAX_SEARCH_ITERATIONS; i++) {
+    if (!schedule.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  throw new CronParseError(schedule.expression, 'never fires');
+}
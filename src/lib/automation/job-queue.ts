@@ -0,0 +1,288 @@
+/**
+ * Autopilot Job Queue
+ *
+ * Database-backed queue primitives for the autopilot worker:
+ * - Claiming the next pending job (TTL lock + worker ID)
+ * - Heartbeats that extend the lock while a job runs
+ * - Reclaiming jobs whose worker died
+ * - Retry scheduling with exponential backoff and dead-lettering
+ */
+
+import { db } from '@/lib/db/client';
+import { autopilotJobs, type AutopilotJob } from '@/lib/db/schema';
+import { eq, and, lt, lte, or, isNull, asc, sql } from 'drizzle-orm';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RetryDecision {
+  status: 'pending' | 'failed' | 'dead_letter';
+  nextAttemptAt: Date | null;
+}
+
+export interface ReclaimResult {
+  requeued: string[];
+  deadLettered: string[];
+}
+
+const BASE_RETRY_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 15 * 60_000;
+
+// ============================================================================
+// CLAIMING
+// ============================================================================
+
+/**
+ * Claim the oldest runnable pending job for a worker.
+ * Returns null when the queue is empty or another worker won the race.
+ */
+export async function claimNextJob(
+  workerId: string,
+  timeoutSeconds: number
+): Promise<AutopilotJob | null> {
+  const now = new Date();
+
+  const candidates = await db
+    .select({ id: autopilotJobs.id })
+    .from(autopilotJobs)
+    .where(
+      and(
+        eq(autopilotJobs.status, 'pending'),
+        or(isNull(autopilotJobs.nextAttemptAt), lte(autopilotJobs.nextAttemptAt, now)),
+        or(isNull(autopilotJobs.lockedUntil), lt(autopilotJobs.lockedUntil, now))
+      )
+    )
+    .orderBy(asc(autopilotJobs.createdAt))
+    .limit(5);
+
+  for (const { id } of candidates) {
+    const claimed = await claimJob(id, workerId, timeoutSeconds);
+    if (claimed) return claimed;
+  }
+
+  return null;
+}
+
+/**
+ * Claim a specific pending job. Counts as one attempt.
+ */
+export async function claimJob(
+  jobId: string,
+  workerId: string,
+  timeoutSeconds: number
+): Promise<AutopilotJob | null> {
+  const now = new Date();
+  const lockUntil = new Date(now.getTime() + timeoutSeconds * 1000);
+
+  const result = await db
+    .update(autopilotJobs)
+    .set({
+      status: 'running',
+      startedAt: sql`coalesce(${autopilotJobs.startedAt}, ${now})`,
+      lockedUntil: lockUntil,
+      heartbeatAt: now,
+      workerId,
+      attempts: sql`${autopilotJobs.attempts} + 1`,
+      nextAttemptAt: null,
+    })
+    .where(
+      and(
+        eq(autopilotJobs.id, jobId),
+        eq(autopilotJobs.status, 'pending'),
+        or(isNull(autopilotJobs.lockedUntil), lt(autopilotJobs.lockedUntil, now))
+      )
+    )
+    .returning();
+
+  return result[0] ?? null;
+}
+
+// ============================================================================
+// HEARTBEAT
+// ============================================================================
+
+/**
+ * Extend the lock on a running job. Returns false if the job is no longer
+ * ours (cancelled, reclaimed or finished).
+ */
+export async function heartbeatJob(
+  jobId: string,
+  workerId: string,
+  timeoutSeconds: number
+): Promise<boolean> {
+  const now = new Date();
+
+  const result = await db
+    .update(autopilotJobs)
+    .set({
+      heartbeatAt: now,
+      lockedUntil: new Date(now.getTime() + timeoutSeconds * 1000),
+    })
+    .where(
+      and(
+        eq(autopilotJobs.id, jobId),
+        eq(autopilotJobs.status, 'running'),
+        eq(autopilotJobs.workerId, workerId)
+      )
+    )
+    .returning({ id: autopilotJobs.id });
+
+  return result.length > 0;
+}
+
+/**
+ * Heartbeat a job on an interval until the returned stop function is called.
+ * Beats three times per lock period so one slow query doesn't lose the lock.
+ */
+export function startHeartbeat(
+  jobId: string,
+  workerId: string,
+  timeoutSeconds: number,
+  onLost?: () => void
+): () => void {
+  const intervalMs = Math.max(1000, (timeoutSeconds * 1000) / 3);
+
+  const timer = setInterval(() => {
+    heartbeatJob(jobId, workerId, timeoutSeconds)
+      .then((held) => {
+        if (!held) {
+          clearInterval(timer);
+          onLost?.();
+        }
+      })
+      .catch((error) => console.error(`Heartbeat failed for job ${jobId}:`, error));
+  }, intervalMs);
+
+  return () => clearInterval(timer);
+}
+
+// ============================================================================
+// RECLAIM
+// ============================================================================
+
+/**
+ * Put running jobs whose lock expired (worker crashed, request died) back
+ * in the queue, or dead-letter them if they are out of attempts.
+ */
+export async function reclaimExpiredJobs(): Promise<ReclaimResult> {
+  const now = new Date();
+  const result: ReclaimResult = { requeued: [], deadLettered: [] };
+
+  const expired = await db.query.autopilotJobs.findMany({
+    where: and(
+      eq(autopilotJobs.status, 'running'),
+      or(isNull(autopilotJobs.lockedUntil), lt(autopilotJobs.lockedUntil, now))
+    ),
+  });
+
+  for (const job of expired) {
+    const exhausted = job.attempts >= job.maxAttempts;
+    const message = `Lock expired on worker ${job.workerId ?? 'unknown'} (attempt ${job.attempts}/${job.maxAttempts})`;
+
+    const updated = await db
+      .update(autopilotJobs)
+      .set({
+        status: exhausted ? 'dead_letter' : 'pending',
+        lockedUntil: null,
+        workerId: null,
+        errorMessage: message,
+        completedAt: exhausted ? now : null,
+        logs: sql`${autopilotJobs.logs} || ${JSON.stringify([
+          {
+            timestamp: now.toISOString(),
+            step: 'queue',
+            level: 'warn',
+            message: exhausted ? `${message} - moved to dead letter` : `${message} - requeued`,
+          },
+        ])}::jsonb`,
+      })
+      .where(
+        and(
+          eq(autopilotJobs.id, job.id),
+          eq(autopilotJobs.status, 'running'),
+          or(isNull(autopilotJobs.lockedUntil), lt(autopilotJobs.lockedUntil, now))
+        )
+      )
+      .returning({ id: autopilotJobs.id });
+
+    if (updated.length > 0) {
+      (exhausted ? result.deadLettered : result.requeued).push(job.id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Move a dead-lettered or failed job back to the queue with fresh attempts
+ */
+export async function requeueJob(jobId: string): Promise<boolean> {
+  const result = await db
+    .update(autopilotJobs)
+    .set({
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: null,
+      lockedUntil: null,
+      workerId: null,
+      errorMessage: null,
+      completedAt: null,
+    })
+    .where(
+      and(
+        eq(autopilotJobs.id, jobId),
+        or(eq(autopilotJobs.status, 'dead_letter'), eq(autopilotJobs.status, 'failed'))
+      )
+    )
+    .returning({ id: autopilotJobs.id });
+
+  return result.length > 0;
+}
+
+// ============================================================================
+// RETRIES
+// ============================================================================
+
+/**
+ * Whether an error is worth retrying (rate limits, overloads, timeouts,
+ * network resets). Works on SDK errors with a `status` and on the plain
+ * messages the orchestrator wraps them in.
+ */
+export function isTransientError(error: unknown): boolean {
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') {
+    return status === 408 || status === 409 || status === 429 || status >= 500;
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return /rate.?limit|\b429\b|\b5(00|02|03|04|29)\b|overloaded|timed? ?out|ETIMEDOUT|ECONNRESET|ECONNREFUSED|socket hang up|fetch failed/i.test(
+    message
+  );
+}
+
+/**
+ * Exponential backoff with jitter: 30s, 60s, 120s... capped at 15 minutes
+ */
+export function getRetryDelayMs(attempt: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempt - 1), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+/**
+ * Decide what happens to a job after an error
+ */
+export function decideRetry(job: AutopilotJob, error: unknown, now = new Date()): RetryDecision {
+  if (!isTransientError(error)) {
+    return { status: 'failed', nextAttemptAt: null };
+  }
+
+  if (job.attempts >= job.maxAttempts) {
+    return { status: 'dead_letter', nextAttemptAt: null };
+  }
+
+  return {
+    status: 'pending',
+    nextAttemptAt: new Date(now.getTime() + getRetryDelayMs(job.attempts)),
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Autopilot Scheduler
+ *
+ * Turns recurring autopilot schedules into queued jobs. Each cron tick is
+ * enqueued with a deterministic idempotency key
+ * (`schedule:<scheduleId>:<tick ISO time>`), so a scheduler that restarts
+ * mid-tick, or two schedulers running at once, never create the same job
+ * twice. Missed ticks are not backfilled - a schedule that was due while
+ * nothing was running fires once and moves on.
+ */
+
+import { db } from '@/lib/db/client';
+import { autopilotJobs, autopilotSchedules, type AutopilotSchedule } from '@/lib/db/schema';
+import { eq, and, or, lte, gt, isNull, isNotNull, inArray, sql } from 'drizzle-orm';
+import { z } from 'zod';
+import { createJob, type JobMode } from './auto-writer';
+import { CronParseError, getNextRunAt, isValidCronExpression } from './cron';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ScheduleTickResult {
+  scheduleId: string;
+  name: string;
+  tick: string;
+  outcome: 'enqueued' | 'skipped' | 'error';
+  jobId?: string;
+  reason?: string;
+}
+
+/**
+ * Input for creating/updating a schedule (admin API)
+ */
+export const ScheduleSchema = z.object({
+  name: z.string().min(2).max(200),
+  enabled: z.boolean().default(true),
+  cronExpression: z
+    .string()
+    .max(100)
+    .refine(isValidCronExpression, 'Invalid cron expression (use 5 fields: minute hour day month weekday)')
+    .superRefine((expression, ctx) => {
+      if (!isValidCronExpression(expression)) return;
+      // Parses field by field but may still never fire, e.g. "0 0 30 2 *"
+      try {
+        getNextRunAt(expression);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          message: error instanceof CronParseError ? error.message : 'Cron expression never fires',
+        });
+      }
+    }),
+  collectionHandles: z.array(z.string().max(100)).default([]),
+  mode: z.enum(['dry_run', 'full']).default('full'),
+  targetWordCount: z.number().int().min(500).max(5000).default(1500),
+  authorId: z.string().uuid().nullable().optional(),
+  maxPostsPerWeek: z.number().int().min(0).max(100).default(3),
+});
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Idempotency key for one tick of a schedule
+ */
+export function getScheduleTickKey(scheduleId: string, tick: Date): string {
+  return `schedule:${scheduleId}:${tick.toISOString()}`;
+}
+
+/**
+ * Posts a schedule has created (or may still create) in the last 7 days.
+ * Counts queued/running jobs plus completed jobs that produced a post.
+ */
+export async function countScheduledPostsThisWeek(
+  scheduleId: string,
+  now: Date = new Date()
+): Promise<number> {
+  const weekAgo = new Date(now.getTime() - WEEK_MS);
+
+  const result = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(autopilotJobs)
+    .where(
+      and(
+        eq(autopilotJobs.scheduleId, scheduleId),
+        eq(autopilotJobs.mode, 'full'),
+        gt(autopilotJobs.createdAt, weekAgo),
+        or(
+          inArray(autopilotJobs.status, ['pending', 'running']),
+          and(eq(autopilotJobs.status, 'completed'), isNotNull(autopilotJobs.blogPostId))
+        )
+      )
+    );
+
+  return Number(result[0]?.count || 0);
+}
+
+/**
+ * Pick the collection for a tick from the schedule's allowlist
+ */
+function pickCollection(schedule: AutopilotSchedule): string | undefined {
+  const handles = schedule.collectionHandles;
+  if (handles.length === 0) return undefined;
+  return handles[Math.floor(Math.random() * handles.length)];
+}
+
+/**
+ * Move a schedule past the given tick. Only succeeds for the caller that
+ * still sees the old nextRunAt, so concurrent schedulers advance it once.
+ */
+async function advanceSchedule(
+  schedule: AutopilotSchedule,
+  tick: Date,
+  now: Date,
+  update: Partial<AutopilotSchedule>
+): Promise<boolean> {
+  const result = await db
+    .update(autopilotSchedules)
+    .set({
+      ...update,
+      nextRunAt: getNextRunAt(schedule.cronExpression, now),
+      updatedAt: now,
+    })
+    .where(and(eq(autopilotSchedules.id, schedule.id), eq(autopilotSchedules.nextRunAt, tick)))
+    .returning({ id: autopilotSchedules.id });
+
+  return result.length > 0;
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Enqueue jobs for every enabled schedule whose next run has arrived
+ */
+export async function enqueueDueSchedules(now: Date = new Date()): Promise<ScheduleTickResult[]> {
+  const results: ScheduleTickResult[] = [];
+
+  // Schedules created without a nextRunAt get one (they don't fire immediately)
+  const unscheduled = await db.query.autopilotSchedules.findMany({
+    where: and(eq(autopilotSchedules.enabled, true), isNull(autopilotSchedules.nextRunAt)),
+  });
+  for (const schedule of unscheduled) {
+    await db
+      .update(autopilotSchedules)
+      .set({ nextRunAt: getNextRunAt(schedule.cronExpression, now) })
+      .where(and(eq(autopilotSchedules.id, schedule.id), isNull(autopilotSchedules.nextRunAt)));
+  }
+
+  const due = await db.query.autopilotSchedules.findMany({
+    where: and(eq(autopilotSchedules.enabled, true), lte(autopilotSchedules.nextRunAt, now)),
+  });
+
+  for (const schedule of due) {
+    const tick = schedule.nextRunAt!;
+    const base = { scheduleId: schedule.id, name: schedule.name, tick: tick.toISOString() };
+
+    try {
+      // Weekly cap only applies to schedules that write posts
+      if (schedule.mode === 'full') {
+        const created = await countScheduledPostsThisWeek(schedule.id, now);
+        if (created >= schedule.maxPostsPerWeek) {
+          const reason = `Weekly cap reached (${created}/${schedule.maxPostsPerWeek})`;
+          await advanceSchedule(schedule, tick, now, { lastSkipReason: reason });
+          results.push({ ...base, outcome: 'skipped', reason });
+          continue;
+        }
+      }
+
+      const job = await createJob({
+        mode: schedule.mode as JobMode,
+        collectionHandle: pickCollection(schedule),
+        targetWordCount: schedule.targetWordCount,
+        authorId: schedule.authorId ?? undefined,
+        scheduleId: schedule.id,
+        triggeredBy: 'cron',
+        idempotencyKey: getScheduleTickKey(schedule.id, tick),
+      });
+
+      await advanceSchedule(schedule, tick, now, {
+        lastRunAt: now,
+        lastJobId: job.id,
+        lastSkipReason: null,
+      });
+      results.push({ ...base, outcome: 'enqueued', jobId: job.id });
+    } catch (error) {
+      // Rate limit / kill switch: skip this tick rather than retrying it forever
+      const reason = error instanceof Error ? error.message : String(error);
+      await advanceSchedule(schedule, tick, now, { lastSkipReason: reason }).catch(() => false);
+      results.push({ ...base, outcome: 'error', reason });
+    }
+  }
+
+  return results;
+}
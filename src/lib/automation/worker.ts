@@ -0,0 +1,176 @@
+/**
+ * Autopilot Worker
+ *
+ * Long-running loop that pulls pending autopilot jobs off the queue and
+ * processes them outside of any HTTP request. Started by
+ * scripts/autopilot-worker.ts.
+ *
+ * Each poll:
+ * 1. Enqueues jobs for autopilot schedules that are due
+ * 2. Reclaims running jobs whose lock expired (crashed worker / dead request)
+ * 3. Claims pending jobs until AUTOPILOT_MAX_CONCURRENT_JOBS are in flight
+ * 4. Waits for the poll interval or for a job to finish
+ */
+
+import { hostname } from 'os';
+import { getAutopilotConfig } from '@/lib/config/env';
+import { processJob } from './auto-writer';
+import { claimNextJob, reclaimExpiredJobs } from './job-queue';
+import { enqueueDueSchedules } from './scheduler';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface WorkerOptions {
+  workerId?: string;
+  /** Defaults to AUTOPILOT_MAX_CONCURRENT_JOBS */
+  concurrency?: number;
+  /** Defaults to AUTOPILOT_WORKER_POLL_SECONDS */
+  pollIntervalMs?: number;
+  /** Exit once the queue is empty and in-flight jobs are done */
+  once?: boolean;
+  /** Also enqueue due autopilot schedules (default true) */
+  runSchedules?: boolean;
+  /** Stop claiming new jobs and return after in-flight jobs finish */
+  signal?: AbortSignal;
+  log?: (message: string) => void;
+}
+
+export interface WorkerStats {
+  workerId: string;
+  scheduled: number;
+  processed: number;
+  succeeded: number;
+  failed: number;
+  reclaimed: number;
+  deadLettered: number;
+}
+
+// ============================================================================
+// WORKER
+// ============================================================================
+
+/**
+ * Default worker ID: host + pid, so lock holders are traceable in the jobs table
+ */
+export function getDefaultWorkerId(): string {
+  return `${hostname()}-${process.pid}`;
+}
+
+/**
+ * Run the worker loop until aborted (or until the queue drains with `once`)
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<WorkerStats> {
+  const config = getAutopilotConfig();
+  const workerId = options.workerId ?? getDefaultWorkerId();
+  const concurrency = Math.max(1, options.concurrency ?? config.maxConcurrentJobs);
+  const pollIntervalMs = options.pollIntervalMs ?? config.workerPollSeconds * 1000;
+  const log = options.log ?? ((message: string) => console.log(`[${new Date().toISOString()}] ${message}`));
+
+  const stats: WorkerStats = {
+    workerId,
+    scheduled: 0,
+    processed: 0,
+    succeeded: 0,
+    failed: 0,
+    reclaimed: 0,
+    deadLettered: 0,
+  };
+
+  const inFlight = new Map<string, Promise<void>>();
+
+  const runJob = (jobId: string) => {
+    const task = processJob(jobId, { workerId, alreadyClaimed: true })
+      .then((result) => {
+        stats.succeeded++;
+        if (result.awaitingApproval) {
+          log(`Job ${jobId} paused for topic approval`);
+        } else {
+          log(`Job ${jobId} completed${result.postTitle ? `: "${result.postTitle}"` : ''}`);
+        }
+      })
+      .catch((error) => {
+        stats.failed++;
+        log(`Job ${jobId} failed: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        stats.processed++;
+        inFlight.delete(jobId);
+      });
+
+    inFlight.set(jobId, task);
+  };
+
+  log(`Worker ${workerId} started (concurrency ${concurrency}, poll ${pollIntervalMs}ms)`);
+
+  while (!options.signal?.aborted) {
+    let claimedAny = false;
+
+    try {
+      if (options.runSchedules !== false) {
+        for (const tick of await enqueueDueSchedules()) {
+          if (tick.outcome === 'enqueued') stats.scheduled++;
+          log(
+            `Schedule "${tick.name}" ${tick.outcome}` +
+              (tick.jobId ? ` job ${tick.jobId}` : '') +
+              (tick.reason ? `: ${tick.reason}` : '')
+          );
+        }
+      }
+
+      const reclaimed = await reclaimExpiredJobs();
+      stats.reclaimed += reclaimed.requeued.length;
+      stats.deadLettered += reclaimed.deadLettered.length;
+      if (reclaimed.requeued.length > 0) {
+        log(`Requeued ${reclaimed.requeued.length} job(s) with expired locks`);
+      }
+      if (reclaimed.deadLettered.length > 0) {
+        log(`Dead-lettered ${reclaimed.deadLettered.length} job(s) with expired locks`);
+      }
+
+      while (inFlight.size < concurrency && !options.signal?.aborted) {
+        const job = await claimNextJob(workerId, config.jobTimeoutSeconds);
+        if (!job) break;
+
+        claimedAny = true;
+        log(`Claimed job ${job.id} (attempt ${job.attempts}/${job.maxAttempts}, mode ${job.mode})`);
+        runJob(job.id);
+      }
+    } catch (error) {
+      log(`Poll failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    if (options.once && !claimedAny && inFlight.size === 0) {
+      break;
+    }
+
+    // Wake on the next poll or as soon as a slot frees up
+    await Promise.race([
+      sleep(pollIntervalMs, options.signal),
+      ...(inFlight.size >= concurrency ? [...inFlight.values()] : []),
+    ]);
+  }
+
+  if (inFlight.size > 0) {
+    log(`Waiting for ${inFlight.size} in-flight job(s) to finish`);
+    await Promise.all(inFlight.values());
+  }
+
+  log(`Worker ${workerId} stopped (${stats.succeeded} succeeded, ${stats.failed} failed)`);
+  return stats;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * Sitemap and Feeds
+ *
+ * XML builders for /sitemap.xml (with Google image extensions, in the same
+ * shape as the Shopify store's sitemap), the RSS 2.0 feed and the Atom feed.
+ * Pure functions - the route handlers gather the entries.
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+}
+
+export interface SitemapEntry {
+  loc: string;
+  lastModified?: Date | null;
+  changeFrequency?: string;
+  images?: SitemapImage[];
+}
+
+export interface FeedInfo {
+  title: string;
+  description: string;
+  /** HTML page the feed belongs to */
+  siteUrl: string;
+  /** URL the feed itself is served from */
+  feedUrl: string;
+  updated: Date;
+}
+
+export interface FeedItem {
+  title: string;
+  url: string;
+  /** Stable ID - the post's ID */
+  id: string;
+  summary: string;
+  /** Full article HTML */
+  contentHtml?: string;
+  authorName?: string;
+  categories?: string[];
+  published: Date;
+  updated: Date;
+  image?: { url: string; mimeType: string; length: number } | null;
+}
+
+// ============================================================================
+// SITEMAP
+// ============================================================================
+
+export function buildSitemapXml(entries: SitemapEntry[]): string {
+  const urls = entries.map((entry) => {
+    const lines = [`<url>`, `<loc>${escapeXml(entry.loc)}</loc>`];
+    if (entry.lastModified) lines.push(`<lastmod>${entry.lastModified.toISOString()}</lastmod>`);
+    if (entry.changeFrequency) lines.push(`<changefreq>${entry.changeFrequency}</changefreq>`);
+    for (const image of entry.images ?? []) {
+      lines.push('<image:image>', `<image:loc>${escapeXml(image.loc)}</image:loc>`);
+      if (image.title) lines.push(`<image:title>${escapeXml(image.title)}</image:title>`);
+      lines.push('</image:image>');
+    }
+    lines.push('</url>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9" xmlns:image="http://www.google.com/schemas/sitemap-image/1.1">',
+    ...urls,
+    '</urlset>',
+  ].join('\n');
+}
+
+// ============================================================================
+// FEEDS
+// ============================================================================
+
+export function buildRssFeed(feed: FeedInfo, items: FeedItem[]): string {
+  const entries = items.map((item) => {
+    const lines = [
+      '<item>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link>${escapeXml(item.url)}</link>`,
+      `<guid isPermaLink="false">${escapeXml(item.id)}</guid>`,
+      `<pubDate>${item.published.toUTCString()}</pubDate>`,
+      `<description>${escapeXml(item.summary)}</description>`,
+    ];
+    if (item.contentHtml) lines.push(`<content:encoded>${cdata(item.contentHtml)}</content:encoded>`);
+    if (item.authorName) lines.push(`<dc:creator>${escapeXml(item.authorName)}</dc:creator>`);
+    for (const category of item.categories ?? []) {
+      lines.push(`<category>${escapeXml(category)}</category>`);
+    }
+    if (item.image) {
+      lines.push(
+        `<enclosure url="${escapeXml(item.image.url)}" type="${escapeXml(item.image.mimeType)}" length="${item.image.length}"/>`
+      );
+    }
+    lines.push('</item>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '<channel>',
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<link>${escapeXml(feed.siteUrl)}</link>`,
+    `<description>${escapeXml(feed.description)}</description>`,
+    `<lastBuildDate>${feed.updated.toUTCString()}</lastBuildDate>`,
+    `<atom:link href="${escapeXml(feed.feedUrl)}" rel="self" type="application/rss+xml"/>`,
+    ...entries,
+    '</channel>',
+    '</rss>',
+  ].join('\n');
+}
+
+export function buildAtomFeed(feed: FeedInfo, items: FeedItem[]): string {
+  const entries = items.map((item) => {
+    const lines = [
+      '<entry>',
+      `<title>${escapeXml(item.title)}</title>`,
+      `<link rel="alternate" type="text/html" href="${escapeXml(item.url)}"/>`,
+      `<id>urn:uuid:${escapeXml(item.id)}</id>`,
+      `<published>${item.published.toISOString()}</published>`,
+      `<updated>${item.updated.toISOString()}</updated>`,
+      `<summary>${escapeXml(item.summary)}</summary>`,
+    ];
+    if (item.contentHtml) lines.push(`<content type="html">${escapeXml(item.contentHtml)}</content>`);
+    if (item.authorName) lines.push(`<author><name>${escapeXml(item.authorName)}</name></author>`);
+    for (const category of item.categories ?? []) {
+      lines.push(`<category term="${escapeXml(category)}"/>`);
+    }
+    if (item.image) {
+      lines.push(
+        `<link rel="enclosure" type="${escapeXml(item.image.mimeType)}" length="${item.image.length}" href="${escapeXml(item.image.url)}"/>`
+      );
+    }
+    lines.push('</entry>');
+    return lines.join('\n');
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `<title>${escapeXml(feed.title)}</title>`,
+    `<subtitle>${escapeXml(feed.description)}</subtitle>`,
+    `<link rel="alternate" type="text/html" href="${escapeXml(feed.siteUrl)}"/>`,
+    `<link rel="self" type="application/atom+xml" href="${escapeXml(feed.feedUrl)}"/>`,
+    `<id>${escapeXml(feed.feedUrl)}</id>`,
+    `<updated>${feed.updated.toISOString()}</updated>`,
+    ...entries,
+    '</feed>',
+  ].join('\n');
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// A CDATA section can't contain "]]>", so split it across two sections
+function cdata(text: string): string {
+  return `<![CDATA[${text.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
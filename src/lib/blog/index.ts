@@ -0,0 +1,43 @@
+/**
+ * Blog Module
+ *
+ * Public, read-only rendering of published posts: queries, URLs, sitemap
+ * and feeds.
+ */
+
+// Posts and clusters
+export {
+  getSiteUrl,
+  getBlogUrl,
+  getPostUrl,
+  getClusterSlug,
+  getClusterUrl,
+  getPublishedPost,
+  listPublishedPosts,
+  getPostImages,
+  listPublicClusters,
+  getPublicCluster,
+  type PublishedPost,
+  type PublicCluster,
+} from './public-posts';
+
+// Rendering
+export { sanitizeArticleHtml } from './sanitize';
+
+// Sitemap and feeds
+export {
+  buildBlogSitemap,
+  buildBlogFeed,
+  type FeedFormat,
+} from './syndication';
+
+export {
+  buildSitemapXml,
+  buildRssFeed,
+  buildAtomFeed,
+  escapeXml,
+  type SitemapEntry,
+  type SitemapImage,
+  type FeedInfo,
+  type FeedItem,
+} from './feeds';
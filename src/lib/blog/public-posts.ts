@@ -0,0 +1,153 @@
+/**
+ * Public Blog Posts
+ *
+ * Read-only queries and URLs for the public blog (/blog): published posts,
+ * topic cluster index pages, and the images the sitemap lists. Nothing here
+ * returns drafts or posts in review.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, mediaAssets, topicClusters } from '@/lib/db/schema';
+import type { Author, BlogPost as BlogPostRow, MediaAsset, TopicCluster } from '@/lib/db/schema';
+import { and, desc, eq, inArray } from 'drizzle-orm';
+import { getEnvironment } from '@/lib/config/env';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+import { generateSlug } from '@/lib/shopify/format-rules';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PublishedPost = BlogPostRow & {
+  author: Author;
+  cluster: TopicCluster | null;
+};
+
+export interface PublicCluster extends TopicCluster {
+  slug: string;
+  postCount: number;
+  lastModified: Date | null;
+}
+
+// ============================================================================
+// URLS
+// ============================================================================
+
+/**
+ * Absolute URL of the public site (NEXT_PUBLIC_APP_URL)
+ */
+export function getSiteUrl(): string {
+  return getEnvironment().NEXT_PUBLIC_APP_URL.replace(/\/+$/, '');
+}
+
+export function getBlogUrl(): string {
+  return `${getSiteUrl()}${PUBLIC_BLOG_CONFIG.basePath}`;
+}
+
+export function getPostUrl(slug: string): string {
+  return `${getBlogUrl()}/${slug}`;
+}
+
+/**
+ * Clusters have no stored slug - it's derived from the (unique) name
+ */
+export function getClusterSlug(cluster: Pick<TopicCluster, 'name'>): string {
+  return generateSlug(cluster.name);
+}
+
+export function getClusterUrl(cluster: Pick<TopicCluster, 'name'>): string {
+  return `${getBlogUrl()}/topics/${getClusterSlug(cluster)}`;
+}
+
+// ============================================================================
+// POSTS
+// ============================================================================
+
+export async function getPublishedPost(slug: string): Promise<PublishedPost | null> {
+  const post = await db.query.blogPosts.findFirst({
+    where: and(eq(blogPosts.slug, slug), eq(blogPosts.status, 'published')),
+    with: { author: true, cluster: true },
+  });
+  return post ?? null;
+}
+
+/**
+ * Published posts, newest first
+ */
+export async function listPublishedPosts(
+  options: { clusterId?: string; limit?: number } = {}
+): Promise<PublishedPost[]> {
+  const conditions = [eq(blogPosts.status, 'published')];
+  if (options.clusterId) {
+    conditions.push(eq(blogPosts.clusterTopicId, options.clusterId));
+  }
+
+  return db.query.blogPosts.findMany({
+    where: and(...conditions),
+    with: { author: true, cluster: true },
+    orderBy: [desc(blogPosts.publishedAt)],
+    limit: options.limit,
+  });
+}
+
+/**
+ * Images attached to the given posts, hero first, keyed by post ID
+ */
+export async function getPostImages(postIds: string[]): Promise<Map<string, MediaAsset[]>> {
+  const images = new Map<string, MediaAsset[]>();
+  if (postIds.length === 0) return images;
+
+  const assets = await db.query.mediaAssets.findMany({
+    where: inArray(mediaAssets.blogPostId, postIds),
+  });
+  assets.sort((a, b) => Number(b.role === 'hero') - Number(a.role === 'hero'));
+
+  for (const asset of assets) {
+    const list = images.get(asset.blogPostId) ?? [];
+    list.push(asset);
+    images.set(asset.blogPostId, list);
+  }
+  return images;
+}
+
+// ============================================================================
+// CLUSTERS
+// ============================================================================
+
+/**
+ * Clusters with at least one published post, alphabetically
+ */
+export async function listPublicClusters(): Promise<PublicCluster[]> {
+  const [clusters, posts] = await Promise.all([
+    db.select().from(topicClusters),
+    db
+      .select({ clusterTopicId: blogPosts.clusterTopicId, updatedAt: blogPosts.updatedAt })
+      .from(blogPosts)
+      .where(eq(blogPosts.status, 'published')),
+  ]);
+
+  const stats = new Map<string, { count: number; lastModified: Date }>();
+  for (const post of posts) {
+    if (!post.clusterTopicId) continue;
+    const current = stats.get(post.clusterTopicId);
+    stats.set(post.clusterTopicId, {
+      count: (current?.count ?? 0) + 1,
+      lastModified: current && current.lastModified > post.updatedAt ? current.lastModified : post.updatedAt,
+    });
+  }
+
+  return clusters
+    .map((cluster) => ({
+      ...cluster,
+      slug: getClusterSlug(cluster),
+      postCount: stats.get(cluster.id)?.count ?? 0,
+      lastModified: stats.get(cluster.id)?.lastModified ?? null,
+    }))
+    .filter((cluster) => cluster.postCount > 0)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function getPublicCluster(slug: string): Promise<PublicCluster | null> {
+  const clusters = await listPublicClusters();
+  return clusters.find((cluster) => cluster.slug === slug) ?? null;
+}
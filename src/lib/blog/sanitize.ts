@@ -0,0 +1,139 @@
+/**
+ * Article HTML Sanitizer
+ *
+ * Post bodies come from imports, AI output and Blog Writer HTML, and the
+ * public blog serves them on the same origin as the admin session. Before
+ * rendering, everything outside an allowlist of formatting elements and
+ * attributes is dropped: scripts, event handlers, frames, forms and
+ * non-http(s) URLs.
+ */
+
+import * as cheerio from 'cheerio';
+import type { AnyNode, Element } from 'domhandler';
+
+// ============================================================================
+// ALLOWLIST
+// ============================================================================
+
+const ALLOWED_TAGS = new Set([
+  'a', 'abbr', 'article', 'aside', 'b', 'blockquote', 'br', 'caption', 'cite',
+  'code', 'col', 'colgroup', 'dd', 'del', 'details', 'div', 'dl', 'dt', 'em',
+  'figcaption', 'figure', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'header', 'hr', 'i', 'img', 'ins', 'kbd', 'li', 'main', 'mark', 'nav', 'ol',
+  'p', 'picture', 'pre', 'q', 's', 'section', 'small', 'source', 'span',
+  'strong', 'style', 'sub', 'summary', 'sup', 'table', 'tbody', 'td', 'tfoot',
+  'th', 'thead', 'time', 'tr', 'u', 'ul',
+]);
+
+// Removed with their content; any other unknown element is unwrapped
+const DROPPED_TAGS = new Set([
+  'script', 'noscript', 'template', 'iframe', 'frame', 'frameset', 'object',
+  'embed', 'applet', 'form', 'input', 'button', 'select', 'textarea', 'link',
+  'meta', 'base', 'svg', 'math', 'title', 'head',
+]);
+
+const GLOBAL_ATTRIBUTES = new Set(['class', 'id', 'title', 'lang', 'dir', 'role', 'style']);
+
+const TAG_ATTRIBUTES: Record<string, string[]> = {
+  a: ['href', 'target', 'rel', 'name'],
+  img: ['src', 'alt', 'width', 'height', 'loading', 'srcset', 'sizes'],
+  source: ['srcset', 'type', 'media', 'sizes'],
+  td: ['colspan', 'rowspan', 'headers'],
+  th: ['colspan', 'rowspan', 'headers', 'scope'],
+  col: ['span'],
+  colgroup: ['span'],
+  ol: ['start', 'type', 'reversed'],
+  time: ['datetime'],
+  blockquote: ['cite'],
+  q: ['cite'],
+  details: ['open'],
+};
+
+const URL_ATTRIBUTES = new Set(['href', 'src', 'cite']);
+
+const SAFE_URL = /^(https?:|mailto:|tel:|[/#?.]|[^:]*$)/i;
+
+// CSS can't run script in current browsers, but it can load remote content
+const UNSAFE_CSS = /@import|expression\s*\(|javascript:|behavior\s*:|-moz-binding/i;
+
+// ============================================================================
+// SANITIZER
+// ============================================================================
+
+/**
+ * Strip everything but allowlisted elements and attributes from article HTML
+ */
+export function sanitizeArticleHtml(html: string): string {
+  const $ = cheerio.load(html, null, false);
+
+  removeComments($, $.root().contents().toArray());
+
+  // Children before parents, so unwrapping never revisits a node
+  const elements = $('*')
+    .toArray()
+    .filter((node): node is Element => node.type === 'tag' || node.type === 'style' || node.type === 'script');
+  for (const element of elements.reverse()) {
+    const tag = element.tagName.toLowerCase();
+
+    if (DROPPED_TAGS.has(tag)) {
+      $(element).remove();
+      continue;
+    }
+    if (!ALLOWED_TAGS.has(tag)) {
+      $(element).replaceWith($(element).contents());
+      continue;
+    }
+    if (tag === 'style' && UNSAFE_CSS.test($(element).text())) {
+      $(element).remove();
+      continue;
+    }
+
+    sanitizeAttributes(element, tag);
+  }
+
+  return $.html();
+}
+
+function sanitizeAttributes(element: Element, tag: string): void {
+  const allowed = TAG_ATTRIBUTES[tag] ?? [];
+
+  for (const [name, value] of Object.entries(element.attribs)) {
+    const key = name.toLowerCase();
+    const keep =
+      (GLOBAL_ATTRIBUTES.has(key) || allowed.includes(key) || key.startsWith('aria-') || key.startsWith('data-')) &&
+      isSafeAttributeValue(key, value);
+
+    if (!keep) {
+      delete element.attribs[name];
+    }
+  }
+
+  if (tag === 'a' && element.attribs.target === '_blank') {
+    element.attribs.rel = 'noopener noreferrer';
+  }
+}
+
+function isSafeAttributeValue(name: string, value: string): boolean {
+  if (URL_ATTRIBUTES.has(name)) return isSafeUrl(value);
+  if (name === 'srcset') {
+    return value.split(',').every((candidate) => isSafeUrl(candidate.trim().split(/\s+/)[0] ?? ''));
+  }
+  if (name === 'style') return !UNSAFE_CSS.test(value);
+  return true;
+}
+
+function isSafeUrl(url: string): boolean {
+  // Browsers ignore whitespace and control characters inside the scheme
+  const compact = [...url].filter((char) => char.charCodeAt(0) > 32).join('');
+  return SAFE_URL.test(compact);
+}
+
+function removeComments($: cheerio.CheerioAPI, nodes: AnyNode[]): void {
+  for (const node of nodes) {
+    if (node.type === 'comment') {
+      $(node).remove();
+    } else if ('children' in node) {
+      removeComments($, [...node.children]);
+    }
+  }
+}
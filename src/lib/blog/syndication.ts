@@ -0,0 +1,98 @@
+/**
+ * Blog Syndication
+ *
+ * Gathers published posts, clusters and images into the sitemap and the
+ * RSS/Atom feeds served by the public blog routes.
+ */
+
+import { getOrganizationInfo } from '@/lib/config/env';
+import { PUBLIC_BLOG_CONFIG } from '@/lib/config/constants';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { getArticleBodyHtml } from '@/lib/shopify/article-sync';
+import { sanitizeArticleHtml } from './sanitize';
+import {
+  getBlogUrl,
+  getClusterUrl,
+  getPostImages,
+  getPostUrl,
+  listPublicClusters,
+  listPublishedPosts,
+} from './public-posts';
+import {
+  buildAtomFeed,
+  buildRssFeed,
+  buildSitemapXml,
+  type FeedItem,
+  type SitemapEntry,
+} from './feeds';
+
+export type FeedFormat = 'rss' | 'atom';
+
+/**
+ * sitemap.xml: the blog index, every cluster page and every published post
+ * with its images
+ */
+export async function buildBlogSitemap(): Promise<string> {
+  const [posts, clusters] = await Promise.all([listPublishedPosts(), listPublicClusters()]);
+  const images = await getPostImages(posts.map((post) => post.id));
+  const changeFrequency = PUBLIC_BLOG_CONFIG.changeFrequency;
+
+  const entries: SitemapEntry[] = [
+    { loc: getBlogUrl(), lastModified: latest(posts.map((post) => post.updatedAt)), changeFrequency },
+    ...clusters.map((cluster) => ({
+      loc: getClusterUrl(cluster),
+      lastModified: cluster.lastModified,
+      changeFrequency,
+    })),
+    ...posts.map((post) => ({
+      loc: getPostUrl(post.slug),
+      lastModified: post.updatedAt,
+      changeFrequency,
+      images: (images.get(post.id) ?? []).map((image) => ({
+        loc: image.url,
+        title: image.role === 'hero' ? post.title : image.altText,
+      })),
+    })),
+  ];
+
+  return buildSitemapXml(entries);
+}
+
+/**
+ * RSS or Atom feed of the most recent published posts, with full content
+ */
+export async function buildBlogFeed(format: FeedFormat): Promise<string> {
+  const posts = await listPublishedPosts({ limit: PUBLIC_BLOG_CONFIG.feedLimit });
+  const images = await getPostImages(posts.map((post) => post.id));
+  const org = getOrganizationInfo();
+
+  const items: FeedItem[] = posts.map((post) => {
+    const hero = images.get(post.id)?.find((image) => image.role === 'hero');
+    return {
+      title: post.title,
+      url: getPostUrl(post.slug),
+      id: post.id,
+      summary: post.summary,
+      contentHtml: sanitizeArticleHtml(getArticleBodyHtml(toCanonicalPost(post, post.author))),
+      authorName: post.author.name,
+      categories: post.cluster ? [post.cluster.name] : [],
+      published: post.publishedAt ?? post.createdAt,
+      updated: post.updatedAt,
+      image: hero ? { url: hero.url, mimeType: hero.mimeType, length: hero.fileSize } : null,
+    };
+  });
+
+  const feed = {
+    title: `${org.name} Blog`,
+    description: `Guides and articles from ${org.name}`,
+    siteUrl: getBlogUrl(),
+    feedUrl: `${getBlogUrl()}/${format === 'rss' ? 'feed.xml' : 'atom.xml'}`,
+    updated: latest(posts.map((post) => post.updatedAt)) ?? new Date(),
+  };
+
+  return format === 'rss' ? buildRssFeed(feed, items) : buildAtomFeed(feed, items);
+}
+
+function latest(dates: Date[]): Date | null {
+  return dates.reduce<Date | null>((max, date) => (!max || date > max ? date : max), null);
+}
@@ -20,7 +20,7 @@ export const EMBEDDING_CONFIG = {
 // ============================================================================
 
 export const AI_CONFIG = {
-  // Default provider: 'openai' | 'anthropic'
+  // Default provider: 'openai' | 'anthropic' (AI_PROVIDER env overrides, incl. 'offline')
   defaultProvider: 'anthropic' as const,
 
   // Default models per provider
@@ -133,6 +133,15 @@ export const IMPORT_CONFIG = {
   // Shopify pagination
   shopifyPageSize: 50,
 
+  // Sitemap crawling
+  crawlerUserAgent: 'AllianceBlogBot', // Token matched against robots.txt user-agent groups
+  maxSitemapDepth: 3, // Nested sitemap indexes followed
+  maxSitemapsPerCrawl: 50,
+  maxSitemapBytes: 50 * 1024 * 1024, // Protocol limit for one (uncompressed) sitemap
+  maxPageUrlLength: 500, // crawl_state.url column length; longer page URLs are skipped
+  maxCrawlDelay: 10, // seconds; longer robots.txt crawl-delays are capped
+  sitemapTimeout: 20000, // ms
+
   // Content detection
   contentSelectors: [
     'article',
@@ -181,6 +190,104 @@ export const RETRIEVAL_CONFIG = {
   clusterSimilarityThreshold: 0.75,
 } as const;
 
+// ============================================================================
+// SEMANTIC DEDUPLICATION CONFIGURATION
+// ============================================================================
+
+export const SEMANTIC_DEDUP_CONFIG = {
+  // Cosine similarity between a candidate topic and a post's summary chunk
+  // (title + summary + primary keyword) or an idea's topic
+  duplicateSimilarity: 0.88, // Same topic, different wording
+  possibleSimilarity: 0.8, // Overlapping angle - duplicate only when strict
+  minReportedSimilarity: 0.7, // Below this, matches aren't returned at all
+
+  // Nearest matches returned per topic
+  maxMatches: 3,
+
+  // Open ideas embedded per pass (the rest are picked up next time)
+  ideaEmbeddingBatch: 100,
+} as const;
+
+// ============================================================================
+// SEARCH PERFORMANCE CONFIGURATION
+// ============================================================================
+
+export const SEARCH_PERFORMANCE_CONFIG = {
+  // Days rolled up into blogPosts.performance, ending at the newest imported day
+  rollupWindowDays: 28,
+
+  // Unmatched pages listed in an import result
+  maxUnmatchedReported: 20,
+
+  // Rows per insert batch
+  insertBatchSize: 500,
+} as const;
+
+// ============================================================================
+// CONTENT DECAY CONFIGURATION
+// ============================================================================
+
+export const DECAY_CONFIG = {
+  // Trailing window compared against the window before it
+  windowDays: 28,
+
+  // Clicks: flag a drop of at least this share, when the prior window had enough clicks
+  clicksDropRatio: 0.3,
+  minBaselineClicks: 20,
+
+  // Position: flag when the average position gets this much worse
+  positionDrop: 3,
+  minBaselineImpressions: 200,
+
+  // Stale: last update this many days behind the cluster's median (clusters of 2+ posts)
+  staleDaysBehindCluster: 180,
+
+  // Years from (current - lookback) to (current - 1) count as outdated
+  outdatedYearLookback: 6,
+
+  // Sections listed in one refresh brief
+  maxSectionsPerRefresh: 4,
+} as const;
+
+// ============================================================================
+// PUBLIC BLOG CONFIGURATION
+// ============================================================================
+
+export const PUBLIC_BLOG_CONFIG = {
+  // Route prefix for public post and cluster pages
+  basePath: '/blog',
+
+  // Most recent posts included in the RSS and Atom feeds
+  feedLimit: 50,
+
+  // Posts listed on the /blog index
+  indexLimit: 30,
+
+  // Sitemap <changefreq>, matching the Shopify sitemap
+  changeFrequency: 'weekly',
+} as const;
+
+// ============================================================================
+// WRITER STREAMING CONFIGURATION
+// ============================================================================
+
+export const WRITER_STREAM_CONFIG = {
+  // Raw output is saved at least this often while streaming (and after every section)
+  saveIntervalMs: 2000,
+
+  // A streaming job whose heartbeat is older than this is considered dead and can be resumed
+  staleAfterMs: 30000,
+
+  // Runs per job, counting resumes
+  maxAttempts: 3,
+
+  // How often a reconnected client polls a job another request is running
+  pollIntervalMs: 1000,
+
+  // Same budget as the blocking generate-article action
+  maxTokens: 8000,
+} as const;
+
 // ============================================================================
 // POST STATUS CONFIGURATION
 // ============================================================================
@@ -83,3 +83,8 @@ export const sql = createConnection();
  * Type for the database client
  */
 export type Database = typeof db;
+
+/**
+ * Transaction handle passed to db.transaction() callbacks
+ */
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
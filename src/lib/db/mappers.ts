@@ -0,0 +1,67 @@
+/**
+ * Database Mappers
+ *
+ * Convert Drizzle rows into the canonical schema types used by validators,
+ * generators and sync code.
+ */
+
+import type { BlogPost as BlogPostRow, Author as AuthorRow } from './schema';
+import type {
+  BlogPost,
+  ContentSource,
+  PostStatus,
+  SearchIntent,
+} from '@/lib/schema/canonical';
+
+/**
+ * Convert a database row (with its author) into the canonical BlogPost shape
+ */
+export function toCanonicalPost(row: BlogPostRow, author: AuthorRow): BlogPost {
+  return {
+    id: row.id,
+    slug: row.slug,
+    sourceUrl: row.sourceUrl,
+    source: row.source as ContentSource,
+    status: row.status as PostStatus,
+    version: row.version,
+    title: row.title,
+    summary: row.summary,
+    heroAnswer: row.heroAnswer,
+    sections: row.sections,
+    faq: row.faq,
+    primaryKeyword: row.primaryKeyword,
+    secondaryKeywords: row.secondaryKeywords,
+    searchIntent: row.searchIntent as SearchIntent,
+    metaTitle: row.metaTitle,
+    metaDescription: row.metaDescription,
+    canonicalUrl: row.canonicalUrl,
+    focusQuestions: row.focusQuestions,
+    internalLinks: row.internalLinks,
+    authorId: row.authorId,
+    author: {
+      id: author.id,
+      name: author.name,
+      role: author.role,
+      credentials: author.credentials,
+      profileUrl: author.profileUrl,
+      avatarUrl: author.avatarUrl,
+    },
+    reviewedBy: row.reviewedBy ?? null,
+    experienceEvidence: row.experienceEvidence,
+    ldJsonArticle: row.ldJsonArticle,
+    ldJsonFaqPage: row.ldJsonFaqPage ?? null,
+    clusterTopicId: row.clusterTopicId,
+    parentPostId: row.parentPostId,
+    rawHtml: row.rawHtml,
+    wordCount: row.wordCount,
+    readingTimeMinutes: row.readingTimeMins,
+    aiAssisted: row.aiAssisted,
+    aiModel: row.aiModel,
+    createdAt: row.createdAt.toISOString(),
+    updatedAt: row.updatedAt.toISOString(),
+    publishedAt: row.publishedAt?.toISOString() ?? null,
+    scheduledFor: row.scheduledFor?.toISOString() ?? null,
+    primaryTargetQuery: row.primaryTargetQuery,
+    performance: row.performance,
+  };
+}
@@ -12,7 +12,9 @@ import {
   integer,
   boolean,
   timestamp,
+  date,
   jsonb,
+  doublePrecision,
   index,
   uniqueIndex,
   foreignKey,
@@ -29,7 +31,13 @@ import type {
   PerformanceMetrics,
   Reviewer,
   Brief,
+  RefreshBrief,
+  RefreshDraft,
+  ContentIdeaKind,
+  BlogPost as CanonicalBlogPost,
 } from '@/lib/schema/canonical';
+import type { ScoredTopic } from '@/lib/discovery/topic-scorer';
+import type { BlogContent, BlogSection } from '@/lib/templates/section-renderers';
 
 // ============================================================================
 // CUSTOM TYPES
@@ -104,6 +112,21 @@ export const topicClusters = pgTable(
 // BLOG POSTS TABLE
 // ============================================================================
 
+/**
+ * Shopify side of a post that changed both locally and in Shopify since the
+ * last sync. Stored until an editor picks a side.
+ */
+export interface ShopifySyncConflict {
+  detectedAt: string;
+  remote: {
+    title: string;
+    summary: string | null;
+    bodyHtml: string;
+    handle: string;
+    updatedAt: string | null;
+  };
+}
+
 export const blogPosts = pgTable(
   'blog_posts',
   {
@@ -165,6 +188,19 @@ export const blogPosts = pgTable(
       lastSyncedAt: null,
     }),
 
+    // Shopify Sync
+    shopifyArticleId: varchar('shopify_article_id', { length: 50 }),
+    shopifyArticleHandle: varchar('shopify_article_handle', { length: 255 }),
+    shopifySyncedAt: timestamp('shopify_synced_at', { withTimezone: true }),
+    shopifyUpdatedAt: timestamp('shopify_updated_at', { withTimezone: true }), // Article updated_at as of the last sync
+    shopifyContentHash: varchar('shopify_content_hash', { length: 64 }), // Hash of the synced title/body/summary
+    shopifyConflict: jsonb('shopify_conflict').$type<ShopifySyncConflict | null>(),
+
+    // Scheduled Publishing
+    publishTo: varchar('publish_to', { length: 20 }), // 'database' | 'shopify' | 'both'
+    publishError: text('publish_error'),
+    publishLockedUntil: timestamp('publish_locked_until', { withTimezone: true }),
+
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
@@ -176,7 +212,9 @@ export const blogPosts = pgTable(
     index('blog_posts_author_id_idx').on(table.authorId),
     index('blog_posts_cluster_topic_id_idx').on(table.clusterTopicId),
     index('blog_posts_published_at_idx').on(table.publishedAt),
+    index('blog_posts_scheduled_for_idx').on(table.scheduledFor),
     index('blog_posts_source_url_idx').on(table.sourceUrl),
+    index('blog_posts_shopify_article_id_idx').on(table.shopifyArticleId),
     foreignKey({
       columns: [table.parentPostId],
       foreignColumns: [table.id],
@@ -216,6 +254,108 @@ export const blogPostEmbeddings = pgTable(
   ]
 );
 
+// ============================================================================
+// BLOG POST REVISIONS TABLE
+// ============================================================================
+
+/**
+ * What produced a revision
+ */
+export type RevisionSource = 'initial' | 'manual' | 'autopilot' | 'import' | 'restore';
+
+export const blogPostRevisions = pgTable(
+  'blog_post_revisions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    blogPostId: uuid('blog_post_id')
+      .notNull()
+      .references(() => blogPosts.id, { onDelete: 'cascade' }),
+    version: integer('version').notNull(),
+    source: varchar('source', { length: 20 }).$type<RevisionSource>().notNull(),
+    snapshot: jsonb('snapshot').$type<CanonicalBlogPost>().notNull(),
+    changedFields: jsonb('changed_fields').$type<string[]>().notNull().default([]),
+    note: text('note'),
+    createdBy: varchar('created_by', { length: 100 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('blog_post_revisions_blog_post_id_idx').on(table.blogPostId),
+    uniqueIndex('blog_post_revisions_post_version_idx').on(table.blogPostId, table.version),
+  ]
+);
+
+// ============================================================================
+// MEDIA ASSETS TABLE
+// ============================================================================
+
+export type MediaAssetRole = 'hero' | 'inline';
+export type MediaAssetSource = 'generated' | 'upload';
+
+/**
+ * Images attached to a post. Files live on local disk under MEDIA_DIR;
+ * storagePath is relative to it. A new hero image replaces the previous one.
+ */
+export const mediaAssets = pgTable(
+  'media_assets',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    blogPostId: uuid('blog_post_id')
+      .notNull()
+      .references(() => blogPosts.id, { onDelete: 'cascade' }),
+    role: varchar('role', { length: 20 }).$type<MediaAssetRole>().notNull(),
+    sectionId: varchar('section_id', { length: 100 }), // Inline images: section the image sits in, if known
+    storagePath: varchar('storage_path', { length: 500 }).notNull(),
+    url: varchar('url', { length: 500 }).notNull(),
+    mimeType: varchar('mime_type', { length: 50 }).notNull(),
+    fileSize: integer('file_size').notNull(),
+    width: integer('width'),
+    height: integer('height'),
+    altText: varchar('alt_text', { length: 300 }).notNull(),
+    caption: varchar('caption', { length: 500 }),
+    prompt: text('prompt'),
+    model: varchar('model', { length: 100 }),
+    source: varchar('source', { length: 20 }).$type<MediaAssetSource>().notNull().default('generated'),
+    shopifyImageSrc: varchar('shopify_image_src', { length: 500 }), // Set once uploaded as the article image
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('media_assets_blog_post_id_idx').on(table.blogPostId),
+    index('media_assets_role_idx').on(table.role),
+  ]
+);
+
+// ============================================================================
+// SEARCH PERFORMANCE TABLE
+// ============================================================================
+
+/**
+ * Daily Search Console metrics per post. query is '' for page-level totals,
+ * which take precedence over summed query rows when rolling up (Search
+ * Console leaves anonymized queries out of query-level data).
+ */
+export const searchPerformance = pgTable(
+  'search_performance',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    blogPostId: uuid('blog_post_id')
+      .notNull()
+      .references(() => blogPosts.id, { onDelete: 'cascade' }),
+    date: date('date', { mode: 'string' }).notNull(),
+    query: varchar('query', { length: 300 }).notNull().default(''),
+    page: varchar('page', { length: 500 }).notNull(),
+    clicks: integer('clicks').notNull().default(0),
+    impressions: integer('impressions').notNull().default(0),
+    position: doublePrecision('position'), // Average position for the day
+    source: varchar('source', { length: 20 }).notNull(), // 'csv' | 'json'
+    importedAt: timestamp('imported_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('search_performance_post_date_query_idx').on(table.blogPostId, table.date, table.query),
+    index('search_performance_date_idx').on(table.date),
+  ]
+);
+
 // ============================================================================
 // CONTENT IDEAS TABLE
 // ============================================================================
@@ -233,11 +373,19 @@ export const contentIdeas = pgTable(
     clusterTopicId: uuid('cluster_topic_id').references(() => topicClusters.id),
     funnelStage: varchar('funnel_stage', { length: 20 }),
     status: varchar('status', { length: 20 }).notNull().default('idea'),
+    // 'refresh' = update sections of the linked post instead of writing a new one
+    kind: varchar('kind', { length: 20 }).$type<ContentIdeaKind>().notNull().default('new'),
     justification: text('justification'),
     notes: text('notes'),
     brief: jsonb('brief').$type<Brief | null>(),
+    refreshBrief: jsonb('refresh_brief').$type<RefreshBrief | null>(),
+    // Refreshed sections for a live post, waiting for an editor to apply them
+    refreshDraft: jsonb('refresh_draft').$type<RefreshDraft | null>(),
     blogPostId: uuid('blog_post_id').references(() => blogPosts.id),
     aiGenerated: boolean('ai_generated').notNull().default(false),
+    // Topic embedding for semantic dedup (filled by embedOpenIdeas; cleared when the topic changes)
+    topicEmbedding: vector('topic_embedding'),
+    topicEmbeddingModel: varchar('topic_embedding_model', { length: 50 }),
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
     updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
   },
@@ -245,6 +393,7 @@ export const contentIdeas = pgTable(
     index('content_ideas_status_idx').on(table.status),
     index('content_ideas_cluster_topic_id_idx').on(table.clusterTopicId),
     index('content_ideas_blog_post_id_idx').on(table.blogPostId),
+    index('content_ideas_kind_idx').on(table.kind, table.status),
     index('content_ideas_created_at_idx').on(table.createdAt),
   ]
 );
@@ -254,9 +403,18 @@ export const contentIdeas = pgTable(
 // ============================================================================
 
 /**
- * Job status for autopilot runs
+ * Job status for autopilot runs.
+ * 'awaiting_approval' = paused after topic scoring until an editor picks a topic.
+ * 'dead_letter' = retries exhausted on a transient error; needs a human to requeue.
  */
-export type AutopilotJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type AutopilotJobStatus =
+  | 'pending'
+  | 'running'
+  | 'awaiting_approval'
+  | 'completed'
+  | 'failed'
+  | 'cancelled'
+  | 'dead_letter';
 
 /**
  * Structured log entry for autopilot jobs
@@ -293,6 +451,27 @@ export interface AutopilotJobResult {
   validationPassed?: boolean;
   validationIssues?: string[];
   draftWordCount?: number;
+  /** Job paused for topic approval instead of generating */
+  awaitingApproval?: boolean;
+  /** Refresh jobs: the idea processed and the sections regenerated */
+  ideaId?: string;
+  refreshedSections?: string[];
+}
+
+/**
+ * Topic candidates a job paused on, and the editor's decision
+ */
+export interface AutopilotApproval {
+  collectionHandle: string;
+  collectionName: string;
+  candidates: ScoredTopic[];
+  requestedAt: string;
+  decision?: 'approved' | 'rejected';
+  /** Chosen candidate with the editor's edits applied */
+  approvedTopic?: ScoredTopic;
+  decidedBy?: string | null;
+  decidedAt?: string;
+  reason?: string | null;
 }
 
 export const autopilotJobs = pgTable(
@@ -323,13 +502,20 @@ export const autopilotJobs = pgTable(
     result: jsonb('result').$type<AutopilotJobResult | null>(),
     errorMessage: text('error_message'),
 
+    // Human approval gate (full mode)
+    requireApproval: boolean('require_approval').notNull().default(false),
+    approval: jsonb('approval').$type<AutopilotApproval | null>(),
+
     // Relations
     blogPostId: uuid('blog_post_id').references(() => blogPosts.id),
     authorId: uuid('author_id').references(() => authors.id),
+    // Refresh idea to process instead of discovering a new topic
+    ideaId: uuid('idea_id').references(() => contentIdeas.id, { onDelete: 'set null' }),
 
     // Metadata
     triggeredBy: varchar('triggered_by', { length: 100 }), // user email or 'cron'
     requestId: varchar('request_id', { length: 100 }),
+    scheduleId: uuid('schedule_id').references(() => autopilotSchedules.id, { onDelete: 'set null' }),
 
     // Timestamps
     createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
@@ -338,14 +524,133 @@ export const autopilotJobs = pgTable(
 
     // Lock for concurrency control (TTL-based)
     lockedUntil: timestamp('locked_until', { withTimezone: true }),
+
+    // Worker queue
+    workerId: varchar('worker_id', { length: 100 }), // Worker currently holding the lock
+    heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }),
+    attempts: integer('attempts').notNull().default(0),
+    maxAttempts: integer('max_attempts').notNull().default(3),
+    nextAttemptAt: timestamp('next_attempt_at', { withTimezone: true }), // Retry backoff; null = ready now
   },
   (table) => [
     index('autopilot_jobs_status_idx').on(table.status),
+    index('autopilot_jobs_queue_idx').on(table.status, table.nextAttemptAt),
     index('autopilot_jobs_created_at_idx').on(table.createdAt),
+    index('autopilot_jobs_schedule_idx').on(table.scheduleId, table.createdAt),
     uniqueIndex('autopilot_jobs_idempotency_key_idx').on(table.idempotencyKey),
   ]
 );
 
+// ============================================================================
+// AUTOPILOT SCHEDULES TABLE
+// ============================================================================
+
+export const autopilotSchedules = pgTable(
+  'autopilot_schedules',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    name: varchar('name', { length: 200 }).notNull(),
+    enabled: boolean('enabled').notNull().default(true),
+
+    // When to run (5-field cron, UTC)
+    cronExpression: varchar('cron_expression', { length: 100 }).notNull(),
+
+    // Job configuration
+    collectionHandles: jsonb('collection_handles').$type<string[]>().notNull().default([]), // empty = any allowed
+    mode: varchar('mode', { length: 20 }).notNull().default('full'), // 'dry_run' | 'full'
+    targetWordCount: integer('target_word_count').notNull().default(1500),
+    authorId: uuid('author_id').references(() => authors.id), // null = default author
+    maxPostsPerWeek: integer('max_posts_per_week').notNull().default(3),
+
+    // Scheduler state
+    nextRunAt: timestamp('next_run_at', { withTimezone: true }),
+    lastRunAt: timestamp('last_run_at', { withTimezone: true }),
+    lastJobId: uuid('last_job_id'),
+    lastSkipReason: text('last_skip_reason'),
+
+    // Timestamps
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('autopilot_schedules_next_run_idx').on(table.enabled, table.nextRunAt),
+  ]
+);
+
+// ============================================================================
+// WRITER JOBS TABLE
+// ============================================================================
+
+export type WriterJobStatus = 'pending' | 'streaming' | 'completed' | 'failed';
+
+/**
+ * A streamed /write article generation. The model output is saved as it
+ * arrives so a client that drops the connection can reconnect by job ID,
+ * and a run that dies can continue from the last complete section.
+ */
+export const writerJobs = pgTable(
+  'writer_jobs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    status: varchar('status', { length: 20 }).$type<WriterJobStatus>().notNull().default('pending'),
+
+    // Request
+    productHandle: varchar('product_handle', { length: 255 }).notNull(),
+    options: jsonb('options').$type<Record<string, unknown>>().notNull().default({}), // generate-article fields
+    prompt: text('prompt').notNull(), // Saved so a resume doesn't refetch the product
+
+    // Output so far
+    output: text('output').notNull().default(''), // Raw model text
+    fields: jsonb('fields').$type<Partial<Omit<BlogContent, 'sections'>>>().notNull().default({}), // meta, hero, cta
+    sections: jsonb('sections').$type<BlogSection[]>().notNull().default([]),
+
+    // Result
+    content: jsonb('content').$type<BlogContent | null>(),
+    html: text('html'),
+    errorMessage: text('error_message'),
+
+    // Lease: the run holding the job refreshes heartbeatAt; a stale heartbeat can be resumed
+    attempts: integer('attempts').notNull().default(0),
+    heartbeatAt: timestamp('heartbeat_at', { withTimezone: true }),
+
+    // Metadata
+    createdBy: varchar('created_by', { length: 100 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+    completedAt: timestamp('completed_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('writer_jobs_created_at_idx').on(table.createdAt),
+  ]
+);
+
+// ============================================================================
+// STATUS CHANGES TABLE
+// ============================================================================
+
+/**
+ * Entities whose status follows POST_STATUS_CONFIG
+ */
+export type StatusEntityType = 'post' | 'idea';
+
+export const statusChanges = pgTable(
+  'status_changes',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    entityType: varchar('entity_type', { length: 20 }).$type<StatusEntityType>().notNull(),
+    entityId: uuid('entity_id').notNull(),
+    fromStatus: varchar('from_status', { length: 20 }), // null = created
+    toStatus: varchar('to_status', { length: 20 }).notNull(),
+    changedBy: varchar('changed_by', { length: 100 }), // user email, 'autopilot' or 'cron'
+    reason: text('reason'),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('status_changes_entity_idx').on(table.entityType, table.entityId),
+    index('status_changes_created_at_idx').on(table.createdAt),
+  ]
+);
+
 // ============================================================================
 // IMPORT LOGS TABLE
 // ============================================================================
@@ -371,6 +676,191 @@ export const importLogs = pgTable(
   ]
 );
 
+// ============================================================================
+// CRAWL STATE TABLE
+// ============================================================================
+
+/**
+ * Per-URL state of the sitemap crawler: the sitemap lastmod seen at the
+ * last import and the validators for conditional requests, so re-imports
+ * only fetch pages that changed.
+ */
+export const crawlState = pgTable(
+  'crawl_state',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    url: varchar('url', { length: 500 }).notNull(),
+    sitemapLastmod: timestamp('sitemap_lastmod', { withTimezone: true }),
+    etag: varchar('etag', { length: 255 }),
+    lastModified: varchar('last_modified', { length: 100 }), // Last-Modified header, sent back as If-Modified-Since
+    lastStatus: integer('last_status'),
+    blogPostId: uuid('blog_post_id').references(() => blogPosts.id, { onDelete: 'set null' }),
+    lastFetchedAt: timestamp('last_fetched_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('crawl_state_url_idx').on(table.url),
+  ]
+);
+
+// ============================================================================
+// SHOPIFY SYNC RUNS TABLE
+// ============================================================================
+
+/** 'partial': completed, but some articles failed to pull */
+export type ShopifySyncRunStatus = 'running' | 'completed' | 'partial' | 'failed';
+
+/**
+ * One row per run of the two-way Shopify sync. The next run pulls articles
+ * updated since the start of the last completed one.
+ */
+export const shopifySyncRuns = pgTable(
+  'shopify_sync_runs',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    status: varchar('status', { length: 20 }).$type<ShopifySyncRunStatus>().notNull().default('running'),
+    direction: varchar('direction', { length: 10 }).$type<'both' | 'pull' | 'push'>().notNull().default('both'),
+    updatedSince: timestamp('updated_since', { withTimezone: true }), // null = full pull
+    pulled: integer('pulled').notNull().default(0),
+    created: integer('created').notNull().default(0),
+    pushed: integer('pushed').notNull().default(0),
+    conflicts: integer('conflicts').notNull().default(0),
+    unchanged: integer('unchanged').notNull().default(0),
+    errors: jsonb('errors').$type<Array<{ articleId?: string; postId?: string; error: string }>>().notNull().default([]),
+    triggeredBy: varchar('triggered_by', { length: 255 }),
+    startedAt: timestamp('started_at', { withTimezone: true }).notNull().defaultNow(),
+    finishedAt: timestamp('finished_at', { withTimezone: true }),
+  },
+  (table) => [
+    index('shopify_sync_runs_started_at_idx').on(table.startedAt),
+  ]
+);
+
+// ============================================================================
+// PRODUCT CATALOG TABLE
+// ============================================================================
+
+export type ProductCatalogSource = 'seed' | 'shopify';
+
+/**
+ * Collections the matcher links content to. Names, URLs and product counts
+ * come from Shopify; keywords, chemicals, industries and applications are
+ * curated and never overwritten by a sync once set.
+ */
+export const productCatalog = pgTable(
+  'product_catalog',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    handle: varchar('handle', { length: 255 }).notNull(),
+    name: varchar('name', { length: 255 }).notNull(),
+    url: varchar('url', { length: 500 }).notNull(),
+    kind: varchar('kind', { length: 20 }).$type<'product' | 'industry'>().notNull().default('product'),
+    shopifyCollectionId: varchar('shopify_collection_id', { length: 100 }),
+    productsCount: integer('products_count'),
+    // Curated matching data
+    keywords: jsonb('keywords').$type<string[]>().notNull().default([]),
+    chemicals: jsonb('chemicals').$type<string[]>().notNull().default([]),
+    industries: jsonb('industries').$type<string[]>().notNull().default([]),
+    applications: jsonb('applications').$type<string[]>().notNull().default([]),
+    curatedBy: varchar('curated_by', { length: 255 }),
+    curatedAt: timestamp('curated_at', { withTimezone: true }), // null = fields still auto-derived
+    source: varchar('source', { length: 20 }).$type<ProductCatalogSource>().notNull().default('seed'),
+    active: boolean('active').notNull().default(true), // false once the collection leaves the store
+    syncedAt: timestamp('synced_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('product_catalog_handle_idx').on(table.handle),
+    index('product_catalog_active_idx').on(table.active),
+  ]
+);
+
+// ============================================================================
+// AI USAGE TABLE
+// ============================================================================
+
+/**
+ * One row per AI provider call (usage ledger), attributed to the job,
+ * post or idea that triggered it
+ */
+export const aiUsage = pgTable(
+  'ai_usage',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    provider: varchar('provider', { length: 20 }).notNull(), // 'openai' | 'anthropic' | 'google'
+    model: varchar('model', { length: 100 }).notNull(),
+    operation: varchar('operation', { length: 20 }).notNull(), // 'structured' | 'text' | 'stream' | 'embedding' | 'image'
+    inputTokens: integer('input_tokens').notNull().default(0),
+    outputTokens: integer('output_tokens').notNull().default(0),
+    latencyMs: integer('latency_ms').notNull().default(0),
+    costUsd: doublePrecision('cost_usd').notNull().default(0),
+
+    // Attribution
+    source: varchar('source', { length: 100 }),
+    jobId: uuid('job_id').references(() => autopilotJobs.id, { onDelete: 'set null' }),
+    blogPostId: uuid('blog_post_id').references(() => blogPosts.id, { onDelete: 'set null' }),
+    contentIdeaId: uuid('content_idea_id').references(() => contentIdeas.id, { onDelete: 'set null' }),
+
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    index('ai_usage_created_at_idx').on(table.createdAt),
+    index('ai_usage_job_id_idx').on(table.jobId),
+    index('ai_usage_blog_post_id_idx').on(table.blogPostId),
+  ]
+);
+
+// ============================================================================
+// USERS & SESSIONS TABLES
+// ============================================================================
+
+/**
+ * Admin roles, lowest to highest. Each role can do everything the roles
+ * below it can: writers draft, editors review and run autopilot,
+ * publishers publish, admins manage users.
+ */
+export type UserRole = 'writer' | 'editor' | 'publisher' | 'admin';
+
+export const users = pgTable(
+  'users',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    email: varchar('email', { length: 255 }).notNull(), // stored lowercase
+    name: varchar('name', { length: 100 }).notNull(),
+    role: varchar('role', { length: 20 }).$type<UserRole>().notNull().default('writer'),
+    passwordHash: text('password_hash').notNull(),
+    active: boolean('active').notNull().default(true),
+    lastLoginAt: timestamp('last_login_at', { withTimezone: true }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+    updatedAt: timestamp('updated_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('users_email_idx').on(table.email),
+  ]
+);
+
+/**
+ * Login sessions. The cookie holds a random token; only its SHA-256 hash
+ * is stored.
+ */
+export const sessions = pgTable(
+  'sessions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    tokenHash: varchar('token_hash', { length: 64 }).notNull(),
+    userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+    expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+    userAgent: varchar('user_agent', { length: 500 }),
+    createdAt: timestamp('created_at', { withTimezone: true }).notNull().defaultNow(),
+  },
+  (table) => [
+    uniqueIndex('sessions_token_hash_idx').on(table.tokenHash),
+    index('sessions_user_id_idx').on(table.userId),
+  ]
+);
+
 // ============================================================================
 // RELATIONS
 // ============================================================================
@@ -410,6 +900,9 @@ export const blogPostsRelations = relations(blogPosts, ({ one, many }) => ({
   }),
   childPosts: many(blogPosts, { relationName: 'post_hierarchy' }),
   embeddings: many(blogPostEmbeddings),
+  revisions: many(blogPostRevisions),
+  media: many(mediaAssets),
+  searchPerformance: many(searchPerformance),
   ideas: many(contentIdeas),
   importLogs: many(importLogs),
 }));
@@ -421,6 +914,27 @@ export const blogPostEmbeddingsRelations = relations(blogPostEmbeddings, ({ one
   }),
 }));
 
+export const blogPostRevisionsRelations = relations(blogPostRevisions, ({ one }) => ({
+  post: one(blogPosts, {
+    fields: [blogPostRevisions.blogPostId],
+    references: [blogPosts.id],
+  }),
+}));
+
+export const mediaAssetsRelations = relations(mediaAssets, ({ one }) => ({
+  post: one(blogPosts, {
+    fields: [mediaAssets.blogPostId],
+    references: [blogPosts.id],
+  }),
+}));
+
+export const searchPerformanceRelations = relations(searchPerformance, ({ one }) => ({
+  post: one(blogPosts, {
+    fields: [searchPerformance.blogPostId],
+    references: [blogPosts.id],
+  }),
+}));
+
 export const contentIdeasRelations = relations(contentIdeas, ({ one }) => ({
   cluster: one(topicClusters, {
     fields: [contentIdeas.clusterTopicId],
@@ -448,6 +962,48 @@ export const autopilotJobsRelations = relations(autopilotJobs, ({ one }) => ({
     fields: [autopilotJobs.authorId],
     references: [authors.id],
   }),
+  schedule: one(autopilotSchedules, {
+    fields: [autopilotJobs.scheduleId],
+    references: [autopilotSchedules.id],
+  }),
+  idea: one(contentIdeas, {
+    fields: [autopilotJobs.ideaId],
+    references: [contentIdeas.id],
+  }),
+}));
+
+export const autopilotSchedulesRelations = relations(autopilotSchedules, ({ one, many }) => ({
+  author: one(authors, {
+    fields: [autopilotSchedules.authorId],
+    references: [authors.id],
+  }),
+  jobs: many(autopilotJobs),
+}));
+
+export const aiUsageRelations = relations(aiUsage, ({ one }) => ({
+  job: one(autopilotJobs, {
+    fields: [aiUsage.jobId],
+    references: [autopilotJobs.id],
+  }),
+  post: one(blogPosts, {
+    fields: [aiUsage.blogPostId],
+    references: [blogPosts.id],
+  }),
+  idea: one(contentIdeas, {
+    fields: [aiUsage.contentIdeaId],
+    references: [contentIdeas.id],
+  }),
+}));
+
+export const usersRelations = relations(users, ({ many }) => ({
+  sessions: many(sessions),
+}));
+
+export const sessionsRelations = relations(sessions, ({ one }) => ({
+  user: one(users, {
+    fields: [sessions.userId],
+    references: [users.id],
+  }),
 }));
 
 // ============================================================================
@@ -466,11 +1022,46 @@ export type NewBlogPost = typeof blogPosts.$inferInsert;
 export type BlogPostEmbedding = typeof blogPostEmbeddings.$inferSelect;
 export type NewBlogPostEmbedding = typeof blogPostEmbeddings.$inferInsert;
 
+export type BlogPostRevision = typeof blogPostRevisions.$inferSelect;
+export type NewBlogPostRevision = typeof blogPostRevisions.$inferInsert;
+
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type NewMediaAsset = typeof mediaAssets.$inferInsert;
+
+export type SearchPerformanceRow = typeof searchPerformance.$inferSelect;
+export type NewSearchPerformanceRow = typeof searchPerformance.$inferInsert;
+
 export type ContentIdea = typeof contentIdeas.$inferSelect;
 export type NewContentIdea = typeof contentIdeas.$inferInsert;
 
+export type StatusChange = typeof statusChanges.$inferSelect;
+export type NewStatusChange = typeof statusChanges.$inferInsert;
+
 export type ImportLog = typeof importLogs.$inferSelect;
 export type NewImportLog = typeof importLogs.$inferInsert;
 
 export type AutopilotJob = typeof autopilotJobs.$inferSelect;
 export type NewAutopilotJob = typeof autopilotJobs.$inferInsert;
+
+export type AutopilotSchedule = typeof autopilotSchedules.$inferSelect;
+export type NewAutopilotSchedule = typeof autopilotSchedules.$inferInsert;
+
+export type WriterJob = typeof writerJobs.$inferSelect;
+export type NewWriterJob = typeof writerJobs.$inferInsert;
+
+export type CrawlState = typeof crawlState.$inferSelect;
+export type NewCrawlState = typeof crawlState.$inferInsert;
+export type ShopifySyncRun = typeof shopifySyncRuns.$inferSelect;
+export type NewShopifySyncRun = typeof shopifySyncRuns.$inferInsert;
+
+export type ProductCatalogEntry = typeof productCatalog.$inferSelect;
+export type NewProductCatalogEntry = typeof productCatalog.$inferInsert;
+
+export type AiUsage = typeof aiUsage.$inferSelect;
+export type NewAiUsage = typeof aiUsage.$inferInsert;
+
+export type User = typeof users.$inferSelect;
+export type NewUser = typeof users.$inferInsert;
+
+export type Session = typeof sessions.$inferSelect;
+export type NewSession = typeof sessions.$inferInsert;
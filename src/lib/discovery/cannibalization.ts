@@ -0,0 +1,371 @@
+/**
+ * Keyword Cannibalization
+ *
+ * Finds groups of posts and open content ideas that compete for the same
+ * search query: the same normalized primary keyword, one page's primary
+ * keyword among another's secondary keywords, or near-identical summary
+ * (or idea topic) embeddings. Each group gets a recommended canonical page
+ * based on stored performance metrics.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, contentIdeas } from '@/lib/db/schema';
+import { and, isNull, ne, notInArray, sql } from 'drizzle-orm';
+import type { PerformanceMetrics } from '@/lib/schema/canonical';
+import { countUnembeddedIdeas } from './semantic-dedup';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CannibalizationSignal = 'same_primary' | 'secondary_overlap' | 'semantic';
+
+export interface CannibalizationMember {
+  kind: 'post' | 'idea';
+  id: string;
+  title: string;
+  slug: string | null;
+  status: string;
+  primaryKeyword: string;
+  performance: PerformanceMetrics | null;
+  publishedAt: string | null;
+  /** What to do with this page */
+  recommendation: 'keep_canonical' | 'merge_or_redirect' | 'differentiate' | 'drop_or_retarget';
+}
+
+export interface CannibalizationLink {
+  a: string;
+  b: string;
+  signal: CannibalizationSignal;
+  similarity?: number;
+}
+
+export interface CannibalizationCluster {
+  keyword: string;
+  members: CannibalizationMember[];
+  links: CannibalizationLink[];
+  canonicalId: string | null;
+  canonicalReason: string;
+}
+
+export interface CannibalizationReport {
+  clusters: CannibalizationCluster[];
+  stats: {
+    postsAnalyzed: number;
+    ideasAnalyzed: number;
+    clusters: number;
+    competingPages: number;
+    semantic: boolean;
+    /** Open ideas left out of the semantic check for lack of an embedding */
+    unembeddedIdeas: number;
+  };
+  generatedAt: string;
+}
+
+export interface CannibalizationOptions {
+  /** Include embedding similarity (default: true) */
+  semantic?: boolean;
+  /** Cosine similarity at which two pages compete (default: 0.9) */
+  minSimilarity?: number;
+}
+
+interface Candidate {
+  kind: 'post' | 'idea';
+  id: string;
+  title: string;
+  slug: string | null;
+  status: string;
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  performance: PerformanceMetrics | null;
+  publishedAt: Date | null;
+}
+
+const DEFAULT_MIN_SIMILARITY = 0.9;
+
+/** Idea statuses that no longer compete */
+const CLOSED_IDEA_STATUSES = ['published', 'archived', 'rejected'];
+
+// ============================================================================
+// KEYWORDS
+// ============================================================================
+
+/**
+ * Normalize a keyword so trivial variants collide: lowercase, punctuation
+ * stripped, simple plurals singularized, word order ignored
+ */
+export function normalizeKeyword(keyword: string): string {
+  return keyword
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word))
+    .sort()
+    .join(' ');
+}
+
+// ============================================================================
+// CANONICAL SELECTION
+// ============================================================================
+
+/**
+ * Pick the page to keep: the published post with the most clicks, then
+ * impressions, then best average position, then the longest-published.
+ * Ideas never win while a post is in the group.
+ */
+function chooseCanonical(members: Candidate[]): { id: string | null; reason: string } {
+  const posts = members.filter((m) => m.kind === 'post');
+  if (posts.length === 0) {
+    return { id: null, reason: 'Only ideas compete - pick one before writing' };
+  }
+
+  const pool = posts.some((p) => p.status === 'published')
+    ? posts.filter((p) => p.status === 'published')
+    : posts;
+
+  const ranked = [...pool].sort((a, b) =>
+    (b.performance?.clicks ?? -1) - (a.performance?.clicks ?? -1) ||
+    (b.performance?.impressions ?? -1) - (a.performance?.impressions ?? -1) ||
+    (a.performance?.averagePosition ?? Infinity) - (b.performance?.averagePosition ?? Infinity) ||
+    (a.publishedAt?.getTime() ?? Infinity) - (b.publishedAt?.getTime() ?? Infinity)
+  );
+  const best = ranked[0];
+  const perf = best.performance;
+
+  if (perf?.clicks != null && perf.clicks > 0) {
+    return { id: best.id, reason: `Most clicks (${perf.clicks})` };
+  }
+  if (perf?.impressions != null && perf.impressions > 0) {
+    return { id: best.id, reason: `Most impressions (${perf.impressions})` };
+  }
+  if (best.publishedAt) {
+    return { id: best.id, reason: 'Longest published (no performance data yet)' };
+  }
+  return { id: best.id, reason: 'Only unpublished posts - no performance data' };
+}
+
+function recommend(member: Candidate, canonicalId: string | null): CannibalizationMember['recommendation'] {
+  if (member.id === canonicalId) return 'keep_canonical';
+  if (member.kind === 'idea') return 'drop_or_retarget';
+  return member.status === 'published' ? 'merge_or_redirect' : 'differentiate';
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+async function loadCandidates(): Promise<Candidate[]> {
+  const [posts, ideas] = await Promise.all([
+    db.query.blogPosts.findMany({
+      where: ne(blogPosts.status, 'archived'),
+      columns: {
+        id: true,
+        title: true,
+        slug: true,
+        status: true,
+        primaryKeyword: true,
+        secondaryKeywords: true,
+        performance: true,
+        publishedAt: true,
+      },
+    }),
+    db.query.contentIdeas.findMany({
+      where: and(
+        isNull(contentIdeas.blogPostId),
+        notInArray(contentIdeas.status, CLOSED_IDEA_STATUSES)
+      ),
+      columns: {
+        id: true,
+        topic: true,
+        status: true,
+        primaryKeyword: true,
+        secondaryKeywords: true,
+      },
+    }),
+  ]);
+
+  return [
+    ...posts.map((p) => ({
+      kind: 'post' as const,
+      id: p.id,
+      title: p.title,
+      slug: p.slug,
+      status: p.status,
+      primaryKeyword: p.primaryKeyword,
+      secondaryKeywords: p.secondaryKeywords,
+      performance: p.performance,
+      publishedAt: p.publishedAt,
+    })),
+    ...ideas.map((i) => ({
+      kind: 'idea' as const,
+      id: i.id,
+      title: i.topic,
+      slug: null,
+      status: i.status,
+      primaryKeyword: i.primaryKeyword,
+      secondaryKeywords: i.secondaryKeywords,
+      performance: null,
+      publishedAt: null,
+    })),
+  ];
+}
+
+/**
+ * Pairs of posts/ideas whose stored embeddings are at least minSimilarity
+ * apart: post summary chunks against each other, and open idea topics
+ * against those summaries and each other
+ */
+async function findSemanticPairs(minSimilarity: number): Promise<CannibalizationLink[]> {
+  const rows = await db.execute<{ a: string; b: string; similarity: number }>(sql`
+    WITH vectors AS (
+      SELECT bpe.blog_post_id AS id, bpe.embedding
+      FROM blog_post_embeddings bpe
+      JOIN blog_posts bp ON bp.id = bpe.blog_post_id
+      WHERE bpe.content_type = 'summary' AND bp.status <> 'archived'
+      UNION ALL
+      SELECT ci.id, ci.topic_embedding
+      FROM content_ideas ci
+      WHERE ci.topic_embedding IS NOT NULL
+        AND ci.blog_post_id IS NULL
+        AND ci.status NOT IN ('published', 'archived', 'rejected')
+    )
+    SELECT x.id AS a, y.id AS b, 1 - (x.embedding <=> y.embedding) AS similarity
+    FROM vectors x
+    JOIN vectors y ON x.id < y.id
+    WHERE 1 - (x.embedding <=> y.embedding) >= ${minSimilarity}
+  `);
+
+  return Array.from(rows).map((row) => ({
+    a: row.a,
+    b: row.b,
+    signal: 'semantic' as const,
+    similarity: Number(row.similarity),
+  }));
+}
+
+/**
+ * Build the cannibalization report across posts and open ideas
+ */
+export async function analyzeCannibalization(
+  options: CannibalizationOptions = {}
+): Promise<CannibalizationReport> {
+  const semantic = options.semantic ?? true;
+  const candidates = await loadCandidates();
+  const byId = new Map(candidates.map((c) => [c.id, c]));
+  const links: CannibalizationLink[] = [];
+
+  // Same normalized primary keyword
+  const byKeyword = new Map<string, Candidate[]>();
+  for (const candidate of candidates) {
+    const key = normalizeKeyword(candidate.primaryKeyword);
+    if (!key) continue;
+    if (!byKeyword.has(key)) byKeyword.set(key, []);
+    byKeyword.get(key)!.push(candidate);
+  }
+  for (const group of byKeyword.values()) {
+    for (let i = 1; i < group.length; i++) {
+      links.push({ a: group[0].id, b: group[i].id, signal: 'same_primary' });
+    }
+  }
+
+  // One page's primary keyword is another page's secondary keyword
+  for (const candidate of candidates) {
+    for (const secondary of candidate.secondaryKeywords) {
+      for (const other of byKeyword.get(normalizeKeyword(secondary)) ?? []) {
+        if (other.id !== candidate.id) {
+          links.push({ a: candidate.id, b: other.id, signal: 'secondary_overlap' });
+        }
+      }
+    }
+  }
+
+  // Near-identical embeddings. Only stored embeddings are compared; ideas
+  // without one are counted so the caller can embed them (a paid call)
+  let semanticUsed = false;
+  let unembeddedIdeas = 0;
+  if (semantic) {
+    try {
+      links.push(...(await findSemanticPairs(options.minSimilarity ?? DEFAULT_MIN_SIMILARITY)));
+      unembeddedIdeas = await countUnembeddedIdeas();
+      semanticUsed = true;
+    } catch (error) {
+      console.warn('Semantic cannibalization check unavailable:', error);
+    }
+  }
+
+  // Group linked pages (union-find)
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const p = parent.get(id) ?? id;
+    if (p === id) return id;
+    const root = find(p);
+    parent.set(id, root);
+    return root;
+  };
+  for (const link of links) {
+    if (!byId.has(link.a) || !byId.has(link.b)) continue;
+    const rootA = find(link.a);
+    const rootB = find(link.b);
+    if (rootA !== rootB) parent.set(rootB, rootA);
+  }
+
+  const groups = new Map<string, Candidate[]>();
+  for (const candidate of candidates) {
+    const root = find(candidate.id);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(candidate);
+  }
+
+  const clusters: CannibalizationCluster[] = [];
+  for (const members of groups.values()) {
+    if (members.length < 2) continue;
+
+    const memberIds = new Set(members.map((m) => m.id));
+    const canonical = chooseCanonical(members);
+
+    // Most common normalized primary keyword names the cluster
+    const keywordCounts = new Map<string, number>();
+    for (const m of members) {
+      const key = m.primaryKeyword.toLowerCase();
+      keywordCounts.set(key, (keywordCounts.get(key) ?? 0) + 1);
+    }
+    const keyword = [...keywordCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    clusters.push({
+      keyword,
+      members: members.map((m) => ({
+        kind: m.kind,
+        id: m.id,
+        title: m.title,
+        slug: m.slug,
+        status: m.status,
+        primaryKeyword: m.primaryKeyword,
+        performance: m.performance,
+        publishedAt: m.publishedAt?.toISOString() ?? null,
+        recommendation: recommend(m, canonical.id),
+      })),
+      links: links.filter((l) => memberIds.has(l.a) && memberIds.has(l.b)),
+      canonicalId: canonical.id,
+      canonicalReason: canonical.reason,
+    });
+  }
+
+  // Groups with published posts competing first, then by size
+  const publishedCount = (c: CannibalizationCluster) =>
+    c.members.filter((m) => m.kind === 'post' && m.status === 'published').length;
+  clusters.sort((a, b) => publishedCount(b) - publishedCount(a) || b.members.length - a.members.length);
+
+  return {
+    clusters,
+    stats: {
+      postsAnalyzed: candidates.filter((c) => c.kind === 'post').length,
+      ideasAnalyzed: candidates.filter((c) => c.kind === 'idea').length,
+      clusters: clusters.length,
+      competingPages: clusters.reduce((sum, c) => sum + c.members.length, 0),
+      semantic: semanticUsed,
+      unembeddedIdeas,
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
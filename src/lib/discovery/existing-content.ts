@@ -7,7 +7,8 @@
 
 import { db } from '@/lib/db/client';
 import { blogPosts, contentIdeas } from '@/lib/db/schema';
-import { extractChemicalNames } from '@/lib/shopify/product-matcher';
+import { extractChemicalNames, type CollectionData } from '@/lib/shopify/product-matcher';
+import { loadProductCatalog } from '@/lib/shopify/product-catalog';
 import type { ShopifyContentType } from '@/lib/shopify/content-types';
 
 // ============================================================================
@@ -50,6 +51,20 @@ export interface DuplicateCheck {
   matchedPost?: ExistingPost;
   reason?: string;
   similarity?: number;
+  /** Nearest published posts and open ideas by embedding similarity */
+  semanticMatches?: SemanticMatch[];
+}
+
+/**
+ * A post or idea close to a topic in embedding space
+ */
+export interface SemanticMatch {
+  kind: 'post' | 'idea';
+  id: string;
+  title: string;
+  slug?: string;
+  status: string;
+  similarity: number;
 }
 
 /**
@@ -84,6 +99,8 @@ export async function fetchExistingPosts(): Promise<ExistingPost[]> {
     },
   });
 
+  const catalog = await loadProductCatalog();
+
   return posts.map((post) => ({
     id: post.id,
     slug: post.slug,
@@ -91,7 +108,7 @@ export async function fetchExistingPosts(): Promise<ExistingPost[]> {
     primaryKeyword: post.primaryKeyword,
     secondaryKeywords: post.secondaryKeywords || [],
     searchIntent: post.searchIntent,
-    chemicals: extractChemicalNames(post.title),
+    chemicals: extractChemicalNames(post.title, catalog),
     publishedAt: post.publishedAt,
     status: post.status,
   }));
@@ -170,6 +187,7 @@ export function buildContentIndex(posts: ExistingPost[]): ContentIndex {
 export function isDuplicateTopic(
   topic: string,
   index: ContentIndex,
+  catalog: CollectionData[],
   options?: {
     strictness?: 'strict' | 'moderate' | 'loose';
     checkKeywordOnly?: boolean;
@@ -178,7 +196,7 @@ export function isDuplicateTopic(
   const strictness = options?.strictness ?? 'moderate';
   const normalizedTopic = normalizeText(topic);
   const topicKeyword = extractPrimaryKeyword(topic);
-  const topicChemicals = extractChemicalNames(topic);
+  const topicChemicals = extractChemicalNames(topic, catalog);
 
   // 1. Exact title match
   if (index.titles.has(normalizedTopic)) {
@@ -280,9 +298,10 @@ export function isDuplicateTopic(
 export function findRelatedPosts(
   topic: string,
   index: ContentIndex,
+  catalog: CollectionData[],
   maxResults: number = 5
 ): ExistingPost[] {
-  const topicChemicals = extractChemicalNames(topic);
+  const topicChemicals = extractChemicalNames(topic, catalog);
   const normalizedTopic = normalizeText(topic);
 
   const scored: Array<{ post: ExistingPost; score: number }> = [];
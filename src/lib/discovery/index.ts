@@ -58,4 +58,25 @@ export {
   levenshteinDistance,
   type DuplicateCheck,
   type ExistingIdea,
+  type SemanticMatch,
 } from './existing-content';
+
+// Semantic deduplication
+export {
+  findSemanticMatches,
+  applySemanticMatches,
+  embedOpenIdeas,
+  countUnembeddedIdeas,
+  cosineSimilarity,
+  type SemanticCheckResult,
+} from './semantic-dedup';
+
+// Keyword cannibalization
+export {
+  analyzeCannibalization,
+  normalizeKeyword,
+  type CannibalizationReport,
+  type CannibalizationCluster,
+  type CannibalizationMember,
+  type CannibalizationOptions,
+} from './cannibalization';
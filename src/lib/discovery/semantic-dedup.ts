@@ -0,0 +1,273 @@
+/**
+ * Semantic Deduplication
+ *
+ * Catches topics that mean the same thing as existing content but share
+ * few words with it ("Diluting muriatic acid safely" vs "How to safely
+ * dilute hydrochloric acid"). Candidate topics are embedded and compared
+ * against the summary chunk of published posts and against open content
+ * ideas. Idea embeddings cost paid API calls, so they are only filled in by
+ * an explicit backfill (embedOpenIdeas, run by POST /api/cannibalization and
+ * the cannibalization report); the semantic pass skips ideas without one.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, blogPostEmbeddings, contentIdeas } from '@/lib/db/schema';
+import { eq, and, desc, isNull, isNotNull, notInArray, sql } from 'drizzle-orm';
+import { embedQueries } from '@/lib/ai/embeddings';
+import { EMBEDDING_CONFIG, SEMANTIC_DEDUP_CONFIG } from '@/lib/config/constants';
+import type { ContentIndex, DuplicateCheck, SemanticMatch } from './existing-content';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Nearest matches for one candidate topic, plus its embedding so callers
+ * can also compare candidates with each other
+ */
+export interface SemanticCheckResult {
+  topic: string;
+  embedding: number[];
+  matches: SemanticMatch[];
+}
+
+/** Idea statuses that no longer compete with new topics */
+const CLOSED_IDEA_STATUSES = ['published', 'archived', 'rejected'];
+
+// ============================================================================
+// EMBEDDING
+// ============================================================================
+
+function toVectorLiteral(embedding: number[]): string {
+  return `[${embedding.join(',')}]`;
+}
+
+/** Open ideas without a topic embedding */
+const unembeddedIdeas = () =>
+  and(
+    isNull(contentIdeas.topicEmbedding),
+    isNull(contentIdeas.blogPostId),
+    notInArray(contentIdeas.status, CLOSED_IDEA_STATUSES)
+  );
+
+/**
+ * How many open ideas still need a topic embedding
+ */
+export async function countUnembeddedIdeas(): Promise<number> {
+  const [row] = await db
+    .select({ count: sql<number>`count(*)` })
+    .from(contentIdeas)
+    .where(unembeddedIdeas());
+  return Number(row?.count ?? 0);
+}
+
+/**
+ * Embed open ideas that don't have a topic embedding yet
+ */
+export async function embedOpenIdeas(
+  limit: number = SEMANTIC_DEDUP_CONFIG.ideaEmbeddingBatch
+): Promise<number> {
+  const pending = await db
+    .select({ id: contentIdeas.id, topic: contentIdeas.topic })
+    .from(contentIdeas)
+    .where(unembeddedIdeas())
+    .limit(limit);
+
+  const embeddings = await embedQueries(pending.map((idea) => idea.topic));
+
+  for (const [i, idea] of pending.entries()) {
+    const embedding = embeddings[i];
+    await db
+      .update(contentIdeas)
+      .set({ topicEmbedding: embedding, topicEmbeddingModel: EMBEDDING_CONFIG.model })
+      .where(eq(contentIdeas.id, idea.id));
+  }
+
+  return pending.length;
+}
+
+/**
+ * Cosine similarity of two embeddings
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+// ============================================================================
+// NEAREST MATCHES
+// ============================================================================
+
+async function nearestPosts(vector: string, limit: number, minSimilarity: number): Promise<SemanticMatch[]> {
+  const similarity = sql<number>`1 - (${blogPostEmbeddings.embedding} <=> ${vector}::vector)`;
+
+  const rows = await db
+    .select({
+      id: blogPosts.id,
+      title: blogPosts.title,
+      slug: blogPosts.slug,
+      status: blogPosts.status,
+      similarity,
+    })
+    .from(blogPostEmbeddings)
+    .innerJoin(blogPosts, eq(blogPosts.id, blogPostEmbeddings.blogPostId))
+    .where(
+      and(
+        eq(blogPostEmbeddings.contentType, 'summary'),
+        eq(blogPosts.status, 'published'),
+        sql`${similarity} >= ${minSimilarity}`
+      )
+    )
+    .orderBy(desc(similarity))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    kind: 'post' as const,
+    id: row.id,
+    title: row.title,
+    slug: row.slug,
+    status: row.status,
+    similarity: Number(row.similarity),
+  }));
+}
+
+async function nearestIdeas(vector: string, limit: number, minSimilarity: number): Promise<SemanticMatch[]> {
+  const similarity = sql<number>`1 - (${contentIdeas.topicEmbedding} <=> ${vector}::vector)`;
+
+  const rows = await db
+    .select({
+      id: contentIdeas.id,
+      title: contentIdeas.topic,
+      status: contentIdeas.status,
+      similarity,
+    })
+    .from(contentIdeas)
+    .where(
+      and(
+        isNotNull(contentIdeas.topicEmbedding),
+        isNull(contentIdeas.blogPostId),
+        notInArray(contentIdeas.status, CLOSED_IDEA_STATUSES),
+        sql`${similarity} >= ${minSimilarity}`
+      )
+    )
+    .orderBy(desc(similarity))
+    .limit(limit);
+
+  return rows.map((row) => ({
+    kind: 'idea' as const,
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    similarity: Number(row.similarity),
+  }));
+}
+
+/**
+ * Embed each topic and find its nearest published posts and open ideas.
+ * Returns null when embeddings are unavailable (e.g. no embedding provider
+ * configured) so callers can fall back to lexical checks alone.
+ */
+export async function findSemanticMatches(
+  topics: string[],
+  options?: {
+    maxMatches?: number;
+    minSimilarity?: number;
+  }
+): Promise<SemanticCheckResult[] | null> {
+  const maxMatches = options?.maxMatches ?? SEMANTIC_DEDUP_CONFIG.maxMatches;
+  const minSimilarity = options?.minSimilarity ?? SEMANTIC_DEDUP_CONFIG.minReportedSimilarity;
+
+  try {
+    const embeddings = await embedQueries(topics);
+
+    const results: SemanticCheckResult[] = [];
+    for (const [i, topic] of topics.entries()) {
+      const embedding = embeddings[i];
+      const vector = toVectorLiteral(embedding);
+
+      const [posts, ideas] = await Promise.all([
+        nearestPosts(vector, maxMatches, minSimilarity),
+        nearestIdeas(vector, maxMatches, minSimilarity),
+      ]);
+
+      results.push({
+        topic,
+        embedding,
+        matches: [...posts, ...ideas]
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, maxMatches),
+      });
+    }
+
+    return results;
+  } catch (error) {
+    console.warn('Semantic dedup unavailable, using lexical checks only:', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// COMBINING WITH LEXICAL CHECKS
+// ============================================================================
+
+/**
+ * Fold semantic matches into a lexical DuplicateCheck. Lexical exact and
+ * likely verdicts stand; otherwise the closest semantic match can upgrade
+ * the verdict. Matches are always attached for reporting.
+ */
+export function applySemanticMatches(
+  check: DuplicateCheck,
+  matches: SemanticMatch[],
+  index: ContentIndex,
+  strictness: 'strict' | 'moderate' | 'loose' = 'moderate'
+): DuplicateCheck {
+  const merged: DuplicateCheck = { ...check, semanticMatches: matches };
+  const nearest = matches[0];
+
+  if (!nearest || check.confidence === 'exact' || check.confidence === 'likely') {
+    return merged;
+  }
+
+  const label = nearest.kind === 'post' ? 'published post' : 'open idea';
+  const percent = Math.round(nearest.similarity * 100);
+  const matchedPost = nearest.kind === 'post'
+    ? index.posts.find((p) => p.id === nearest.id)
+    : undefined;
+
+  if (nearest.similarity >= SEMANTIC_DEDUP_CONFIG.duplicateSimilarity) {
+    return {
+      ...merged,
+      isDuplicate: true,
+      confidence: 'likely',
+      matchedPost,
+      reason: `Same topic as ${label} "${nearest.title}" (${percent}% semantic match)`,
+      similarity: nearest.similarity,
+    };
+  }
+
+  if (
+    nearest.similarity >= SEMANTIC_DEDUP_CONFIG.possibleSimilarity &&
+    strictness !== 'loose' &&
+    check.confidence === 'none'
+  ) {
+    return {
+      ...merged,
+      isDuplicate: strictness === 'strict',
+      confidence: 'possible',
+      matchedPost,
+      reason: `Similar to ${label} "${nearest.title}" (${percent}% semantic match)`,
+      similarity: nearest.similarity,
+    };
+  }
+
+  return merged;
+}
@@ -8,13 +8,14 @@
 import { z } from 'zod';
 import { getDefaultProvider } from '@/lib/ai/providers';
 import {
-  COLLECTIONS,
   getProductCollections,
   getIndustryVerticals,
   matchTopicToProducts,
   extractChemicalNames,
   type CollectionData,
 } from '@/lib/shopify/product-matcher';
+import { loadProductCatalog } from '@/lib/shopify/product-catalog';
+import { SEMANTIC_DEDUP_CONFIG } from '@/lib/config/constants';
 import type { ShopifyContentType } from '@/lib/shopify/content-types';
 import {
   getContentIndex,
@@ -24,6 +25,7 @@ import {
   type DuplicateCheck,
   type ExistingPost,
 } from './existing-content';
+import { findSemanticMatches, applySemanticMatches, cosineSimilarity } from './semantic-dedup';
 
 // ============================================================================
 // TYPES
@@ -168,7 +170,7 @@ export async function findContentGaps(
   const existingLower = existingPosts.map((p) => p.toLowerCase());
 
   // Get product collections (not industry verticals for primary gaps)
-  const productCollections = getProductCollections();
+  const productCollections = getProductCollections(await loadProductCatalog());
 
   // Score collections by coverage gap
   const collectionCoverage: Array<{
@@ -249,7 +251,7 @@ export async function generateTopicIdeas(
     focusIndustry?: string;
   }
 ): Promise<TopicSuggestion[]> {
-  const collection = COLLECTIONS.find((c) => c.handle === collectionHandle);
+  const collection = (await loadProductCatalog()).find((c) => c.handle === collectionHandle);
   if (!collection) {
     throw new Error(`Collection not found: ${collectionHandle}`);
   }
@@ -395,8 +397,9 @@ export async function suggestAngles(
   const excludeAngles = options?.excludeAngles ?? [];
 
   // Extract chemical names from topic for better matching
-  const chemicals = extractChemicalNames(topic);
-  const products = matchTopicToProducts(topic, { maxResults: 3 });
+  const catalog = await loadProductCatalog();
+  const chemicals = extractChemicalNames(topic, catalog);
+  const products = matchTopicToProducts(topic, { maxResults: 3, catalog });
 
   const systemPrompt = `You are a content strategist for Alliance Chemical.
 
@@ -466,15 +469,15 @@ export function angleToContentType(angle: ContentAngle): ShopifyContentType {
 /**
  * Get all available collection handles
  */
-export function getCollectionHandles(): string[] {
-  return COLLECTIONS.map((c) => c.handle);
+export async function getCollectionHandles(): Promise<string[]> {
+  return (await loadProductCatalog()).map((c) => c.handle);
 }
 
 /**
  * Get collection info by handle
  */
-export function getCollectionInfo(handle: string): CollectionData | undefined {
-  return COLLECTIONS.find((c) => c.handle === handle);
+export async function getCollectionInfo(handle: string): Promise<CollectionData | undefined> {
+  return (await loadProductCatalog()).find((c) => c.handle === handle);
 }
 
 // ============================================================================
@@ -493,6 +496,8 @@ export interface DeduplicationOptions {
   refreshIndex?: boolean;
   /** Include related posts for internal linking */
   includeRelatedPosts?: boolean;
+  /** Also compare embeddings against published posts and open ideas (default: true) */
+  semantic?: boolean;
 }
 
 /**
@@ -542,13 +547,16 @@ export async function generateTopicIdeasWithDedup(
     excludeDuplicates: options?.excludeDuplicates ?? true,
     strictness: options?.strictness ?? 'moderate',
     includeRelatedPosts: options?.includeRelatedPosts ?? true,
+    semantic: options?.semantic,
   });
 }
 
 /**
- * Filter a list of topics for duplicates
+ * Filter a list of topics for duplicates. Lexical checks run first; the
+ * semantic pass then catches rewordings of published posts, open ideas and
+ * earlier topics in the same batch.
  */
-export function filterTopicsWithDedup(
+export async function filterTopicsWithDedup(
   topics: TopicSuggestion[],
   index: ContentIndex,
   options?: {
@@ -556,20 +564,45 @@ export function filterTopicsWithDedup(
     excludeDuplicates?: boolean;
     strictness?: 'strict' | 'moderate' | 'loose';
     includeRelatedPosts?: boolean;
+    semantic?: boolean;
   }
-): FilteredTopicsResult {
+): Promise<FilteredTopicsResult> {
   const excludeDuplicates = options?.excludeDuplicates ?? true;
   const maxTopics = options?.maxTopics ?? topics.length;
+  const catalog = await loadProductCatalog();
+
+  const semanticResults = options?.semantic === false
+    ? null
+    : await findSemanticMatches(topics.map((t) => t.topic));
 
   const uniqueTopics: FilteredTopicSuggestion[] = [];
   const filtered: FilteredTopicsResult['filtered'] = [];
+  const keptEmbeddings: Array<{ topic: string; embedding: number[] }> = [];
   let possibleCount = 0;
 
-  for (const topic of topics) {
-    const check = isDuplicateTopic(topic.topic, index, {
+  for (const [i, topic] of topics.entries()) {
+    let check = isDuplicateTopic(topic.topic, index, catalog, {
       strictness: options?.strictness,
     });
 
+    const semantic = semanticResults?.[i];
+    if (semantic) {
+      check = applySemanticMatches(check, semantic.matches, index, options?.strictness);
+
+      // Near-identical to a topic already kept from this batch
+      const sibling = keptEmbeddings.find(
+        (kept) => cosineSimilarity(kept.embedding, semantic.embedding) >= SEMANTIC_DEDUP_CONFIG.duplicateSimilarity
+      );
+      if (!check.isDuplicate && sibling) {
+        check = {
+          ...check,
+          isDuplicate: true,
+          confidence: 'likely',
+          reason: `Same topic as "${sibling.topic}" in this batch`,
+        };
+      }
+    }
+
     const filteredTopic: FilteredTopicSuggestion = {
       ...topic,
       duplicateCheck: check,
@@ -577,7 +610,7 @@ export function filterTopicsWithDedup(
 
     // Add related posts for internal linking
     if (options?.includeRelatedPosts) {
-      filteredTopic.relatedExistingPosts = findRelatedPosts(topic.topic, index, 3);
+      filteredTopic.relatedExistingPosts = findRelatedPosts(topic.topic, index, catalog, 3);
     }
 
     if (check.isDuplicate && excludeDuplicates) {
@@ -586,15 +619,17 @@ export function filterTopicsWithDedup(
         reason: check.reason || 'Duplicate content',
         matchedPost: check.matchedPost,
       });
-    } else if (check.confidence === 'possible') {
+      continue;
+    }
+
+    if (check.confidence === 'possible') {
       possibleCount++;
       // Include possible duplicates but mark them
-      if (uniqueTopics.length < maxTopics) {
-        uniqueTopics.push(filteredTopic);
-      }
-    } else {
-      if (uniqueTopics.length < maxTopics) {
-        uniqueTopics.push(filteredTopic);
+    }
+    if (uniqueTopics.length < maxTopics) {
+      uniqueTopics.push(filteredTopic);
+      if (semantic) {
+        keptEmbeddings.push({ topic: topic.topic, embedding: semantic.embedding });
       }
     }
   }
@@ -619,13 +654,23 @@ export async function checkTopicDuplicate(
   options?: {
     refreshIndex?: boolean;
     strictness?: 'strict' | 'moderate' | 'loose';
+    semantic?: boolean;
   }
 ): Promise<DuplicateCheck & { relatedPosts: ExistingPost[] }> {
   const index = await getContentIndex(options?.refreshIndex);
-  const check = isDuplicateTopic(topic, index, {
+  const catalog = await loadProductCatalog();
+  let check = isDuplicateTopic(topic, index, catalog, {
     strictness: options?.strictness,
   });
-  const relatedPosts = findRelatedPosts(topic, index, 5);
+
+  if (options?.semantic !== false) {
+    const [semantic] = (await findSemanticMatches([topic])) ?? [];
+    if (semantic) {
+      check = applySemanticMatches(check, semantic.matches, index, options?.strictness);
+    }
+  }
+
+  const relatedPosts = findRelatedPosts(topic, index, catalog, 5);
 
   return {
     ...check,
@@ -657,10 +702,11 @@ export async function findContentGapsWithDedup(
   // Filter each gap's topics for duplicates
   if (options?.excludeDuplicates !== false) {
     for (const gap of gaps) {
-      const result = filterTopicsWithDedup(gap.suggestedTopics, index, {
+      const result = await filterTopicsWithDedup(gap.suggestedTopics, index, {
         excludeDuplicates: true,
         strictness: options?.strictness,
         includeRelatedPosts: options?.includeRelatedPosts,
+        semantic: options?.semantic,
       });
       gap.suggestedTopics = result.topics;
     }
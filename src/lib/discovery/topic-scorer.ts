@@ -9,6 +9,7 @@ import {
   matchTopicToProducts,
   extractChemicalNames,
   getCollectionByHandle,
+  type CollectionData,
 } from '@/lib/shopify/product-matcher';
 import type { TopicSuggestion, EEATScore, ContentAngle } from './topic-finder';
 
@@ -62,10 +63,11 @@ const DEFAULT_WEIGHTS: ScoringWeights = {
 // ============================================================================
 
 /**
- * Score a single topic suggestion
+ * Score a single topic suggestion against the catalog from loadProductCatalog()
  */
 export function scoreTopic(
   topic: TopicSuggestion,
+  catalog: CollectionData[],
   weights: ScoringWeights = DEFAULT_WEIGHTS
 ): Omit<ScoredTopic, 'ranking'> {
   // Calculate E-E-A-T score (average of 4 factors, scaled to weight)
@@ -77,7 +79,7 @@ export function scoreTopic(
 
   // Calculate product relevance score
   const productRelevanceScore =
-    calculateProductRelevanceScore(topic) * weights.productRelevance * 100;
+    calculateProductRelevanceScore(topic, catalog) * weights.productRelevance * 100;
 
   // Calculate content type fit score
   const contentTypeFitScore =
@@ -107,10 +109,11 @@ export function scoreTopic(
  */
 export function prioritizeTopics(
   topics: TopicSuggestion[],
+  catalog: CollectionData[],
   weights: ScoringWeights = DEFAULT_WEIGHTS
 ): ScoredTopic[] {
   // Score all topics
-  const scored = topics.map((topic) => scoreTopic(topic, weights));
+  const scored = topics.map((topic) => scoreTopic(topic, catalog, weights));
 
   // Sort by total score descending
   scored.sort((a, b) => b.totalScore - a.totalScore);
@@ -212,7 +215,7 @@ function calculateUniquenessScore(topic: TopicSuggestion): number {
  * Calculate product relevance score (0-1)
  * Based on how well the topic matches our products
  */
-function calculateProductRelevanceScore(topic: TopicSuggestion): number {
+function calculateProductRelevanceScore(topic: TopicSuggestion, catalog: CollectionData[]): number {
   let score = 0;
 
   // Check if relevant products are specified
@@ -222,7 +225,7 @@ function calculateProductRelevanceScore(topic: TopicSuggestion): number {
 
     // Validate that products actually exist
     const validProducts = topic.relevantProducts.filter(
-      (handle) => getCollectionByHandle(handle) !== undefined
+      (handle) => getCollectionByHandle(handle, catalog) !== undefined
     );
 
     if (validProducts.length > 0) {
@@ -236,7 +239,7 @@ function calculateProductRelevanceScore(topic: TopicSuggestion): number {
   }
 
   // Check if topic matches our products via keyword matching
-  const matchedProducts = matchTopicToProducts(topic.topic, { maxResults: 5 });
+  const matchedProducts = matchTopicToProducts(topic.topic, { maxResults: 5, catalog });
   if (matchedProducts.length > 0) {
     score += 0.2;
   }
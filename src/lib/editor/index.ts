@@ -0,0 +1,18 @@
+/**
+ * Editor Module
+ *
+ * Drafts and inline validation for the admin section editor.
+ */
+
+// Post content
+export {
+  PostContentDraftSchema,
+  countWords,
+  applyContentDraft,
+  checkDraftSchema,
+  checkPostContent,
+  type PostContentDraft,
+  type PostContentCheck,
+  type EditorIssue,
+  type EditorIssueSource,
+} from './post-content';
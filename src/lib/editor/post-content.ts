@@ -0,0 +1,220 @@
+/**
+ * Post Content Editing
+ *
+ * Backs the admin section editor: applies an in-progress draft of a post's
+ * structured content (sections, FAQs, internal links, experience evidence)
+ * to the canonical post, and runs the content and SEO validators with each
+ * issue pinned to the section or FAQ it refers to.
+ */
+
+import { z } from 'zod';
+import {
+  BlogPostSchema,
+  HeadingLevelSchema,
+  LinkTypeSchema,
+} from '@/lib/schema/canonical.zod';
+import { validateContent } from '@/lib/ai/validation/content-validator';
+import { validatePost, isPublishReady } from '@/lib/seo/validators';
+import type { BlogPost } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Where an issue came from: the canonical schema (blocks saving), the
+ * content quality gate, or the SEO/E-E-A-T validators
+ */
+export type EditorIssueSource = 'schema' | 'content' | 'seo';
+
+export interface EditorIssue {
+  source: EditorIssueSource;
+  severity: 'error' | 'warning' | 'info';
+  field: string;
+  message: string;
+  suggestion?: string;
+  /** Set when the issue points at one section */
+  sectionId?: string;
+  /** Set when the issue points at one FAQ */
+  faqId?: string;
+}
+
+export interface PostContentCheck {
+  issues: EditorIssue[];
+  contentScore: number;
+  seoScore: number;
+  publishReady: boolean;
+  publishBlockers: string[];
+}
+
+/**
+ * Editable content fields. Looser than the canonical schema so a half-written
+ * section can still be previewed - the strict rules come back as `schema`
+ * issues from `checkDraftSchema`.
+ */
+export const PostContentDraftSchema = z.object({
+  heroAnswer: z.string(),
+  sections: z.array(
+    z.object({
+      id: z.string().uuid(),
+      headingText: z.string(),
+      headingLevel: HeadingLevelSchema,
+      body: z.string(),
+    })
+  ),
+  faq: z.array(
+    z.object({
+      id: z.string().uuid(),
+      question: z.string(),
+      answer: z.string(),
+    })
+  ),
+  internalLinks: z.array(
+    z.object({
+      href: z.string(),
+      anchorText: z.string(),
+      linkType: LinkTypeSchema,
+      targetPostId: z.string().uuid().nullable(),
+    })
+  ),
+  experienceEvidence: z.object({
+    summary: z.string(),
+    details: z.string().nullable(),
+    placeholders: z.array(z.string()),
+  }),
+});
+
+export type PostContentDraft = z.infer<typeof PostContentDraftSchema>;
+
+// The rules PATCH /api/posts/[id] enforces on the same fields
+const StrictContentSchema = BlogPostSchema.pick({
+  heroAnswer: true,
+  sections: true,
+  faq: true,
+  internalLinks: true,
+  experienceEvidence: true,
+});
+
+// Validators report list items as `sections[2]`, `sections[2].headingText`, `faqs[0]`
+const LIST_ITEM_FIELD = /^(sections|faqs?)\[(\d+)\]/;
+
+// ============================================================================
+// DRAFTS
+// ============================================================================
+
+/**
+ * Count words the way PATCH /api/posts/[id] does
+ */
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * The post as it would be after saving the draft, with word counts
+ * recalculated
+ */
+export function applyContentDraft(post: BlogPost, draft: PostContentDraft): BlogPost {
+  const sections = draft.sections.map((section) => ({
+    ...section,
+    wordCount: countWords(section.body),
+  }));
+  const wordCount = sections.reduce(
+    (total, section) => total + section.wordCount,
+    countWords(draft.heroAnswer)
+  );
+
+  return {
+    ...post,
+    heroAnswer: draft.heroAnswer,
+    sections,
+    faq: draft.faq,
+    internalLinks: draft.internalLinks,
+    experienceEvidence: draft.experienceEvidence,
+    wordCount,
+    readingTimeMinutes: Math.ceil(wordCount / 200),
+  };
+}
+
+// ============================================================================
+// CHECKS
+// ============================================================================
+
+/**
+ * Canonical schema violations that would make saving the draft fail
+ */
+export function checkDraftSchema(post: BlogPost): EditorIssue[] {
+  const parsed = StrictContentSchema.safeParse(post);
+  if (parsed.success) return [];
+
+  return parsed.error.issues.map((issue) =>
+    pinIssue(post, {
+      source: 'schema',
+      severity: 'error',
+      field: formatPath(issue.path),
+      message: issue.message,
+    })
+  );
+}
+
+/**
+ * Run the content quality gate and the SEO/E-E-A-T validators
+ */
+export function checkPostContent(post: BlogPost): PostContentCheck {
+  const content = validateContent(post);
+  const seo = validatePost(post);
+  const readiness = isPublishReady(post);
+
+  const issues: EditorIssue[] = [
+    ...content.issues.map((issue) =>
+      pinIssue(post, {
+        source: 'content',
+        severity: issue.severity,
+        field: issue.field,
+        message: issue.message,
+        suggestion: issue.suggestedFix,
+      })
+    ),
+    ...[...seo.errors, ...seo.warnings, ...seo.info].map((result) =>
+      pinIssue(post, {
+        source: 'seo',
+        severity: result.severity,
+        field: result.field,
+        message: result.message,
+        suggestion: result.suggestion,
+      })
+    ),
+  ];
+
+  return {
+    issues,
+    contentScore: content.score,
+    seoScore: seo.score.overall,
+    publishReady: readiness.ready,
+    publishBlockers: readiness.blockers,
+  };
+}
+
+/**
+ * Attach the section or FAQ ID an issue's field refers to, so the editor
+ * can show it next to that item even after reordering
+ */
+function pinIssue(post: BlogPost, issue: EditorIssue): EditorIssue {
+  const match = issue.field.match(LIST_ITEM_FIELD);
+  if (!match) return issue;
+
+  const index = parseInt(match[2], 10);
+  if (match[1] === 'sections') {
+    const section = post.sections[index];
+    return section ? { ...issue, sectionId: section.id } : issue;
+  }
+
+  const faq = post.faq[index];
+  return faq ? { ...issue, faqId: faq.id } : issue;
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path.reduce<string>((field, key) => {
+    if (typeof key === 'number') return `${field}[${key}]`;
+    return field ? `${field}.${String(key)}` : String(key);
+  }, '');
+}
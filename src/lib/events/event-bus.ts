@@ -0,0 +1,116 @@
+/**
+ * Job Event Bus
+ *
+ * Progress events for long-running work (autopilot jobs, imports, embedding
+ * backfills) over Postgres LISTEN/NOTIFY, so SSE routes can push updates
+ * the moment they happen instead of polling the database. Events are
+ * fire-and-forget: the source of truth stays in the tables (job logs,
+ * status columns), and subscribers that need history or missed events
+ * read it from there.
+ */
+
+import { sql } from '@/lib/db/client';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type JobEventSource = 'autopilot' | 'import' | 'embeddings';
+
+export type JobEventType = 'log' | 'progress' | 'status';
+
+export interface JobEvent<T = Record<string, unknown>> {
+  source: JobEventSource;
+  jobId: string;
+  type: JobEventType;
+  /** 1-based position of a log entry in the job's stored logs */
+  seq?: number;
+  data: T;
+  /** `data` was dropped to fit NOTIFY's payload limit - read it from the source */
+  truncated?: boolean;
+}
+
+/** Counters a progress event carries; sources may add their own */
+export interface ProgressUpdate {
+  processed: number;
+  total: number;
+  [key: string]: unknown;
+}
+
+export interface JobEventSubscription {
+  unsubscribe: () => Promise<void>;
+}
+
+// One channel for everything; subscribers filter by source and job ID
+const CHANNEL = 'job_events';
+
+// Postgres rejects NOTIFY payloads of 8000 bytes or more
+const MAX_PAYLOAD_BYTES = 7900;
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+/**
+ * Publish an event. Never throws - a lost event must not fail the job.
+ */
+export async function publishJobEvent(event: JobEvent): Promise<void> {
+  let payload = JSON.stringify(event);
+  if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    payload = JSON.stringify({ ...event, data: {}, truncated: true });
+  }
+
+  try {
+    await sql.notify(CHANNEL, payload);
+  } catch (error) {
+    console.error('Failed to publish job event:', error);
+  }
+}
+
+/**
+ * Progress callback for operations that report through `onProgress`.
+ * Publishes at most every `minIntervalMs`, always including the final
+ * update (`processed === total`).
+ */
+export function createProgressPublisher(
+  source: JobEventSource,
+  jobId: string,
+  minIntervalMs: number = 500
+): (progress: ProgressUpdate) => void {
+  let lastPublished = 0;
+
+  return (progress) => {
+    const now = Date.now();
+    if (now - lastPublished < minIntervalMs && progress.processed < progress.total) return;
+    lastPublished = now;
+    void publishJobEvent({ source, jobId, type: 'progress', data: { ...progress } });
+  };
+}
+
+// ============================================================================
+// SUBSCRIBING
+// ============================================================================
+
+/**
+ * Receive events for one job until unsubscribed. Resolves once LISTEN is
+ * active, so nothing published afterwards is missed.
+ */
+export async function subscribeToJobEvents(
+  source: JobEventSource,
+  jobId: string,
+  handler: (event: JobEvent) => void
+): Promise<JobEventSubscription> {
+  const listener = await sql.listen(CHANNEL, (payload) => {
+    let event: JobEvent;
+    try {
+      event = JSON.parse(payload) as JobEvent;
+    } catch {
+      return;
+    }
+    if (event.source === source && event.jobId === jobId) {
+      handler(event);
+    }
+  });
+
+  return { unsubscribe: () => listener.unlisten() };
+}
@@ -0,0 +1,17 @@
+/**
+ * Events Module
+ *
+ * Postgres LISTEN/NOTIFY bus for job progress.
+ */
+
+// Bus
+export {
+  publishJobEvent,
+  createProgressPublisher,
+  subscribeToJobEvents,
+  type JobEvent,
+  type JobEventSource,
+  type JobEventType,
+  type JobEventSubscription,
+  type ProgressUpdate,
+} from './event-bus';
@@ -6,13 +6,21 @@
 
 import { IMPORT_CONFIG } from '@/lib/config/constants';
 
-interface FetchResult {
+export interface FetchResult {
   url: string;
   html: string | null;
   status: number;
   error: string | null;
+  /** Validators for the next conditional request */
+  etag?: string | null;
+  lastModified?: string | null;
+  /** 304 to a conditional request: the page hasn't changed */
+  notModified?: boolean;
 }
 
+export const CRAWLER_USER_AGENT =
+  `Mozilla/5.0 (compatible; ${IMPORT_CONFIG.crawlerUserAgent}/1.0; +https://alliancechemical.com)`;
+
 interface FetchOptions {
   timeout?: number;
   headers?: Record<string, string>;
@@ -43,8 +51,7 @@ export async function fetchUrl(
 
       const response = await fetch(url, {
         headers: {
-          'User-Agent':
-            'Mozilla/5.0 (compatible; AllianceBlogBot/1.0; +https://alliancechemical.com)',
+          'User-Agent': CRAWLER_USER_AGENT,
           Accept: 'text/html,application/xhtml+xml',
           ...headers,
         },
@@ -54,6 +61,15 @@ export async function fetchUrl(
 
       clearTimeout(timeoutId);
 
+      const validators = {
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      };
+
+      if (response.status === 304) {
+        return { url, html: null, status: 304, error: null, notModified: true, ...validators };
+      }
+
       if (!response.ok) {
         if (response.status === 429) {
           // Rate limited, wait and retry
@@ -76,6 +92,7 @@ export async function fetchUrl(
         html,
         status: response.status,
         error: null,
+        ...validators,
       };
     } catch (error) {
       lastError =
@@ -104,11 +121,14 @@ export async function fetchUrls(
     maxConcurrent?: number;
     onProgress?: (completed: number, total: number) => void;
     delayBetweenRequests?: number;
+    /** Extra headers per URL, e.g. If-None-Match for conditional requests */
+    headersFor?: (url: string) => Record<string, string>;
   } = {}
 ): Promise<FetchResult[]> {
   const {
     maxConcurrent = IMPORT_CONFIG.maxConcurrentRequests,
     onProgress,
+    headersFor,
     delayBetweenRequests = IMPORT_CONFIG.delayBetweenRequests,
     ...fetchOptions
   } = options;
@@ -122,7 +142,10 @@ export async function fetchUrls(
       const url = queue.shift();
       if (!url) break;
 
-      const result = await fetchUrl(url, fetchOptions);
+      const result = await fetchUrl(url, {
+        ...fetchOptions,
+        headers: { ...fetchOptions.headers, ...headersFor?.(url) },
+      });
       results.push(result);
 
       completed++;
@@ -155,71 +178,6 @@ export async function fetchUrls(
   return results;
 }
 
-/**
- * Fetch and parse sitemap.xml to discover URLs
- */
-export async function fetchSitemap(
-  sitemapUrl: string,
-  options: {
-    urlPattern?: RegExp;
-    limit?: number;
-  } = {}
-): Promise<string[]> {
-  const result = await fetchUrl(sitemapUrl);
-
-  if (!result.html) {
-    throw new Error(`Failed to fetch sitemap: ${result.error}`);
-  }
-
-  const urls: string[] = [];
-
-  // Parse sitemap XML
-  // Simple regex-based extraction (for production, consider using an XML parser)
-  const locRegex = /<loc>([^<]+)<\/loc>/g;
-  let match;
-
-  while ((match = locRegex.exec(result.html)) !== null) {
-    const url = match[1].trim();
-
-    // Apply filter if provided
-    if (options.urlPattern && !options.urlPattern.test(url)) {
-      continue;
-    }
-
-    urls.push(url);
-
-    if (options.limit && urls.length >= options.limit) {
-      break;
-    }
-  }
-
-  // Check for sitemap index (contains other sitemaps)
-  const sitemapIndexRegex = /<sitemap>[\s\S]*?<loc>([^<]+)<\/loc>[\s\S]*?<\/sitemap>/g;
-  const childSitemaps: string[] = [];
-
-  while ((match = sitemapIndexRegex.exec(result.html)) !== null) {
-    childSitemaps.push(match[1].trim());
-  }
-
-  // Recursively fetch child sitemaps if this is a sitemap index
-  if (childSitemaps.length > 0 && urls.length === 0) {
-    for (const childUrl of childSitemaps) {
-      const childUrls = await fetchSitemap(childUrl, {
-        urlPattern: options.urlPattern,
-        limit: options.limit ? options.limit - urls.length : undefined,
-      });
-
-      urls.push(...childUrls);
-
-      if (options.limit && urls.length >= options.limit) {
-        break;
-      }
-    }
-  }
-
-  return urls;
-}
-
 /**
  * Utility to delay execution
  */
@@ -0,0 +1,164 @@
+/**
+ * robots.txt
+ *
+ * Parses robots.txt and answers whether the crawler may fetch a URL.
+ * Follows RFC 9309: the most specific user-agent group wins (falling back
+ * to `*`), the longest matching Allow/Disallow rule decides, Allow wins a
+ * tie, and `*` / `$` wildcards are supported. Crawl-delay and Sitemap
+ * lines, which aren't in the RFC, are read too.
+ */
+
+import { IMPORT_CONFIG } from '@/lib/config/constants';
+import { fetchUrl } from './http';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  /** Rules of the group that applies to this crawler */
+  rules: RobotsRule[];
+  /** Seconds between requests, when the group sets one */
+  crawlDelay: number | null;
+  /** Sitemap URLs listed anywhere in the file */
+  sitemaps: string[];
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+// Everything allowed (no robots.txt)
+const ALLOW_ALL: RobotsPolicy = { rules: [], crawlDelay: null, sitemaps: [] };
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+/**
+ * Parse robots.txt for the given user-agent token
+ */
+export function parseRobotsTxt(
+  content: string,
+  userAgent: string = IMPORT_CONFIG.crawlerUserAgent
+): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  const sitemaps: string[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'sitemap') {
+      if (value) sitemaps.push(value);
+      continue;
+    }
+
+    if (field === 'user-agent') {
+      // Consecutive user-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty Disallow allows everything; it adds no rule
+      if (value) current.rules.push({ allow: field === 'allow', path: value });
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  const token = userAgent.toLowerCase();
+  const matching = groups.filter((g) => g.agents.includes(token));
+  const applicable = matching.length > 0 ? matching : groups.filter((g) => g.agents.includes('*'));
+
+  const delays = applicable.map((g) => g.crawlDelay).filter((d): d is number => d !== null);
+  return {
+    rules: applicable.flatMap((g) => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+    sitemaps,
+  };
+}
+
+/**
+ * Whether a robots.txt path pattern matches a URL path. Returns the
+ * pattern's length (its specificity) or -1.
+ */
+function matchLength(pattern: string, path: string): number {
+  const anchored = pattern.endsWith('$');
+  const body = anchored ? pattern.slice(0, -1) : pattern;
+  const regex = new RegExp(
+    '^' + body.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*') + (anchored ? '$' : '')
+  );
+  return regex.test(path) ? pattern.length : -1;
+}
+
+/**
+ * Whether the policy lets the crawler fetch a URL
+ */
+export function isAllowedByRobots(policy: RobotsPolicy, url: string): boolean {
+  let path: string;
+  try {
+    const parsed = new URL(url);
+    path = `${parsed.pathname}${parsed.search}`;
+  } catch {
+    return false;
+  }
+
+  // /robots.txt itself is always allowed
+  if (path === '/robots.txt') return true;
+
+  let best: { length: number; allow: boolean } | null = null;
+  for (const rule of policy.rules) {
+    const length = matchLength(rule.path, path);
+    if (length < 0) continue;
+    if (!best || length > best.length || (length === best.length && rule.allow)) {
+      best = { length, allow: rule.allow };
+    }
+  }
+  return best?.allow ?? true;
+}
+
+// ============================================================================
+// FETCHING
+// ============================================================================
+
+/**
+ * Fetch and parse robots.txt for a site. A missing file (4xx) allows
+ * everything; a server error (5xx) or unreachable host disallows
+ * everything, as RFC 9309 asks.
+ */
+export async function fetchRobotsPolicy(siteUrl: string): Promise<RobotsPolicy & { fetched: boolean }> {
+  const robotsUrl = new URL('/robots.txt', siteUrl).toString();
+  const result = await fetchUrl(robotsUrl, { headers: { Accept: 'text/plain' }, maxRetries: 1 });
+
+  if (result.html !== null) {
+    return { ...parseRobotsTxt(result.html), fetched: true };
+  }
+  if (result.status >= 400 && result.status < 500) {
+    return { ...ALLOW_ALL, fetched: false };
+  }
+  return { rules: [{ allow: false, path: '/' }], crawlDelay: null, sitemaps: [], fetched: false };
+}
@@ -18,6 +18,7 @@ interface ShopifyArticleNode {
   summary: string | null;
   tags: string[];
   publishedAt: string | null;
+  updatedAt: string | null;
   author: {
     name: string;
   } | null;
@@ -91,8 +92,8 @@ export function createShopifyClient(store: string, accessToken: string): Shopify
  * GraphQL query to fetch articles
  */
 const ARTICLES_QUERY = `
-  query GetArticles($first: Int!, $after: String) {
-    articles(first: $first, after: $after) {
+  query GetArticles($first: Int!, $after: String, $query: String) {
+    articles(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
       edges {
         cursor
         node {
@@ -103,6 +104,7 @@ const ARTICLES_QUERY = `
           summary
           tags
           publishedAt
+          updatedAt
           author {
             name
           }
@@ -134,6 +136,8 @@ export async function fetchAllShopifyArticles(
   options: {
     blogHandle?: string;
     limit?: number;
+    /** Only articles edited in Shopify after this time */
+    updatedSince?: Date;
     onProgress?: (fetched: number, total: number | null) => void;
   } = {}
 ): Promise<IntermediatePost[]> {
@@ -152,6 +156,7 @@ export async function fetchAllShopifyArticles(
     const articlesResponse: ShopifyArticlesResponse = await client.query<ShopifyArticlesResponse>(ARTICLES_QUERY, {
       first: batchSize,
       after: cursor,
+      query: options.updatedSince ? `updated_at:>'${options.updatedSince.toISOString()}'` : null,
     });
 
     const { edges, pageInfo } = articlesResponse.data.articles;
@@ -208,6 +213,7 @@ export async function fetchShopifyArticle(
           summary
           tags
           publishedAt
+          updatedAt
           author {
             name
           }
@@ -247,6 +253,59 @@ export async function fetchShopifyArticle(
   return shopifyArticleToIntermediate(article, store);
 }
 
+/**
+ * Fetch a single article by ID (GraphQL gid or numeric REST ID)
+ */
+export async function fetchShopifyArticleById(
+  store: string,
+  accessToken: string,
+  articleId: string
+): Promise<IntermediatePost | null> {
+  const client = createShopifyClient(store, accessToken);
+
+  const query = `
+    query GetArticleById($id: ID!) {
+      article(id: $id) {
+        id
+        handle
+        title
+        body
+        summary
+        tags
+        publishedAt
+        updatedAt
+        author {
+          name
+        }
+        blog {
+          id
+          handle
+          title
+        }
+        image {
+          url
+          altText
+        }
+      }
+    }
+  `;
+
+  interface ArticleByIdResponse {
+    data: {
+      article: ShopifyArticleNode | null;
+    };
+  }
+
+  const id = articleId.startsWith('gid://') ? articleId : `gid://shopify/Article/${articleId}`;
+  const response = await client.query<ArticleByIdResponse>(query, { id });
+
+  if (!response.data.article) {
+    return null;
+  }
+
+  return shopifyArticleToIntermediate(response.data.article, store);
+}
+
 /**
  * Convert Shopify article to intermediate representation
  */
@@ -263,7 +322,9 @@ function shopifyArticleToIntermediate(
     author: article.author?.name || null,
     tags: article.tags,
     publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt,
     handle: article.handle,
+    bodyHtml: article.body,
     image: article.image
       ? {
           url: article.image.url,
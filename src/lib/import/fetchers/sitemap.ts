@@ -0,0 +1,278 @@
+/**
+ * Sitemap Crawler
+ *
+ * Discovers page URLs from a sitemap or sitemap index. Sitemaps are parsed
+ * as XML (namespace prefixes are ignored), `.xml.gz` files are gunzipped,
+ * nested indexes are followed breadth-first up to a depth limit, and every
+ * `<lastmod>` is kept so the import can skip pages that haven't changed.
+ * With a robots.txt policy, disallowed sitemaps and pages are skipped and
+ * the crawl-delay is honoured between sitemap requests.
+ */
+
+import { gunzipSync } from 'zlib';
+import * as cheerio from 'cheerio';
+import { IMPORT_CONFIG } from '@/lib/config/constants';
+import { CRAWLER_USER_AGENT } from './http';
+import { isAllowedByRobots, type RobotsPolicy } from './robots';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface SitemapEntry {
+  loc: string;
+  lastmod: Date | null;
+}
+
+export interface ParsedSitemap {
+  type: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+export interface SitemapCrawlOptions {
+  /** Only keep page URLs matching this pattern */
+  urlPattern?: RegExp;
+  /** Skip sitemaps and pages this policy disallows */
+  robots?: RobotsPolicy | null;
+}
+
+export interface SitemapCrawlResult {
+  /** Page URLs, deduplicated, in sitemap order */
+  entries: SitemapEntry[];
+  sitemapsFetched: string[];
+  blockedByRobots: string[];
+  /** Child sitemaps that couldn't be fetched or parsed, and skipped pages */
+  errors: Array<{ url: string; error: string }>;
+}
+
+export type SitemapErrorCode = 'FETCH_FAILED' | 'INVALID_XML' | 'BLOCKED_BY_ROBOTS';
+
+export class SitemapError extends Error {
+  constructor(
+    public code: SitemapErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'SitemapError';
+  }
+}
+
+// ============================================================================
+// PARSING
+// ============================================================================
+
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1).toLowerCase();
+}
+
+function parseLastmod(value: string | undefined): Date | null {
+  if (!value) return null;
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse a sitemap (`<urlset>`) or sitemap index (`<sitemapindex>`)
+ */
+export function parseSitemapXml(xml: string): ParsedSitemap {
+  const $ = cheerio.load(xml, { xml: true });
+  const root = $.root().children().toArray().find((el) => el.type === 'tag');
+  const rootName = root ? localName(root.name) : null;
+
+  if (rootName !== 'urlset' && rootName !== 'sitemapindex') {
+    throw new SitemapError('INVALID_XML', `Expected <urlset> or <sitemapindex>, found ${rootName ? `<${rootName}>` : 'no XML'}`);
+  }
+
+  const itemName = rootName === 'urlset' ? 'url' : 'sitemap';
+  const entries: SitemapEntry[] = [];
+
+  for (const item of $(root).children().toArray()) {
+    if (item.type !== 'tag' || localName(item.name) !== itemName) continue;
+
+    const fields = new Map<string, string>();
+    for (const child of $(item).children().toArray()) {
+      if (child.type === 'tag') fields.set(localName(child.name), $(child).text().trim());
+    }
+
+    const loc = fields.get('loc');
+    if (loc) {
+      entries.push({ loc, lastmod: parseLastmod(fields.get('lastmod')) });
+    }
+  }
+
+  return { type: rootName, entries };
+}
+
+/**
+ * Sitemap bytes as text, gunzipping gzip data (`.xml.gz` files are served
+ * as-is, so fetch doesn't decode them)
+ */
+export function decodeSitemapBody(data: Buffer): string {
+  const gzipped = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+  const text = gzipped
+    ? gunzipSync(data, { maxOutputLength: IMPORT_CONFIG.maxSitemapBytes })
+    : data;
+  return text.toString('utf-8').replace(/^\uFEFF/, '');
+}
+
+/**
+ * Read a sitemap response, refusing bodies over the protocol size limit
+ * before they're buffered
+ */
+async function readSitemapBody(response: Response, url: string): Promise<Buffer> {
+  const limit = IMPORT_CONFIG.maxSitemapBytes;
+  const tooLarge = () => new SitemapError('FETCH_FAILED', `Sitemap ${url} is larger than ${limit} bytes`);
+
+  if (Number(response.headers.get('content-length')) > limit) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+  if (!response.body) return Buffer.alloc(0);
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > limit) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+// ============================================================================
+// CRAWLING
+// ============================================================================
+
+/**
+ * Fetch one sitemap file, retrying rate limits, server errors and
+ * network failures
+ */
+async function fetchSitemapDocument(url: string): Promise<ParsedSitemap> {
+  let lastError = 'Max retries exceeded';
+
+  for (let attempt = 0; attempt <= IMPORT_CONFIG.maxRetries; attempt++) {
+    if (attempt > 0) {
+      await delay(IMPORT_CONFIG.retryDelay * attempt);
+    }
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), IMPORT_CONFIG.sitemapTimeout);
+    try {
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': CRAWLER_USER_AGENT,
+          Accept: 'application/xml, text/xml, application/gzip;q=0.9, */*;q=0.8',
+        },
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+
+      if (!response.ok) {
+        lastError = `HTTP ${response.status}: ${response.statusText}`;
+        if (response.status === 429 || response.status >= 500) continue;
+        throw new SitemapError('FETCH_FAILED', `Failed to fetch sitemap ${url}: ${lastError}`);
+      }
+
+      const data = await readSitemapBody(response, url);
+      return parseSitemapXml(decodeSitemapBody(data));
+    } catch (error) {
+      if (error instanceof SitemapError) throw error;
+      lastError = error instanceof Error ? error.message : 'Unknown error';
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  throw new SitemapError('FETCH_FAILED', `Failed to fetch sitemap ${url}: ${lastError}`);
+}
+
+/**
+ * Crawl a sitemap and any sitemaps it indexes. Failures below the root
+ * are collected in `errors`; a root that can't be fetched, parsed or
+ * crawled (robots.txt) throws.
+ */
+export async function crawlSitemap(
+  sitemapUrl: string,
+  options: SitemapCrawlOptions = {}
+): Promise<SitemapCrawlResult> {
+  const result: SitemapCrawlResult = { entries: [], sitemapsFetched: [], blockedByRobots: [], errors: [] };
+  const robots = options.robots ?? null;
+  const crawlDelayMs = Math.min(robots?.crawlDelay ?? 0, IMPORT_CONFIG.maxCrawlDelay) * 1000;
+
+  if (robots && !isAllowedByRobots(robots, sitemapUrl)) {
+    throw new SitemapError('BLOCKED_BY_ROBOTS', `robots.txt disallows ${sitemapUrl}`);
+  }
+
+  const queue: Array<{ url: string; depth: number }> = [{ url: sitemapUrl, depth: 0 }];
+  const seenSitemaps = new Set([sitemapUrl]);
+  const seenPages = new Set<string>();
+
+  while (queue.length > 0 && result.sitemapsFetched.length < IMPORT_CONFIG.maxSitemapsPerCrawl) {
+    const { url, depth } = queue.shift()!;
+
+    if (result.sitemapsFetched.length > 0 && crawlDelayMs > 0) {
+      await delay(crawlDelayMs);
+    }
+
+    let sitemap: ParsedSitemap;
+    try {
+      sitemap = await fetchSitemapDocument(url);
+    } catch (error) {
+      if (depth === 0) throw error;
+      result.errors.push({ url, error: error instanceof Error ? error.message : 'Unknown error' });
+      continue;
+    }
+    result.sitemapsFetched.push(url);
+
+    if (sitemap.type === 'sitemapindex') {
+      if (depth >= IMPORT_CONFIG.maxSitemapDepth) {
+        result.errors.push({ url, error: `Sitemap index nested deeper than ${IMPORT_CONFIG.maxSitemapDepth} levels` });
+        continue;
+      }
+      for (const child of sitemap.entries) {
+        if (seenSitemaps.has(child.loc)) continue;
+        seenSitemaps.add(child.loc);
+        if (robots && !isAllowedByRobots(robots, child.loc)) {
+          result.blockedByRobots.push(child.loc);
+          continue;
+        }
+        queue.push({ url: child.loc, depth: depth + 1 });
+      }
+      continue;
+    }
+
+    for (const entry of sitemap.entries) {
+      if (seenPages.has(entry.loc)) continue;
+      seenPages.add(entry.loc);
+      if (options.urlPattern && !options.urlPattern.test(entry.loc)) continue;
+      if (entry.loc.length > IMPORT_CONFIG.maxPageUrlLength) {
+        result.errors.push({ url: entry.loc, error: `URL longer than ${IMPORT_CONFIG.maxPageUrlLength} characters` });
+        continue;
+      }
+      if (robots && !isAllowedByRobots(robots, entry.loc)) {
+        result.blockedByRobots.push(entry.loc);
+        continue;
+      }
+      result.entries.push(entry);
+    }
+  }
+
+  if (queue.length > 0) {
+    result.errors.push({
+      url: sitemapUrl,
+      error: `Stopped after ${IMPORT_CONFIG.maxSitemapsPerCrawl} sitemaps; ${queue.length} not crawled`,
+    });
+  }
+
+  return result;
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -5,14 +5,18 @@
  */
 
 import { db } from '@/lib/db/client';
-import { blogPosts, authors, importLogs } from '@/lib/db/schema';
+import { blogPosts, authors, importLogs, crawlState, type CrawlState } from '@/lib/db/schema';
 import type { IntermediatePost } from '@/lib/schema/intermediate';
 import type { BlogPost } from '@/lib/schema/canonical';
 import { parseHtml } from './parsers/html';
 import { normalizePost } from './normalizer';
 import { fetchAllShopifyArticles, fetchShopifyArticle } from './fetchers/shopify';
-import { fetchUrls, fetchSitemap } from './fetchers/http';
-import { eq } from 'drizzle-orm';
+import { fetchUrls } from './fetchers/http';
+import { crawlSitemap } from './fetchers/sitemap';
+import { fetchRobotsPolicy } from './fetchers/robots';
+import { IMPORT_CONFIG } from '@/lib/config/constants';
+import { recordRevision } from '@/lib/revisions';
+import { eq, inArray } from 'drizzle-orm';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -46,6 +50,22 @@ interface ImportResult {
   errors: Array<{ url: string; error: string }>;
 }
 
+/**
+ * Sitemap import result, with what the crawler skipped
+ */
+export interface SitemapImportResult extends ImportResult {
+  /** Page URLs found in the sitemaps (after the URL pattern) */
+  discovered: number;
+  /** lastmod no newer than the last import (or `since`) */
+  skippedUnchanged: number;
+  /** 304 to a conditional request */
+  notModified: number;
+  blockedByRobots: number;
+  /** Seconds between page requests, from robots.txt */
+  crawlDelay: number | null;
+  sitemapsFetched: number;
+}
+
 // ============================================================================
 // SHOPIFY IMPORT
 // ============================================================================
@@ -124,15 +144,24 @@ export async function importFromShopify(
 // ============================================================================
 
 /**
- * Import blog posts from a sitemap
+ * Import blog posts from a sitemap.
+ * Honours robots.txt (disallow rules and crawl-delay) unless told not to.
+ * Pages whose sitemap lastmod is no newer than at their last import (or
+ * than `since`) are skipped, the rest are fetched with If-None-Match /
+ * If-Modified-Since, and changed pages that were imported before are
+ * refreshed in place.
  */
 export async function importFromSitemap(
   sitemapUrl: string,
   options: ImportOptions & {
     urlPattern?: RegExp;
     limit?: number;
+    /** Skip pages with a lastmod at or before this time */
+    since?: Date;
+    /** Default true */
+    respectRobots?: boolean;
   } = {}
-): Promise<ImportResult> {
+): Promise<SitemapImportResult> {
   const progress: ImportProgress = {
     total: 0,
     processed: 0,
@@ -144,39 +173,97 @@ export async function importFromSitemap(
   // Ensure default author exists
   const authorId = await ensureDefaultAuthor(options.defaultAuthorId);
 
+  const robots = options.respectRobots === false ? null : await fetchRobotsPolicy(sitemapUrl);
+  const crawlDelay = robots?.crawlDelay != null ? Math.min(robots.crawlDelay, IMPORT_CONFIG.maxCrawlDelay) : null;
+
   // Discover URLs from sitemap
-  const urls = await fetchSitemap(sitemapUrl, {
+  const crawl = await crawlSitemap(sitemapUrl, {
     urlPattern: options.urlPattern,
-    limit: options.limit,
+    robots,
   });
 
+  const states = await loadCrawlStates(crawl.entries.map((e) => e.loc));
+  const lastmods = new Map(crawl.entries.map((e) => [e.loc, e.lastmod]));
+
+  // Skip pages the sitemap says haven't changed
+  let skippedUnchanged = 0;
+  const changed = crawl.entries.filter((entry) => {
+    if (options.forceRefresh || !entry.lastmod) return true;
+    const state = states.get(entry.loc);
+    const unchanged =
+      (options.since && entry.lastmod <= options.since) ||
+      (state?.sitemapLastmod && state.lastStatus !== null && state.lastStatus < 400 && entry.lastmod <= state.sitemapLastmod);
+    if (unchanged) skippedUnchanged++;
+    return !unchanged;
+  });
+  const urls = changed.slice(0, options.limit ?? changed.length).map((e) => e.loc);
+
   progress.total = urls.length;
   options.onProgress?.(progress);
 
-  // Fetch all URLs
+  // Fetch all URLs (one at a time when robots.txt sets a crawl-delay)
   const fetchResults = await fetchUrls(urls, {
+    ...(crawlDelay !== null && {
+      maxConcurrent: 1,
+      delayBetweenRequests: Math.max(crawlDelay * 1000, IMPORT_CONFIG.delayBetweenRequests),
+    }),
+    headersFor: (url) => {
+      const state = states.get(url);
+      if (options.forceRefresh || !state) return {};
+      return {
+        ...(state.etag && { 'If-None-Match': state.etag }),
+        ...(state.lastModified && { 'If-Modified-Since': state.lastModified }),
+      };
+    },
     onProgress: (completed) => {
       progress.processed = completed;
       options.onProgress?.(progress);
     },
   });
 
+  let created = 0;
+  let updated = 0;
+  let notModified = 0;
+
   // Process each fetched page
   for (const result of fetchResults) {
-    if (result.error || !result.html) {
-      progress.failed++;
-      progress.errors.push({
-        url: result.url,
-        error: result.error || 'Empty response',
-      });
-
-      await logImportError(result.url, 'sitemap', new Error(result.error || 'Empty response'));
-      continue;
-    }
+    const state = states.get(result.url);
+    const crawled = {
+      sitemapLastmod: lastmods.get(result.url) ?? null,
+      lastStatus: result.status,
+      lastFetchedAt: new Date(),
+    };
 
     try {
+      if (result.notModified) {
+        notModified++;
+        await saveCrawlState(result.url, crawled);
+        continue;
+      }
+
+      if (result.error || !result.html) {
+        await saveCrawlState(result.url, crawled);
+        throw new Error(result.error || 'Empty response');
+      }
+
+      const existing = await db.query.blogPosts.findFirst({
+        where: eq(blogPosts.sourceUrl, result.url),
+        columns: { id: true },
+      });
+
+      // A page fetched again after a previous import has changed: refresh it
       const ir = parseHtml(result.html, result.url, 'sitemap');
-      await processIntermediatePost(ir, authorId, options.forceRefresh);
+      const post = await processIntermediatePost(ir, authorId, options.forceRefresh || !!state);
+
+      if (!existing) created++;
+      else if (options.forceRefresh || state) updated++;
+
+      await saveCrawlState(result.url, {
+        ...crawled,
+        etag: result.etag ?? null,
+        lastModified: result.lastModified ?? null,
+        blogPostId: post.id ?? null,
+      });
 
       progress.succeeded++;
     } catch (error) {
@@ -192,10 +279,16 @@ export async function importFromSitemap(
 
   return {
     success: progress.failed === 0,
-    postsCreated: progress.succeeded,
-    postsUpdated: 0,
+    postsCreated: created,
+    postsUpdated: updated,
     postsFailed: progress.failed,
-    errors: progress.errors,
+    errors: [...crawl.errors, ...progress.errors],
+    discovered: crawl.entries.length,
+    skippedUnchanged,
+    notModified,
+    blockedByRobots: crawl.blockedByRobots.length,
+    crawlDelay,
+    sitemapsFetched: crawl.sitemapsFetched.length,
   };
 }
 
@@ -302,6 +395,23 @@ export async function importSingleShopifyPost(
   }
 }
 
+/**
+ * Import one article already fetched from Shopify. The two-way sync uses
+ * this for articles it has not seen before; returns the post ID.
+ */
+export async function importFetchedShopifyArticle(
+  ir: IntermediatePost,
+  options: ImportOptions = {}
+): Promise<string> {
+  const authorId = await ensureDefaultAuthor(options.defaultAuthorId);
+
+  const fullIr = parseHtml(ir.rawHtml, ir.sourceUrl, 'shopify');
+  fullIr.shopify = ir.shopify;
+
+  const post = await processIntermediatePost(fullIr, authorId, options.forceRefresh);
+  return post.id!;
+}
+
 // ============================================================================
 // PROCESSING
 // ============================================================================
@@ -381,6 +491,12 @@ async function processIntermediatePost(
       } as typeof blogPosts.$inferInsert)
       .where(eq(blogPosts.id, existingPost.id));
 
+    await recordRevision(existingPost.id, {
+      source: 'import',
+      previous: existingPost,
+      note: `Refreshed from ${ir.sourceUrl}`,
+    });
+
     // Log update
     await db.insert(importLogs).values({
       id: uuidv4(),
@@ -459,6 +575,36 @@ async function ensureDefaultAuthor(providedId?: string): Promise<string> {
   return newAuthor.id;
 }
 
+/**
+ * Crawl state for the given URLs, keyed by URL
+ */
+async function loadCrawlStates(urls: string[]): Promise<Map<string, CrawlState>> {
+  const states = new Map<string, CrawlState>();
+  for (let i = 0; i < urls.length; i += 500) {
+    const rows = await db.query.crawlState.findMany({
+      where: inArray(crawlState.url, urls.slice(i, i + 500)),
+    });
+    rows.forEach((row) => states.set(row.url, row));
+  }
+  return states;
+}
+
+/**
+ * Record what the crawler saw for a URL
+ */
+async function saveCrawlState(
+  url: string,
+  values: Partial<Omit<CrawlState, 'id' | 'url' | 'createdAt' | 'updatedAt'>>
+): Promise<void> {
+  await db
+    .insert(crawlState)
+    .values({ url, ...values })
+    .onConflictDoUpdate({
+      target: crawlState.url,
+      set: { ...values, updatedAt: new Date() },
+    });
+}
+
 /**
  * Log an import error to the database
  */
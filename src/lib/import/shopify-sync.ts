@@ -0,0 +1,551 @@
+/**
+ * Two-way Shopify Sync
+ *
+ * Keeps posts and Shopify articles in step without re-fetching the whole
+ * blog. Every linked post remembers the article ID, the article's
+ * updated_at and a hash of the synced content as of its last sync, which
+ * gives three cases:
+ *
+ * - changed in Shopify only  -> pull the article into the post
+ * - changed locally only     -> push the post to the article, but only
+ *   while it is published (other edits go out when it is published again)
+ * - changed on both sides    -> conflict: the Shopify version is stored on
+ *   the post and neither side is touched until an editor picks one
+ *
+ * Pulls only ask Shopify for articles updated since the last completed run.
+ * A run where some articles failed to pull is 'partial' and doesn't move
+ * that cursor, so those articles are fetched again next time.
+ */
+
+import { db } from '@/lib/db/client';
+import {
+  blogPosts,
+  shopifySyncRuns,
+  type BlogPost as BlogPostRow,
+  type Author,
+  type ShopifySyncConflict,
+  type ShopifySyncRun,
+} from '@/lib/db/schema';
+import { eq, and, or, desc, inArray, isNull, isNotNull, gt } from 'drizzle-orm';
+import type { IntermediatePost } from '@/lib/schema/intermediate';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { getEnvironment, isShopifyConfigured } from '@/lib/config/env';
+import {
+  syncToShopify,
+  getShopifyContentHash,
+  transformToShopifyArticle,
+} from '@/lib/shopify/article-sync';
+import { recordRevision } from '@/lib/revisions';
+import { getShopifyArticleImage, markShopifyImageUploaded } from '@/lib/media';
+import { fetchAllShopifyArticles, fetchShopifyArticleById } from './fetchers/shopify';
+import { parseHtml } from './parsers/html';
+import { normalizePost } from './normalizer';
+import { importFetchedShopifyArticle } from './pipeline';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type SyncDirection = 'both' | 'pull' | 'push';
+
+export type ConflictResolution = 'local' | 'remote';
+
+export interface ShopifySyncOptions {
+  direction?: SyncDirection;
+  /** Ignore the last run and look at every article */
+  full?: boolean;
+  /** Author for articles that don't have a post yet */
+  defaultAuthorId?: string;
+  triggeredBy?: string;
+  onProgress?: (message: string) => void;
+}
+
+/**
+ * A conflicted post with both sides rendered for a side-by-side view
+ */
+export interface ShopifyConflictView {
+  postId: string;
+  slug: string;
+  status: string;
+  articleId: string | null;
+  detectedAt: string;
+  local: {
+    title: string;
+    summary: string | null;
+    bodyHtml: string;
+    updatedAt: string;
+  };
+  remote: ShopifySyncConflict['remote'];
+}
+
+export type ShopifySyncErrorCode = 'NOT_CONFIGURED' | 'ALREADY_RUNNING' | 'NOT_FOUND' | 'NO_CONFLICT';
+
+export class ShopifySyncError extends Error {
+  constructor(
+    public code: ShopifySyncErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ShopifySyncError';
+  }
+}
+
+type ArticleOutcome = 'pulled' | 'created' | 'pushed' | 'conflict' | 'unchanged' | 'local_changed';
+
+type PostWithAuthor = BlogPostRow & { author: Author };
+
+/** Re-read a little before the last run started to absorb clock skew */
+const SINCE_OVERLAP_MS = 5 * 60_000;
+
+/** A 'running' run older than this is assumed to have crashed */
+const STALE_RUN_MS = 60 * 60_000;
+
+// ============================================================================
+// RUNS
+// ============================================================================
+
+/**
+ * Run a sync. Per-article failures are collected on the run; only
+ * configuration problems and overlapping runs throw.
+ */
+export async function runShopifySync(options: ShopifySyncOptions = {}): Promise<ShopifySyncRun> {
+  const { store, accessToken, blogId } = getShopifyCredentials();
+  const direction = options.direction ?? 'both';
+  const log = options.onProgress ?? (() => {});
+
+  const running = await db.query.shopifySyncRuns.findFirst({
+    where: and(
+      eq(shopifySyncRuns.status, 'running'),
+      gt(shopifySyncRuns.startedAt, new Date(Date.now() - STALE_RUN_MS))
+    ),
+  });
+  if (running) {
+    throw new ShopifySyncError('ALREADY_RUNNING', `Sync ${running.id} is already running`);
+  }
+
+  const updatedSince = options.full ? null : await getLastSyncTime();
+
+  const [run] = await db
+    .insert(shopifySyncRuns)
+    .values({
+      direction,
+      updatedSince,
+      triggeredBy: options.triggeredBy ?? null,
+    })
+    .returning();
+
+  const counts: Record<ArticleOutcome, number> = {
+    pulled: 0,
+    created: 0,
+    pushed: 0,
+    conflict: 0,
+    unchanged: 0,
+    local_changed: 0,
+  };
+  const errors: ShopifySyncRun['errors'] = [];
+  const handled = new Set<string>();
+
+  try {
+    if (direction !== 'push') {
+      log(updatedSince ? `Pulling articles updated since ${updatedSince.toISOString()}` : 'Pulling all articles');
+
+      const articles = await fetchAllShopifyArticles(store, accessToken, {
+        updatedSince: updatedSince ?? undefined,
+      });
+      const inBlog = blogId
+        ? articles.filter((ir) => toRestId(ir.shopify!.blogId) === toRestId(blogId))
+        : articles;
+
+      for (const ir of inBlog) {
+        try {
+          const { outcome, postId } = await pullArticle(ir, options);
+          counts[outcome]++;
+          // Local-only edits still need the push below
+          if (outcome !== 'local_changed') handled.add(postId);
+          if (outcome !== 'unchanged') log(`${outcome}: ${ir.title}`);
+        } catch (error) {
+          errors.push({ articleId: ir.shopify!.articleId, error: errorMessage(error) });
+        }
+      }
+    }
+
+    if (direction !== 'pull') {
+      const linked = await db.query.blogPosts.findMany({
+        where: and(isNotNull(blogPosts.shopifyArticleId), isNull(blogPosts.shopifyConflict)),
+        with: { author: true },
+      });
+
+      for (const post of linked) {
+        if (handled.has(post.id)) continue;
+        if (!detectChanges(post, null).localChanged) continue;
+        // Drafts, reviews and archived posts never overwrite the live article
+        if (post.status !== 'published') continue;
+
+        try {
+          const outcome = await pushPost(post, store, accessToken);
+          counts[outcome]++;
+          log(`${outcome}: ${post.title}`);
+        } catch (error) {
+          errors.push({ postId: post.id, error: errorMessage(error) });
+        }
+      }
+    }
+
+    const [finished] = await db
+      .update(shopifySyncRuns)
+      .set({
+        status: errors.some((e) => e.articleId) ? 'partial' : 'completed',
+        pulled: counts.pulled,
+        created: counts.created,
+        pushed: counts.pushed,
+        conflicts: counts.conflict,
+        unchanged: counts.unchanged,
+        errors,
+        finishedAt: new Date(),
+      })
+      .where(eq(shopifySyncRuns.id, run.id))
+      .returning();
+
+    return finished;
+  } catch (error) {
+    await db
+      .update(shopifySyncRuns)
+      .set({
+        status: 'failed',
+        errors: [...errors, { error: errorMessage(error) }],
+        finishedAt: new Date(),
+      })
+      .where(eq(shopifySyncRuns.id, run.id));
+    throw error;
+  }
+}
+
+/**
+ * Most recent runs, newest first
+ */
+export async function getRecentSyncRuns(limit = 10): Promise<ShopifySyncRun[]> {
+  return db.query.shopifySyncRuns.findMany({
+    orderBy: [desc(shopifySyncRuns.startedAt)],
+    limit,
+  });
+}
+
+// ============================================================================
+// CONFLICTS
+// ============================================================================
+
+/**
+ * Posts waiting for an editor to choose between the local and Shopify versions
+ */
+export async function listShopifyConflicts(): Promise<ShopifyConflictView[]> {
+  const posts = await db.query.blogPosts.findMany({
+    where: isNotNull(blogPosts.shopifyConflict),
+    with: { author: true },
+    orderBy: [desc(blogPosts.updatedAt)],
+  });
+
+  return posts.map((post) => {
+    const article = transformToShopifyArticle(toCanonicalPost(post, post.author), { blogId: '' });
+    return {
+      postId: post.id,
+      slug: post.slug,
+      status: post.status,
+      articleId: post.shopifyArticleId,
+      detectedAt: post.shopifyConflict!.detectedAt,
+      local: {
+        title: article.title,
+        summary: article.summary_html ?? null,
+        bodyHtml: article.body_html,
+        updatedAt: post.updatedAt.toISOString(),
+      },
+      remote: post.shopifyConflict!.remote,
+    };
+  });
+}
+
+/**
+ * Settle a conflict: 'local' overwrites the Shopify article with the post,
+ * 'remote' pulls the current Shopify article into the post.
+ */
+export async function resolveShopifyConflict(
+  postId: string,
+  resolution: ConflictResolution
+): Promise<BlogPostRow> {
+  const { store, accessToken } = getShopifyCredentials();
+
+  const post = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+    with: { author: true },
+  });
+  if (!post) {
+    throw new ShopifySyncError('NOT_FOUND', 'Post not found');
+  }
+  if (!post.shopifyConflict || !post.shopifyArticleId) {
+    throw new ShopifySyncError('NO_CONFLICT', 'Post has no Shopify conflict');
+  }
+
+  const remote = await fetchShopifyArticleById(store, accessToken, post.shopifyArticleId);
+  if (!remote) {
+    throw new ShopifySyncError('NOT_FOUND', 'The Shopify article no longer exists');
+  }
+
+  return resolution === 'remote'
+    ? applyRemote(post, remote, 'Conflict resolved: kept the Shopify version')
+    : writeToShopify(post, remote, store, accessToken);
+}
+
+// ============================================================================
+// PULL
+// ============================================================================
+
+async function pullArticle(
+  ir: IntermediatePost,
+  options: ShopifySyncOptions
+): Promise<{ outcome: ArticleOutcome; postId: string }> {
+  const shopify = ir.shopify!;
+  const articleId = toRestId(shopify.articleId);
+
+  // Posts imported before sync tracking are only linked by URL
+  const post = await db.query.blogPosts.findFirst({
+    where: or(eq(blogPosts.shopifyArticleId, articleId), eq(blogPosts.sourceUrl, ir.sourceUrl)),
+    with: { author: true },
+  });
+
+  if (!post) {
+    const postId = await importFetchedShopifyArticle(ir, { defaultAuthorId: options.defaultAuthorId });
+    const created = await db.query.blogPosts.findFirst({
+      where: eq(blogPosts.id, postId),
+      with: { author: true },
+    });
+    // Baseline without a revision; the import is the first version
+    await db.update(blogPosts).set(remoteFields(created!, ir)).where(eq(blogPosts.id, postId));
+    return { outcome: 'created', postId };
+  }
+
+  const { localChanged, remoteChanged } = detectChanges(post, shopify.updatedAt);
+
+  if (post.shopifyConflict) {
+    // Still waiting on an editor; keep the stored Shopify side current
+    if (remoteChanged) await recordConflict(post, ir);
+    return { outcome: 'conflict', postId: post.id };
+  }
+  if (remoteChanged && localChanged) {
+    await recordConflict(post, ir);
+    return { outcome: 'conflict', postId: post.id };
+  }
+  if (remoteChanged) {
+    await applyRemote(post, ir, 'Pulled from Shopify');
+    return { outcome: 'pulled', postId: post.id };
+  }
+  if (localChanged) {
+    return { outcome: 'local_changed', postId: post.id };
+  }
+
+  if (!post.shopifyContentHash || !post.shopifyUpdatedAt) {
+    await db.update(blogPosts).set(baselineFields(post, shopify.updatedAt)).where(eq(blogPosts.id, post.id));
+  }
+  return { outcome: 'unchanged', postId: post.id };
+}
+
+/**
+ * Overwrite the post's content with the Shopify article
+ */
+async function applyRemote(post: PostWithAuthor, ir: IntermediatePost, note: string): Promise<BlogPostRow> {
+  const [updated] = await db
+    .update(blogPosts)
+    .set({
+      ...remoteFields(post, ir),
+      version: post.version + 1,
+      updatedAt: new Date(),
+    })
+    .where(eq(blogPosts.id, post.id))
+    .returning();
+
+  await recordRevision(post.id, { source: 'import', previous: post, note });
+
+  return updated;
+}
+
+/**
+ * Content and sync baseline taken from a Shopify article
+ */
+function remoteFields(post: PostWithAuthor, ir: IntermediatePost): Partial<BlogPostRow> {
+  const shopify = ir.shopify!;
+  const parsed = parseHtml(ir.rawHtml, ir.sourceUrl, 'shopify');
+  parsed.shopify = shopify;
+  const { post: normalized } = normalizePost(parsed);
+
+  const content = {
+    title: (normalized.title ?? ir.title ?? post.title).slice(0, 200),
+    summary: normalized.summary ?? post.summary,
+    heroAnswer: normalized.heroAnswer ?? post.heroAnswer,
+    sections: normalized.sections ?? post.sections,
+    faq: normalized.faq ?? post.faq,
+    // Keep the article body as-is so pushing it back is lossless
+    rawHtml: shopify.bodyHtml,
+    wordCount: normalized.wordCount ?? post.wordCount,
+    readingTimeMins: normalized.readingTimeMinutes ?? post.readingTimeMins,
+  };
+
+  return {
+    ...content,
+    ...baselineFields({ ...post, ...content }, shopify.updatedAt),
+    shopifyArticleId: toRestId(shopify.articleId),
+    shopifyArticleHandle: shopify.handle,
+  };
+}
+
+async function recordConflict(post: BlogPostRow, ir: IntermediatePost): Promise<void> {
+  const shopify = ir.shopify!;
+
+  await db
+    .update(blogPosts)
+    .set({
+      shopifyArticleId: toRestId(shopify.articleId),
+      shopifyConflict: {
+        detectedAt: post.shopifyConflict?.detectedAt ?? new Date().toISOString(),
+        remote: {
+          title: ir.title ?? '',
+          summary: ir.metaDescription,
+          bodyHtml: shopify.bodyHtml,
+          handle: shopify.handle,
+          updatedAt: shopify.updatedAt,
+        },
+      },
+    })
+    .where(eq(blogPosts.id, post.id));
+}
+
+// ============================================================================
+// PUSH
+// ============================================================================
+
+/**
+ * Push a locally edited post, unless the article also changed in Shopify
+ * since the last sync
+ */
+async function pushPost(post: PostWithAuthor, store: string, accessToken: string): Promise<ArticleOutcome> {
+  const remote = await fetchShopifyArticleById(store, accessToken, post.shopifyArticleId!);
+  if (!remote) {
+    throw new Error(`Shopify article ${post.shopifyArticleId} no longer exists`);
+  }
+
+  if (detectChanges(post, remote.shopify!.updatedAt).remoteChanged) {
+    await recordConflict(post, remote);
+    return 'conflict';
+  }
+
+  await writeToShopify(post, remote, store, accessToken);
+  return 'pushed';
+}
+
+async function writeToShopify(
+  post: PostWithAuthor,
+  remote: IntermediatePost,
+  store: string,
+  accessToken: string
+): Promise<BlogPostRow> {
+  const hero = await getShopifyArticleImage(post.id, { newArticle: false });
+  const result = await syncToShopify(toCanonicalPost(post, post.author), {
+    blogId: getEnvironment().SHOPIFY_BLOG_ID ?? '',
+    shopifyDomain: store,
+    accessToken,
+    // Never unpublish a live article just because the local post is a draft
+    publish: post.status === 'published' || !!remote.shopify!.publishedAt,
+    existingArticleId: post.shopifyArticleId!,
+    image: hero?.image,
+  });
+
+  if (!result.success) {
+    throw new Error(result.errors.join('; ') || 'Shopify update failed');
+  }
+
+  if (hero && result.imageSrc) {
+    await markShopifyImageUploaded(hero.assetId, result.imageSrc);
+  }
+
+  const [updated] = await db
+    .update(blogPosts)
+    .set({
+      ...baselineFields(post, result.updatedAt ?? null),
+      shopifyArticleHandle: result.articleHandle ?? post.shopifyArticleHandle,
+    })
+    .where(eq(blogPosts.id, post.id))
+    .returning();
+
+  return updated;
+}
+
+// ============================================================================
+// CHANGE DETECTION
+// ============================================================================
+
+/**
+ * Compare a post and its article's updated_at with the last sync
+ */
+function detectChanges(
+  post: PostWithAuthor,
+  remoteUpdatedAt: string | null
+): { localChanged: boolean; remoteChanged: boolean } {
+  const remoteTime = remoteUpdatedAt ? new Date(remoteUpdatedAt) : null;
+
+  if (post.shopifyContentHash && post.shopifyUpdatedAt) {
+    return {
+      localChanged: getShopifyContentHash(toCanonicalPost(post, post.author)) !== post.shopifyContentHash,
+      remoteChanged: !remoteTime || remoteTime > post.shopifyUpdatedAt,
+    };
+  }
+
+  // Published before sync tracking existed: fall back to the last push
+  if (post.shopifySyncedAt) {
+    return {
+      localChanged: post.updatedAt > post.shopifySyncedAt,
+      remoteChanged: !remoteTime || remoteTime > post.shopifySyncedAt,
+    };
+  }
+
+  // Imported but never synced: safe to refresh only if nobody edited it
+  return { localChanged: post.version > 1, remoteChanged: true };
+}
+
+function baselineFields(post: PostWithAuthor, remoteUpdatedAt: string | null): Partial<BlogPostRow> {
+  const now = new Date();
+  return {
+    shopifyContentHash: getShopifyContentHash(toCanonicalPost(post, post.author)),
+    shopifyUpdatedAt: remoteUpdatedAt ? new Date(remoteUpdatedAt) : now,
+    shopifySyncedAt: now,
+    shopifyConflict: null,
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function getShopifyCredentials(): { store: string; accessToken: string; blogId?: string } {
+  const env = getEnvironment();
+  if (!isShopifyConfigured()) {
+    throw new ShopifySyncError('NOT_CONFIGURED', 'Shopify sync not configured. Set SHOPIFY_STORE and SHOPIFY_ACCESS_TOKEN.');
+  }
+  return { store: env.SHOPIFY_STORE!, accessToken: env.SHOPIFY_ACCESS_TOKEN!, blogId: env.SHOPIFY_BLOG_ID };
+}
+
+async function getLastSyncTime(): Promise<Date | null> {
+  const last = await db.query.shopifySyncRuns.findFirst({
+    where: and(
+      eq(shopifySyncRuns.status, 'completed'),
+      inArray(shopifySyncRuns.direction, ['both', 'pull'])
+    ),
+    orderBy: [desc(shopifySyncRuns.startedAt)],
+  });
+  return last ? new Date(last.startedAt.getTime() - SINCE_OVERLAP_MS) : null;
+}
+
+// 'gid://shopify/Article/123' -> '123' (REST IDs are what we store)
+function toRestId(id: string): string {
+  return id.replace(/^gid:\/\/shopify\/\w+\//, '');
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,42 @@
+/**
+ * Media Module
+ *
+ * Hero and inline images for posts: generation, local storage and
+ * attachment to the post body, JSON-LD and Shopify.
+ */
+
+// Assets
+export {
+  listPostMedia,
+  getHeroImage,
+  toImageObject,
+  generateHeroImage,
+  generateInlineImages,
+  updateMediaAsset,
+  deleteMediaAsset,
+  deletePostMediaFiles,
+  getShopifyArticleImage,
+  markShopifyImageUploaded,
+  MediaError,
+  UpdateMediaAssetSchema,
+  GenerateMediaSchema,
+  type MediaErrorCode,
+  type ImageStyle,
+  type GenerateHeroOptions,
+  type GenerateInlineOptions,
+  type MediaEditOptions,
+  type InlineImageResult,
+  type UpdateMediaAssetInput,
+} from './media-assets';
+
+// Storage
+export {
+  saveMediaFile,
+  readMediaFile,
+  deleteMediaFile,
+  getMediaUrl,
+  getMediaMimeType,
+  readImageDimensions,
+  type ImageDimensions,
+  type StoredFile,
+} from './storage';
@@ -0,0 +1,623 @@
+/**
+ * Media Assets
+ *
+ * Generates hero and inline images for a post, stores them on disk with
+ * their dimensions and alt text, and attaches them: the hero image fills
+ * the Article JSON-LD `image` and becomes the Shopify article image;
+ * inline images replace the image placeholders the writer leaves in the
+ * post body.
+ */
+
+import * as cheerio from 'cheerio';
+import { randomUUID } from 'crypto';
+import { z } from 'zod';
+import { db } from '@/lib/db/client';
+import {
+  blogPosts,
+  mediaAssets,
+  type BlogPost as BlogPostRow,
+  type NewBlogPost,
+  type MediaAsset,
+} from '@/lib/db/schema';
+import { and, asc, eq } from 'drizzle-orm';
+import type { ImageObjectJsonLd, Section } from '@/lib/schema/canonical';
+import {
+  generateBlogHeaderImage,
+  generateImage,
+  type GeneratedImage,
+  type ImageModel,
+} from '@/lib/ai/generation/images';
+import { withUsageContext } from '@/lib/ai/usage/context';
+import { isGoogleAIConfigured } from '@/lib/config/env';
+import { recordRevision } from '@/lib/revisions';
+import { renderImage, escapeHtml } from '@/lib/templates/section-renderers';
+import type { ShopifyArticleImage } from '@/lib/shopify/article-sync';
+import {
+  saveMediaFile,
+  readMediaFile,
+  deleteMediaFile,
+  readImageDimensions,
+} from './storage';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type MediaErrorCode = 'NOT_FOUND' | 'NOT_CONFIGURED' | 'CONFLICT';
+
+export class MediaError extends Error {
+  constructor(
+    public code: MediaErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'MediaError';
+  }
+}
+
+export type ImageStyle = 'photorealistic' | 'illustration' | 'infographic' | 'minimalist';
+
+export interface GenerateHeroOptions {
+  style?: ImageStyle;
+  model?: ImageModel;
+  /** Defaults to the post title */
+  altText?: string;
+  /** Recorded on the revision the new JSON-LD image creates */
+  createdBy?: string | null;
+}
+
+export interface GenerateInlineOptions {
+  /** Most images to generate in one call (default: 3) */
+  limit?: number;
+  /** Also add an image to these sections, after any placeholders */
+  sectionIds?: string[];
+  model?: ImageModel;
+  /** Recorded on the revision the new body creates */
+  createdBy?: string | null;
+}
+
+export interface MediaEditOptions {
+  /** Recorded on the revision the change to the post creates */
+  createdBy?: string | null;
+}
+
+export interface InlineImageResult {
+  assets: MediaAsset[];
+  /** Placeholders or sections that couldn't be filled */
+  failures: Array<{ suggestion: string; error: string }>;
+  /** Placeholders left for a later call because of the limit */
+  remaining: number;
+}
+
+export const UpdateMediaAssetSchema = z.object({
+  altText: z.string().trim().min(1).max(300).optional(),
+  caption: z.string().trim().max(500).nullable().optional(),
+});
+
+export type UpdateMediaAssetInput = z.infer<typeof UpdateMediaAssetSchema>;
+
+export const GenerateMediaSchema = z.object({
+  role: z.enum(['hero', 'inline']),
+  style: z.enum(['photorealistic', 'illustration', 'infographic', 'minimalist']).optional(),
+  model: z.enum(['gemini-2.5-flash-image', 'gemini-3-pro-image-preview']).optional(),
+  altText: z.string().trim().min(1).max(300).optional(),
+  limit: z.number().int().min(1).max(10).optional(),
+  sectionIds: z.array(z.string()).max(10).optional(),
+});
+
+interface InlineTarget {
+  suggestion: string;
+  caption?: string;
+  sectionId: string | null;
+  /** Section to append to (explicit sectionIds) rather than a placeholder */
+  append: boolean;
+}
+
+const DEFAULT_INLINE_LIMIT = 3;
+
+// Version-guarded post writes to try before giving up
+const MAX_POST_WRITE_ATTEMPTS = 3;
+
+type PostContentChange = Partial<Pick<NewBlogPost, 'rawHtml' | 'sections' | 'ldJsonArticle'>>;
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+async function getPost(postId: string): Promise<BlogPostRow> {
+  const post = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+  });
+  if (!post) {
+    throw new MediaError('NOT_FOUND', 'Post not found');
+  }
+  return post;
+}
+
+/**
+ * Images attached to a post, hero first
+ */
+export async function listPostMedia(postId: string): Promise<MediaAsset[]> {
+  const assets = await db.query.mediaAssets.findMany({
+    where: eq(mediaAssets.blogPostId, postId),
+    orderBy: [asc(mediaAssets.createdAt)],
+  });
+  return assets.sort((a, b) => Number(b.role === 'hero') - Number(a.role === 'hero'));
+}
+
+export async function getHeroImage(postId: string): Promise<MediaAsset | null> {
+  const hero = await db.query.mediaAssets.findFirst({
+    where: and(eq(mediaAssets.blogPostId, postId), eq(mediaAssets.role, 'hero')),
+  });
+  return hero ?? null;
+}
+
+/**
+ * JSON-LD ImageObject for an asset
+ */
+export function toImageObject(asset: MediaAsset): ImageObjectJsonLd {
+  return {
+    '@type': 'ImageObject',
+    url: asset.url,
+    ...(asset.width && asset.height ? { width: asset.width, height: asset.height } : {}),
+    ...(asset.caption ? { caption: asset.caption } : {}),
+  };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+/**
+ * Write a generated image to disk and record it
+ */
+async function storeGeneratedImage(
+  post: BlogPostRow,
+  image: GeneratedImage,
+  fields: Pick<MediaAsset, 'role' | 'altText'> & Partial<Pick<MediaAsset, 'sectionId' | 'caption' | 'prompt' | 'model'>>
+): Promise<MediaAsset> {
+  const data = Buffer.from(image.data, 'base64');
+  const id = randomUUID();
+  const file = await saveMediaFile(data, { postId: post.id, assetId: id, mimeType: image.mimeType });
+  const dimensions = readImageDimensions(data);
+
+  const [asset] = await db
+    .insert(mediaAssets)
+    .values({
+      id,
+      blogPostId: post.id,
+      storagePath: file.storagePath,
+      url: file.url,
+      mimeType: image.mimeType,
+      fileSize: file.fileSize,
+      width: dimensions?.width ?? null,
+      height: dimensions?.height ?? null,
+      source: 'generated',
+      ...fields,
+    })
+    .returning();
+
+  return asset;
+}
+
+/**
+ * Apply a change to the latest version of a post as a new version with a
+ * revision. Image generation takes minutes, so when the post is saved in
+ * the meantime the change is re-applied to a fresh read instead of
+ * overwriting the edit. A change of null leaves the post alone.
+ */
+async function updatePostContent(
+  postId: string,
+  change: (post: BlogPostRow) => PostContentChange | null,
+  revision: { createdBy?: string | null; note: string }
+): Promise<void> {
+  for (let attempt = 0; attempt < MAX_POST_WRITE_ATTEMPTS; attempt++) {
+    const post = await getPost(postId);
+    const set = change(post);
+    if (!set) return;
+
+    const [saved] = await db
+      .update(blogPosts)
+      .set({ ...set, version: post.version + 1, updatedAt: new Date() })
+      .where(and(eq(blogPosts.id, postId), eq(blogPosts.version, post.version)))
+      .returning({ id: blogPosts.id });
+
+    if (saved) {
+      await recordRevision(postId, {
+        source: 'manual',
+        previous: post,
+        createdBy: revision.createdBy ?? null,
+        note: revision.note,
+      });
+      return;
+    }
+  }
+
+  throw new MediaError('CONFLICT', 'Post kept changing while its images were being saved - try again');
+}
+
+async function setArticleImage(
+  postId: string,
+  image: ImageObjectJsonLd | null,
+  createdBy?: string | null
+): Promise<void> {
+  await updatePostContent(
+    postId,
+    (post) => ({ ldJsonArticle: { ...post.ldJsonArticle, image } }),
+    { createdBy, note: image ? 'Set hero image' : 'Removed hero image' }
+  );
+}
+
+// ============================================================================
+// HERO IMAGE
+// ============================================================================
+
+/**
+ * Generate a header image from the post's title and summary, attach it as
+ * the hero (replacing any previous one) and set it as the JSON-LD image
+ */
+export async function generateHeroImage(
+  postId: string,
+  options: GenerateHeroOptions = {}
+): Promise<MediaAsset> {
+  if (!isGoogleAIConfigured()) {
+    throw new MediaError('NOT_CONFIGURED', 'Image generation requires GOOGLE_API_KEY');
+  }
+
+  const post = await getPost(postId);
+  const model = options.model ?? 'gemini-2.5-flash-image';
+
+  const image = await withUsageContext({ blogPostId: postId, source: 'media:hero' }, () =>
+    generateBlogHeaderImage(post.title, post.summary, {
+      style: options.style,
+      aspectRatio: '16:9',
+      model,
+    })
+  );
+
+  const previous = await getHeroImage(postId);
+  const asset = await storeGeneratedImage(post, image, {
+    role: 'hero',
+    altText: (options.altText ?? post.title).slice(0, 300),
+    prompt: `Header image (${options.style ?? 'photorealistic'}): ${post.title}`,
+    model,
+  });
+
+  // The old hero stays until the JSON-LD points at the new one
+  try {
+    await setArticleImage(postId, toImageObject(asset), options.createdBy);
+  } catch (error) {
+    await removeAsset(asset);
+    throw error;
+  }
+  if (previous) {
+    await removeAsset(previous);
+  }
+
+  return asset;
+}
+
+// ============================================================================
+// INLINE IMAGES
+// ============================================================================
+
+/**
+ * Image placeholders rendered by the writer (see renderImage) in an HTML
+ * fragment
+ */
+function findPlaceholders(html: string, sectionId: string | null): InlineTarget[] {
+  if (!html.includes('ac-img-placeholder')) return [];
+
+  const $ = cheerio.load(html, null, false);
+  return $('.ac-img-placeholder')
+    .toArray()
+    .map((el) => {
+      const suggestion = $(el).find('p').first().text().replace(/^📷\s*Image suggestion:\s*/, '').trim();
+      const caption = $(el).find('.ac-img-caption').text().trim();
+      return { suggestion, caption: caption || undefined, sectionId, append: false };
+    })
+    .filter((target) => target.suggestion.length > 0);
+}
+
+/**
+ * Replace the first placeholder with this suggestion by the rendered image
+ */
+function fillPlaceholder(html: string, suggestion: string, imageHtml: string): string {
+  const $ = cheerio.load(html, null, false);
+  const placeholder = $('.ac-img-placeholder')
+    .toArray()
+    .find((el) => $(el).find('p').first().text().includes(suggestion));
+  if (!placeholder) return html;
+
+  $(placeholder).replaceWith(imageHtml);
+  return $.html();
+}
+
+function renderAsset(asset: MediaAsset): string {
+  return renderImage({
+    type: 'image',
+    url: asset.url,
+    alt: asset.altText,
+    caption: asset.caption ?? undefined,
+    width: asset.width ?? undefined,
+    height: asset.height ?? undefined,
+  });
+}
+
+function inlinePrompt(suggestion: string, post: BlogPostRow): string {
+  return `Create an image for a section of the article "${post.title}".
+
+Image to create: ${suggestion}
+
+Important requirements:
+- No text in the image
+- Professional quality suitable for a B2B industrial chemical company
+- Accurate, safe depiction of chemicals, equipment and handling
+- Clean composition that works at blog column width`;
+}
+
+/**
+ * Generate images for the post's image placeholders (and any requested
+ * sections) and put them in the body. Placeholders are looked for in
+ * rawHtml and in section bodies.
+ */
+export async function generateInlineImages(
+  postId: string,
+  options: GenerateInlineOptions = {}
+): Promise<InlineImageResult> {
+  if (!isGoogleAIConfigured()) {
+    throw new MediaError('NOT_CONFIGURED', 'Image generation requires GOOGLE_API_KEY');
+  }
+
+  const post = await getPost(postId);
+  const model = options.model ?? 'gemini-2.5-flash-image';
+  const limit = options.limit ?? DEFAULT_INLINE_LIMIT;
+
+  // Writer posts keep the body in rawHtml; placeholders in both are the same image
+  const targets: InlineTarget[] = [];
+  const seen = new Set<string>();
+  const addTarget = (target: InlineTarget) => {
+    const key = target.append ? `section:${target.sectionId}` : target.suggestion;
+    if (seen.has(key)) return;
+    seen.add(key);
+    targets.push(target);
+  };
+
+  findPlaceholders(post.rawHtml ?? '', null).forEach(addTarget);
+  for (const section of post.sections) {
+    findPlaceholders(section.body, section.id).forEach(addTarget);
+  }
+  for (const sectionId of options.sectionIds ?? []) {
+    const section = post.sections.find((s) => s.id === sectionId);
+    if (!section) continue;
+    const excerpt = cheerio.load(section.body, null, false).text().replace(/\s+/g, ' ').slice(0, 300);
+    addTarget({
+      suggestion: `${section.headingText}. ${excerpt}`.trim(),
+      caption: undefined,
+      sectionId,
+      append: true,
+    });
+  }
+
+  const batch = targets.slice(0, limit);
+  const assets: MediaAsset[] = [];
+  const failures: InlineImageResult['failures'] = [];
+
+  // Applied to the post as it is once the images are ready
+  const inserts: Array<{ target: InlineTarget; imageHtml: string }> = [];
+
+  for (const target of batch) {
+    try {
+      const prompt = inlinePrompt(target.suggestion, post);
+      const image = await withUsageContext({ blogPostId: postId, source: 'media:inline' }, () =>
+        generateImage(prompt, { model, aspectRatio: '4:3', imageOnly: true })
+      );
+
+      const section = target.sectionId ? post.sections.find((s) => s.id === target.sectionId) : undefined;
+      const asset = await storeGeneratedImage(post, image, {
+        role: 'inline',
+        sectionId: target.sectionId,
+        altText: (target.append && section ? section.headingText : target.suggestion).slice(0, 300),
+        caption: target.caption ?? null,
+        prompt,
+        model,
+      });
+      assets.push(asset);
+      inserts.push({ target, imageHtml: renderAsset(asset) });
+    } catch (error) {
+      failures.push({
+        suggestion: target.suggestion,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  if (inserts.length > 0) {
+    await updatePostContent(postId, (current) => insertImages(current, inserts), {
+      createdBy: options.createdBy,
+      note: `Added ${assets.length} inline image${assets.length === 1 ? '' : 's'}`,
+    });
+  }
+
+  return { assets, failures, remaining: targets.length - batch.length };
+}
+
+/**
+ * Put generated images into a post's body: appended to their section, or
+ * in place of their placeholder
+ */
+function insertImages(
+  post: BlogPostRow,
+  inserts: Array<{ target: InlineTarget; imageHtml: string }>
+): PostContentChange {
+  let rawHtml = post.rawHtml;
+  let sections: Section[] = post.sections;
+
+  for (const { target, imageHtml } of inserts) {
+    if (target.append) {
+      sections = sections.map((s) =>
+        s.id === target.sectionId ? { ...s, body: `${s.body}\n${imageHtml}` } : s
+      );
+    } else {
+      if (rawHtml) rawHtml = fillPlaceholder(rawHtml, target.suggestion, imageHtml);
+      sections = sections.map((s) => ({ ...s, body: fillPlaceholder(s.body, target.suggestion, imageHtml) }));
+    }
+  }
+
+  return { rawHtml, sections };
+}
+
+// ============================================================================
+// EDITING
+// ============================================================================
+
+/**
+ * Update the <img> (and its caption) for an inline asset wherever it
+ * appears in an HTML fragment
+ */
+function updateImageHtml(
+  html: string,
+  asset: MediaAsset,
+  change: { remove?: boolean }
+): string {
+  if (!html.includes(asset.url)) return html;
+
+  const $ = cheerio.load(html, null, false);
+  $('img').each((_, img) => {
+    if ($(img).attr('src') !== asset.url) return;
+    const container = $(img).parent('.ac-img-container, .ac-img-wide');
+    if (change.remove) {
+      (container.length > 0 ? container : $(img)).remove();
+      return;
+    }
+    $(img).attr('alt', asset.altText);
+    if (container.length > 0) {
+      container.find('.ac-img-caption').remove();
+      if (asset.caption) {
+        container.append(`<p class="ac-img-caption">${escapeHtml(asset.caption)}</p>`);
+      }
+    }
+  });
+  return $.html();
+}
+
+/**
+ * Apply an asset change (or removal) to the post that holds it
+ */
+async function syncAssetIntoPost(
+  asset: MediaAsset,
+  change: { remove?: boolean },
+  createdBy?: string | null
+): Promise<void> {
+  if (asset.role === 'hero') {
+    await setArticleImage(asset.blogPostId, change.remove ? null : toImageObject(asset), createdBy);
+    return;
+  }
+
+  await updatePostContent(
+    asset.blogPostId,
+    (post) => {
+      const inBody =
+        post.rawHtml?.includes(asset.url) || post.sections.some((s) => s.body.includes(asset.url));
+      if (!inBody) return null;
+
+      return {
+        rawHtml: post.rawHtml ? updateImageHtml(post.rawHtml, asset, change) : post.rawHtml,
+        sections: post.sections.map((s) => ({ ...s, body: updateImageHtml(s.body, asset, change) })),
+      };
+    },
+    { createdBy, note: change.remove ? 'Removed an inline image' : 'Updated inline image alt text or caption' }
+  );
+}
+
+/**
+ * Edit alt text or caption. The post body or JSON-LD is updated to
+ * match, and a hero image is re-uploaded to Shopify on the next sync.
+ */
+export async function updateMediaAsset(
+  id: string,
+  input: UpdateMediaAssetInput,
+  options: MediaEditOptions = {}
+): Promise<MediaAsset> {
+  const [asset] = await db
+    .update(mediaAssets)
+    .set({
+      ...(input.altText !== undefined && { altText: input.altText }),
+      ...(input.caption !== undefined && { caption: input.caption }),
+      shopifyImageSrc: null,
+      updatedAt: new Date(),
+    })
+    .where(eq(mediaAssets.id, id))
+    .returning();
+
+  if (!asset) {
+    throw new MediaError('NOT_FOUND', 'Media asset not found');
+  }
+
+  await syncAssetIntoPost(asset, {}, options.createdBy);
+  return asset;
+}
+
+async function removeAsset(asset: MediaAsset): Promise<void> {
+  await db.delete(mediaAssets).where(eq(mediaAssets.id, asset.id));
+  await deleteMediaFile(asset.storagePath);
+}
+
+/**
+ * Delete an asset and its file, taking it out of the post body or JSON-LD
+ */
+export async function deleteMediaAsset(id: string, options: MediaEditOptions = {}): Promise<void> {
+  const asset = await db.query.mediaAssets.findFirst({
+    where: eq(mediaAssets.id, id),
+  });
+  if (!asset) {
+    throw new MediaError('NOT_FOUND', 'Media asset not found');
+  }
+
+  await syncAssetIntoPost(asset, { remove: true }, options.createdBy);
+  await removeAsset(asset);
+}
+
+/**
+ * Remove a post's image files before the post is deleted (the rows go
+ * with it)
+ */
+export async function deletePostMediaFiles(postId: string): Promise<void> {
+  for (const asset of await listPostMedia(postId)) {
+    await deleteMediaFile(asset.storagePath);
+  }
+}
+
+// ============================================================================
+// SHOPIFY
+// ============================================================================
+
+/**
+ * The hero image to send with a Shopify article write, or null when there
+ * is none or it is already on the article. New articles always get it.
+ */
+export async function getShopifyArticleImage(
+  postId: string,
+  options: { newArticle: boolean }
+): Promise<{ assetId: string; image: ShopifyArticleImage } | null> {
+  const hero = await getHeroImage(postId);
+  if (!hero || (hero.shopifyImageSrc && !options.newArticle)) {
+    return null;
+  }
+
+  const data = await readMediaFile(hero.storagePath);
+  return {
+    assetId: hero.id,
+    image: { attachment: data.toString('base64'), alt: hero.altText },
+  };
+}
+
+/**
+ * Remember the CDN URL Shopify gave the uploaded hero image
+ */
+export async function markShopifyImageUploaded(assetId: string, src: string): Promise<void> {
+  await db
+    .update(mediaAssets)
+    .set({ shopifyImageSrc: src })
+    .where(eq(mediaAssets.id, assetId));
+}
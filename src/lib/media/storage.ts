@@ -0,0 +1,168 @@
+/**
+ * Media Storage
+ *
+ * Local disk storage for post images. Files are written under MEDIA_DIR
+ * (default ./media) as <postId>/<assetId>.<ext>, served at /media by the
+ * app/media route unless MEDIA_BASE_URL points at external storage, and
+ * read back for Shopify uploads. MEDIA_DIR is kept out of public/ because
+ * `next start` only serves files that existed there at build time.
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getEnvironment } from '@/lib/config/env';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ImageDimensions {
+  width: number;
+  height: number;
+}
+
+export interface StoredFile {
+  /** Path relative to MEDIA_DIR */
+  storagePath: string;
+  /** Absolute public URL */
+  url: string;
+  fileSize: number;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+// ============================================================================
+// PATHS
+// ============================================================================
+
+function getMediaRoot(): string {
+  return path.resolve(process.cwd(), getEnvironment().MEDIA_DIR);
+}
+
+/**
+ * Resolve a stored path, refusing anything that escapes MEDIA_DIR
+ */
+function resolveStoragePath(storagePath: string): string {
+  const root = getMediaRoot();
+  const fullPath = path.resolve(root, storagePath);
+  if (!fullPath.startsWith(root + path.sep)) {
+    throw new Error(`Invalid media path: ${storagePath}`);
+  }
+  return fullPath;
+}
+
+/**
+ * MIME type of a stored file, from its extension
+ */
+export function getMediaMimeType(storagePath: string): string | null {
+  const ext = path.extname(storagePath).slice(1).toLowerCase();
+  const match = Object.entries(EXTENSIONS).find(([, extension]) => extension === ext);
+  return match?.[0] ?? null;
+}
+
+/**
+ * Public URL for a stored file
+ */
+export function getMediaUrl(storagePath: string): string {
+  const env = getEnvironment();
+  const base = env.MEDIA_BASE_URL || `${env.NEXT_PUBLIC_APP_URL}/media`;
+  return `${base.replace(/\/+$/, '')}/${storagePath.split(path.sep).join('/')}`;
+}
+
+// ============================================================================
+// READ / WRITE
+// ============================================================================
+
+/**
+ * Write an image for a post to disk
+ */
+export async function saveMediaFile(
+  data: Buffer,
+  options: { postId: string; assetId: string; mimeType: string }
+): Promise<StoredFile> {
+  const ext = EXTENSIONS[options.mimeType];
+  if (!ext) {
+    throw new Error(`Unsupported image type: ${options.mimeType}`);
+  }
+
+  const storagePath = path.join(options.postId, `${options.assetId}.${ext}`);
+  const fullPath = resolveStoragePath(storagePath);
+
+  await fs.mkdir(path.dirname(fullPath), { recursive: true });
+  await fs.writeFile(fullPath, data);
+
+  return {
+    storagePath,
+    url: getMediaUrl(storagePath),
+    fileSize: data.length,
+  };
+}
+
+export async function readMediaFile(storagePath: string): Promise<Buffer> {
+  return fs.readFile(resolveStoragePath(storagePath));
+}
+
+/**
+ * Remove a stored file. Missing files are ignored.
+ */
+export async function deleteMediaFile(storagePath: string): Promise<void> {
+  await fs.rm(resolveStoragePath(storagePath), { force: true });
+}
+
+// ============================================================================
+// DIMENSIONS
+// ============================================================================
+
+/**
+ * Read width and height from a PNG, JPEG, GIF or WebP header.
+ * Returns null for formats (or truncated files) it can't parse.
+ */
+export function readImageDimensions(data: Buffer): ImageDimensions | null {
+  // PNG: IHDR is always the first chunk
+  if (data.length >= 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+
+  // GIF: logical screen size
+  if (data.length >= 10 && data.toString('ascii', 0, 3) === 'GIF') {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+
+  // WebP: lossy, lossless and extended headers
+  if (data.length >= 30 && data.toString('ascii', 0, 4) === 'RIFF' && data.toString('ascii', 8, 12) === 'WEBP') {
+    const chunk = data.toString('ascii', 12, 16);
+    if (chunk === 'VP8 ') {
+      return { width: data.readUInt16LE(26) & 0x3fff, height: data.readUInt16LE(28) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    return null;
+  }
+
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (data.length >= 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) return null;
+      const marker = data[offset + 1];
+      const isStartOfFrame =
+        marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+
+  return null;
+}
@@ -11,6 +11,7 @@ import {
   extractChemicalNames,
   getCollectionByHandle,
 } from '@/lib/shopify/product-matcher';
+import { loadProductCatalog } from '@/lib/shopify/product-catalog';
 import type { TopicSuggestion, ContentAngle } from '@/lib/discovery/topic-finder';
 import { angleToContentType } from '@/lib/discovery/topic-finder';
 import type { ShopifyContentType } from '@/lib/shopify/content-types';
@@ -176,8 +177,9 @@ export async function generateOutline(
   const faqCount = options.faqCount ?? 5;
 
   // Get relevant products
-  const products = matchTopicToProducts(topic.topic, { maxResults: 5 });
-  const chemicals = extractChemicalNames(topic.topic);
+  const catalog = await loadProductCatalog();
+  const products = matchTopicToProducts(topic.topic, { maxResults: 5, catalog });
+  const chemicals = extractChemicalNames(topic.topic, catalog);
 
   // Map angle to content type
   const contentType = angleToContentType(topic.angle);
@@ -398,7 +400,7 @@ export async function suggestFAQs(
     industryFocus?: string;
   }
 ): Promise<FAQOutlineItem[]> {
-  const chemicals = extractChemicalNames(topic);
+  const chemicals = extractChemicalNames(topic, await loadProductCatalog());
 
   const systemPrompt = `You are an SEO specialist for Alliance Chemical.
 Generate FAQ questions that:
@@ -0,0 +1,677 @@
+/**
+ * Content Decay Detection
+ *
+ * Flags published posts that need a refresh and files a "refresh" content
+ * idea for each, linked to the post, with a brief naming the sections to
+ * regenerate. Signals:
+ * - clicks_drop / position_drop: the trailing window of stored Search
+ *   Console history against the window before it
+ * - stale: last update well behind the rest of the post's cluster
+ * - outdated_year: recent past years presented as current
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, contentIdeas, searchPerformance } from '@/lib/db/schema';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { DECAY_CONFIG } from '@/lib/config/constants';
+import { recordStatusChange } from '@/lib/workflow/status-machine';
+import type { DecaySignal, RefreshBrief, Section } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DecayScanOptions {
+  /** Report only, create no ideas */
+  dryRun?: boolean;
+  /** Limit the scan to these posts (published ones only) */
+  postIds?: string[];
+  /** Reference time for staleness and outdated years (default now) */
+  now?: Date;
+  /** Recorded on the status audit of created ideas */
+  createdBy?: string;
+}
+
+export interface DecayCandidate {
+  postId: string;
+  title: string;
+  slug: string;
+  signals: DecaySignal[];
+  refreshBrief: RefreshBrief;
+}
+
+export interface DecayScanResult {
+  scanned: number;
+  flagged: DecayCandidate[];
+  ideasCreated: Array<{ ideaId: string; postId: string }>;
+  /** Flagged posts that already have an open refresh idea */
+  skippedExisting: string[];
+  /** Compared windows, null without Search Console history */
+  windows: { recent: { from: string; to: string }; prior: { from: string; to: string } } | null;
+  dryRun: boolean;
+}
+
+type PostRow = Pick<
+  typeof blogPosts.$inferSelect,
+  | 'id'
+  | 'title'
+  | 'slug'
+  | 'metaTitle'
+  | 'metaDescription'
+  | 'heroAnswer'
+  | 'sections'
+  | 'clusterTopicId'
+  | 'primaryKeyword'
+  | 'secondaryKeywords'
+  | 'searchIntent'
+  | 'updatedAt'
+>;
+
+interface WindowTotals {
+  recentClicks: number;
+  recentImpressions: number;
+  recentPosition: number | null;
+  priorClicks: number;
+  priorImpressions: number;
+  priorPosition: number | null;
+}
+
+interface LostQuery {
+  query: string;
+  priorClicks: number;
+  recentClicks: number;
+}
+
+interface SectionTarget {
+  section: Section;
+  reasons: string[];
+  instructions: string[];
+}
+
+const DAY_MS = 86_400_000;
+
+// Refresh ideas still waiting to be processed
+const OPEN_IDEA_STATUSES = ['idea', 'brief'];
+
+// Lost queries matched to sections per post
+const MAX_LOST_QUERIES = 3;
+
+// Body phrases that present a year as current ("as of 2022", "2021 prices")
+const CURRENT_YEAR_PHRASES = [
+  /\b(?:as of|updated (?:for|in)|for|latest|current(?:ly)?|this year'?s?)\s+(20\d{2})\b/gi,
+  /\b(20\d{2})\s+(?:edition|update|guide|prices?|pricing|rates?|rules?|regulations?|requirements?|standards?)\b/gi,
+];
+
+// Sections most likely to carry facts that age
+const TIME_SENSITIVE_PATTERN =
+  /\b(?:20\d{2}|\d+(?:\.\d+)?%|\$\d|price|cost|regulat\w*|standard|osha|epa|dot|requirement)\b/i;
+
+// ============================================================================
+// SCAN
+// ============================================================================
+
+/**
+ * Find decaying published posts and (unless dry run) create a refresh idea
+ * for each one that doesn't already have an open refresh idea
+ */
+export async function detectContentDecay(options: DecayScanOptions = {}): Promise<DecayScanResult> {
+  const now = options.now ?? new Date();
+
+  const posts = await db.query.blogPosts.findMany({
+    where: options.postIds
+      ? and(eq(blogPosts.status, 'published'), inArray(blogPosts.id, options.postIds))
+      : eq(blogPosts.status, 'published'),
+    columns: {
+      id: true,
+      title: true,
+      slug: true,
+      metaTitle: true,
+      metaDescription: true,
+      heroAnswer: true,
+      sections: true,
+      clusterTopicId: true,
+      primaryKeyword: true,
+      secondaryKeywords: true,
+      searchIntent: true,
+      updatedAt: true,
+    },
+  });
+
+  const windows = await getComparisonWindows();
+  const totals = windows ? await loadWindowTotals(posts.map((p) => p.id), windows) : new Map();
+  const clusterMedians = await loadClusterMedianAges(now);
+
+  const flagged: DecayCandidate[] = [];
+  const dropped: string[] = [];
+  const yearsByPost = new Map<string, Map<string, number[]>>();
+
+  for (const post of posts) {
+    const signals: DecaySignal[] = [];
+
+    const total = totals.get(post.id);
+    if (total) {
+      signals.push(...performanceSignals(total));
+    }
+
+    const stale = staleSignal(post, clusterMedians, now);
+    if (stale) signals.push(stale);
+
+    const years = findOutdatedYears(post, now);
+    if (years.signal) signals.push(years.signal);
+    yearsByPost.set(post.id, years.bySection);
+
+    if (signals.length === 0) continue;
+    if (signals.some((s) => s.type === 'clicks_drop' || s.type === 'position_drop')) {
+      dropped.push(post.id);
+    }
+
+    flagged.push({
+      postId: post.id,
+      title: post.title,
+      slug: post.slug,
+      signals,
+      refreshBrief: { signals, sections: [], notes: years.notes, detectedAt: now.toISOString() },
+    });
+  }
+
+  // Sections for traffic drops follow the queries that lost the most clicks
+  const lostQueries = windows && dropped.length > 0 ? await loadLostQueries(dropped, windows) : new Map();
+  const postsById = new Map(posts.map((p) => [p.id, p]));
+
+  for (const candidate of flagged) {
+    const post = postsById.get(candidate.postId)!;
+    candidate.refreshBrief.sections = buildSectionTargets(
+      post,
+      candidate.signals,
+      lostQueries.get(post.id) ?? [],
+      yearsByPost.get(post.id) ?? new Map(),
+      now
+    );
+  }
+
+  const existing = await findOpenRefreshIdeas(flagged.map((c) => c.postId));
+  const skippedExisting = flagged.filter((c) => existing.has(c.postId)).map((c) => c.postId);
+  const ideasCreated: DecayScanResult['ideasCreated'] = [];
+
+  if (!options.dryRun) {
+    for (const candidate of flagged) {
+      if (existing.has(candidate.postId)) continue;
+      const ideaId = await createRefreshIdea(postsById.get(candidate.postId)!, candidate, options.createdBy);
+      ideasCreated.push({ ideaId, postId: candidate.postId });
+    }
+  }
+
+  return {
+    scanned: posts.length,
+    flagged,
+    ideasCreated,
+    skippedExisting,
+    windows,
+    dryRun: !!options.dryRun,
+  };
+}
+
+// ============================================================================
+// PERFORMANCE SIGNALS
+// ============================================================================
+
+function shiftDate(date: string, days: number): string {
+  return new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * The trailing window ending at the newest stored day, and the one before it
+ */
+async function getComparisonWindows(): Promise<DecayScanResult['windows']> {
+  const [latest] = await db
+    .select({ date: searchPerformance.date })
+    .from(searchPerformance)
+    .orderBy(desc(searchPerformance.date))
+    .limit(1);
+  if (!latest) return null;
+
+  const recentFrom = shiftDate(latest.date, -(DECAY_CONFIG.windowDays - 1));
+  return {
+    recent: { from: recentFrom, to: latest.date },
+    prior: { from: shiftDate(recentFrom, -DECAY_CONFIG.windowDays), to: shiftDate(recentFrom, -1) },
+  };
+}
+
+/**
+ * Clicks, impressions and average position per post for both windows.
+ * Like the rollup, each day uses the page-level row when there is one.
+ */
+async function loadWindowTotals(
+  postIds: string[],
+  windows: NonNullable<DecayScanResult['windows']>
+): Promise<Map<string, WindowTotals>> {
+  if (postIds.length === 0) return new Map();
+
+  const rows = await db.execute<{
+    blog_post_id: string;
+    recent_clicks: number | null;
+    recent_impressions: number | null;
+    recent_weighted: number | null;
+    prior_clicks: number | null;
+    prior_impressions: number | null;
+    prior_weighted: number | null;
+  }>(sql`
+    WITH daily AS (
+      SELECT
+        blog_post_id,
+        date,
+        CASE WHEN bool_or(query = '') THEN sum(clicks) FILTER (WHERE query = '') ELSE sum(clicks) END AS clicks,
+        CASE WHEN bool_or(query = '') THEN sum(impressions) FILTER (WHERE query = '') ELSE sum(impressions) END AS impressions,
+        CASE WHEN bool_or(query = '')
+          THEN sum(position * impressions) FILTER (WHERE query = '')
+          ELSE sum(position * impressions)
+        END AS weighted_position
+      FROM search_performance
+      WHERE date >= ${windows.prior.from}
+        AND blog_post_id IN (${sql.join(postIds.map((id) => sql`${id}`), sql`, `)})
+      GROUP BY blog_post_id, date
+    )
+    SELECT
+      blog_post_id,
+      sum(clicks) FILTER (WHERE date >= ${windows.recent.from}) AS recent_clicks,
+      sum(impressions) FILTER (WHERE date >= ${windows.recent.from}) AS recent_impressions,
+      sum(weighted_position) FILTER (WHERE date >= ${windows.recent.from}) AS recent_weighted,
+      sum(clicks) FILTER (WHERE date < ${windows.recent.from}) AS prior_clicks,
+      sum(impressions) FILTER (WHERE date < ${windows.recent.from}) AS prior_impressions,
+      sum(weighted_position) FILTER (WHERE date < ${windows.recent.from}) AS prior_weighted
+    FROM daily
+    GROUP BY blog_post_id
+  `);
+
+  const position = (weighted: number | null, impressions: number) =>
+    impressions > 0 && weighted != null ? Math.round((Number(weighted) / impressions) * 10) / 10 : null;
+
+  return new Map(
+    Array.from(rows).map((row) => {
+      const recentImpressions = Number(row.recent_impressions ?? 0);
+      const priorImpressions = Number(row.prior_impressions ?? 0);
+      return [
+        row.blog_post_id,
+        {
+          recentClicks: Number(row.recent_clicks ?? 0),
+          recentImpressions,
+          recentPosition: position(row.recent_weighted, recentImpressions),
+          priorClicks: Number(row.prior_clicks ?? 0),
+          priorImpressions,
+          priorPosition: position(row.prior_weighted, priorImpressions),
+        },
+      ];
+    })
+  );
+}
+
+function performanceSignals(total: WindowTotals): DecaySignal[] {
+  const signals: DecaySignal[] = [];
+  const days = DECAY_CONFIG.windowDays;
+
+  if (total.priorClicks >= DECAY_CONFIG.minBaselineClicks) {
+    const drop = (total.priorClicks - total.recentClicks) / total.priorClicks;
+    if (drop >= DECAY_CONFIG.clicksDropRatio) {
+      signals.push({
+        type: 'clicks_drop',
+        detail: `Clicks down ${Math.round(drop * 100)}% (${total.priorClicks} → ${total.recentClicks}) over the last ${days} days`,
+        metrics: { priorClicks: total.priorClicks, recentClicks: total.recentClicks },
+      });
+    }
+  }
+
+  if (
+    total.priorPosition != null &&
+    total.recentPosition != null &&
+    total.priorImpressions >= DECAY_CONFIG.minBaselineImpressions &&
+    total.recentImpressions >= DECAY_CONFIG.minBaselineImpressions
+  ) {
+    const drop = Math.round((total.recentPosition - total.priorPosition) * 10) / 10;
+    if (drop >= DECAY_CONFIG.positionDrop) {
+      signals.push({
+        type: 'position_drop',
+        detail: `Average position fell from ${total.priorPosition} to ${total.recentPosition} over the last ${days} days`,
+        metrics: { priorPosition: total.priorPosition, recentPosition: total.recentPosition },
+      });
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Queries that lost the most clicks between the windows, per post
+ */
+async function loadLostQueries(
+  postIds: string[],
+  windows: NonNullable<DecayScanResult['windows']>
+): Promise<Map<string, LostQuery[]>> {
+  const rows = await db.execute<{
+    blog_post_id: string;
+    query: string;
+    recent_clicks: number | null;
+    prior_clicks: number | null;
+  }>(sql`
+    SELECT
+      blog_post_id,
+      query,
+      sum(clicks) FILTER (WHERE date >= ${windows.recent.from}) AS recent_clicks,
+      sum(clicks) FILTER (WHERE date < ${windows.recent.from}) AS prior_clicks
+    FROM search_performance
+    WHERE query <> ''
+      AND date >= ${windows.prior.from}
+      AND blog_post_id IN (${sql.join(postIds.map((id) => sql`${id}`), sql`, `)})
+    GROUP BY blog_post_id, query
+  `);
+
+  const byPost = new Map<string, LostQuery[]>();
+  for (const row of rows) {
+    const lost: LostQuery = {
+      query: row.query,
+      priorClicks: Number(row.prior_clicks ?? 0),
+      recentClicks: Number(row.recent_clicks ?? 0),
+    };
+    if (lost.priorClicks <= lost.recentClicks) continue;
+    const list = byPost.get(row.blog_post_id) ?? [];
+    list.push(lost);
+    byPost.set(row.blog_post_id, list);
+  }
+
+  for (const [postId, list] of byPost) {
+    byPost.set(
+      postId,
+      list
+        .sort((a, b) => b.priorClicks - b.recentClicks - (a.priorClicks - a.recentClicks))
+        .slice(0, MAX_LOST_QUERIES)
+    );
+  }
+  return byPost;
+}
+
+// ============================================================================
+// CONTENT SIGNALS
+// ============================================================================
+
+function ageInDays(date: Date, now: Date): number {
+  return Math.floor((now.getTime() - date.getTime()) / DAY_MS);
+}
+
+/**
+ * Median age in days of the last update of published posts, per cluster
+ * (clusters with at least two posts)
+ */
+async function loadClusterMedianAges(now: Date): Promise<Map<string, number>> {
+  const rows = await db
+    .select({ clusterTopicId: blogPosts.clusterTopicId, updatedAt: blogPosts.updatedAt })
+    .from(blogPosts)
+    .where(and(eq(blogPosts.status, 'published'), sql`${blogPosts.clusterTopicId} IS NOT NULL`));
+
+  const ages = new Map<string, number[]>();
+  for (const row of rows) {
+    const list = ages.get(row.clusterTopicId!) ?? [];
+    list.push(ageInDays(row.updatedAt, now));
+    ages.set(row.clusterTopicId!, list);
+  }
+
+  const medians = new Map<string, number>();
+  for (const [clusterId, list] of ages) {
+    if (list.length < 2) continue;
+    const sorted = list.sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    medians.set(clusterId, sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2));
+  }
+  return medians;
+}
+
+function staleSignal(post: PostRow, clusterMedians: Map<string, number>, now: Date): DecaySignal | null {
+  if (!post.clusterTopicId) return null;
+  const median = clusterMedians.get(post.clusterTopicId);
+  if (median === undefined) return null;
+
+  const age = ageInDays(post.updatedAt, now);
+  if (age - median < DECAY_CONFIG.staleDaysBehindCluster) return null;
+
+  return {
+    type: 'stale',
+    detail: `Last updated ${age} days ago; the cluster's median is ${median} days`,
+    metrics: { ageDays: age, clusterMedianDays: median },
+  };
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ');
+}
+
+function isOutdatedYear(year: number, now: Date): boolean {
+  const current = now.getUTCFullYear();
+  return year < current && year >= current - DECAY_CONFIG.outdatedYearLookback;
+}
+
+/**
+ * Outdated years in headings (any mention) or in body text (only where a
+ * phrase presents them as current - "in 2015" is history, "as of 2022" is
+ * not). Title and meta mentions become notes for the editor.
+ */
+function findOutdatedYears(
+  post: PostRow,
+  now: Date
+): { signal: DecaySignal | null; notes: string[]; bySection: Map<string, number[]> } {
+  const yearsIn = (text: string) =>
+    [...text.matchAll(/\b(20\d{2})\b/g)].map((m) => Number(m[1])).filter((y) => isOutdatedYear(y, now));
+  const currentYearsIn = (text: string) =>
+    CURRENT_YEAR_PHRASES.flatMap((pattern) => [...text.matchAll(pattern)])
+      .map((m) => Number(m[1]))
+      .filter((y) => isOutdatedYear(y, now));
+
+  const notes: string[] = [];
+  const fieldYears = new Set<number>();
+  const fields: Array<[string, string]> = [
+    ['Title', post.title],
+    ['Meta title', post.metaTitle],
+    ['Meta description', post.metaDescription],
+  ];
+  for (const [label, text] of fields) {
+    const years = [...new Set(yearsIn(text))];
+    if (years.length > 0) {
+      notes.push(`${label} mentions ${years.join(', ')}: "${text}"`);
+      years.forEach((y) => fieldYears.add(y));
+    }
+  }
+  const heroYears = [...new Set(currentYearsIn(post.heroAnswer))];
+  if (heroYears.length > 0) {
+    notes.push(`Hero answer presents ${heroYears.join(', ')} as current`);
+    heroYears.forEach((y) => fieldYears.add(y));
+  }
+
+  const bySection = new Map<string, number[]>();
+  for (const section of post.sections) {
+    const years = [...new Set([...yearsIn(section.headingText), ...currentYearsIn(stripTags(section.body))])];
+    if (years.length > 0) bySection.set(section.id, years.sort((a, b) => a - b));
+  }
+
+  if (bySection.size === 0 && notes.length === 0) {
+    return { signal: null, notes, bySection };
+  }
+
+  const allYears = [...new Set([...bySection.values()].flat().concat([...fieldYears]))].sort((a, b) => a - b);
+  const places = [
+    bySection.size > 0 ? `${bySection.size} section${bySection.size === 1 ? '' : 's'}` : null,
+    notes.length > 0 ? `${notes.length} other field${notes.length === 1 ? '' : 's'}` : null,
+  ].filter(Boolean);
+
+  return {
+    signal: {
+      type: 'outdated_year',
+      detail: `Presents ${allYears.join(', ')} as current in ${places.join(' and ')}`,
+      metrics: { sections: bySection.size, fields: notes.length },
+    },
+    notes,
+    bySection,
+  };
+}
+
+// ============================================================================
+// BRIEF
+// ============================================================================
+
+function queryTerms(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((t) => t.length > 2);
+}
+
+/**
+ * Section whose heading and body share the most terms with the query
+ * (heading matches count double)
+ */
+function bestSectionForQuery(sections: Section[], query: string): Section | null {
+  const terms = queryTerms(query);
+  let best: { section: Section; score: number } | null = null;
+
+  for (const section of sections) {
+    const heading = new Set(queryTerms(section.headingText));
+    const body = new Set(queryTerms(stripTags(section.body)));
+    const score = terms.reduce((sum, t) => sum + (heading.has(t) ? 2 : 0) + (body.has(t) ? 1 : 0), 0);
+    if (score > 0 && (!best || score > best.score)) {
+      best = { section, score };
+    }
+  }
+  return best?.section ?? null;
+}
+
+/**
+ * Pick the sections to regenerate and write instructions for each.
+ * Outdated years come first, then sections tied to lost queries, then
+ * time-sensitive sections of stale posts.
+ */
+function buildSectionTargets(
+  post: PostRow,
+  signals: DecaySignal[],
+  lostQueries: LostQuery[],
+  yearsBySection: Map<string, number[]>,
+  now: Date
+): RefreshBrief['sections'] {
+  const targets = new Map<string, SectionTarget>();
+  const add = (section: Section, reason: string, instruction: string) => {
+    const target = targets.get(section.id) ?? { section, reasons: [], instructions: [] };
+    target.reasons.push(reason);
+    target.instructions.push(instruction);
+    targets.set(section.id, target);
+  };
+  const currentYear = now.getUTCFullYear();
+
+  if (signals.some((s) => s.type === 'outdated_year')) {
+    for (const section of post.sections) {
+      const years = yearsBySection.get(section.id);
+      if (!years) continue;
+      add(
+        section,
+        `Presents ${years.join(', ')} as current`,
+        `Update references to ${years.join(', ')} for ${currentYear}: check that figures, prices, ` +
+          'regulations and standards are still current, and date-stamp or remove anything that no longer holds.'
+      );
+    }
+  }
+
+  if (signals.some((s) => s.type === 'clicks_drop' || s.type === 'position_drop')) {
+    const matched = lostQueries
+      .map((q) => ({ query: q, section: bestSectionForQuery(post.sections, q.query) }))
+      .filter((m): m is { query: LostQuery; section: Section } => m.section !== null);
+
+    for (const { query, section } of matched) {
+      add(
+        section,
+        `Lost clicks for "${query.query}" (${query.priorClicks} → ${query.recentClicks})`,
+        `Answer "${query.query}" directly in the opening sentences, then add current specifics, ` +
+          'examples and practical detail that competing pages are likely to cover.'
+      );
+    }
+    if (matched.length === 0 && post.sections[0]) {
+      add(
+        post.sections[0],
+        'Search traffic dropped',
+        `Tighten this section around "${post.primaryKeyword}": lead with a direct answer and add current, specific detail.`
+      );
+    }
+  }
+
+  const stale = signals.find((s) => s.type === 'stale');
+  if (stale) {
+    const timeSensitive = post.sections.filter((s) =>
+      TIME_SENSITIVE_PATTERN.test(`${s.headingText} ${stripTags(s.body)}`)
+    );
+    const picks = (timeSensitive.length > 0 ? timeSensitive : post.sections).slice(0, 2);
+    const updated = post.updatedAt.toISOString().slice(0, 10);
+    for (const section of picks) {
+      add(
+        section,
+        stale.detail,
+        `Review for accuracy as of ${currentYear}: refresh facts, figures and product or safety guidance, ` +
+          `and add anything that has changed since ${updated}.`
+      );
+    }
+  }
+
+  return [...targets.values()].slice(0, DECAY_CONFIG.maxSectionsPerRefresh).map((target) => ({
+    sectionId: target.section.id,
+    headingText: target.section.headingText,
+    reason: target.reasons.join('; ').slice(0, 500),
+    instructions: target.instructions.join(' ').slice(0, 2000),
+  }));
+}
+
+// ============================================================================
+// IDEAS
+// ============================================================================
+
+/**
+ * Posts that already have a refresh idea waiting to be processed
+ */
+async function findOpenRefreshIdeas(postIds: string[]): Promise<Set<string>> {
+  if (postIds.length === 0) return new Set();
+
+  const rows = await db
+    .select({ blogPostId: contentIdeas.blogPostId })
+    .from(contentIdeas)
+    .where(
+      and(
+        eq(contentIdeas.kind, 'refresh'),
+        inArray(contentIdeas.status, OPEN_IDEA_STATUSES),
+        inArray(contentIdeas.blogPostId, postIds)
+      )
+    );
+  return new Set(rows.map((r) => r.blogPostId!));
+}
+
+/**
+ * File a refresh idea for a post. It starts at 'brief' since the refresh
+ * brief is already written.
+ */
+async function createRefreshIdea(
+  post: PostRow,
+  candidate: DecayCandidate,
+  createdBy?: string
+): Promise<string> {
+  const [idea] = await db
+    .insert(contentIdeas)
+    .values({
+      topic: `Refresh: ${post.title}`.slice(0, 300),
+      primaryKeyword: post.primaryKeyword,
+      secondaryKeywords: post.secondaryKeywords,
+      searchIntent: post.searchIntent,
+      suggestedSlug: post.slug.slice(0, 100),
+      clusterTopicId: post.clusterTopicId,
+      status: 'brief',
+      kind: 'refresh',
+      refreshBrief: candidate.refreshBrief,
+      justification: candidate.signals.map((s) => s.detail).join('. ').slice(0, 1000),
+      blogPostId: post.id,
+      aiGenerated: false,
+    })
+    .returning({ id: contentIdeas.id });
+
+  await recordStatusChange('idea', idea.id, null, 'brief', {
+    changedBy: createdBy ?? 'decay-scan',
+    reason: 'Content decay detected',
+  });
+
+  return idea.id;
+}
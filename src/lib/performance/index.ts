@@ -0,0 +1,50 @@
+/**
+ * Performance Module
+ *
+ * Search Console ingestion: export parsing, daily history and the
+ * rollup into blogPosts.performance. Content decay detection and the
+ * refresh ideas it files.
+ */
+
+// Exports
+export {
+  parseSearchConsoleExport,
+  detectExportFormat,
+  buildStandInExport,
+  PerformanceImportError,
+  type ExportFormat,
+  type SearchConsoleDimension,
+  type SearchPerformanceRecord,
+  type StandInExport,
+  type ParseOptions,
+  type PerformanceImportErrorCode,
+} from './search-console';
+
+// Store
+export {
+  importSearchPerformance,
+  rollupPerformance,
+  getPerformanceHistory,
+  normalizePageUrl,
+  type PerformanceImportResult,
+  type PerformanceHistory,
+} from './performance-store';
+
+// Decay
+export {
+  detectContentDecay,
+  type DecayScanOptions,
+  type DecayScanResult,
+  type DecayCandidate,
+} from './decay';
+
+// Refresh
+export {
+  refreshPostFromIdea,
+  applyRefreshDraft,
+  getRefreshIdea,
+  RefreshError,
+  type RefreshErrorCode,
+  type RefreshOptions,
+  type RefreshResult,
+} from './refresh';
@@ -0,0 +1,376 @@
+/**
+ * Search Performance Store
+ *
+ * Matches Search Console rows to posts, stores them as daily history in
+ * search_performance, and rolls the most recent window up into each
+ * post's `performance` metrics (which retrieval uses to rank exemplars).
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, searchPerformance } from '@/lib/db/schema';
+import { and, desc, eq, gte, inArray, sql } from 'drizzle-orm';
+import { SEARCH_PERFORMANCE_CONFIG } from '@/lib/config/constants';
+import type { PerformanceMetrics } from '@/lib/schema/canonical';
+import type { SearchPerformanceRecord } from './search-console';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface PerformanceImportResult {
+  rowsRead: number;
+  rowsMatched: number;
+  /** Distinct post/day/query rows written (re-imports overwrite) */
+  rowsStored: number;
+  postsUpdated: number;
+  dateRange: { from: string; to: string } | null;
+  /** Pages with the most impressions that matched no post */
+  unmatchedPages: Array<{ page: string; impressions: number }>;
+  dryRun: boolean;
+}
+
+export interface PerformanceHistory {
+  daily: Array<{ date: string; clicks: number; impressions: number; position: number | null }>;
+  topQueries: Array<{ query: string; clicks: number; impressions: number; position: number | null }>;
+}
+
+interface PostUrlKeys {
+  id: string;
+  slug: string;
+  canonicalUrl: string;
+  shopifyArticleHandle: string | null;
+}
+
+// ============================================================================
+// MATCHING
+// ============================================================================
+
+/**
+ * Comparable form of a URL: host without www, path without trailing
+ * slash, no protocol, query or fragment
+ */
+export function normalizePageUrl(url: string): string {
+  const trimmed = url.trim().toLowerCase();
+  try {
+    const parsed = new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`);
+    const host = parsed.hostname.replace(/^www\./, '');
+    return `${host}${parsed.pathname.replace(/\/+$/, '')}`;
+  } catch {
+    return trimmed.split(/[?#]/)[0].replace(/\/+$/, '');
+  }
+}
+
+function lastPathSegment(url: string): string | null {
+  const path = url.split(/[?#]/)[0].replace(/\/+$/, '');
+  const segment = path.split('/').pop();
+  return segment ? decodeURIComponent(segment).toLowerCase() : null;
+}
+
+/**
+ * Resolve a page URL to a post: exact canonical URL first, then the last
+ * path segment as slug or Shopify article handle
+ */
+function buildPageMatcher(posts: PostUrlKeys[]): (page: string) => string | null {
+  const byUrl = new Map<string, string>();
+  const bySegment = new Map<string, string>();
+
+  for (const post of posts) {
+    byUrl.set(normalizePageUrl(post.canonicalUrl), post.id);
+    bySegment.set(post.slug.toLowerCase(), post.id);
+    if (post.shopifyArticleHandle) {
+      bySegment.set(post.shopifyArticleHandle.toLowerCase(), post.id);
+    }
+  }
+
+  const cache = new Map<string, string | null>();
+  return (page: string) => {
+    if (cache.has(page)) return cache.get(page)!;
+    const segment = lastPathSegment(page);
+    const id = byUrl.get(normalizePageUrl(page)) ?? (segment ? bySegment.get(segment) : undefined) ?? null;
+    cache.set(page, id);
+    return id;
+  };
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/**
+ * Store parsed export rows and refresh the affected posts' performance.
+ * Several URLs for the same post (e.g. with and without www) are summed.
+ */
+export async function importSearchPerformance(
+  records: SearchPerformanceRecord[],
+  options: { source: string; dryRun?: boolean }
+): Promise<PerformanceImportResult> {
+  const posts = await db.query.blogPosts.findMany({
+    columns: { id: true, slug: true, canonicalUrl: true, shopifyArticleHandle: true },
+  });
+  const matchPage = buildPageMatcher(posts);
+
+  const merged = new Map<
+    string,
+    SearchPerformanceRecord & { blogPostId: string; weightedPosition: number; positionImpressions: number }
+  >();
+  const unmatched = new Map<string, number>();
+  let rowsMatched = 0;
+
+  for (const record of records) {
+    const blogPostId = matchPage(record.page);
+    if (!blogPostId) {
+      unmatched.set(record.page, (unmatched.get(record.page) ?? 0) + record.impressions);
+      continue;
+    }
+    rowsMatched++;
+
+    const key = `${blogPostId}|${record.date}|${record.query}`;
+    const existing = merged.get(key);
+    // Rows without a position don't count towards the average position
+    const positionImpressions = record.position != null ? record.impressions : 0;
+    const weighted = (record.position ?? 0) * positionImpressions;
+    if (existing) {
+      existing.clicks += record.clicks;
+      existing.impressions += record.impressions;
+      existing.weightedPosition += weighted;
+      existing.positionImpressions += positionImpressions;
+      existing.position ??= record.position;
+    } else {
+      merged.set(key, { ...record, blogPostId, weightedPosition: weighted, positionImpressions });
+    }
+  }
+
+  const rows = [...merged.values()].map((row) => ({
+    blogPostId: row.blogPostId,
+    date: row.date,
+    query: row.query,
+    page: row.page.slice(0, 500),
+    clicks: row.clicks,
+    impressions: row.impressions,
+    position: row.positionImpressions > 0 ? row.weightedPosition / row.positionImpressions : row.position,
+    source: options.source,
+  }));
+
+  const dates = rows.map((r) => r.date).sort();
+  const postIds = [...new Set(rows.map((r) => r.blogPostId))];
+
+  if (!options.dryRun) {
+    for (let i = 0; i < rows.length; i += SEARCH_PERFORMANCE_CONFIG.insertBatchSize) {
+      await db
+        .insert(searchPerformance)
+        .values(rows.slice(i, i + SEARCH_PERFORMANCE_CONFIG.insertBatchSize))
+        .onConflictDoUpdate({
+          target: [searchPerformance.blogPostId, searchPerformance.date, searchPerformance.query],
+          set: {
+            page: sql`excluded.page`,
+            clicks: sql`excluded.clicks`,
+            impressions: sql`excluded.impressions`,
+            position: sql`excluded.position`,
+            source: sql`excluded.source`,
+            importedAt: new Date(),
+          },
+        });
+    }
+  }
+
+  const postsUpdated = options.dryRun ? postIds.length : await rollupPerformance(postIds);
+
+  return {
+    rowsRead: records.length,
+    rowsMatched,
+    rowsStored: rows.length,
+    postsUpdated,
+    dateRange: dates.length > 0 ? { from: dates[0], to: dates[dates.length - 1] } : null,
+    unmatchedPages: [...unmatched.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, SEARCH_PERFORMANCE_CONFIG.maxUnmatchedReported)
+      .map(([page, impressions]) => ({ page, impressions })),
+    dryRun: !!options.dryRun,
+  };
+}
+
+// ============================================================================
+// ROLLUP
+// ============================================================================
+
+/**
+ * First day of the rollup window, counted back from the newest stored day
+ */
+async function getWindowStart(): Promise<string | null> {
+  const [latest] = await db
+    .select({ date: searchPerformance.date })
+    .from(searchPerformance)
+    .orderBy(desc(searchPerformance.date))
+    .limit(1);
+  if (!latest) return null;
+
+  const end = new Date(`${latest.date}T00:00:00Z`);
+  const start = new Date(end.getTime() - (SEARCH_PERFORMANCE_CONFIG.rollupWindowDays - 1) * 86_400_000);
+  return start.toISOString().slice(0, 10);
+}
+
+/**
+ * Recompute `performance` for the given posts (default: every post with
+ * history) from the rollup window. Each day uses the page-level row when
+ * there is one, otherwise the sum of its query rows. Conversion events
+ * aren't in Search Console data and are left as they are.
+ */
+export async function rollupPerformance(postIds?: string[]): Promise<number> {
+  const windowStart = await getWindowStart();
+  if (!windowStart) return 0;
+
+  const ids = postIds ?? (
+    await db.selectDistinct({ id: searchPerformance.blogPostId }).from(searchPerformance)
+  ).map((r) => r.id);
+  if (ids.length === 0) return 0;
+
+  const totals = await db.execute<{
+    blog_post_id: string;
+    clicks: number;
+    impressions: number;
+    weighted_position: number | null;
+    position_impressions: number | null;
+  }>(sql`
+    WITH daily AS (
+      SELECT
+        blog_post_id,
+        date,
+        CASE WHEN bool_or(query = '') THEN sum(clicks) FILTER (WHERE query = '') ELSE sum(clicks) END AS clicks,
+        CASE WHEN bool_or(query = '') THEN sum(impressions) FILTER (WHERE query = '') ELSE sum(impressions) END AS impressions,
+        CASE WHEN bool_or(query = '')
+          THEN sum(position * impressions) FILTER (WHERE query = '')
+          ELSE sum(position * impressions)
+        END AS weighted_position,
+        CASE WHEN bool_or(query = '')
+          THEN sum(impressions) FILTER (WHERE query = '' AND position IS NOT NULL)
+          ELSE sum(impressions) FILTER (WHERE position IS NOT NULL)
+        END AS position_impressions
+      FROM search_performance
+      WHERE date >= ${windowStart}
+        AND blog_post_id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)})
+      GROUP BY blog_post_id, date
+    )
+    SELECT
+      blog_post_id,
+      sum(clicks) AS clicks,
+      sum(impressions) AS impressions,
+      sum(weighted_position) AS weighted_position,
+      sum(position_impressions) AS position_impressions
+    FROM daily
+    GROUP BY blog_post_id
+  `);
+
+  const byPost = new Map(Array.from(totals).map((row) => [row.blog_post_id, row]));
+  const current = await db.query.blogPosts.findMany({
+    where: inArray(blogPosts.id, ids),
+    columns: { id: true, performance: true },
+  });
+
+  const syncedAt = new Date().toISOString();
+  for (const post of current) {
+    const row = byPost.get(post.id);
+    const clicks = Number(row?.clicks ?? 0);
+    const impressions = Number(row?.impressions ?? 0);
+    const positionImpressions = Number(row?.position_impressions ?? 0);
+
+    const performance: PerformanceMetrics = {
+      ...post.performance,
+      clicks,
+      impressions,
+      averagePosition: positionImpressions > 0 && row?.weighted_position != null
+        ? Math.round((Number(row.weighted_position) / positionImpressions) * 10) / 10
+        : null,
+      ctr: impressions > 0 ? Math.round((clicks / impressions) * 10000) / 10000 : null,
+      lastSyncedAt: syncedAt,
+    };
+
+    await db
+      .update(blogPosts)
+      .set({ performance })
+      .where(eq(blogPosts.id, post.id));
+  }
+
+  return current.length;
+}
+
+// ============================================================================
+// HISTORY
+// ============================================================================
+
+/**
+ * Daily totals and top queries for a post over the last `days` stored days
+ */
+export async function getPerformanceHistory(
+  postId: string,
+  days: number = SEARCH_PERFORMANCE_CONFIG.rollupWindowDays
+): Promise<PerformanceHistory> {
+  const [latest] = await db
+    .select({ date: searchPerformance.date })
+    .from(searchPerformance)
+    .where(eq(searchPerformance.blogPostId, postId))
+    .orderBy(desc(searchPerformance.date))
+    .limit(1);
+  if (!latest) return { daily: [], topQueries: [] };
+
+  const end = new Date(`${latest.date}T00:00:00Z`);
+  const start = new Date(end.getTime() - (days - 1) * 86_400_000).toISOString().slice(0, 10);
+
+  const rows = await db.query.searchPerformance.findMany({
+    where: and(eq(searchPerformance.blogPostId, postId), gte(searchPerformance.date, start)),
+    orderBy: [searchPerformance.date],
+  });
+
+  // Page-level rows win over summed query rows for the same day
+  const dailyMap = new Map<
+    string,
+    { clicks: number; impressions: number; weighted: number; positionImpressions: number; pageLevel: boolean }
+  >();
+  const queryMap = new Map<string, { clicks: number; impressions: number; weighted: number; positionImpressions: number }>();
+
+  for (const row of rows) {
+    // Rows without a position don't count towards the average position
+    const positionImpressions = row.position != null ? row.impressions : 0;
+    const weighted = (row.position ?? 0) * positionImpressions;
+
+    if (row.query) {
+      const q = queryMap.get(row.query) ?? { clicks: 0, impressions: 0, weighted: 0, positionImpressions: 0 };
+      q.clicks += row.clicks;
+      q.impressions += row.impressions;
+      q.weighted += weighted;
+      q.positionImpressions += positionImpressions;
+      queryMap.set(row.query, q);
+    }
+
+    const day = dailyMap.get(row.date);
+    const pageLevel = row.query === '';
+    if (!day || (pageLevel && !day.pageLevel)) {
+      dailyMap.set(row.date, { clicks: row.clicks, impressions: row.impressions, weighted, positionImpressions, pageLevel });
+    } else if (!pageLevel && !day.pageLevel) {
+      day.clicks += row.clicks;
+      day.impressions += row.impressions;
+      day.weighted += weighted;
+      day.positionImpressions += positionImpressions;
+    }
+  }
+
+  const position = (weighted: number, positionImpressions: number) =>
+    positionImpressions > 0 ? Math.round((weighted / positionImpressions) * 10) / 10 : null;
+
+  return {
+    daily: [...dailyMap.entries()].map(([date, d]) => ({
+      date,
+      clicks: d.clicks,
+      impressions: d.impressions,
+      position: position(d.weighted, d.positionImpressions),
+    })),
+    topQueries: [...queryMap.entries()]
+      .map(([query, q]) => ({
+        query,
+        clicks: q.clicks,
+        impressions: q.impressions,
+        position: position(q.weighted, q.positionImpressions),
+      }))
+      .sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions)
+      .slice(0, 20),
+  };
+}
@@ -0,0 +1,348 @@
+/**
+ * Content Refresh
+ *
+ * Processes a refresh idea: regenerates only the sections its refresh
+ * brief lists, writes them back to the linked post (in `sections` and, for
+ * posts that keep their body in rawHtml, in the HTML too), records a
+ * revision and moves the idea to 'draft'. A published or scheduled post
+ * stays as it is: the rewrite is held on the idea as a refresh draft until
+ * an editor applies it, so the live page never shows unreviewed text and
+ * never drops out of the blog while it waits.
+ */
+
+import * as cheerio from 'cheerio';
+import { db } from '@/lib/db/client';
+import {
+  authors,
+  blogPosts,
+  contentIdeas,
+  type BlogPost as BlogPostRow,
+  type ContentIdea,
+} from '@/lib/db/schema';
+import { and, eq, isNotNull } from 'drizzle-orm';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { reviseSections } from '@/lib/ai/generation/revision-loop';
+import { validateContent, type ValidationResult } from '@/lib/ai/validation/content-validator';
+import { recordRevision } from '@/lib/revisions';
+import { assertTransition, recordStatusChange } from '@/lib/workflow/status-machine';
+import type { Section } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type RefreshErrorCode =
+  | 'NOT_FOUND'
+  | 'NOT_REFRESH_IDEA'
+  | 'INVALID_STATUS'
+  | 'NO_SECTIONS'
+  | 'NO_DRAFT'
+  | 'CONFLICT';
+
+export class RefreshError extends Error {
+  constructor(
+    public code: RefreshErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RefreshError';
+  }
+}
+
+export interface RefreshOptions {
+  createdBy?: string | null;
+  /** Stored on the post revision */
+  note?: string;
+}
+
+export interface RefreshResult {
+  ideaId: string;
+  postId: string;
+  postTitle: string;
+  /** The post is live, so the rewrite waits on the idea (see applyRefreshDraft) */
+  pending: boolean;
+  /** Headings of the sections that were rewritten */
+  refreshedSections: string[];
+  /** Brief sections no longer in the post */
+  missingSections: string[];
+  /** Rewritten sections whose heading wasn't found in rawHtml */
+  unsyncedSections: string[];
+  changeLog: string[];
+  validation: ValidationResult;
+  wordCount: number;
+}
+
+// ============================================================================
+// REFRESH
+// ============================================================================
+
+// A rewrite nobody has read must not replace the content of these posts
+const LIVE_STATUSES: string[] = ['published', 'scheduled'];
+
+/**
+ * Load a refresh idea and check it can be processed. With `allowRefreshed`,
+ * an idea that was already refreshed ('draft') is returned too, so a
+ * retried job can tell it has nothing left to do.
+ */
+export async function getRefreshIdea(
+  ideaId: string,
+  options: { allowRefreshed?: boolean } = {}
+): Promise<ContentIdea> {
+  const idea = await db.query.contentIdeas.findFirst({
+    where: eq(contentIdeas.id, ideaId),
+  });
+  if (!idea) {
+    throw new RefreshError('NOT_FOUND', 'Idea not found');
+  }
+  if (idea.kind !== 'refresh' || !idea.refreshBrief || !idea.blogPostId) {
+    throw new RefreshError('NOT_REFRESH_IDEA', 'Idea is not a refresh idea for an existing post');
+  }
+  if (idea.status !== 'brief' && !(options.allowRefreshed && idea.status === 'draft')) {
+    throw new RefreshError('INVALID_STATUS', `Refresh idea is "${idea.status}", expected "brief"`);
+  }
+  return idea;
+}
+
+/**
+ * Regenerate the sections named in a refresh idea's brief and save them.
+ * The idea only moves to 'draft' when at least one section was rewritten.
+ */
+export async function refreshPostFromIdea(
+  ideaId: string,
+  options: RefreshOptions = {}
+): Promise<RefreshResult> {
+  const idea = await getRefreshIdea(ideaId);
+  const brief = idea.refreshBrief!;
+
+  const row = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, idea.blogPostId!),
+  });
+  const author = row
+    ? await db.query.authors.findFirst({ where: eq(authors.id, row.authorId) })
+    : undefined;
+  if (!row || !author) {
+    throw new RefreshError('NOT_FOUND', 'Post for this refresh idea not found');
+  }
+
+  const post = toCanonicalPost(row, author);
+  const goals = new Map<number, string[]>();
+  const missingSections: string[] = [];
+
+  for (const target of brief.sections) {
+    const index = post.sections.findIndex((s) => s.id === target.sectionId);
+    if (index < 0) {
+      missingSections.push(target.headingText);
+      continue;
+    }
+    goals.set(index, [`${target.reason}.`, target.instructions]);
+  }
+
+  if (goals.size === 0) {
+    throw new RefreshError(
+      'NO_SECTIONS',
+      brief.sections.length === 0
+        ? 'Refresh brief lists no sections to regenerate'
+        : 'None of the sections in the refresh brief are still in the post'
+    );
+  }
+
+  const revision = await reviseSections(post, goals);
+  const refreshed = revision.revisedSections.map((i) => revision.post.sections[i]);
+
+  let rawHtml = row.rawHtml;
+  const unsyncedSections: string[] = [];
+  if (rawHtml) {
+    for (const section of refreshed) {
+      const updated = replaceSectionBody(rawHtml, section);
+      if (updated === null) {
+        unsyncedSections.push(section.headingText);
+      } else {
+        rawHtml = updated;
+      }
+    }
+  }
+
+  const pending = refreshed.length > 0 && LIVE_STATUSES.includes(row.status);
+
+  if (refreshed.length > 0) {
+    assertTransition('idea', idea.status, 'draft');
+
+    // The post (or the idea's draft) and the idea's status are written together
+    await db.transaction(async (tx) => {
+      if (!pending) {
+        const [updated] = await tx
+          .update(blogPosts)
+          .set({
+            sections: revision.post.sections,
+            rawHtml,
+            wordCount: revision.post.wordCount,
+            readingTimeMins: revision.post.readingTimeMinutes,
+            version: row.version + 1,
+            updatedAt: new Date(),
+          })
+          .where(and(eq(blogPosts.id, row.id), eq(blogPosts.version, row.version)))
+          .returning({ id: blogPosts.id });
+
+        if (!updated) {
+          throw new RefreshError('CONFLICT', 'Post was edited while the refresh was running');
+        }
+      }
+
+      const [moved] = await tx
+        .update(contentIdeas)
+        .set({
+          status: 'draft',
+          refreshDraft: pending
+            ? {
+                baseVersion: row.version,
+                sections: revision.post.sections,
+                rawHtml,
+                wordCount: revision.post.wordCount,
+                readingTimeMinutes: revision.post.readingTimeMinutes,
+                refreshedSections: refreshed.map((s) => s.headingText),
+                createdAt: new Date().toISOString(),
+              }
+            : null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(contentIdeas.id, ideaId), eq(contentIdeas.status, idea.status)))
+        .returning({ id: contentIdeas.id });
+
+      if (!moved) {
+        throw new RefreshError('CONFLICT', 'Refresh idea changed while the refresh was running');
+      }
+
+      await recordStatusChange(
+        'idea',
+        ideaId,
+        idea.status,
+        'draft',
+        {
+          changedBy: options.createdBy ?? 'autopilot',
+          reason: pending ? 'Sections refreshed; waiting for an editor to apply them' : 'Sections refreshed',
+        },
+        tx
+      );
+    });
+
+    if (!pending) {
+      await recordRevision(row.id, {
+        source: 'autopilot',
+        previous: row,
+        createdBy: options.createdBy ?? null,
+        note: options.note ?? `Refreshed ${refreshed.length} section${refreshed.length === 1 ? '' : 's'} from idea ${ideaId}`,
+      });
+    }
+  }
+
+  return {
+    ideaId,
+    postId: row.id,
+    postTitle: row.title,
+    pending,
+    refreshedSections: refreshed.map((s) => s.headingText),
+    missingSections,
+    unsyncedSections,
+    changeLog: revision.changeLog,
+    validation: validateContent(revision.post),
+    wordCount: revision.post.wordCount,
+  };
+}
+
+/**
+ * Write a live post's pending refresh into the post. Fails with CONFLICT
+ * when the post changed after the refresh was generated; run the refresh
+ * again in that case.
+ */
+export async function applyRefreshDraft(
+  ideaId: string,
+  options: RefreshOptions = {}
+): Promise<BlogPostRow> {
+  const idea = await db.query.contentIdeas.findFirst({
+    where: eq(contentIdeas.id, ideaId),
+  });
+  if (!idea) {
+    throw new RefreshError('NOT_FOUND', 'Idea not found');
+  }
+  const draft = idea.refreshDraft;
+  if (!draft || !idea.blogPostId) {
+    throw new RefreshError('NO_DRAFT', 'Idea has no refresh waiting to be applied');
+  }
+
+  const row = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, idea.blogPostId),
+  });
+  if (!row) {
+    throw new RefreshError('NOT_FOUND', 'Post for this refresh idea not found');
+  }
+  if (row.version !== draft.baseVersion) {
+    throw new RefreshError(
+      'CONFLICT',
+      `Post changed (now version ${row.version}) since the refresh was generated from version ${draft.baseVersion}`
+    );
+  }
+
+  const updated = await db.transaction(async (tx) => {
+    const [post] = await tx
+      .update(blogPosts)
+      .set({
+        sections: draft.sections,
+        rawHtml: draft.rawHtml,
+        wordCount: draft.wordCount,
+        readingTimeMins: draft.readingTimeMinutes,
+        version: row.version + 1,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(blogPosts.id, row.id), eq(blogPosts.version, row.version)))
+      .returning();
+
+    const [cleared] = post
+      ? await tx
+          .update(contentIdeas)
+          .set({ refreshDraft: null, updatedAt: new Date() })
+          .where(and(eq(contentIdeas.id, ideaId), isNotNull(contentIdeas.refreshDraft)))
+          .returning({ id: contentIdeas.id })
+      : [];
+
+    if (!post || !cleared) {
+      throw new RefreshError('CONFLICT', 'Post or idea changed while the refresh was being applied');
+    }
+    return post;
+  });
+
+  await recordRevision(row.id, {
+    source: 'autopilot',
+    previous: row,
+    createdBy: options.createdBy ?? null,
+    note: options.note ?? `Applied refresh of ${draft.refreshedSections.length} section${draft.refreshedSections.length === 1 ? '' : 's'} from idea ${ideaId}`,
+  });
+
+  return updated;
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Replace the content under a section's heading in a full HTML body, up to
+ * the next h1-h3. Returns null when the heading isn't a top-level element
+ * of the HTML.
+ */
+function replaceSectionBody(html: string, section: Section): string | null {
+  const $ = cheerio.load(html, null, false);
+  const heading = $.root()
+    .children('h2, h3')
+    .toArray()
+    .find((el) => $(el).text().trim() === section.headingText.trim());
+  if (!heading) return null;
+
+  let next = $(heading).next();
+  while (next.length > 0 && !next.is('h1, h2, h3')) {
+    const current = next;
+    next = next.next();
+    current.remove();
+  }
+  $(heading).after(`\n${section.body}\n`);
+  return $.html();
+}
@@ -0,0 +1,412 @@
+/**
+ * Search Console Exports
+ *
+ * Parses Search Console performance exports into daily page/query rows.
+ *
+ * Accepted inputs:
+ * - CSV with a header row. Columns are matched by name (Date, Page/URL,
+ *   Query, Clicks, Impressions, CTR, Position), so UI exports, Looker
+ *   Studio downloads and bulk-export query results all work. Page is
+ *   required; without a Date column the caller must give the day.
+ * - JSON array of row objects with the same column names.
+ * - JSON in the Search Analytics API shape, `{ rows: [{ keys, clicks,
+ *   impressions, ctr, position }] }`, with a `dimensions` array naming
+ *   the keys. This is also the offline stand-in format (see
+ *   buildStandInExport): API responses saved to disk, or synthetic
+ *   ones, import exactly like live data. A row whose query key is ''
+ *   carries the page's totals for the day.
+ */
+
+import { createHash } from 'crypto';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ExportFormat = 'csv' | 'json';
+
+export type SearchConsoleDimension = 'date' | 'page' | 'query' | 'country' | 'device';
+
+/**
+ * One day of metrics for a page, or for a page and query
+ */
+export interface SearchPerformanceRecord {
+  /** YYYY-MM-DD */
+  date: string;
+  page: string;
+  /** '' for page-level totals */
+  query: string;
+  clicks: number;
+  impressions: number;
+  position: number | null;
+}
+
+/**
+ * Search Analytics API response, plus the dimensions the rows were
+ * requested with
+ */
+export interface StandInExport {
+  siteUrl?: string;
+  dimensions: SearchConsoleDimension[];
+  rows: Array<{
+    keys: string[];
+    clicks: number;
+    impressions: number;
+    ctr?: number;
+    position?: number;
+  }>;
+}
+
+export interface ParseOptions {
+  format?: ExportFormat;
+  /** Day to store rows under when the export has no date column */
+  date?: string;
+}
+
+export type PerformanceImportErrorCode = 'INVALID_FORMAT' | 'MISSING_COLUMN' | 'MISSING_DATE';
+
+export class PerformanceImportError extends Error {
+  constructor(
+    public code: PerformanceImportErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'PerformanceImportError';
+  }
+}
+
+type Column = 'date' | 'page' | 'query' | 'clicks' | 'impressions' | 'position';
+
+/**
+ * Header names (lowercased) each column is recognized by
+ */
+const COLUMN_ALIASES: Record<Column, string[]> = {
+  date: ['date', 'data_date', 'day'],
+  page: ['page', 'url', 'top pages', 'landing page', 'address'],
+  query: ['query', 'top queries', 'search query', 'queries'],
+  clicks: ['clicks', 'url clicks'],
+  impressions: ['impressions'],
+  position: ['position', 'average position', 'avg. position', 'avg position'],
+};
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================================
+// VALUES
+// ============================================================================
+
+/**
+ * Parse "1,234", "12.5%" or 3.2 as a number
+ */
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+  const cleaned = value.replace(/[,%\s]/g, '');
+  if (!cleaned) return null;
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+function toDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  const trimmed = value.trim();
+  if (DATE_PATTERN.test(trimmed)) return trimmed;
+  const parsed = new Date(trimmed);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString().slice(0, 10);
+}
+
+function toRecord(
+  fields: Partial<Record<Column, unknown>>,
+  fallbackDate: string | undefined
+): SearchPerformanceRecord | null {
+  const page = typeof fields.page === 'string' ? fields.page.trim() : '';
+  const date = toDate(fields.date) ?? fallbackDate;
+  if (!page || !date) return null;
+
+  return {
+    date,
+    page,
+    query: typeof fields.query === 'string' ? fields.query.trim().slice(0, 300) : '',
+    clicks: Math.round(toNumber(fields.clicks) ?? 0),
+    impressions: Math.round(toNumber(fields.impressions) ?? 0),
+    position: toNumber(fields.position),
+  };
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Split CSV text into rows of fields (RFC 4180 quoting)
+ */
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const text = content.replace(/^\uFEFF/, '');
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some((f) => f.trim() !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  row.push(field);
+  if (row.some((f) => f.trim() !== '')) rows.push(row);
+  return rows;
+}
+
+/**
+ * Map header names to columns
+ */
+function resolveColumns(headers: string[]): Partial<Record<Column, number>> {
+  const columns: Partial<Record<Column, number>> = {};
+  headers.forEach((header, index) => {
+    const name = header.trim().toLowerCase();
+    for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[Column, string[]]>) {
+      if (columns[column] === undefined && aliases.includes(name)) {
+        columns[column] = index;
+      }
+    }
+  });
+  return columns;
+}
+
+function parseCsvExport(content: string, options: ParseOptions): SearchPerformanceRecord[] {
+  const [headers, ...rows] = parseCsv(content);
+  if (!headers) return [];
+
+  const columns = resolveColumns(headers);
+  if (columns.page === undefined) {
+    throw new PerformanceImportError(
+      'MISSING_COLUMN',
+      `No page/URL column in CSV header: ${headers.join(', ')}`
+    );
+  }
+  if (columns.date === undefined && !options.date) {
+    throw new PerformanceImportError(
+      'MISSING_DATE',
+      'Export has no date column - give the day the totals belong to'
+    );
+  }
+
+  const records: SearchPerformanceRecord[] = [];
+  for (const row of rows) {
+    const fields: Partial<Record<Column, unknown>> = {};
+    for (const [column, index] of Object.entries(columns) as Array<[Column, number]>) {
+      fields[column] = row[index];
+    }
+    const record = toRecord(fields, options.date);
+    if (record) records.push(record);
+  }
+  return records;
+}
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+function isStandInExport(value: unknown): value is StandInExport {
+  return (
+    typeof value === 'object' && value !== null &&
+    Array.isArray((value as StandInExport).rows) &&
+    Array.isArray((value as StandInExport).dimensions)
+  );
+}
+
+function parseJsonExport(content: string, options: ParseOptions): SearchPerformanceRecord[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new PerformanceImportError('INVALID_FORMAT', 'Export is not valid JSON');
+  }
+
+  // Search Analytics API shape
+  if (isStandInExport(data)) {
+    const dims = data.dimensions;
+    if (!dims.includes('page')) {
+      throw new PerformanceImportError('MISSING_COLUMN', 'Export dimensions must include "page"');
+    }
+    if (!dims.includes('date') && !options.date) {
+      throw new PerformanceImportError(
+        'MISSING_DATE',
+        'Export has no date dimension - give the day the totals belong to'
+      );
+    }
+
+    return data.rows
+      .map((row) =>
+        toRecord(
+          {
+            date: row.keys[dims.indexOf('date')],
+            page: row.keys[dims.indexOf('page')],
+            query: dims.includes('query') ? row.keys[dims.indexOf('query')] : '',
+            clicks: row.clicks,
+            impressions: row.impressions,
+            position: row.position,
+          },
+          options.date
+        )
+      )
+      .filter((r): r is SearchPerformanceRecord => r !== null);
+  }
+
+  // Array of row objects keyed like CSV headers
+  if (Array.isArray(data)) {
+    return data
+      .map((item) => {
+        if (typeof item !== 'object' || item === null) return null;
+        const fields: Partial<Record<Column, unknown>> = {};
+        for (const [key, value] of Object.entries(item as Record<string, unknown>)) {
+          const name = key.trim().toLowerCase();
+          for (const [column, aliases] of Object.entries(COLUMN_ALIASES) as Array<[Column, string[]]>) {
+            if (fields[column] === undefined && aliases.includes(name)) fields[column] = value;
+          }
+        }
+        return toRecord(fields, options.date);
+      })
+      .filter((r): r is SearchPerformanceRecord => r !== null);
+  }
+
+  throw new PerformanceImportError(
+    'INVALID_FORMAT',
+    'JSON export must be an array of rows or { dimensions, rows } in the Search Analytics API shape'
+  );
+}
+
+// ============================================================================
+// ENTRY POINTS
+// ============================================================================
+
+/**
+ * Guess the format from a file name, falling back to the content
+ */
+export function detectExportFormat(content: string, fileName?: string): ExportFormat {
+  if (fileName?.toLowerCase().endsWith('.json')) return 'json';
+  if (fileName?.toLowerCase().endsWith('.csv')) return 'csv';
+  const first = content.trimStart()[0];
+  return first === '{' || first === '[' ? 'json' : 'csv';
+}
+
+/**
+ * Parse an export into daily page/query records
+ */
+export function parseSearchConsoleExport(
+  content: string,
+  options: ParseOptions = {}
+): SearchPerformanceRecord[] {
+  if (options.date && !DATE_PATTERN.test(options.date)) {
+    throw new PerformanceImportError('MISSING_DATE', `Date must be YYYY-MM-DD, got "${options.date}"`);
+  }
+
+  const format = options.format ?? detectExportFormat(content);
+  return format === 'json'
+    ? parseJsonExport(content, options)
+    : parseCsvExport(content, options);
+}
+
+// ============================================================================
+// OFFLINE STAND-IN
+// ============================================================================
+
+/**
+ * Deterministic 0-1 value for a key, so regenerated stand-ins match
+ */
+function noise(key: string): number {
+  return createHash('sha256').update(key).digest().readUInt32BE(0) / 0xffffffff;
+}
+
+/**
+ * Build a synthetic export for the given pages, shaped like a Search
+ * Analytics API response with date/page/query dimensions. Each page gets
+ * a page-level row per day plus rows for its keywords. Values are
+ * deterministic per page, query and day.
+ */
+export function buildStandInExport(
+  pages: Array<{ url: string; keywords: string[] }>,
+  options: { endDate: string; days?: number; siteUrl?: string }
+): StandInExport {
+  const days = options.days ?? 28;
+  const end = new Date(`${options.endDate}T00:00:00Z`);
+  const rows: StandInExport['rows'] = [];
+
+  for (const page of pages) {
+    // Pages differ in how much traffic they get
+    const pageScale = 5 + noise(page.url) * 195;
+    const pagePosition = 2 + noise(`${page.url}:position`) * 28;
+
+    for (let d = days - 1; d >= 0; d--) {
+      const day = new Date(end.getTime() - d * 86_400_000).toISOString().slice(0, 10);
+      const queries = page.keywords.filter(Boolean).slice(0, 5);
+
+      let pageClicks = 0;
+      let pageImpressions = 0;
+      let weightedPosition = 0;
+
+      queries.forEach((query, i) => {
+        const share = 1 / (i + 2);
+        const impressions = Math.round(pageScale * share * (0.6 + noise(`${page.url}:${query}:${day}`) * 0.8));
+        const position = Math.max(1, pagePosition + i * 2 + (noise(`${query}:${day}`) - 0.5) * 4);
+        const ctr = Math.max(0.005, 0.3 / position);
+        const clicks = Math.round(impressions * ctr);
+        if (impressions === 0) return;
+
+        rows.push({
+          keys: [day, page.url, query],
+          clicks,
+          impressions,
+          ctr: clicks / impressions,
+          position: Math.round(position * 10) / 10,
+        });
+        pageClicks += clicks;
+        pageImpressions += impressions;
+        weightedPosition += position * impressions;
+      });
+
+      // Page totals include anonymized queries the query rows leave out
+      const hidden = Math.round(pageScale * 0.2 * noise(`${page.url}:${day}:hidden`));
+      pageImpressions += hidden;
+      weightedPosition += (pagePosition + 5) * hidden;
+      if (pageImpressions === 0) continue;
+
+      rows.push({
+        keys: [day, page.url, ''],
+        clicks: pageClicks,
+        impressions: pageImpressions,
+        ctr: pageClicks / pageImpressions,
+        position: Math.round((weightedPosition / pageImpressions) * 10) / 10,
+      });
+    }
+  }
+
+  return {
+    siteUrl: options.siteUrl,
+    dimensions: ['date', 'page', 'query'],
+    rows,
+  };
+}
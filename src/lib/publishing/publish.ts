@@ -0,0 +1,94 @@
+/**
+ * Post Publishing
+ *
+ * Shared publish step used by the publish route and the scheduled-post
+ * dispatcher: marks the post published, stamps the JSON-LD dates and
+ * optionally pushes it to Shopify.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, type BlogPost as BlogPostRow } from '@/lib/db/schema';
+import { eq } from 'drizzle-orm';
+import { transitionPostStatus, type TransitionOptions } from '@/lib/workflow/status-machine';
+import { publishPostToShopify, type ShopifyPublishResult } from './shopify-publisher';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type PublishTarget = 'database' | 'shopify' | 'both';
+
+export interface PublishOutcome {
+  status: 'published' | 'partial_failure';
+  publishedAt: Date;
+  post: BlogPostRow;
+  shopify?: ShopifyPublishResult;
+}
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+/**
+ * Whether a publish target includes Shopify
+ */
+export function includesShopify(target: PublishTarget | string | null | undefined): boolean {
+  return target === 'shopify' || target === 'both';
+}
+
+/**
+ * Publish a post now.
+ *
+ * The status change goes through the workflow state machine, so the post
+ * must currently be in a status that may move to 'published' (or already
+ * be published, which re-syncs it). The local publish always happens
+ * first. If the Shopify push fails the post stays published, the error is
+ * recorded on `publishError` and the outcome is reported as a partial
+ * failure.
+ */
+export async function publishPost(
+  post: BlogPostRow,
+  publishTo: PublishTarget,
+  now: Date = new Date(),
+  options: TransitionOptions = {}
+): Promise<PublishOutcome> {
+  const publishedPost = await transitionPostStatus(post.id, 'published', {
+    ...options,
+    set: {
+      publishedAt: now,
+      scheduledFor: null,
+      publishTo: null,
+      publishError: null,
+      publishLockedUntil: null,
+      ldJsonArticle: {
+        ...post.ldJsonArticle,
+        datePublished: now.toISOString(),
+        dateModified: now.toISOString(),
+      },
+      updatedAt: now,
+    },
+  });
+
+  if (!includesShopify(publishTo)) {
+    return { status: 'published', publishedAt: now, post: publishedPost };
+  }
+
+  const shopify = await publishPostToShopify(post.id);
+
+  if (!shopify.success) {
+    const [failedPost] = await db
+      .update(blogPosts)
+      .set({ publishError: `Shopify: ${shopify.errors.join('; ')}` })
+      .where(eq(blogPosts.id, post.id))
+      .returning();
+
+    return { status: 'partial_failure', publishedAt: now, post: failedPost, shopify };
+  }
+
+  return {
+    status: 'published',
+    publishedAt: now,
+    post: shopify.post ?? publishedPost,
+    shopify,
+  };
+}
@@ -0,0 +1,205 @@
+/**
+ * Scheduled Post Dispatcher
+ *
+ * Publishes posts whose `scheduledFor` time has arrived. Safe to run from
+ * several places at once (cron route, CLI script): each post is claimed
+ * with a TTL lock before it is published, so two runners never publish
+ * the same post twice.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, type BlogPost as BlogPostRow } from '@/lib/db/schema';
+import { eq, and, lt, lte, or, isNull, asc } from 'drizzle-orm';
+import { isPublishReady } from '@/lib/seo/validators';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { transitionPostStatus } from '@/lib/workflow/status-machine';
+import { publishPost, type PublishTarget } from './publish';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface DispatchOptions {
+  /** Reference time for "due" (defaults to now) */
+  now?: Date;
+  /** Maximum posts to publish in one run */
+  limit?: number;
+  /** How long a claimed post stays locked */
+  lockTimeoutSeconds?: number;
+}
+
+export interface DispatchResult {
+  due: number;
+  published: Array<{ postId: string; title: string }>;
+  partialFailures: Array<{ postId: string; title: string; errors: string[] }>;
+  failed: Array<{ postId: string; title: string; error: string }>;
+  /** Posts claimed by another runner in the meantime */
+  skipped: string[];
+}
+
+const DEFAULT_LIMIT = 20;
+const DEFAULT_LOCK_TIMEOUT_SECONDS = 120;
+
+// ============================================================================
+// LOCKING
+// ============================================================================
+
+/**
+ * Try to claim a scheduled post for publishing
+ */
+async function acquirePublishLock(
+  postId: string,
+  now: Date,
+  timeoutSeconds: number
+): Promise<BlogPostRow | null> {
+  const lockUntil = new Date(now.getTime() + timeoutSeconds * 1000);
+
+  const result = await db
+    .update(blogPosts)
+    .set({ publishLockedUntil: lockUntil })
+    .where(
+      and(
+        eq(blogPosts.id, postId),
+        eq(blogPosts.status, 'scheduled'),
+        lte(blogPosts.scheduledFor, now),
+        or(
+          isNull(blogPosts.publishLockedUntil),
+          lt(blogPosts.publishLockedUntil, now)
+        )
+      )
+    )
+    .returning();
+
+  return result[0] ?? null;
+}
+
+/**
+ * Record a failed publish attempt and hand the post back for review. A
+ * post that already went live before a later step failed stays published;
+ * returns whether that was the case.
+ */
+async function recordPublishFailure(postId: string, error: string): Promise<boolean> {
+  const current = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+    columns: { status: true },
+  });
+
+  if (current?.status === 'published') {
+    await db
+      .update(blogPosts)
+      .set({ publishError: error, publishLockedUntil: null })
+      .where(eq(blogPosts.id, postId));
+    return true;
+  }
+
+  await transitionPostStatus(postId, 'reviewing', {
+    changedBy: 'cron',
+    reason: `Scheduled publish failed: ${error}`,
+    set: {
+      publishError: error,
+      publishLockedUntil: null,
+      updatedAt: new Date(),
+    },
+  });
+  return false;
+}
+
+// ============================================================================
+// DISPATCH
+// ============================================================================
+
+/**
+ * Find posts that are due and publish them
+ */
+export async function dispatchScheduledPosts(
+  options: DispatchOptions = {}
+): Promise<DispatchResult> {
+  const now = options.now ?? new Date();
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const lockTimeoutSeconds = options.lockTimeoutSeconds ?? DEFAULT_LOCK_TIMEOUT_SECONDS;
+
+  const result: DispatchResult = {
+    due: 0,
+    published: [],
+    partialFailures: [],
+    failed: [],
+    skipped: [],
+  };
+
+  const duePosts = await db
+    .select({ id: blogPosts.id })
+    .from(blogPosts)
+    .where(
+      and(
+        eq(blogPosts.status, 'scheduled'),
+        lte(blogPosts.scheduledFor, now),
+        or(
+          isNull(blogPosts.publishLockedUntil),
+          lt(blogPosts.publishLockedUntil, now)
+        )
+      )
+    )
+    .orderBy(asc(blogPosts.scheduledFor))
+    .limit(limit);
+
+  result.due = duePosts.length;
+
+  for (const { id } of duePosts) {
+    const claimed = await acquirePublishLock(id, now, lockTimeoutSeconds);
+    if (!claimed) {
+      result.skipped.push(id);
+      continue;
+    }
+
+    try {
+      const post = await db.query.blogPosts.findFirst({
+        where: eq(blogPosts.id, id),
+        with: { author: true },
+      });
+
+      if (!post) {
+        result.skipped.push(id);
+        continue;
+      }
+
+      // Content may have changed since it was scheduled
+      const readiness = isPublishReady(toCanonicalPost(post, post.author));
+      if (!readiness.ready) {
+        const error = `Not ready to publish: ${readiness.blockers.join('; ')}`;
+        await recordPublishFailure(id, error);
+        result.failed.push({ postId: id, title: post.title, error });
+        continue;
+      }
+
+      const outcome = await publishPost(
+        post,
+        (post.publishTo as PublishTarget | null) ?? 'database',
+        new Date(),
+        { changedBy: 'cron', reason: 'Scheduled publish' }
+      );
+
+      if (outcome.status === 'partial_failure') {
+        result.partialFailures.push({
+          postId: id,
+          title: post.title,
+          errors: outcome.shopify?.errors ?? [],
+        });
+      } else {
+        result.published.push({ postId: id, title: post.title });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const live = await recordPublishFailure(id, message).catch((e) => {
+        console.error(`Failed to record publish failure for ${id}:`, e);
+        return false;
+      });
+      if (live) {
+        result.partialFailures.push({ postId: id, title: claimed.title, errors: [message] });
+      } else {
+        result.failed.push({ postId: id, title: claimed.title, error: message });
+      }
+    }
+  }
+
+  return result;
+}
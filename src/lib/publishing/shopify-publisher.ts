@@ -0,0 +1,114 @@
+/**
+ * Shopify Publisher
+ *
+ * Pushes stored blog posts to Shopify and remembers the resulting article
+ * so subsequent publishes update the existing article instead of creating
+ * a duplicate.
+ */
+
+import { db } from '@/lib/db/client';
+import { blogPosts, type BlogPost as BlogPostRow } from '@/lib/db/schema';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { eq } from 'drizzle-orm';
+import { getEnvironment, isShopifyConfigured } from '@/lib/config/env';
+import { syncToShopify, getShopifyContentHash } from '@/lib/shopify/article-sync';
+import { getShopifyArticleImage, markShopifyImageUploaded } from '@/lib/media';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface ShopifyPublishResult {
+  success: boolean;
+  articleId?: string;
+  articleHandle?: string;
+  /** True when a new article was created rather than an existing one updated */
+  created: boolean;
+  errors: string[];
+  warnings: string[];
+  post?: BlogPostRow;
+}
+
+// ============================================================================
+// PUBLISHING
+// ============================================================================
+
+/**
+ * Push a post to Shopify, creating the article on first publish and
+ * updating it in place afterwards. The Shopify article ID and handle are
+ * persisted on the post.
+ */
+export async function publishPostToShopify(
+  postId: string,
+  options: { publish?: boolean } = {}
+): Promise<ShopifyPublishResult> {
+  const env = getEnvironment();
+
+  if (!isShopifyConfigured() || !env.SHOPIFY_BLOG_ID) {
+    return {
+      success: false,
+      created: false,
+      errors: ['Shopify publishing not configured. Set SHOPIFY_STORE, SHOPIFY_ACCESS_TOKEN and SHOPIFY_BLOG_ID.'],
+      warnings: [],
+    };
+  }
+
+  const post = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+    with: { author: true },
+  });
+
+  if (!post) {
+    return { success: false, created: false, errors: ['Post not found'], warnings: [] };
+  }
+
+  const existingArticleId = post.shopifyArticleId ?? undefined;
+
+  const canonical = toCanonicalPost(post, post.author);
+  const hero = await getShopifyArticleImage(postId, { newArticle: !existingArticleId });
+  const result = await syncToShopify(canonical, {
+    blogId: env.SHOPIFY_BLOG_ID,
+    shopifyDomain: env.SHOPIFY_STORE!,
+    accessToken: env.SHOPIFY_ACCESS_TOKEN!,
+    publish: options.publish ?? true,
+    existingArticleId,
+    image: hero?.image,
+  });
+
+  if (!result.success || !result.articleId) {
+    return {
+      success: false,
+      created: false,
+      errors: result.errors,
+      warnings: result.warnings,
+    };
+  }
+
+  const [updatedPost] = await db
+    .update(blogPosts)
+    .set({
+      shopifyArticleId: result.articleId,
+      shopifyArticleHandle: result.articleHandle ?? post.shopifyArticleHandle,
+      shopifySyncedAt: new Date(),
+      // Baseline for the two-way sync (lib/import/shopify-sync.ts)
+      shopifyUpdatedAt: result.updatedAt ? new Date(result.updatedAt) : new Date(),
+      shopifyContentHash: getShopifyContentHash(canonical),
+      shopifyConflict: null,
+    })
+    .where(eq(blogPosts.id, postId))
+    .returning();
+
+  if (hero && result.imageSrc) {
+    await markShopifyImageUploaded(hero.assetId, result.imageSrc);
+  }
+
+  return {
+    success: true,
+    articleId: result.articleId,
+    articleHandle: result.articleHandle,
+    created: !existingArticleId,
+    errors: result.errors,
+    warnings: result.warnings,
+    post: updatedPost,
+  };
+}
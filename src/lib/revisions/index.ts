@@ -0,0 +1,29 @@
+/**
+ * Revisions Module
+ *
+ * Post revision history, diffing and rollback.
+ */
+
+// Store
+export {
+  recordRevision,
+  listRevisions,
+  getRevision,
+  diffRevisions,
+  restoreRevision,
+  type RecordRevisionOptions,
+  type RevisionSummary,
+} from './revision-store';
+
+// Diff
+export {
+  diffSnapshots,
+  getChangedFields,
+  TRACKED_FIELDS,
+  type TrackedField,
+  type FieldChange,
+  type SectionChange,
+  type FaqChange,
+  type ItemChangeType,
+  type RevisionDiff,
+} from './revision-diff';
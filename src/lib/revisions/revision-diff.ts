@@ -0,0 +1,316 @@
+/**
+ * Revision Diff
+ *
+ * Field-level and section-level comparison of two post snapshots.
+ * Pure functions - no database access.
+ */
+
+import type { BlogPost, Section, FAQ } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * Top-level fields compared between revisions (sections and FAQs are
+ * diffed item by item instead)
+ */
+export const TRACKED_FIELDS = [
+  'title',
+  'slug',
+  'status',
+  'summary',
+  'heroAnswer',
+  'primaryKeyword',
+  'secondaryKeywords',
+  'searchIntent',
+  'metaTitle',
+  'metaDescription',
+  'canonicalUrl',
+  'focusQuestions',
+  'internalLinks',
+  'experienceEvidence',
+  'reviewedBy',
+  'clusterTopicId',
+] as const satisfies ReadonlyArray<keyof BlogPost>;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+export interface FieldChange {
+  field: TrackedField;
+  before: unknown;
+  after: unknown;
+}
+
+export type ItemChangeType = 'added' | 'removed' | 'modified' | 'moved';
+
+export interface SectionChange {
+  type: ItemChangeType;
+  sectionId: string;
+  headingText: string;
+  fromIndex: number | null;
+  toIndex: number | null;
+  /** Which section properties changed (for 'modified') */
+  changedProperties: Array<'headingText' | 'headingLevel' | 'body'>;
+  before: Section | null;
+  after: Section | null;
+  wordCountDelta: number;
+}
+
+export interface FaqChange {
+  type: ItemChangeType;
+  faqId: string;
+  question: string;
+  fromIndex: number | null;
+  toIndex: number | null;
+  changedProperties: Array<'question' | 'answer'>;
+  before: FAQ | null;
+  after: FAQ | null;
+}
+
+export interface RevisionDiff {
+  fromVersion: number;
+  toVersion: number;
+  fields: FieldChange[];
+  sections: SectionChange[];
+  faq: FaqChange[];
+  wordCountDelta: number;
+  /** Names of everything that changed, e.g. ['title', 'sections', 'faq'] */
+  changedFields: string[];
+}
+
+// ============================================================================
+// DIFF
+// ============================================================================
+
+/**
+ * Compare two post snapshots
+ */
+export function diffSnapshots(from: BlogPost, to: BlogPost): RevisionDiff {
+  const fields: FieldChange[] = [];
+
+  for (const field of TRACKED_FIELDS) {
+    if (!isEqual(from[field], to[field])) {
+      fields.push({ field, before: from[field], after: to[field] });
+    }
+  }
+
+  const sections = diffSections(from.sections, to.sections);
+  const faq = diffFaqs(from.faq, to.faq);
+
+  const changedFields: string[] = fields.map((f) => f.field);
+  if (sections.length > 0) changedFields.push('sections');
+  if (faq.length > 0) changedFields.push('faq');
+
+  return {
+    fromVersion: from.version,
+    toVersion: to.version,
+    fields,
+    sections,
+    faq,
+    wordCountDelta: to.wordCount - from.wordCount,
+    changedFields,
+  };
+}
+
+/**
+ * Names of the fields that differ between two snapshots
+ */
+export function getChangedFields(from: BlogPost, to: BlogPost): string[] {
+  return diffSnapshots(from, to).changedFields;
+}
+
+/**
+ * Diff sections, matching by ID first and heading text second
+ * (regenerated sections often get fresh IDs)
+ */
+function diffSections(before: Section[], after: Section[]): SectionChange[] {
+  const { pairs, removed, added } = matchItems(before, after, (s) => s.headingText);
+  const changes: SectionChange[] = [];
+
+  for (const { fromIndex, toIndex, moved } of pairs) {
+    const oldSection = before[fromIndex];
+    const newSection = after[toIndex];
+
+    const changedProperties: SectionChange['changedProperties'] = [];
+    if (oldSection.headingText !== newSection.headingText) changedProperties.push('headingText');
+    if (oldSection.headingLevel !== newSection.headingLevel) changedProperties.push('headingLevel');
+    if (oldSection.body !== newSection.body) changedProperties.push('body');
+
+    if (changedProperties.length === 0 && !moved) continue;
+
+    changes.push({
+      type: changedProperties.length > 0 ? 'modified' : 'moved',
+      sectionId: newSection.id,
+      headingText: newSection.headingText,
+      fromIndex,
+      toIndex,
+      changedProperties,
+      before: oldSection,
+      after: newSection,
+      wordCountDelta: sectionWords(newSection) - sectionWords(oldSection),
+    });
+  }
+
+  for (const fromIndex of removed) {
+    const oldSection = before[fromIndex];
+    changes.push({
+      type: 'removed',
+      sectionId: oldSection.id,
+      headingText: oldSection.headingText,
+      fromIndex,
+      toIndex: null,
+      changedProperties: [],
+      before: oldSection,
+      after: null,
+      wordCountDelta: -sectionWords(oldSection),
+    });
+  }
+
+  for (const toIndex of added) {
+    const newSection = after[toIndex];
+    changes.push({
+      type: 'added',
+      sectionId: newSection.id,
+      headingText: newSection.headingText,
+      fromIndex: null,
+      toIndex,
+      changedProperties: [],
+      before: null,
+      after: newSection,
+      wordCountDelta: sectionWords(newSection),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Diff FAQs, matching by ID first and question text second
+ */
+function diffFaqs(before: FAQ[], after: FAQ[]): FaqChange[] {
+  const { pairs, removed, added } = matchItems(before, after, (f) => f.question);
+  const changes: FaqChange[] = [];
+
+  for (const { fromIndex, toIndex, moved } of pairs) {
+    const oldFaq = before[fromIndex];
+    const newFaq = after[toIndex];
+
+    const changedProperties: FaqChange['changedProperties'] = [];
+    if (oldFaq.question !== newFaq.question) changedProperties.push('question');
+    if (oldFaq.answer !== newFaq.answer) changedProperties.push('answer');
+
+    if (changedProperties.length === 0 && !moved) continue;
+
+    changes.push({
+      type: changedProperties.length > 0 ? 'modified' : 'moved',
+      faqId: newFaq.id,
+      question: newFaq.question,
+      fromIndex,
+      toIndex,
+      changedProperties,
+      before: oldFaq,
+      after: newFaq,
+    });
+  }
+
+  for (const fromIndex of removed) {
+    const oldFaq = before[fromIndex];
+    changes.push({
+      type: 'removed',
+      faqId: oldFaq.id,
+      question: oldFaq.question,
+      fromIndex,
+      toIndex: null,
+      changedProperties: [],
+      before: oldFaq,
+      after: null,
+    });
+  }
+
+  for (const toIndex of added) {
+    const newFaq = after[toIndex];
+    changes.push({
+      type: 'added',
+      faqId: newFaq.id,
+      question: newFaq.question,
+      fromIndex: null,
+      toIndex,
+      changedProperties: [],
+      before: null,
+      after: newFaq,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Pair up items from two lists by ID, falling back to a text key.
+ * An item counts as moved only when its order relative to the other
+ * matched items changed, so inserting one section doesn't mark every
+ * later section as moved.
+ */
+function matchItems<T extends { id: string }>(
+  before: T[],
+  after: T[],
+  key: (item: T) => string
+): {
+  pairs: Array<{ fromIndex: number; toIndex: number; moved: boolean }>;
+  removed: number[];
+  added: number[];
+} {
+  const matchedAfter = new Set<number>();
+  const matches: Array<{ fromIndex: number; toIndex: number }> = [];
+  const removed: number[] = [];
+
+  before.forEach((item, fromIndex) => {
+    let toIndex = after.findIndex((a, i) => !matchedAfter.has(i) && a.id === item.id);
+    if (toIndex === -1) {
+      toIndex = after.findIndex(
+        (a, i) => !matchedAfter.has(i) && normalize(key(a)) === normalize(key(item))
+      );
+    }
+
+    if (toIndex === -1) {
+      removed.push(fromIndex);
+    } else {
+      matchedAfter.add(toIndex);
+      matches.push({ fromIndex, toIndex });
+    }
+  });
+
+  const rankAfter = new Map(
+    [...matches]
+      .sort((a, b) => a.toIndex - b.toIndex)
+      .map((m, rank) => [m.toIndex, rank])
+  );
+
+  const pairs = matches.map((m, rank) => ({
+    ...m,
+    moved: rankAfter.get(m.toIndex) !== rank,
+  }));
+
+  const added = after.map((_, i) => i).filter((i) => !matchedAfter.has(i));
+
+  return { pairs, removed, added };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function sectionWords(section: Section): number {
+  return section.body.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Structural equality for JSON-compatible values
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
@@ -0,0 +1,263 @@
+/**
+ * Revision Store
+ *
+ * Persists canonical snapshots of blog posts so edits, autopilot
+ * regenerations and import refreshes can be reviewed, diffed and rolled
+ * back.
+ */
+
+import { db } from '@/lib/db/client';
+import {
+  authors,
+  blogPosts,
+  blogPostRevisions,
+  type BlogPost as BlogPostRow,
+  type BlogPostRevision,
+  type RevisionSource,
+} from '@/lib/db/schema';
+import { toCanonicalPost } from '@/lib/db/mappers';
+import { eq, and, desc } from 'drizzle-orm';
+import type { BlogPost } from '@/lib/schema/canonical';
+import { diffSnapshots, getChangedFields, type RevisionDiff } from './revision-diff';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface RecordRevisionOptions {
+  source: RevisionSource;
+  createdBy?: string | null;
+  note?: string | null;
+  /**
+   * The post as it was before the change. When the post has no history
+   * yet, this is stored first as its 'initial' revision so the very
+   * first edit can still be diffed and rolled back.
+   */
+  previous?: BlogPostRow;
+}
+
+/**
+ * Revision metadata without the (large) snapshot
+ */
+export type RevisionSummary = Omit<BlogPostRevision, 'snapshot'> & {
+  title: string;
+  wordCount: number;
+};
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+/**
+ * Load a post with its author as a canonical snapshot
+ */
+async function loadSnapshot(postId: string): Promise<BlogPost | null> {
+  const post = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+    with: { author: true },
+  });
+  return post ? toCanonicalPost(post, post.author) : null;
+}
+
+/**
+ * Snapshot a row that has already been loaded (used for baselines)
+ */
+async function snapshotRow(row: BlogPostRow): Promise<BlogPost | null> {
+  const author = await db.query.authors.findFirst({
+    where: eq(authors.id, row.authorId),
+  });
+  return author ? toCanonicalPost(row, author) : null;
+}
+
+/**
+ * Get the most recent revision for a post
+ */
+async function getLatestRevision(postId: string): Promise<BlogPostRevision | null> {
+  const latest = await db.query.blogPostRevisions.findFirst({
+    where: eq(blogPostRevisions.blogPostId, postId),
+    orderBy: [desc(blogPostRevisions.version)],
+  });
+  return latest ?? null;
+}
+
+/**
+ * Record the current state of a post as a new revision.
+ * Call this after the post row has been updated.
+ */
+export async function recordRevision(
+  postId: string,
+  options: RecordRevisionOptions
+): Promise<BlogPostRevision | null> {
+  let latest = await getLatestRevision(postId);
+
+  // First change to a post without history: keep what it looked like before
+  if (!latest && options.previous) {
+    const baseline = await snapshotRow(options.previous);
+    if (baseline) {
+      const [inserted] = await db
+        .insert(blogPostRevisions)
+        .values({
+          blogPostId: postId,
+          version: baseline.version,
+          source: 'initial',
+          snapshot: baseline,
+        })
+        .onConflictDoNothing()
+        .returning();
+      latest = inserted ?? null;
+    }
+  }
+
+  const snapshot = await loadSnapshot(postId);
+  if (!snapshot) {
+    return null;
+  }
+
+  const changedFields = latest ? getChangedFields(latest.snapshot, snapshot) : [];
+
+  const [revision] = await db
+    .insert(blogPostRevisions)
+    .values({
+      blogPostId: postId,
+      version: snapshot.version,
+      source: latest ? options.source : 'initial',
+      snapshot,
+      changedFields,
+      note: options.note ?? null,
+      createdBy: options.createdBy ?? null,
+    })
+    .onConflictDoNothing()
+    .returning();
+
+  return revision ?? null;
+}
+
+// ============================================================================
+// QUERIES
+// ============================================================================
+
+/**
+ * List revisions for a post, newest first
+ */
+export async function listRevisions(postId: string): Promise<RevisionSummary[]> {
+  const revisions = await db.query.blogPostRevisions.findMany({
+    where: eq(blogPostRevisions.blogPostId, postId),
+    orderBy: [desc(blogPostRevisions.version)],
+  });
+
+  return revisions.map(({ snapshot, ...rest }) => ({
+    ...rest,
+    title: snapshot.title,
+    wordCount: snapshot.wordCount,
+  }));
+}
+
+/**
+ * Get a single revision by version number
+ */
+export async function getRevision(
+  postId: string,
+  version: number
+): Promise<BlogPostRevision | null> {
+  const revision = await db.query.blogPostRevisions.findFirst({
+    where: and(
+      eq(blogPostRevisions.blogPostId, postId),
+      eq(blogPostRevisions.version, version)
+    ),
+  });
+  return revision ?? null;
+}
+
+/**
+ * Diff two versions of a post. When `toVersion` is omitted the current
+ * post is used.
+ */
+export async function diffRevisions(
+  postId: string,
+  fromVersion: number,
+  toVersion?: number
+): Promise<RevisionDiff | null> {
+  const from = await getRevision(postId, fromVersion);
+  if (!from) return null;
+
+  let to: BlogPost | null;
+  if (toVersion === undefined) {
+    to = await loadSnapshot(postId);
+  } else {
+    to = (await getRevision(postId, toVersion))?.snapshot ?? null;
+  }
+  if (!to) return null;
+
+  return diffSnapshots(from.snapshot, to);
+}
+
+// ============================================================================
+// RESTORE
+// ============================================================================
+
+/**
+ * Restore a post's content from an earlier revision.
+ *
+ * Content, SEO and linking fields are copied back; status, publish dates
+ * and Shopify identity are left alone. The restore itself is recorded as
+ * a new revision, so it can be undone like any other change.
+ */
+export async function restoreRevision(
+  postId: string,
+  version: number,
+  createdBy?: string | null
+): Promise<{ post: BlogPostRow; revision: BlogPostRevision | null } | null> {
+  const revision = await getRevision(postId, version);
+  if (!revision) return null;
+
+  const existing = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+  });
+  if (!existing) return null;
+
+  const snapshot = revision.snapshot;
+
+  // Keep the current slug if another post has claimed the old one since
+  const slugOwner = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.slug, snapshot.slug),
+  });
+  const slug = slugOwner && slugOwner.id !== postId ? existing.slug : snapshot.slug;
+
+  const [post] = await db
+    .update(blogPosts)
+    .set({
+      slug,
+      title: snapshot.title,
+      summary: snapshot.summary,
+      heroAnswer: snapshot.heroAnswer,
+      sections: snapshot.sections,
+      faq: snapshot.faq,
+      primaryKeyword: snapshot.primaryKeyword,
+      secondaryKeywords: snapshot.secondaryKeywords,
+      searchIntent: snapshot.searchIntent,
+      metaTitle: snapshot.metaTitle,
+      metaDescription: snapshot.metaDescription,
+      canonicalUrl: snapshot.canonicalUrl,
+      focusQuestions: snapshot.focusQuestions,
+      internalLinks: snapshot.internalLinks,
+      reviewedBy: snapshot.reviewedBy,
+      experienceEvidence: snapshot.experienceEvidence,
+      ldJsonFaqPage: snapshot.ldJsonFaqPage,
+      rawHtml: snapshot.rawHtml,
+      wordCount: snapshot.wordCount,
+      readingTimeMins: snapshot.readingTimeMinutes,
+      version: existing.version + 1,
+      updatedAt: new Date(),
+    })
+    .where(eq(blogPosts.id, postId))
+    .returning();
+
+  const restored = await recordRevision(postId, {
+    source: 'restore',
+    createdBy,
+    note: `Restored from version ${version}`,
+    previous: existing,
+  });
+
+  return { post, revision: restored };
+}
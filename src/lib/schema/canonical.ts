@@ -39,6 +39,8 @@ export type FunnelStage = 'awareness' | 'consideration' | 'decision' | 'retentio
 
 export type ContentIdeaStatus = 'idea' | 'approved' | 'brief_created' | 'draft_created' | 'rejected';
 
+export type ContentIdeaKind = 'new' | 'refresh';
+
 // ============================================================================
 // EMBEDDED OBJECTS
 // ============================================================================
@@ -104,6 +106,17 @@ export interface ExperienceEvidence {
   placeholders: string[];
 }
 
+/**
+ * JSON-LD ImageObject with the dimensions Google uses for rich results
+ */
+export interface ImageObjectJsonLd {
+  '@type': 'ImageObject';
+  url: string;
+  width?: number;
+  height?: number;
+  caption?: string;
+}
+
 /**
  * JSON-LD structured data for Article/BlogPosting
  */
@@ -112,7 +125,7 @@ export interface ArticleJsonLd {
   '@type': 'Article' | 'BlogPosting';
   headline: string;
   description: string;
-  image: string | null;
+  image: string | ImageObjectJsonLd | null;
   author: {
     '@type': 'Person';
     name: string;
@@ -153,6 +166,64 @@ export interface FaqPageJsonLd {
   }>;
 }
 
+/**
+ * JSON-LD structured data for HowTo, derived from a post's step sections
+ */
+export interface HowToJsonLd {
+  '@context': 'https://schema.org';
+  '@type': 'HowTo';
+  name: string;
+  description?: string;
+  image?: string | ImageObjectJsonLd;
+  supply?: Array<{ '@type': 'HowToSupply'; name: string }>;
+  tool?: Array<{ '@type': 'HowToTool'; name: string }>;
+  step: Array<{
+    '@type': 'HowToStep';
+    position: number;
+    name?: string;
+    text: string;
+  }>;
+}
+
+/**
+ * JSON-LD structured data for ItemList (comparison sections and product grids)
+ */
+export interface ItemListJsonLd {
+  '@context': 'https://schema.org';
+  '@type': 'ItemList';
+  name?: string;
+  numberOfItems: number;
+  itemListElement: Array<{
+    '@type': 'ListItem';
+    position: number;
+    name: string;
+    description?: string;
+    url?: string;
+  }>;
+}
+
+/**
+ * JSON-LD Product reference for a product linked from a post whose price is
+ * known. Products without a price are listed in an ItemList instead.
+ */
+export interface ProductJsonLd {
+  '@context': 'https://schema.org';
+  '@type': 'Product';
+  name: string;
+  description?: string;
+  url: string;
+  brand?: { '@type': 'Brand'; name: string };
+  offers: {
+    '@type': 'Offer';
+    url: string;
+    price: string;
+    priceCurrency: string;
+    /** schema.org ItemAvailability URL, e.g. https://schema.org/InStock */
+    availability?: string;
+    seller?: { '@type': 'Organization'; name: string };
+  };
+}
+
 /**
  * Performance metrics from Search Console and analytics
  */
@@ -251,9 +322,12 @@ export interface ContentIdea {
   clusterTopicId: string | null;
   funnelStage: FunnelStage | null;
   status: ContentIdeaStatus;
+  kind: ContentIdeaKind;
   justification: string | null;
   notes: string | null;
   brief: Brief | null;
+  refreshBrief: RefreshBrief | null;
+  refreshDraft: RefreshDraft | null;
   blogPostId: string | null;
   aiGenerated: boolean;
   createdAt: string;
@@ -292,6 +366,48 @@ export interface Brief {
   experiencePrompts: string[];
 }
 
+/**
+ * Why a published post was flagged for a refresh
+ */
+export interface DecaySignal {
+  type: 'clicks_drop' | 'position_drop' | 'stale' | 'outdated_year';
+  detail: string;
+  /** Numbers behind the signal (window totals, ages, years found) */
+  metrics?: Record<string, number>;
+}
+
+/**
+ * Brief for a refresh idea: which sections of the linked post to
+ * regenerate and what to change in each
+ */
+export interface RefreshBrief {
+  signals: DecaySignal[];
+  sections: Array<{
+    sectionId: string;
+    headingText: string;
+    reason: string;
+    instructions: string;
+  }>;
+  /** Changes outside the sections (title, meta) left to the editor */
+  notes: string[];
+  detectedAt: string;
+}
+
+/**
+ * A refresh of a live post, held on the idea until an editor applies it
+ */
+export interface RefreshDraft {
+  /** Post version the sections were regenerated from */
+  baseVersion: number;
+  sections: Section[];
+  rawHtml: string | null;
+  wordCount: number;
+  readingTimeMinutes: number;
+  /** Headings of the rewritten sections */
+  refreshedSections: string[];
+  createdAt: string;
+}
+
 // ============================================================================
 // TOPIC CLUSTER SCHEMA
 // ============================================================================
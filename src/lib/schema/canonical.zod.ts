@@ -54,6 +54,8 @@ export const ContentIdeaStatusSchema = z.enum([
   'rejected',
 ]);
 
+export const ContentIdeaKindSchema = z.enum(['new', 'refresh']);
+
 // ============================================================================
 // EMBEDDED OBJECTS
 // ============================================================================
@@ -104,12 +106,20 @@ export const ExperienceEvidenceSchema = z.object({
   placeholders: z.array(z.string()),
 });
 
+export const ImageObjectJsonLdSchema = z.object({
+  '@type': z.literal('ImageObject'),
+  url: z.string().url(),
+  width: z.number().int().positive().optional(),
+  height: z.number().int().positive().optional(),
+  caption: z.string().optional(),
+});
+
 export const ArticleJsonLdSchema = z.object({
   '@context': z.literal('https://schema.org'),
   '@type': z.enum(['Article', 'BlogPosting']),
   headline: z.string().min(10).max(110),
   description: z.string().min(50).max(300),
-  image: z.string().url().nullable(),
+  image: z.union([z.string().url(), ImageObjectJsonLdSchema]).nullable(),
   author: z.object({
     '@type': z.literal('Person'),
     name: z.string(),
@@ -297,6 +307,36 @@ export const BriefSchema = z.object({
   experiencePrompts: z.array(z.string().min(20).max(500)),
 });
 
+export const DecaySignalSchema = z.object({
+  type: z.enum(['clicks_drop', 'position_drop', 'stale', 'outdated_year']),
+  detail: z.string().min(1).max(500),
+  metrics: z.record(z.string(), z.number()).optional(),
+});
+
+export const RefreshBriefSchema = z.object({
+  signals: z.array(DecaySignalSchema).min(1),
+  sections: z.array(
+    z.object({
+      sectionId: z.string().min(1),
+      headingText: z.string(),
+      reason: z.string().min(1).max(500),
+      instructions: z.string().min(1).max(2000),
+    })
+  ),
+  notes: z.array(z.string()),
+  detectedAt: z.string().datetime(),
+});
+
+export const RefreshDraftSchema = z.object({
+  baseVersion: z.number().int().min(1),
+  sections: z.array(SectionSchema),
+  rawHtml: z.string().nullable(),
+  wordCount: z.number().int().min(0),
+  readingTimeMinutes: z.number().int().min(0),
+  refreshedSections: z.array(z.string()),
+  createdAt: z.string().datetime(),
+});
+
 export const ContentIdeaSchema = z.object({
   id: z.string().uuid(),
   topic: z.string().min(10).max(300),
@@ -308,9 +348,12 @@ export const ContentIdeaSchema = z.object({
   clusterTopicId: z.string().uuid().nullable(),
   funnelStage: FunnelStageSchema.nullable(),
   status: ContentIdeaStatusSchema,
+  kind: ContentIdeaKindSchema,
   justification: z.string().max(1000).nullable(),
   notes: z.string().max(2000).nullable(),
   brief: BriefSchema.nullable(),
+  refreshBrief: RefreshBriefSchema.nullable(),
+  refreshDraft: RefreshDraftSchema.nullable(),
   blogPostId: z.string().uuid().nullable(),
   aiGenerated: z.boolean(),
   createdAt: z.string().datetime(),
@@ -397,6 +440,7 @@ export type CreateBlogPostZ = z.infer<typeof CreateBlogPostSchema>;
 export type UpdateBlogPostZ = z.infer<typeof UpdateBlogPostSchema>;
 export type ContentIdeaZ = z.infer<typeof ContentIdeaSchema>;
 export type BriefZ = z.infer<typeof BriefSchema>;
+export type RefreshBriefZ = z.infer<typeof RefreshBriefSchema>;
 export type TopicClusterZ = z.infer<typeof TopicClusterSchema>;
 export type TopicSuggestionInputZ = z.infer<typeof TopicSuggestionInputSchema>;
 export type TopicSuggestionOutputZ = z.infer<typeof TopicSuggestionOutputSchema>;
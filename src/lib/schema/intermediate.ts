@@ -69,7 +69,11 @@ export interface ShopifyArticleData {
   author: string | null;
   tags: string[];
   publishedAt: string | null;
+  /** Last edit in Shopify; drives incremental sync */
+  updatedAt: string | null;
   handle: string;
+  /** Article body exactly as stored in Shopify */
+  bodyHtml: string;
   image: {
     url: string;
     altText: string | null;
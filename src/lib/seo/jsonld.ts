@@ -8,6 +8,7 @@ import type {
   BlogPost,
   ArticleJsonLd,
   FaqPageJsonLd,
+  ImageObjectJsonLd,
   Author,
 } from '@/lib/schema/canonical';
 
@@ -21,18 +22,21 @@ export interface OrganizationInfo {
 }
 
 /**
- * Generate Article/BlogPosting JSON-LD for a blog post
+ * Generate Article/BlogPosting JSON-LD for a blog post. Pass the hero image
+ * (see toImageObject in lib/media) to fill `image`; otherwise any image
+ * already on the post's JSON-LD is kept.
  */
 export function generateArticleJsonLd(
   post: BlogPost,
-  org: OrganizationInfo
+  org: OrganizationInfo,
+  heroImage?: ImageObjectJsonLd | null
 ): ArticleJsonLd {
   return {
     '@context': 'https://schema.org',
     '@type': 'BlogPosting',
     headline: post.title.slice(0, 110),
     description: post.summary,
-    image: null, // TODO: Add hero image support
+    image: heroImage ?? post.ldJsonArticle?.image ?? null,
     author: {
       '@type': 'Person',
       name: post.author.name,
@@ -139,46 +143,20 @@ export function combineJsonLd(objects: object[]): object {
   };
 }
 
-/**
- * Generate all JSON-LD for a blog post
- */
-export function generateAllJsonLd(
-  post: BlogPost,
-  org: OrganizationInfo,
-  options: {
-    includeBreadcrumbs?: boolean;
-    breadcrumbItems?: Array<{ name: string; url: string }>;
-  } = {}
-): string {
-  const objects: object[] = [];
-
-  // Article JSON-LD
-  objects.push(generateArticleJsonLd(post, org));
-
-  // FAQ JSON-LD (if applicable)
-  const faqJsonLd = generateFaqPageJsonLd(post);
-  if (faqJsonLd) {
-    objects.push(faqJsonLd);
-  }
-
-  // Breadcrumbs (if requested)
-  if (options.includeBreadcrumbs && options.breadcrumbItems) {
-    objects.push(generateBreadcrumbJsonLd(options.breadcrumbItems));
-  }
-
-  // Combine and stringify
-  const combined = combineJsonLd(objects);
-  return JSON.stringify(combined, null, 2);
-}
+type JsonLdNode = Record<string, unknown>;
 
 /**
- * Validate JSON-LD structure
+ * Validate JSON-LD structure against the properties schema.org and Google
+ * require for each type we emit. Accepts a single object or an @graph.
+ * Warnings are for properties that are optional but limit rich results.
  */
 export function validateJsonLd(jsonLd: object): {
   valid: boolean;
   errors: string[];
+  warnings: string[];
 } {
   const errors: string[] = [];
+  const warnings: string[] = [];
 
   // Check for @context
   if (!('@context' in jsonLd)) {
@@ -186,39 +164,159 @@ export function validateJsonLd(jsonLd: object): {
   }
 
   // Check for @type or @graph
-  if (!('@type' in jsonLd) && !('@graph' in jsonLd)) {
+  if ('@graph' in jsonLd) {
+    const graph = (jsonLd as { '@graph'?: unknown })['@graph'];
+    if (!Array.isArray(graph)) {
+      errors.push('@graph must be an array');
+    } else {
+      graph.forEach((node, index) =>
+        validateJsonLdNode(asNode(node), `@graph[${index}]: `, errors, warnings)
+      );
+    }
+  } else if (!('@type' in jsonLd)) {
     errors.push('Missing @type or @graph');
+  } else {
+    validateJsonLdNode(jsonLd as JsonLdNode, '', errors, warnings);
   }
 
-  // Check Article structure
-  if ((jsonLd as { '@type'?: string })['@type'] === 'Article' ||
-      (jsonLd as { '@type'?: string })['@type'] === 'BlogPosting') {
-    const article = jsonLd as ArticleJsonLd;
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings,
+  };
+}
 
-    if (!article.headline) {
-      errors.push('Article missing headline');
+function validateJsonLdNode(
+  node: JsonLdNode,
+  label: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  switch (node['@type']) {
+    case 'Article':
+    case 'BlogPosting':
+      if (!node.headline) {
+        errors.push(`${label}Article missing headline`);
+      }
+      if (!node.author) {
+        errors.push(`${label}Article missing author`);
+      }
+      if (!node.publisher) {
+        errors.push(`${label}Article missing publisher`);
+      }
+      break;
+
+    case 'FAQPage': {
+      const questions = asArray(node.mainEntity);
+      if (questions.length === 0) {
+        errors.push(`${label}FAQPage missing mainEntity`);
+      }
+      questions.forEach((question, index) => {
+        const q = asNode(question);
+        if (!q.name) {
+          errors.push(`${label}FAQPage question ${index + 1} missing name`);
+        }
+        if (!asNode(q.acceptedAnswer).text) {
+          errors.push(`${label}FAQPage question ${index + 1} missing acceptedAnswer.text`);
+        }
+      });
+      break;
     }
-    if (!article.author) {
-      errors.push('Article missing author');
+
+    case 'HowTo': {
+      if (!node.name) {
+        errors.push(`${label}HowTo missing name`);
+      }
+      const steps = asArray(node.step);
+      if (steps.length === 0) {
+        errors.push(`${label}HowTo missing step`);
+      }
+      steps.forEach((step, index) => {
+        const s = asNode(step);
+        // A HowToSection groups steps in itemListElement instead of having text
+        if (s['@type'] === 'HowToSection' ? asArray(s.itemListElement).length === 0 : !s.text) {
+          errors.push(`${label}HowTo step ${index + 1} missing text`);
+        }
+      });
+      for (const key of ['supply', 'tool'] as const) {
+        asArray(node[key]).forEach((item, index) => {
+          if (!asNode(item).name) {
+            errors.push(`${label}HowTo ${key} ${index + 1} missing name`);
+          }
+        });
+      }
+      break;
     }
-    if (!article.publisher) {
-      errors.push('Article missing publisher');
+
+    case 'ItemList': {
+      const items = asArray(node.itemListElement);
+      if (items.length === 0) {
+        errors.push(`${label}ItemList missing itemListElement`);
+      }
+      items.forEach((item, index) => {
+        const listItem = asNode(item);
+        if (typeof listItem.position !== 'number') {
+          errors.push(`${label}ItemList item ${index + 1} missing position`);
+        }
+        if (!listItem.name && !listItem.url && !listItem.item) {
+          errors.push(`${label}ItemList item ${index + 1} needs a name, url or item`);
+        }
+      });
+      if (typeof node.numberOfItems === 'number' && node.numberOfItems !== items.length) {
+        warnings.push(`${label}ItemList numberOfItems doesn't match itemListElement`);
+      }
+      break;
     }
-  }
 
-  // Check FAQPage structure
-  if ((jsonLd as { '@type'?: string })['@type'] === 'FAQPage') {
-    const faqPage = jsonLd as FaqPageJsonLd;
+    case 'Product': {
+      if (!node.name) {
+        errors.push(`${label}Product missing name`);
+      }
+      if (!node.offers && !node.review && !node.aggregateRating) {
+        errors.push(`${label}Product needs offers, review or aggregateRating`);
+      }
+      asArray(node.offers).forEach((offer) => {
+        const o = asNode(offer);
+        if (!o.price) {
+          errors.push(`${label}Product offer missing price`);
+        }
+        if (!o.priceCurrency) {
+          errors.push(`${label}Product offer missing priceCurrency`);
+        }
+        if (!o.availability) {
+          warnings.push(`${label}Product offer has no availability`);
+        }
+      });
+      break;
+    }
 
-    if (!faqPage.mainEntity || faqPage.mainEntity.length === 0) {
-      errors.push('FAQPage missing mainEntity');
+    case 'BreadcrumbList': {
+      const items = asArray(node.itemListElement);
+      if (items.length === 0) {
+        errors.push(`${label}BreadcrumbList missing itemListElement`);
+      }
+      items.forEach((item, index) => {
+        const crumb = asNode(item);
+        if (!crumb.name) {
+          errors.push(`${label}Breadcrumb ${index + 1} missing name`);
+        }
+        // Only the last crumb (the current page) may omit its URL
+        if (!crumb.item && index < items.length - 1) {
+          errors.push(`${label}Breadcrumb ${index + 1} missing item`);
+        }
+      });
+      break;
     }
   }
+}
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+function asNode(value: unknown): JsonLdNode {
+  return value && typeof value === 'object' ? (value as JsonLdNode) : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
 }
 
 /**
@@ -0,0 +1,263 @@
+/**
+ * Internal Link Graph
+ *
+ * Builds the site-wide graph of blog-to-blog links from each post's
+ * internalLinks and reports on it: inbound/outbound counts, orphan posts,
+ * broken targetPostIds, links into archived content, and whether each
+ * cluster's pillar post is linked from its members.
+ */
+
+import { db } from '@/lib/db/client';
+import type { InternalLink } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/**
+ * The parts of a post the graph needs
+ */
+export interface LinkGraphPost {
+  id: string;
+  slug: string;
+  title: string;
+  status: string;
+  clusterTopicId: string | null;
+  internalLinks: InternalLink[];
+}
+
+export interface LinkGraphCluster {
+  id: string;
+  name: string;
+  pillarPostId: string | null;
+}
+
+export interface LinkGraphNode {
+  id: string;
+  slug: string;
+  title: string;
+  status: string;
+  clusterTopicId: string | null;
+  /** Distinct published posts linking here */
+  inbound: number;
+  /** Distinct posts this one links to */
+  outbound: number;
+}
+
+/**
+ * A link whose target can't be used as-is
+ */
+export interface LinkIssue {
+  sourcePostId: string;
+  sourceTitle: string;
+  href: string;
+  anchorText: string;
+  targetPostId: string | null;
+  targetTitle?: string;
+}
+
+export type PillarLinkStatus = 'ok' | 'partial' | 'unlinked' | 'no_members' | 'missing_pillar';
+
+export interface PillarCheck {
+  clusterId: string;
+  clusterName: string;
+  pillarPostId: string;
+  pillarTitle: string | null;
+  status: PillarLinkStatus;
+  members: number;
+  linkingMembers: number;
+  /** Published cluster members that don't link to the pillar */
+  missingLinksFrom: Array<{ id: string; title: string }>;
+}
+
+export interface LinkGraphReport {
+  nodes: LinkGraphNode[];
+  orphans: LinkGraphNode[];
+  brokenLinks: LinkIssue[];
+  archivedLinks: LinkIssue[];
+  pillars: PillarCheck[];
+  stats: {
+    posts: number;
+    links: number;
+    orphans: number;
+    brokenLinks: number;
+    archivedLinks: number;
+  };
+  generatedAt: string;
+}
+
+// ============================================================================
+// GRAPH
+// ============================================================================
+
+/**
+ * Slug a blog href points at: the last path segment, without query,
+ * fragment or trailing slash
+ */
+function slugFromHref(href: string): string | null {
+  const path = href.split(/[?#]/)[0].replace(/\/+$/, '');
+  const slug = path.split('/').pop();
+  return slug ? slug.toLowerCase() : null;
+}
+
+/**
+ * Build the link graph and its report. Links to other posts are resolved
+ * by targetPostId, or by slug when the link has none. Archived posts are
+ * left out of the node list, and only published posts count as inbound
+ * sources since drafts aren't live.
+ */
+export function buildLinkGraph(
+  posts: LinkGraphPost[],
+  clusters: LinkGraphCluster[]
+): LinkGraphReport {
+  const byId = new Map(posts.map((p) => [p.id, p]));
+  const bySlug = new Map(posts.map((p) => [p.slug.toLowerCase(), p]));
+
+  const outgoing = new Map<string, Set<string>>();
+  const incoming = new Map<string, Set<string>>();
+  const brokenLinks: LinkIssue[] = [];
+  const archivedLinks: LinkIssue[] = [];
+  let linkCount = 0;
+
+  for (const source of posts) {
+    if (source.status === 'archived') continue;
+    const targets = new Set<string>();
+
+    for (const link of source.internalLinks) {
+      if (link.linkType !== 'blog_post') continue;
+      linkCount++;
+
+      const issue: LinkIssue = {
+        sourcePostId: source.id,
+        sourceTitle: source.title,
+        href: link.href,
+        anchorText: link.anchorText,
+        targetPostId: link.targetPostId,
+      };
+
+      let target: LinkGraphPost | undefined;
+      if (link.targetPostId) {
+        target = byId.get(link.targetPostId);
+        if (!target) {
+          brokenLinks.push(issue);
+          continue;
+        }
+      } else {
+        const slug = slugFromHref(link.href);
+        target = slug ? bySlug.get(slug) : undefined;
+        if (!target) continue; // Unresolvable without an id - may point outside the blog
+      }
+
+      if (target.status === 'archived') {
+        archivedLinks.push({ ...issue, targetPostId: target.id, targetTitle: target.title });
+        continue;
+      }
+
+      if (target.id !== source.id) {
+        targets.add(target.id);
+      }
+    }
+
+    outgoing.set(source.id, targets);
+    if (source.status === 'published') {
+      for (const targetId of targets) {
+        if (!incoming.has(targetId)) incoming.set(targetId, new Set());
+        incoming.get(targetId)!.add(source.id);
+      }
+    }
+  }
+
+  const nodes: LinkGraphNode[] = posts
+    .filter((p) => p.status !== 'archived')
+    .map((p) => ({
+      id: p.id,
+      slug: p.slug,
+      title: p.title,
+      status: p.status,
+      clusterTopicId: p.clusterTopicId,
+      inbound: incoming.get(p.id)?.size ?? 0,
+      outbound: outgoing.get(p.id)?.size ?? 0,
+    }))
+    .sort((a, b) => b.inbound - a.inbound || a.title.localeCompare(b.title));
+
+  const orphans = nodes.filter((n) => n.status === 'published' && n.inbound === 0);
+
+  const pillars: PillarCheck[] = clusters
+    .filter((c): c is LinkGraphCluster & { pillarPostId: string } => !!c.pillarPostId)
+    .map((cluster) => {
+      const pillar = byId.get(cluster.pillarPostId);
+      const base = {
+        clusterId: cluster.id,
+        clusterName: cluster.name,
+        pillarPostId: cluster.pillarPostId,
+        pillarTitle: pillar?.title ?? null,
+      };
+
+      if (!pillar || pillar.status === 'archived') {
+        return { ...base, status: 'missing_pillar' as const, members: 0, linkingMembers: 0, missingLinksFrom: [] };
+      }
+
+      const members = posts.filter(
+        (p) => p.clusterTopicId === cluster.id && p.id !== pillar.id && p.status === 'published'
+      );
+      const missing = members.filter((m) => !outgoing.get(m.id)?.has(pillar.id));
+      const linkingMembers = members.length - missing.length;
+
+      const status: PillarLinkStatus =
+        members.length === 0 ? 'no_members'
+          : missing.length === 0 ? 'ok'
+            : linkingMembers === 0 ? 'unlinked'
+              : 'partial';
+
+      return {
+        ...base,
+        status,
+        members: members.length,
+        linkingMembers,
+        missingLinksFrom: missing.map((m) => ({ id: m.id, title: m.title })),
+      };
+    });
+
+  return {
+    nodes,
+    orphans,
+    brokenLinks,
+    archivedLinks,
+    pillars,
+    stats: {
+      posts: nodes.length,
+      links: linkCount,
+      orphans: orphans.length,
+      brokenLinks: brokenLinks.length,
+      archivedLinks: archivedLinks.length,
+    },
+    generatedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Load every post and cluster and build the link graph report
+ */
+export async function getLinkGraphReport(): Promise<LinkGraphReport> {
+  const [posts, clusters] = await Promise.all([
+    db.query.blogPosts.findMany({
+      columns: {
+        id: true,
+        slug: true,
+        title: true,
+        status: true,
+        clusterTopicId: true,
+        internalLinks: true,
+      },
+    }),
+    db.query.topicClusters.findMany({
+      columns: {
+        id: true,
+        name: true,
+        pillarPostId: true,
+      },
+    }),
+  ]);
+
+  return buildLinkGraph(posts, clusters);
+}
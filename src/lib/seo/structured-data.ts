@@ -0,0 +1,391 @@
+/**
+ * Structured Data from Section Content
+ *
+ * Derives HowTo, ItemList and Product JSON-LD from the body HTML a post
+ * publishes with (Blog Writer HTML or the rendered sections), so the
+ * Shopify template doesn't have to re-parse steps out of the article.
+ *
+ * Recognised content:
+ * - Steps: Blog Writer `process-steps` blocks, "Step N: ..." headings, or an
+ *   ordered list under a "Steps"/"Instructions" heading
+ * - Supplies and tools: lists under "What You'll Need", "Materials",
+ *   "Tools", "Equipment" headings
+ * - Comparisons: Blog Writer `comparison-grid` cards
+ * - Products: Blog Writer `product-grid` cards. Cards whose price the caller
+ *   knows become Product/Offer markup; Google rejects an Offer without a
+ *   price, so the rest are listed as an ItemList of product references.
+ */
+
+import * as cheerio from 'cheerio';
+import type { AnyNode } from 'domhandler';
+import { getArticleBodyHtml } from '@/lib/shopify/article-sync';
+import type {
+  BlogPost,
+  HowToJsonLd,
+  ImageObjectJsonLd,
+  ItemListJsonLd,
+  ProductJsonLd,
+} from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface StructuredContentJsonLd {
+  howTo: HowToJsonLd | null;
+  itemLists: ItemListJsonLd[];
+  products: ProductJsonLd[];
+}
+
+/** Price data for a product card's URL */
+export interface ProductOfferData {
+  price: string;
+  priceCurrency: string;
+  /** schema.org ItemAvailability URL */
+  availability?: string;
+}
+
+export interface StructuredContentOptions {
+  /** Brand and seller for product references */
+  organizationName?: string;
+  /** Known offers by product URL; products without one are only listed */
+  offers?: Map<string, ProductOfferData>;
+  /** Hero image for the HowTo */
+  image?: string | ImageObjectJsonLd | null;
+}
+
+// Fewer steps than this isn't a how-to worth marking up
+const MIN_HOWTO_STEPS = 2;
+
+// Google truncates long step text; keep each step readable on its own
+const MAX_STEP_TEXT_LENGTH = 500;
+
+const HEADINGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'];
+
+const STEP_HEADING = /^\s*step\s+(\d+)\s*[:.\-–—]?\s*(.*)$/i;
+const STEPS_LIST_HEADING = /\b(steps|instructions|procedure|how to)\b/i;
+const NEEDS_HEADING = /(what you('|’)?ll need|you will need|materials|supplies|ingredients|tools|equipment)/i;
+const TOOLS_HEADING = /\b(tools?|equipment)\b/i;
+const SUPPLIES_HEADING = /\b(supplies|materials|ingredients|chemicals)\b/i;
+const TOOL_ITEM = /\b(brush|bucket|sprayer|spray bottle|gloves|goggles|glasses|respirator|apron|meter|scale|cloth|rag|sponge|pump|container|funnel|hose|scraper|tool|mixer|thermometer)\b/i;
+
+// ============================================================================
+// BUILDER
+// ============================================================================
+
+/**
+ * Derive HowTo, ItemList and Product JSON-LD from a post's content
+ */
+export function generateStructuredContentJsonLd(
+  post: BlogPost,
+  options: StructuredContentOptions = {}
+): StructuredContentJsonLd {
+  const $ = cheerio.load(getArticleBodyHtml(post));
+  const { products, productLists } = buildProducts($, options);
+
+  return {
+    howTo: buildHowTo($, post, options),
+    itemLists: [...buildComparisonLists($), ...productLists],
+    products,
+  };
+}
+
+/**
+ * The derived objects as a flat list, for combining into a graph
+ */
+export function flattenStructuredContent(content: StructuredContentJsonLd): object[] {
+  return [
+    ...(content.howTo ? [content.howTo] : []),
+    ...content.itemLists,
+    ...content.products,
+  ];
+}
+
+// ============================================================================
+// HOWTO
+// ============================================================================
+
+function buildHowTo(
+  $: cheerio.CheerioAPI,
+  post: BlogPost,
+  options: StructuredContentOptions
+): HowToJsonLd | null {
+  const steps = extractSteps($);
+  if (steps.length < MIN_HOWTO_STEPS) return null;
+
+  const { supplies, tools } = extractSuppliesAndTools($);
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'HowTo',
+    name: post.title,
+    ...(post.summary ? { description: post.summary } : {}),
+    ...(options.image ? { image: options.image } : {}),
+    ...(supplies.length > 0
+      ? { supply: supplies.map((name) => ({ '@type': 'HowToSupply' as const, name })) }
+      : {}),
+    ...(tools.length > 0
+      ? { tool: tools.map((name) => ({ '@type': 'HowToTool' as const, name })) }
+      : {}),
+    step: steps.map((step, index) => ({
+      '@type': 'HowToStep',
+      position: index + 1,
+      ...(step.name ? { name: step.name } : {}),
+      text: step.text,
+    })),
+  };
+}
+
+function extractSteps($: cheerio.CheerioAPI): Array<{ name?: string; text: string }> {
+  // Blog Writer process-steps blocks
+  const processSteps = $('.process-steps .process-step')
+    .toArray()
+    .map((element) => {
+      const step = $(element).clone();
+      const name = cleanText(step.find('h1, h2, h3, h4, h5, h6').first().text());
+      step.find('h1, h2, h3, h4, h5, h6').first().remove();
+      const blocks = step.children();
+      return { name, text: truncate(blockText($, blocks.length > 0 ? blocks : step)) };
+    })
+    .filter((step) => step.text || step.name);
+  if (processSteps.length > 0) {
+    return processSteps.map((step) => ({ name: step.name || undefined, text: step.text || step.name }));
+  }
+
+  // "Step N: Title" headings, with everything up to the next heading as the text
+  const headingSteps: Array<{ number: number; name?: string; text: string }> = [];
+  for (const heading of $(HEADINGS.join(', ')).toArray()) {
+    const match = cleanText($(heading).text()).match(STEP_HEADING);
+    if (!match) continue;
+
+    const name = match[2] || undefined;
+    const text = truncate(blockText($, contentUntilNextHeading($(heading))));
+    if (text || name) {
+      headingSteps.push({ number: parseInt(match[1], 10), name, text: text || name || '' });
+    }
+  }
+  if (headingSteps.length > 0) {
+    return headingSteps
+      .sort((a, b) => a.number - b.number)
+      .map(({ name, text }) => ({ name, text }));
+  }
+
+  // An ordered list under a "Steps" / "Instructions" heading
+  for (const heading of $(HEADINGS.join(', ')).toArray()) {
+    if (!STEPS_LIST_HEADING.test($(heading).text())) continue;
+
+    const items = contentUntilNextHeading($(heading))
+      .filter('ol')
+      .first()
+      .children('li')
+      .toArray()
+      .map((item) => truncate(cleanText($(item).text())))
+      .filter(Boolean);
+    if (items.length >= MIN_HOWTO_STEPS) {
+      return items.map((text) => ({ text }));
+    }
+  }
+
+  return [];
+}
+
+function extractSuppliesAndTools($: cheerio.CheerioAPI): { supplies: string[]; tools: string[] } {
+  const supplies = new Set<string>();
+  const tools = new Set<string>();
+
+  for (const heading of $(HEADINGS.join(', ')).toArray()) {
+    const headingText = cleanText($(heading).text());
+    if (!NEEDS_HEADING.test(headingText)) continue;
+
+    const mentionsTools = TOOLS_HEADING.test(headingText);
+    const mentionsSupplies = SUPPLIES_HEADING.test(headingText);
+
+    // Only lists directly under this heading; sub-headings are checked on their own
+    const content = $(heading).nextUntil(HEADINGS.join(', '));
+    const items = content
+      .filter('ul, ol')
+      .add(content.find('ul, ol'))
+      .children('li')
+      .toArray()
+      .map((item) => cleanText($(item).text()))
+      .filter(Boolean);
+
+    for (const item of items) {
+      // "Tools and Materials" lists are split item by item
+      const isTool = mentionsTools && (!mentionsSupplies || TOOL_ITEM.test(item));
+      (isTool ? tools : supplies).add(item);
+    }
+  }
+
+  return { supplies: [...supplies], tools: [...tools] };
+}
+
+// ============================================================================
+// COMPARISONS
+// ============================================================================
+
+function buildComparisonLists($: cheerio.CheerioAPI): ItemListJsonLd[] {
+  return $('.comparison-grid')
+    .toArray()
+    .map((grid) => {
+      const items = $(grid)
+        .find('.comparison-card')
+        .toArray()
+        .map((card) => ({
+          name: cleanText($(card).find('h1, h2, h3, h4, h5, h6').first().text()),
+          points: $(card)
+            .find('li')
+            .toArray()
+            .map((point) => cleanText($(point).text()))
+            .filter(Boolean),
+        }))
+        .filter((item) => item.name);
+
+      const name = cleanText(precedingHeading($(grid)));
+
+      const list: ItemListJsonLd = {
+        '@context': 'https://schema.org',
+        '@type': 'ItemList',
+        ...(name ? { name } : {}),
+        numberOfItems: items.length,
+        itemListElement: items.map((item, index) => ({
+          '@type': 'ListItem',
+          position: index + 1,
+          name: item.name,
+          ...(item.points.length > 0 ? { description: item.points.join('; ') } : {}),
+        })),
+      };
+      return list;
+    })
+    .filter((list) => list.numberOfItems >= 2);
+}
+
+// ============================================================================
+// PRODUCTS
+// ============================================================================
+
+function buildProducts(
+  $: cheerio.CheerioAPI,
+  options: StructuredContentOptions
+): { products: ProductJsonLd[]; productLists: ItemListJsonLd[] } {
+  const products = new Map<string, ProductJsonLd>();
+  const productLists: ItemListJsonLd[] = [];
+  const seen = new Set<string>();
+
+  for (const grid of $('.product-grid').toArray()) {
+    const unpriced: Array<{ name: string; url: string; description: string }> = [];
+
+    for (const card of $(grid).find('.product-card').toArray()) {
+      const link = $(card).find('a[href]').first();
+      const url = link.attr('href')?.trim();
+      const name = cleanText(link.text()) || cleanText($(card).find('h1, h2, h3, h4, h5, h6').first().text());
+      if (!url || !name || seen.has(url)) continue;
+      seen.add(url);
+
+      const description = cleanText($(card).find('p').first().text());
+      const offer = options.offers?.get(url);
+      if (offer) {
+        products.set(url, buildProduct(name, description, url, offer, options));
+      } else {
+        unpriced.push({ name, url, description });
+      }
+    }
+
+    if (unpriced.length === 0) continue;
+
+    const name = cleanText(precedingHeading($(grid)));
+    productLists.push({
+      '@context': 'https://schema.org',
+      '@type': 'ItemList',
+      ...(name ? { name } : {}),
+      numberOfItems: unpriced.length,
+      itemListElement: unpriced.map((item, index) => ({
+        '@type': 'ListItem',
+        position: index + 1,
+        name: item.name,
+        ...(item.description ? { description: item.description } : {}),
+        url: item.url,
+      })),
+    });
+  }
+
+  return { products: [...products.values()], productLists };
+}
+
+function buildProduct(
+  name: string,
+  description: string,
+  url: string,
+  offer: ProductOfferData,
+  options: StructuredContentOptions
+): ProductJsonLd {
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name,
+    ...(description ? { description } : {}),
+    url,
+    ...(options.organizationName
+      ? { brand: { '@type': 'Brand' as const, name: options.organizationName } }
+      : {}),
+    offers: {
+      '@type': 'Offer',
+      url,
+      price: offer.price,
+      priceCurrency: offer.priceCurrency,
+      ...(offer.availability ? { availability: offer.availability } : {}),
+      ...(options.organizationName
+        ? { seller: { '@type': 'Organization' as const, name: options.organizationName } }
+        : {}),
+    },
+  };
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Siblings after a heading up to the next heading of the same or a
+ * higher level
+ */
+function contentUntilNextHeading(heading: cheerio.Cheerio<AnyNode>): cheerio.Cheerio<AnyNode> {
+  const tag = (heading.prop('tagName') ?? 'h2').toLowerCase();
+  const level = HEADINGS.indexOf(tag);
+  const stopAt = HEADINGS.slice(0, level >= 0 ? level + 1 : HEADINGS.length).join(', ');
+  return heading.nextUntil(stopAt);
+}
+
+function precedingHeading(element: cheerio.Cheerio<AnyNode>): string {
+  // Walk up until some ancestor has a heading before it
+  let current = element;
+  while (current.length > 0) {
+    const heading = current.prevAll(HEADINGS.join(', ')).first();
+    if (heading.length > 0) return heading.text();
+    current = current.parent();
+  }
+  return '';
+}
+
+/**
+ * Text of each element separated by spaces, so adjacent blocks don't run
+ * together the way `.text()` joins them
+ */
+function blockText($: cheerio.CheerioAPI, elements: cheerio.Cheerio<AnyNode>): string {
+  return cleanText(
+    elements
+      .toArray()
+      .map((element) => $(element).text())
+      .join(' ')
+  );
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_STEP_TEXT_LENGTH
+    ? `${text.slice(0, MAX_STEP_TEXT_LENGTH - 1).trimEnd()}…`
+    : text;
+}
@@ -10,6 +10,8 @@ import type {
   PostValidationReport,
 } from '@/lib/schema/canonical';
 import { VALIDATION_THRESHOLDS, YMYL_KEYWORDS } from '@/lib/config/constants';
+import { validateJsonLd as checkJsonLdObject } from './jsonld';
+import { generateStructuredContentJsonLd, flattenStructuredContent } from './structured-data';
 
 /**
  * Validate a blog post and generate a comprehensive report
@@ -387,6 +389,14 @@ function validateJsonLd(post: BlogPost, results: ValidationResult[]): void {
     });
   }
 
+  if (!post.ldJsonArticle.image) {
+    results.push({
+      field: 'ldJsonArticle.image',
+      severity: 'warning',
+      message: 'Article JSON-LD has no image - generate or add a hero image',
+    });
+  }
+
   if (post.status === 'published' && !post.ldJsonArticle.datePublished) {
     results.push({
       field: 'ldJsonArticle.datePublished',
@@ -408,6 +418,28 @@ function validateJsonLd(post: BlogPost, results: ValidationResult[]): void {
       });
     }
   }
+
+  // Validate HowTo, ItemList and Product JSON-LD derived from the sections;
+  // markup Google rejects shows up as Search Console errors once published
+  const structured = flattenStructuredContent(generateStructuredContentJsonLd(post));
+  for (const jsonLd of structured) {
+    const type = (jsonLd as { '@type': string })['@type'];
+    const check = checkJsonLdObject(jsonLd);
+    for (const error of check.errors) {
+      results.push({
+        field: 'structuredData',
+        severity: 'error',
+        message: `${type} JSON-LD: ${error}`,
+      });
+    }
+    for (const warning of check.warnings) {
+      results.push({
+        field: 'structuredData',
+        severity: 'warning',
+        message: `${type} JSON-LD: ${warning}`,
+      });
+    }
+  }
 }
 
 // ============================================================================
@@ -638,8 +638,8 @@ export async function fetchCollectionsGraphQL(): Promise<Array<{
   productsCount: number;
 }>> {
   const query = `
-    query GetCollections {
-      collections(first: 100) {
+    query GetCollections($after: String) {
+      collections(first: 100, after: $after) {
         nodes {
           id
           handle
@@ -648,20 +648,36 @@ export async function fetchCollectionsGraphQL(): Promise<Array<{
             count
           }
         }
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
       }
     }
   `;
 
-  const data = await shopifyGraphQL<{
-    collections: { nodes: Array<{ id: string; handle: string; title: string; productsCount: { count: number } }> };
-  }>(query);
-
-  return data.collections.nodes.map((c) => ({
-    id: c.id,
-    handle: c.handle,
-    title: c.title,
-    productsCount: c.productsCount.count,
-  }));
+  const collections: Array<{ id: string; handle: string; title: string; productsCount: number }> = [];
+  let after: string | null = null;
+
+  do {
+    const data: {
+      collections: {
+        nodes: Array<{ id: string; handle: string; title: string; productsCount: { count: number } }>;
+        pageInfo: { hasNextPage: boolean; endCursor: string | null };
+      };
+    } = await shopifyGraphQL(query, { after });
+
+    collections.push(...data.collections.nodes.map((c) => ({
+      id: c.id,
+      handle: c.handle,
+      title: c.title,
+      productsCount: c.productsCount.count,
+    })));
+
+    after = data.collections.pageInfo.hasNextPage ? data.collections.pageInfo.endCursor : null;
+  } while (after);
+
+  return collections;
 }
 
 /**
@@ -682,6 +698,7 @@ export async function fetchAllProductsGraphQL(limit: number = 100): Promise<Arra
     url: string;
   }>;
   tags: string[];
+  collectionHandles: string[];
 }>> {
   const query = `
     query GetAllProducts($first: Int!) {
@@ -709,6 +726,11 @@ export async function fetchAllProductsGraphQL(limit: number = 100): Promise<Arra
             }
           }
           tags
+          collections(first: 10) {
+            nodes {
+              handle
+            }
+          }
         }
       }
     }
@@ -725,6 +747,7 @@ export async function fetchAllProductsGraphQL(limit: number = 100): Promise<Arra
         images: { nodes: Array<{ url: string; altText: string | null }> };
         variants: { nodes: Array<{ id: string; title: string; price: string }> };
         tags: string[];
+        collections: { nodes: Array<{ handle: string }> };
       }>;
     };
   }>(query, { first: limit });
@@ -746,6 +769,7 @@ export async function fetchAllProductsGraphQL(limit: number = 100): Promise<Arra
       url: `https://${storeHost}/products/${p.handle}?variant=${v.id.split('/').pop()}`,
     })),
     tags: p.tags,
+    collectionHandles: p.collections.nodes.map((c) => c.handle),
   }));
 }
 
@@ -35,7 +35,9 @@ import {
   matchTopicToProducts,
   extractChemicalNames,
   generateProductCTA,
+  type CollectionData,
 } from './product-matcher';
+import { loadProductCatalog } from './product-catalog';
 import { getTagsForContentType } from './content-types';
 
 // ============================================================================
@@ -106,11 +108,15 @@ export async function generateArticle(
   brief: ContentBrief,
   options: GenerationOptions = {}
 ): Promise<GeneratedArticle> {
+  const catalog = await resolveCatalog(options);
+  const generationOptions = { ...options, catalog };
+
   // Match relevant products
   const productLinks = brief.relatedProducts || matchTopicToProducts(brief.topic, {
     industryHint: brief.industryFocus?.[0],
     applicationHint: brief.searchIntent,
     maxResults: 5,
+    catalog,
   });
 
   // Generate based on content type
@@ -118,22 +124,22 @@ export async function generateArticle(
 
   switch (brief.contentType) {
     case 'faq':
-      article = await generateFAQArticle(brief, productLinks, options);
+      article = await generateFAQArticle(brief, productLinks, generationOptions);
       break;
     case 'howto':
-      article = await generateHowToArticle(brief, productLinks, options);
+      article = await generateHowToArticle(brief, productLinks, generationOptions);
       break;
     case 'comparison':
-      article = await generateComparisonArticle(brief, productLinks, options);
+      article = await generateComparisonArticle(brief, productLinks, generationOptions);
       break;
     case 'technical':
-      article = await generateTechnicalArticle(brief, productLinks, options);
+      article = await generateTechnicalArticle(brief, productLinks, generationOptions);
       break;
     case 'safety':
-      article = await generateSafetyArticle(brief, productLinks, options);
+      article = await generateSafetyArticle(brief, productLinks, generationOptions);
       break;
     default:
-      article = await generateEducationalArticle(brief, productLinks, options);
+      article = await generateEducationalArticle(brief, productLinks, generationOptions);
   }
 
   return article;
@@ -165,11 +171,12 @@ Include at least 5-8 FAQs covering:
 - Comparison questions (vs alternatives)
 - Buying considerations`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'faq');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'faq', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'faq');
+  return assembleArticle(brief, html, productLinks, 'faq', catalog);
 }
 
 /**
@@ -198,11 +205,12 @@ Structure:
 5. Troubleshooting common issues
 6. FAQ section at the end`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'howto');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'howto', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'howto');
+  return assembleArticle(brief, html, productLinks, 'howto', catalog);
 }
 
 /**
@@ -235,11 +243,12 @@ Use HTML tables for the comparison:
 <tbody><tr><td>...</td><td>...</td><td>...</td></tr></tbody>
 </table>`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'comparison');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'comparison', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'comparison');
+  return assembleArticle(brief, html, productLinks, 'comparison', catalog);
 }
 
 /**
@@ -274,11 +283,12 @@ Include tables for specifications:
 
 Use proper chemical nomenclature and include CAS numbers where relevant.`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'technical');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'technical', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'technical');
+  return assembleArticle(brief, html, productLinks, 'technical', catalog);
 }
 
 /**
@@ -317,11 +327,12 @@ Use warning callouts for important information:
 <p>[Important safety note]</p>
 </div>`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'safety');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'safety', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'safety');
+  return assembleArticle(brief, html, productLinks, 'safety', catalog);
 }
 
 /**
@@ -350,11 +361,12 @@ Structure:
 
 Make it comprehensive enough to be THE definitive resource on this topic.`;
 
-  const userPrompt = buildGenerationPrompt(brief, productLinks, 'educational');
+  const catalog = await resolveCatalog(options);
+  const userPrompt = buildGenerationPrompt(brief, productLinks, 'educational', catalog);
 
   const html = await generateContent(systemPrompt, userPrompt, options);
 
-  return assembleArticle(brief, html, productLinks, 'educational');
+  return assembleArticle(brief, html, productLinks, 'educational', catalog);
 }
 
 // ============================================================================
@@ -367,9 +379,10 @@ Make it comprehensive enough to be THE definitive resource on this topic.`;
 function buildGenerationPrompt(
   brief: ContentBrief,
   productLinks: ProductLink[],
-  contentType: string
+  contentType: string,
+  catalog: CollectionData[]
 ): string {
-  const chemicalsInTopic = extractChemicalNames(brief.topic);
+  const chemicalsInTopic = extractChemicalNames(brief.topic, catalog);
 
   let prompt = `
 TOPIC: ${brief.topic}
@@ -436,6 +449,13 @@ ${productLinks.map((p) => `- ${p.name}: ${p.url}`).join('\n')}
   return prompt;
 }
 
+/**
+ * The catalog passed in the options, or the loaded one
+ */
+async function resolveCatalog(options: GenerationOptions): Promise<CollectionData[]> {
+  return options.catalog ?? loadProductCatalog();
+}
+
 /**
  * Generate content using AI
  */
@@ -463,7 +483,8 @@ function assembleArticle(
   brief: ContentBrief,
   html: string,
   productLinks: ProductLink[],
-  contentType: ShopifyContentType
+  contentType: ShopifyContentType,
+  catalog: CollectionData[]
 ): GeneratedArticle {
   // Apply inline styles to convert class-based callouts/CTAs to inline styles
   // This ensures articles render correctly in Shopify without needing custom CSS
@@ -488,7 +509,7 @@ function assembleArticle(
   const excerpt = generateExcerpt(brief, wordCount);
 
   // Generate tags
-  const tags = generateTags(brief, contentType);
+  const tags = generateTags(brief, contentType, catalog);
 
   // Generate title
   const title = generateTitle(brief, contentType);
@@ -551,7 +572,11 @@ function generateExcerpt(brief: ContentBrief, wordCount: number): string {
 /**
  * Generate appropriate tags for content type
  */
-function generateTags(brief: ContentBrief, contentType: ShopifyContentType): string[] {
+function generateTags(
+  brief: ContentBrief,
+  contentType: ShopifyContentType,
+  catalog: CollectionData[]
+): string[] {
   const tags: Set<string> = new Set();
 
   // Add content type tags
@@ -562,7 +587,7 @@ function generateTags(brief: ContentBrief, contentType: ShopifyContentType): str
   tags.add(brief.primaryKeyword.toLowerCase());
 
   // Add chemical names found in topic
-  const chemicals = extractChemicalNames(brief.topic);
+  const chemicals = extractChemicalNames(brief.topic, catalog);
   chemicals.forEach((chem) => tags.add(chem.toLowerCase()));
 
   // Add industry tags if specified
@@ -680,8 +705,10 @@ export async function generateArticleSectionBySection(
   brief: ContentBrief,
   options: GenerationOptions = {}
 ): Promise<GeneratedArticle> {
+  const catalog = await resolveCatalog(options);
   const productLinks = brief.relatedProducts || matchTopicToProducts(brief.topic, {
     maxResults: 5,
+    catalog,
   });
 
   const sections: string[] = [];
@@ -702,7 +729,7 @@ export async function generateArticleSectionBySection(
     }
   } else {
     // Generate default structure based on content type
-    const mainContent = await generateMainContent(brief, productLinks, options);
+    const mainContent = await generateMainContent(brief, productLinks, catalog, options);
     sections.push(mainContent);
   }
 
@@ -719,7 +746,7 @@ export async function generateArticleSectionBySection(
   // Assemble final HTML
   const html = sections.join('\n\n');
 
-  return assembleArticle(brief, html, productLinks, brief.contentType);
+  return assembleArticle(brief, html, productLinks, brief.contentType, catalog);
 }
 
 /**
@@ -799,9 +826,10 @@ Start with <${outlineSection.headingLevel}>${outlineSection.headingText}</${outl
 async function generateMainContent(
   brief: ContentBrief,
   productLinks: ProductLink[],
+  catalog: CollectionData[],
   options: GenerationOptions
 ): Promise<string> {
-  const prompt = buildGenerationPrompt(brief, productLinks, brief.contentType);
+  const prompt = buildGenerationPrompt(brief, productLinks, brief.contentType, catalog);
   return await generateContent(
     ALLIANCE_CHEMICAL_VOICE + SHOPIFY_FORMAT_RULES,
     prompt,
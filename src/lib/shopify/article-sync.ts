@@ -5,7 +5,9 @@
  * for the Liquid template to render correctly.
  */
 
+import { createHash } from 'crypto';
 import type { BlogPost, FAQ, Section, SearchIntent } from '@/lib/schema/canonical';
+import { generateStructuredContentJsonLd } from '@/lib/seo/structured-data';
 
 // ============================================================================
 // TYPES
@@ -19,13 +21,20 @@ interface ShopifyArticleInput {
   tags?: string;
   published?: boolean;
   published_at?: string;
-  image?: {
-    src: string;
-    alt?: string;
-  };
+  image?: ShopifyArticleImage;
   metafields?: ShopifyMetafield[];
 }
 
+/**
+ * Article image: a public `src` for Shopify to fetch, or a base64
+ * `attachment` to upload directly
+ */
+export interface ShopifyArticleImage {
+  src?: string;
+  attachment?: string;
+  alt?: string;
+}
+
 interface ShopifyMetafield {
   namespace: string;
   key: string;
@@ -47,6 +56,10 @@ interface SyncResult {
   success: boolean;
   articleId?: string;
   articleHandle?: string;
+  /** Shopify's updated_at for the article after the write */
+  updatedAt?: string;
+  /** CDN URL of the article image, when it has one */
+  imageSrc?: string;
   errors: string[];
   warnings: string[];
 }
@@ -125,44 +138,6 @@ function detectContentTypeTags(post: BlogPost): string[] {
   return [...new Set(tags)]; // Dedupe
 }
 
-/**
- * Extract HowTo steps from sections if content is a how-to guide
- */
-function extractHowToSteps(post: BlogPost): ShopifyHowToStep[] | null {
-  const contentLower = (post.rawHtml || '').toLowerCase();
-  const titleLower = post.title.toLowerCase();
-
-  // Only extract if this is actually a how-to
-  const isHowTo =
-    titleLower.includes('how to') ||
-    contentLower.includes('step 1') ||
-    contentLower.includes('step-by-step');
-
-  if (!isHowTo) return null;
-
-  const steps: ShopifyHowToStep[] = [];
-
-  for (const section of post.sections) {
-    // Look for numbered sections or "Step X" patterns
-    const headingLower = section.headingText.toLowerCase();
-    if (
-      /^step\s*\d/i.test(section.headingText) ||
-      /^\d+\.\s/.test(section.headingText) ||
-      headingLower.includes('first') ||
-      headingLower.includes('next') ||
-      headingLower.includes('then') ||
-      headingLower.includes('finally')
-    ) {
-      steps.push({
-        name: section.headingText.replace(/^step\s*\d+[:\s]*/i, '').trim() || section.headingText,
-        text: stripHtml(section.body).substring(0, 500),
-      });
-    }
-  }
-
-  return steps.length >= 2 ? steps : null;
-}
-
 // ============================================================================
 // TRANSFORM FUNCTIONS
 // ============================================================================
@@ -175,6 +150,7 @@ export function transformToShopifyArticle(
   options: {
     blogId: string;
     publish?: boolean;
+    image?: ShopifyArticleImage;
   }
 ): ShopifyArticleInput {
   // Build tags array
@@ -224,9 +200,13 @@ export function transformToShopifyArticle(
     });
   }
 
-  // HowTo steps (if applicable)
-  const howToSteps = extractHowToSteps(post);
-  if (howToSteps) {
+  // HowTo steps, from the same HowTo the blog page marks up
+  const howTo = generateStructuredContentJsonLd(post).howTo;
+  if (howTo) {
+    const howToSteps: ShopifyHowToStep[] = howTo.step.map((step) => ({
+      name: step.name || `Step ${step.position}`,
+      text: step.text,
+    }));
     metafields.push({
       namespace: 'custom',
       key: 'howto_steps',
@@ -238,19 +218,40 @@ export function transformToShopifyArticle(
   return {
     title: post.title,
     author: post.author.name,
-    body_html: post.rawHtml || renderSectionsToHtml(post),
+    body_html: getArticleBodyHtml(post),
     summary_html: post.summary,
     tags: allTags.join(', '),
     published: options.publish ?? false,
     published_at: post.publishedAt || undefined,
+    ...(options.image && { image: options.image }),
     metafields,
   };
 }
 
 /**
- * Render sections to HTML if rawHtml is not available
+ * Hash of the article content we sync (title, body, summary) as it would be
+ * pushed. Stored after every sync so local edits can be detected later.
+ */
+export function getShopifyContentHash(post: BlogPost): string {
+  const article = transformToShopifyArticle(post, { blogId: '' });
+  return createHash('sha256')
+    .update(JSON.stringify([article.title, article.body_html, article.summary_html ?? '']))
+    .digest('hex');
+}
+
+/**
+ * Article body as Shopify receives it: the Blog Writer HTML when there is
+ * some, otherwise the rendered sections
+ */
+export function getArticleBodyHtml(post: Pick<BlogPost, 'rawHtml' | 'heroAnswer' | 'sections' | 'faq'>): string {
+  return post.rawHtml || renderSectionsToHtml(post);
+}
+
+/**
+ * Render sections to HTML if rawHtml is not available. Exported so the
+ * admin editor can preview exactly what Shopify receives.
  */
-function renderSectionsToHtml(post: BlogPost): string {
+export function renderSectionsToHtml(post: Pick<BlogPost, 'heroAnswer' | 'sections' | 'faq'>): string {
   const parts: string[] = [];
 
   // Hero answer
@@ -303,6 +304,8 @@ export async function syncToShopify(
     accessToken: string;
     publish?: boolean;
     existingArticleId?: string;
+    /** Omit to leave an existing article's image as it is */
+    image?: ShopifyArticleImage;
   }
 ): Promise<SyncResult> {
   const errors: string[] = [];
@@ -312,6 +315,7 @@ export async function syncToShopify(
     const articleInput = transformToShopifyArticle(post, {
       blogId: options.blogId,
       publish: options.publish,
+      image: options.image,
     });
 
     const endpoint = options.existingArticleId
@@ -354,6 +358,8 @@ export async function syncToShopify(
       success: true,
       articleId: article.id.toString(),
       articleHandle: article.handle,
+      updatedAt: article.updated_at,
+      imageSrc: article.image?.src,
       errors,
       warnings,
     };
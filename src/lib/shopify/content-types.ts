@@ -5,6 +5,8 @@
  * These types encode the parsing rules from main-article.liquid template.
  */
 
+import type { CollectionData } from './product-matcher';
+
 // ============================================================================
 // CONTENT TYPE ENUMS
 // ============================================================================
@@ -364,6 +366,8 @@ export interface GenerationOptions {
   maxFaqs?: number;
   /** Temperature for AI generation */
   temperature?: number;
+  /** Collections from loadProductCatalog(); loaded when omitted */
+  catalog?: CollectionData[];
 }
 
 /**
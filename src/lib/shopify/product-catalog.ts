@@ -0,0 +1,315 @@
+/**
+ * Product Catalog
+ *
+ * Keeps the product_catalog table in step with the store's collections and
+ * feeds it to the product matcher. Shopify owns names, URLs and product
+ * counts; keywords, chemicals, industries and applications are curated by
+ * editors and only auto-derived for collections nobody has curated yet.
+ * When Shopify is unavailable the hand-maintained SEED_COLLECTIONS list is
+ * used to seed the table.
+ */
+
+import { db } from '@/lib/db/client';
+import { productCatalog, type ProductCatalogEntry } from '@/lib/db/schema';
+import { eq, asc } from 'drizzle-orm';
+import { z } from 'zod';
+import { isShopifyConfigured } from '@/lib/config/env';
+import { fetchCollectionsGraphQL, fetchAllProductsGraphQL } from './api-client';
+import {
+  SEED_COLLECTIONS,
+  INDUSTRY_VERTICAL_HANDLES,
+  CHEMICAL_SYNONYMS,
+  setActiveCatalog,
+  getProductCollections,
+  type CollectionData,
+} from './product-matcher';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type CatalogErrorCode = 'NOT_FOUND';
+
+export class CatalogError extends Error {
+  constructor(
+    public code: CatalogErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'CatalogError';
+  }
+}
+
+const TermListSchema = z.array(z.string().trim().min(1).max(100)).max(100);
+
+export const UpdateCatalogEntrySchema = z.object({
+  kind: z.enum(['product', 'industry']).optional(),
+  active: z.boolean().optional(),
+  keywords: TermListSchema.optional(),
+  chemicals: TermListSchema.optional(),
+  industries: TermListSchema.optional(),
+  applications: TermListSchema.optional(),
+});
+
+export type UpdateCatalogEntryInput = z.infer<typeof UpdateCatalogEntrySchema>;
+
+export interface CatalogSyncResult {
+  source: 'shopify' | 'seed';
+  seeded: number;
+  created: number;
+  updated: number;
+  deactivated: number;
+  error?: string;
+}
+
+const STORE_HOST = 'alliancechemical.com';
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+let cache: { collections: CollectionData[]; loadedAt: number } | null = null;
+
+// ============================================================================
+// LOADING
+// ============================================================================
+
+function toCollectionData(entry: ProductCatalogEntry): CollectionData {
+  return {
+    handle: entry.handle,
+    name: entry.name,
+    url: entry.url,
+    kind: entry.kind,
+    keywords: entry.keywords,
+    chemicals: entry.chemicals,
+    industries: entry.industries,
+    applications: entry.applications,
+  };
+}
+
+/**
+ * Load active collections from product_catalog and make them the matcher's
+ * catalog. Seeds an empty table first; falls back to the seed list if the
+ * database can't be read.
+ */
+export async function loadProductCatalog(options: { force?: boolean } = {}): Promise<CollectionData[]> {
+  if (!options.force && cache && Date.now() - cache.loadedAt < CACHE_TTL_MS) {
+    return cache.collections;
+  }
+
+  try {
+    let rows = await db.query.productCatalog.findMany({
+      orderBy: [asc(productCatalog.name)],
+    });
+
+    if (rows.length === 0) {
+      await seedProductCatalog();
+      rows = await db.query.productCatalog.findMany({
+        orderBy: [asc(productCatalog.name)],
+      });
+    }
+
+    const collections = rows.filter((row) => row.active).map(toCollectionData);
+    cache = { collections, loadedAt: Date.now() };
+    setActiveCatalog(collections);
+    return collections;
+  } catch (error) {
+    console.warn('Product catalog unavailable, using seed collections:', error);
+    setActiveCatalog(SEED_COLLECTIONS);
+    return SEED_COLLECTIONS;
+  }
+}
+
+/**
+ * Product collections (not industry verticals) from the loaded catalog
+ */
+export async function loadProductCollections(): Promise<CollectionData[]> {
+  return getProductCollections(await loadProductCatalog());
+}
+
+/**
+ * Every catalog row, including inactive ones, for the admin
+ */
+export async function listProductCatalog(): Promise<ProductCatalogEntry[]> {
+  return db.query.productCatalog.findMany({
+    orderBy: [asc(productCatalog.kind), asc(productCatalog.name)],
+  });
+}
+
+// ============================================================================
+// SEEDING & SYNC
+// ============================================================================
+
+/**
+ * Insert any seed collections the table doesn't have yet. Seed data was
+ * maintained by hand, so it counts as curated.
+ */
+export async function seedProductCatalog(): Promise<number> {
+  const now = new Date();
+
+  const inserted = await db
+    .insert(productCatalog)
+    .values(
+      SEED_COLLECTIONS.map((collection) => ({
+        handle: collection.handle,
+        name: collection.name,
+        url: collection.url,
+        kind: INDUSTRY_VERTICAL_HANDLES.has(collection.handle) ? 'industry' as const : 'product' as const,
+        keywords: collection.keywords,
+        chemicals: collection.chemicals,
+        industries: collection.industries,
+        applications: collection.applications,
+        curatedAt: now,
+        source: 'seed' as const,
+      }))
+    )
+    .onConflictDoNothing({ target: productCatalog.handle })
+    .returning({ id: productCatalog.id });
+
+  cache = null;
+  return inserted.length;
+}
+
+/**
+ * Matching terms for a collection nobody has curated: its title, its handle
+ * and the tags and chemical names of the products in it
+ */
+function deriveMatchingTerms(
+  collection: { handle: string; title: string },
+  products: Array<{ title: string; tags: string[] }>
+): Pick<CollectionData, 'keywords' | 'chemicals'> {
+  const keywords = new Set<string>([
+    collection.title.toLowerCase(),
+    collection.handle.replace(/-/g, ' '),
+  ]);
+  for (const product of products) {
+    for (const tag of product.tags) {
+      if (keywords.size >= 20) break;
+      keywords.add(tag.toLowerCase());
+    }
+  }
+
+  const text = [collection.title, ...products.map((p) => p.title)].join(' ').toLowerCase();
+  const chemicals = Object.entries(CHEMICAL_SYNONYMS)
+    .filter(([canonical, synonyms]) =>
+      [canonical, ...synonyms].some((name) =>
+        new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(text)
+      )
+    )
+    .map(([canonical]) => canonical);
+
+  return { keywords: Array.from(keywords), chemicals };
+}
+
+/**
+ * Pull collections from Shopify into product_catalog. New collections get
+ * derived matching terms; curated rows only have their Shopify-owned fields
+ * refreshed. Collections no longer in the store are deactivated.
+ */
+export async function syncProductCatalog(): Promise<CatalogSyncResult> {
+  const seeded = await seedProductCatalog();
+  const result: CatalogSyncResult = { source: 'seed', seeded, created: 0, updated: 0, deactivated: 0 };
+
+  if (!isShopifyConfigured()) {
+    result.error = 'Shopify is not configured';
+    return result;
+  }
+
+  let collections: Awaited<ReturnType<typeof fetchCollectionsGraphQL>>;
+  let products: Awaited<ReturnType<typeof fetchAllProductsGraphQL>>;
+  try {
+    collections = await fetchCollectionsGraphQL();
+    products = await fetchAllProductsGraphQL(250);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : 'Failed to reach Shopify';
+    return result;
+  }
+
+  result.source = 'shopify';
+  const now = new Date();
+  const existing = new Map((await listProductCatalog()).map((row) => [row.handle, row]));
+
+  for (const collection of collections) {
+    const shopifyFields = {
+      name: collection.title,
+      url: `https://${STORE_HOST}/collections/${collection.handle}`,
+      shopifyCollectionId: collection.id,
+      productsCount: collection.productsCount,
+      active: true,
+      syncedAt: now,
+      updatedAt: now,
+    };
+    const row = existing.get(collection.handle);
+
+    const derived = !row || !row.curatedAt
+      ? deriveMatchingTerms(
+          collection,
+          products.filter((p) => p.collectionHandles.includes(collection.handle))
+        )
+      : {};
+
+    if (row) {
+      await db
+        .update(productCatalog)
+        .set({ ...shopifyFields, ...derived })
+        .where(eq(productCatalog.id, row.id));
+      result.updated++;
+    } else {
+      await db.insert(productCatalog).values({
+        ...shopifyFields,
+        ...derived,
+        handle: collection.handle,
+        kind: INDUSTRY_VERTICAL_HANDLES.has(collection.handle) ? 'industry' : 'product',
+        source: 'shopify',
+      });
+      result.created++;
+    }
+  }
+
+  const liveHandles = new Set(collections.map((c) => c.handle));
+  for (const row of existing.values()) {
+    if (row.active && !liveHandles.has(row.handle)) {
+      await db
+        .update(productCatalog)
+        .set({ active: false, updatedAt: now })
+        .where(eq(productCatalog.id, row.id));
+      result.deactivated++;
+    }
+  }
+
+  cache = null;
+  return result;
+}
+
+// ============================================================================
+// CURATION
+// ============================================================================
+
+/**
+ * Edit a collection's curated fields. Curated rows keep their matching
+ * terms across future syncs.
+ */
+export async function updateCatalogEntry(
+  id: string,
+  input: UpdateCatalogEntryInput,
+  curatedBy: string
+): Promise<ProductCatalogEntry> {
+  const now = new Date();
+  const touchesTerms = ['keywords', 'chemicals', 'industries', 'applications'].some(
+    (field) => field in input
+  );
+
+  const [updated] = await db
+    .update(productCatalog)
+    .set({
+      ...input,
+      ...(touchesTerms ? { curatedBy, curatedAt: now } : {}),
+      updatedAt: now,
+    })
+    .where(eq(productCatalog.id, id))
+    .returning();
+
+  if (!updated) {
+    throw new CatalogError('NOT_FOUND', 'Catalog entry not found');
+  }
+
+  cache = null;
+  return updated;
+}
@@ -3,6 +3,11 @@
  *
  * Matches topics and content to relevant Alliance Chemical products and collections.
  * Uses keyword matching, chemical name recognition, and industry context.
+ *
+ * The catalog itself lives in the product_catalog table (see product-catalog.ts).
+ * Matching stays synchronous: lookups take the catalog from loadProductCatalog()
+ * as an argument. Callers that omit it get the last loaded catalog, or
+ * SEED_COLLECTIONS with a warning if none has been loaded yet.
  */
 
 import type { ProductLink } from './content-types';
@@ -22,12 +27,26 @@ export interface CollectionData {
   chemicals: string[];
   industries: string[];
   applications: string[];
+  kind?: CollectionKind;
 }
 
+export type CollectionKind = 'product' | 'industry';
+
+/**
+ * Handles of collections that group products by industry rather than by chemical
+ */
+export const INDUSTRY_VERTICAL_HANDLES = new Set([
+  'aviation-aerospace', 'extraction', 'water-treatment', 'food-beverage',
+  'healthcare', 'petroleum', 'botanical', 'hemp', 'winery', 'wastewater',
+  'industrial-automotive', 'research-development', 'education',
+  'environmental', 'government',
+]);
+
 /**
- * Complete collection catalog from sitemap
+ * Hand-maintained collection catalog from the sitemap. Seeds product_catalog
+ * and is used as-is whenever the table can't be loaded.
  */
-export const COLLECTIONS: CollectionData[] = [
+export const SEED_COLLECTIONS: CollectionData[] = [
   // === ACIDS ===
   {
     handle: 'acids',
@@ -430,6 +449,36 @@ export const COLLECTIONS: CollectionData[] = [
   },
 ];
 
+let activeCatalog: CollectionData[] | null = null;
+let warnedSeedFallback = false;
+
+/**
+ * Replace the catalog used for matching (called by loadProductCatalog)
+ */
+export function setActiveCatalog(collections: CollectionData[]): void {
+  activeCatalog = collections;
+}
+
+/**
+ * Collections used when a lookup isn't given a catalog
+ */
+export function getActiveCatalog(): CollectionData[] {
+  if (activeCatalog) return activeCatalog;
+
+  if (!warnedSeedFallback) {
+    warnedSeedFallback = true;
+    console.warn('Product catalog not loaded; matching against seed collections');
+  }
+  return SEED_COLLECTIONS;
+}
+
+/**
+ * Whether a collection is an industry vertical rather than a product collection
+ */
+export function isIndustryVertical(collection: CollectionData): boolean {
+  return (collection.kind ?? (INDUSTRY_VERTICAL_HANDLES.has(collection.handle) ? 'industry' : 'product')) === 'industry';
+}
+
 // ============================================================================
 // CHEMICAL NAME VARIATIONS
 // ============================================================================
@@ -493,6 +542,7 @@ export function matchTopicToProducts(
     industryHint?: string;
     applicationHint?: string;
     maxResults?: number;
+    catalog?: CollectionData[];
   }
 ): ProductLink[] {
   const results = scoreCollections(topic, options);
@@ -515,12 +565,13 @@ export function scoreCollections(
   options?: {
     industryHint?: string;
     applicationHint?: string;
+    catalog?: CollectionData[];
   }
 ): MatchResult[] {
   const normalizedTopic = topic.toLowerCase();
   const results: MatchResult[] = [];
 
-  for (const collection of COLLECTIONS) {
+  for (const collection of options?.catalog ?? getActiveCatalog()) {
     const { score, reasons } = calculateCollectionScore(
       normalizedTopic,
       collection,
@@ -619,12 +670,15 @@ function calculateCollectionScore(
 /**
  * Extract chemical names from text
  */
-export function extractChemicalNames(text: string): string[] {
+export function extractChemicalNames(
+  text: string,
+  catalog: CollectionData[] = getActiveCatalog()
+): string[] {
   const normalizedText = text.toLowerCase();
   const found: Set<string> = new Set();
 
   // Check all collections for chemical matches
-  for (const collection of COLLECTIONS) {
+  for (const collection of catalog) {
     for (const chemical of collection.chemicals) {
       if (normalizedText.includes(chemical.toLowerCase())) {
         found.add(chemical);
@@ -647,32 +701,25 @@ export function extractChemicalNames(text: string): string[] {
 /**
  * Get collection by handle
  */
-export function getCollectionByHandle(handle: string): CollectionData | undefined {
-  return COLLECTIONS.find((c) => c.handle === handle);
+export function getCollectionByHandle(
+  handle: string,
+  catalog: CollectionData[] = getActiveCatalog()
+): CollectionData | undefined {
+  return catalog.find((c) => c.handle === handle);
 }
 
 /**
  * Get all industry verticals
  */
-export function getIndustryVerticals(): CollectionData[] {
-  return COLLECTIONS.filter((c) =>
-    ['aviation-aerospace', 'extraction', 'water-treatment', 'food-beverage',
-      'healthcare', 'petroleum', 'botanical', 'hemp', 'winery', 'wastewater'].includes(c.handle)
-  );
+export function getIndustryVerticals(catalog: CollectionData[] = getActiveCatalog()): CollectionData[] {
+  return catalog.filter(isIndustryVertical);
 }
 
 /**
  * Get primary product collections (not industry verticals)
  */
-export function getProductCollections(): CollectionData[] {
-  const industryHandles = new Set([
-    'aviation-aerospace', 'extraction', 'water-treatment', 'food-beverage',
-    'healthcare', 'petroleum', 'botanical', 'hemp', 'winery', 'wastewater',
-    'industrial-automotive', 'research-development', 'education',
-    'environmental', 'government',
-  ]);
-
-  return COLLECTIONS.filter((c) => !industryHandles.has(c.handle));
+export function getProductCollections(catalog: CollectionData[] = getActiveCatalog()): CollectionData[] {
+  return catalog.filter((c) => !isIndustryVertical(c));
 }
 
 /**
@@ -108,6 +108,8 @@ export interface ImageSection {
   alt: string;
   caption?: string;
   wide?: boolean;
+  width?: number;
+  height?: number;
 }
 
 export interface FAQItem {
@@ -315,9 +317,12 @@ export function renderImage(section: ImageSection): string {
     : '';
 
   if (section.url) {
+    const size = section.width && section.height
+      ? ` width="${section.width}" height="${section.height}"`
+      : '';
     return `
 <div class="${containerClass}">
-  <img src="${escapeHtml(section.url)}" alt="${escapeHtml(section.alt)}">
+  <img src="${escapeHtml(section.url)}" alt="${escapeHtml(section.alt)}"${size}>
   ${caption}
 </div>`;
   }
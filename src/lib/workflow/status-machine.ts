@@ -0,0 +1,276 @@
+/**
+ * Status State Machine
+ *
+ * Single gatekeeper for post and idea status changes. Transitions are
+ * validated against POST_STATUS_CONFIG.allowedTransitions and every
+ * change is written to the status_changes audit table.
+ */
+
+import { db, type Database, type Transaction } from '@/lib/db/client';
+import {
+  blogPosts,
+  contentIdeas,
+  statusChanges,
+  type BlogPost as BlogPostRow,
+  type NewBlogPost,
+  type ContentIdea as ContentIdeaRow,
+  type NewContentIdea,
+  type StatusChange,
+  type StatusEntityType,
+} from '@/lib/db/schema';
+import { eq, and, desc } from 'drizzle-orm';
+import { POST_STATUS_CONFIG } from '@/lib/config/constants';
+import type { PostStatus } from '@/lib/schema/canonical';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TransitionOptions {
+  /** Who made the change (user email, 'autopilot', 'cron') */
+  changedBy?: string | null;
+  /** Optional free-text reason stored with the audit row */
+  reason?: string | null;
+}
+
+export type StatusTransitionErrorCode =
+  | 'INVALID_STATUS_TRANSITION'
+  | 'UNKNOWN_STATUS'
+  | 'STATUS_CONFLICT'
+  | 'NOT_FOUND';
+
+/**
+ * Thrown when a status change is not allowed
+ */
+export class StatusTransitionError extends Error {
+  readonly code: StatusTransitionErrorCode;
+  readonly entityType: StatusEntityType;
+  readonly from: string | null;
+  readonly to: string;
+  readonly allowedTransitions: PostStatus[];
+
+  constructor(
+    code: StatusTransitionErrorCode,
+    entityType: StatusEntityType,
+    from: string | null,
+    to: string,
+    message: string
+  ) {
+    super(message);
+    this.name = 'StatusTransitionError';
+    this.code = code;
+    this.entityType = entityType;
+    this.from = from;
+    this.to = to;
+    this.allowedTransitions = from && isPostStatus(from) ? getAllowedTransitions(from) : [];
+  }
+
+  /**
+   * Response body for API routes
+   */
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      entityType: this.entityType,
+      from: this.from,
+      to: this.to,
+      allowedTransitions: this.allowedTransitions,
+    };
+  }
+}
+
+// ============================================================================
+// RULES
+// ============================================================================
+
+/**
+ * Whether a string is a known status
+ */
+export function isPostStatus(status: string): status is PostStatus {
+  return status in POST_STATUS_CONFIG;
+}
+
+/**
+ * Statuses reachable from the given status
+ */
+export function getAllowedTransitions(from: PostStatus): PostStatus[] {
+  return [...POST_STATUS_CONFIG[from].allowedTransitions];
+}
+
+/**
+ * Whether moving from one status to another is allowed.
+ * Staying in the same status is always allowed (and not audited).
+ */
+export function canTransition(from: string, to: string): boolean {
+  if (from === to) return true;
+  if (!isPostStatus(from) || !isPostStatus(to)) return false;
+  return getAllowedTransitions(from).includes(to);
+}
+
+/**
+ * Throw a StatusTransitionError if the transition is not allowed
+ */
+export function assertTransition(
+  entityType: StatusEntityType,
+  from: string,
+  to: string
+): void {
+  if (!isPostStatus(to)) {
+    throw new StatusTransitionError(
+      'UNKNOWN_STATUS',
+      entityType,
+      from,
+      to,
+      `Unknown status "${to}"`
+    );
+  }
+
+  if (!canTransition(from, to)) {
+    const allowed = isPostStatus(from) ? getAllowedTransitions(from) : [];
+    throw new StatusTransitionError(
+      'INVALID_STATUS_TRANSITION',
+      entityType,
+      from,
+      to,
+      `Cannot move ${entityType} from "${from}" to "${to}"` +
+        (allowed.length > 0 ? ` (allowed: ${allowed.join(', ')})` : '')
+    );
+  }
+}
+
+// ============================================================================
+// AUDIT
+// ============================================================================
+
+/**
+ * Write a status-change audit row. Use directly only for creations
+ * (fromStatus null) or when the status was updated in the same write as
+ * other fields after assertTransition() passed, and pass that write's
+ * transaction so the audit row can't be lost.
+ */
+export async function recordStatusChange(
+  entityType: StatusEntityType,
+  entityId: string,
+  fromStatus: string | null,
+  toStatus: string,
+  options: TransitionOptions = {},
+  executor: Database | Transaction = db
+): Promise<void> {
+  if (fromStatus === toStatus) return;
+
+  await executor.insert(statusChanges).values({
+    entityType,
+    entityId,
+    fromStatus,
+    toStatus,
+    changedBy: options.changedBy ?? null,
+    reason: options.reason ?? null,
+  });
+}
+
+/**
+ * Status history for an entity, newest first
+ */
+export async function getStatusHistory(
+  entityType: StatusEntityType,
+  entityId: string
+): Promise<StatusChange[]> {
+  return db.query.statusChanges.findMany({
+    where: and(
+      eq(statusChanges.entityType, entityType),
+      eq(statusChanges.entityId, entityId)
+    ),
+    orderBy: [desc(statusChanges.createdAt)],
+  });
+}
+
+// ============================================================================
+// TRANSITIONS
+// ============================================================================
+
+/**
+ * Move a post to a new status, optionally updating other fields in the
+ * same write. The update only applies if the status hasn't changed
+ * underneath us.
+ */
+export async function transitionPostStatus(
+  postId: string,
+  to: PostStatus,
+  options: TransitionOptions & { set?: Partial<NewBlogPost> } = {}
+): Promise<BlogPostRow> {
+  const post = await db.query.blogPosts.findFirst({
+    where: eq(blogPosts.id, postId),
+  });
+
+  if (!post) {
+    throw new StatusTransitionError('NOT_FOUND', 'post', null, to, 'Post not found');
+  }
+
+  assertTransition('post', post.status, to);
+
+  // The status and its audit row are written together or not at all
+  return db.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(blogPosts)
+      .set({ ...options.set, status: to })
+      .where(and(eq(blogPosts.id, postId), eq(blogPosts.status, post.status)))
+      .returning();
+
+    if (!updated) {
+      throw new StatusTransitionError(
+        'STATUS_CONFLICT',
+        'post',
+        post.status,
+        to,
+        'Post status changed while the update was in progress'
+      );
+    }
+
+    await recordStatusChange('post', postId, post.status, to, options, tx);
+    return updated;
+  });
+}
+
+/**
+ * Move a content idea to a new status, optionally updating other fields
+ * in the same write. Pass a transaction to commit it with other writes.
+ */
+export async function transitionIdeaStatus(
+  ideaId: string,
+  to: PostStatus,
+  options: TransitionOptions & { set?: Partial<NewContentIdea> } = {},
+  executor: Database | Transaction = db
+): Promise<ContentIdeaRow> {
+  const idea = await executor.query.contentIdeas.findFirst({
+    where: eq(contentIdeas.id, ideaId),
+  });
+
+  if (!idea) {
+    throw new StatusTransitionError('NOT_FOUND', 'idea', null, to, 'Idea not found');
+  }
+
+  assertTransition('idea', idea.status, to);
+
+  // The status and its audit row are written together or not at all
+  return executor.transaction(async (tx) => {
+    const [updated] = await tx
+      .update(contentIdeas)
+      .set({ ...options.set, status: to })
+      .where(and(eq(contentIdeas.id, ideaId), eq(contentIdeas.status, idea.status)))
+      .returning();
+
+    if (!updated) {
+      throw new StatusTransitionError(
+        'STATUS_CONFLICT',
+        'idea',
+        idea.status,
+        to,
+        'Idea status changed while the update was in progress'
+      );
+    }
+
+    await recordStatusChange('idea', ideaId, idea.status, to, options, tx);
+    return updated;
+  });
+}
@@ -0,0 +1,161 @@
+/**
+ * Article Prompt
+ *
+ * Builds the /write article prompt: product details from Shopify plus the
+ * angle, length, keyword and tone the user picked. Shared by the blocking
+ * `generate-article` action and the streaming writer.
+ */
+
+import { fetchProductGraphQL } from '@/lib/shopify/api-client';
+import { isShopifyConfigured } from '@/lib/config/env';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ArticleAngle = 'howto' | 'comparison' | 'safety' | 'technical' | 'application' | 'guide';
+export type ArticleLength = 'short' | 'medium' | 'long';
+
+export interface ArticleRequest {
+  productHandle: string;
+  angle: ArticleAngle;
+  targetLength: ArticleLength;
+  primaryKeyword?: string;
+  secondaryKeywords?: string[];
+  mustInclude?: string[]; // e.g., ["safety warnings", "comparison table", "FAQs"]
+  tone?: 'professional' | 'conversational' | 'technical';
+  additionalNotes?: string;
+}
+
+// ~1000 / ~2000 / ~3500 words
+const WORD_TARGETS: Record<ArticleLength, number> = { short: 1000, medium: 2000, long: 3500 };
+
+// ============================================================================
+// PROMPT
+// ============================================================================
+
+/**
+ * Fetch the product and build the article prompt. Returns null when the
+ * product details can't be fetched.
+ */
+export async function prepareArticlePrompt(request: ArticleRequest): Promise<string | null> {
+  if (!isShopifyConfigured()) return null;
+
+  const productInfo = await fetchProductGraphQL(request.productHandle);
+  if (!productInfo) return null;
+
+  const productContext = `
+PRODUCT DETAILS:
+- Name: ${productInfo.title}
+- Handle: ${productInfo.handle}
+- URL: ${productInfo.url}
+- Description: ${productInfo.description}
+- Tags: ${productInfo.tags.join(', ')}
+- Variants: ${productInfo.variants.map(v => `${v.title} ($${v.price})`).join(', ')}
+`;
+
+  const mustIncludeStr = request.mustInclude?.length
+    ? `\nMUST INCLUDE: ${request.mustInclude.join(', ')}`
+    : '';
+
+  return buildArticlePrompt({
+    productContext,
+    productHandle: request.productHandle,
+    angle: request.angle,
+    targetWords: WORD_TARGETS[request.targetLength],
+    primaryKeyword: request.primaryKeyword,
+    secondaryKeywords: request.secondaryKeywords,
+    mustInclude: mustIncludeStr,
+    tone: request.tone || 'professional',
+    additionalNotes: request.additionalNotes,
+  });
+}
+
+/**
+ * Build the prompt for article generation
+ */
+function buildArticlePrompt(params: {
+  productContext: string;
+  productHandle: string;
+  angle: string;
+  targetWords: number;
+  primaryKeyword?: string;
+  secondaryKeywords?: string[];
+  mustInclude: string;
+  tone: string;
+  additionalNotes?: string;
+}): string {
+  const angleDescriptions: Record<string, string> = {
+    howto: 'A step-by-step guide showing how to use or apply the product',
+    comparison: 'Compare this product with alternatives, highlighting key differences',
+    safety: 'Focus on safe handling, storage, and regulatory compliance',
+    technical: 'Deep dive into technical specifications, chemical properties, and applications',
+    application: 'Focus on specific industry applications and use cases',
+    guide: 'A comprehensive guide covering multiple aspects of the product',
+  };
+
+  const keywordInstruction = params.primaryKeyword
+    ? `Primary SEO keyword: "${params.primaryKeyword}"`
+    : 'Suggest an appropriate primary SEO keyword';
+
+  const secondaryKeywordsStr = params.secondaryKeywords?.length
+    ? `Secondary keywords to include: ${params.secondaryKeywords.join(', ')}`
+    : '';
+
+  return `You are writing a blog article for Alliance Chemical, a trusted industrial chemical supplier.
+
+${params.productContext}
+
+ARTICLE REQUIREMENTS:
+- Angle: ${params.angle} - ${angleDescriptions[params.angle] || 'General product guide'}
+- Target length: ~${params.targetWords} words
+- Tone: ${params.tone}
+- ${keywordInstruction}
+${secondaryKeywordsStr}
+${params.mustInclude}
+${params.additionalNotes ? `\nADDITIONAL NOTES: ${params.additionalNotes}` : ''}
+
+OUTPUT FORMAT:
+Return a JSON object with this exact structure. Use markdown in content fields for formatting (bold, lists, links).
+
+{
+  "meta": {
+    "title": "Article Title (60 chars max)",
+    "metaDescription": "SEO meta description (150-160 chars)",
+    "primaryKeyword": "main keyword",
+    "secondaryKeywords": ["keyword2", "keyword3"]
+  },
+  "hero": {
+    "subtitle": "One sentence hook that captures attention",
+    "badges": ["Badge 1", "Badge 2", "Badge 3"],
+    "heroImage": "suggested-image-description"
+  },
+  "sections": [
+    { "type": "text", "heading": "Introduction", "content": "Markdown content..." },
+    { "type": "callout", "variant": "warning", "title": "Safety Note", "content": "Important warning..." },
+    { "type": "table", "headers": ["Col1", "Col2"], "rows": [["a", "b"]], "caption": "Table description" },
+    { "type": "comparison", "items": [{ "title": "Option A", "points": ["point1"], "featured": true }] },
+    { "type": "process-steps", "heading": "How to Apply", "steps": [{ "title": "Step 1", "content": "..." }] },
+    { "type": "case-study", "title": "Real-World Example", "stats": [{ "value": "50%", "label": "Improvement" }], "content": "..." },
+    { "type": "product-grid", "products": [{ "handle": "${params.productHandle}", "title": "Product Name", "description": "..." }] },
+    { "type": "image", "suggestion": "Photo description for manual selection", "alt": "alt text", "caption": "..." },
+    { "type": "faq", "heading": "Frequently Asked Questions", "questions": [{ "q": "Question?", "a": "Answer..." }] }
+  ],
+  "cta": {
+    "title": "Ready to Order?",
+    "text": "CTA description mentioning the product",
+    "buttonText": "Shop Now",
+    "productHandle": "${params.productHandle}"
+  }
+}
+
+IMPORTANT RULES:
+1. Output ONLY valid JSON, no other text before or after
+2. Use varied section types appropriate for the angle
+3. Include at least one callout for safety-critical information
+4. Include FAQs with 4-6 questions
+5. Make content specific to the product, not generic
+6. Include product-grid section linking to relevant products
+7. For text sections, use markdown: **bold**, *italic*, bullet lists, [links](url)
+8. For comparison sections, mark the recommended option with "featured": true`;
+}
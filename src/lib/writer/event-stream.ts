@@ -0,0 +1,92 @@
+/**
+ * Writer Event Stream
+ *
+ * Server-Sent Events response for streaming writer jobs. Section events
+ * carry `id: <section number>`, so a reconnecting client's Last-Event-ID
+ * is the number of sections it already has. The job keeps running when
+ * the client disconnects - events are simply dropped until it reconnects.
+ */
+
+import type { WriterJobEvent } from './stream-jobs';
+
+export type SendWriterEvent = (event: string, data: unknown, id?: number) => void;
+
+const HEARTBEAT_INTERVAL_MS = 20000;
+
+/**
+ * SSE response that stays open until `run` settles
+ */
+export function createWriterEventStream(
+  request: Request,
+  run: (send: SendWriterEvent) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false;
+
+      const write = (message: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(message));
+        } catch {
+          closed = true;
+        }
+      };
+
+      const send: SendWriterEvent = (event, data, id) => {
+        const idLine = id !== undefined ? `id: ${id}\n` : '';
+        write(`${idLine}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      const close = () => {
+        clearInterval(heartbeat);
+        if (closed) return;
+        closed = true;
+        controller.close();
+      };
+
+      // Stop writing, but let the job finish
+      request.signal.addEventListener('abort', close);
+
+      run(send)
+        .catch((error) => {
+          console.error('Writer stream error:', error);
+          send('error', { message: error instanceof Error ? error.message : 'Unknown error' });
+        })
+        .finally(close);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
+    },
+  });
+}
+
+/**
+ * Forward a job event to the client
+ */
+export function sendWriterJobEvent(send: SendWriterEvent, event: WriterJobEvent): void {
+  switch (event.type) {
+    case 'section':
+      send('section', { index: event.index, section: event.section }, event.index + 1);
+      break;
+    case 'field':
+      send('field', { key: event.key, value: event.value });
+      break;
+    case 'complete':
+      send('complete', { content: event.content, html: event.html });
+      break;
+    case 'failed':
+      send('failed', { error: event.error, resumable: event.resumable });
+      break;
+  }
+}
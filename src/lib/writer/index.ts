@@ -0,0 +1,39 @@
+/**
+ * Writer Module
+ *
+ * /write article prompts and streamed, resumable article generation.
+ */
+
+// Prompt
+export {
+  prepareArticlePrompt,
+  type ArticleRequest,
+  type ArticleAngle,
+  type ArticleLength,
+} from './article-prompt';
+
+// Stream parsing
+export {
+  ArticleStreamParser,
+  type ArticleStreamEvent,
+  type ArticleFieldKey,
+} from './stream-parser';
+
+// Jobs
+export {
+  createWriterJob,
+  getWriterJob,
+  canResumeWriterJob,
+  runWriterJob,
+  WriterJobError,
+  type WriterJobErrorCode,
+  type WriterJobEvent,
+  type WriterSection,
+} from './stream-jobs';
+
+// SSE
+export {
+  createWriterEventStream,
+  sendWriterJobEvent,
+  type SendWriterEvent,
+} from './event-stream';
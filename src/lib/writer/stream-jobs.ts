@@ -0,0 +1,280 @@
+/**
+ * Streaming Writer Jobs
+ *
+ * Runs /write article generation as a job: the model output is streamed
+ * through ArticleStreamParser, each completed section is saved and handed
+ * to the caller (the SSE route) straight away, and the raw output is saved
+ * as it grows. A client that loses its connection reconnects with the job
+ * ID; if the run itself died (or was cut off at the token limit), the next
+ * run asks the model to continue from the last complete section instead of
+ * starting over.
+ */
+
+import { db } from '@/lib/db/client';
+import { writerJobs, type WriterJob } from '@/lib/db/schema';
+import { and, eq, isNull, lt, or, sql } from 'drizzle-orm';
+import { WRITER_STREAM_CONFIG } from '@/lib/config/constants';
+import { getDefaultProvider } from '@/lib/ai/providers';
+import { withUsageContext } from '@/lib/ai/usage/context';
+import { parseAIResponse } from '@/lib/utils/json-repair';
+import { renderBlogHtml, validateBlogContent } from '@/lib/templates/blog-renderer';
+import type { BlogContent, BlogSection } from '@/lib/templates/section-renderers';
+import { prepareArticlePrompt, type ArticleRequest } from './article-prompt';
+import { ArticleStreamParser, type ArticleStreamEvent } from './stream-parser';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type WriterJobErrorCode = 'NOT_FOUND' | 'NO_PRODUCT' | 'ALREADY_RUNNING' | 'NOT_RESUMABLE';
+
+export class WriterJobError extends Error {
+  constructor(
+    public code: WriterJobErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'WriterJobError';
+  }
+}
+
+export type WriterJobEvent =
+  | ArticleStreamEvent
+  | { type: 'complete'; content: BlogContent; html: string }
+  | { type: 'failed'; error: string; resumable: boolean };
+
+/** A section as sent in `section` events, ready for renderSection */
+export type WriterSection = Extract<WriterJobEvent, { type: 'section' }>['section'];
+
+type WriterFields = WriterJob['fields'];
+
+// ============================================================================
+// JOBS
+// ============================================================================
+
+/**
+ * Build the prompt and create a pending job
+ */
+export async function createWriterJob(
+  request: ArticleRequest,
+  createdBy?: string | null
+): Promise<WriterJob> {
+  const prompt = await prepareArticlePrompt(request);
+  if (!prompt) {
+    throw new WriterJobError('NO_PRODUCT', 'Could not fetch product details');
+  }
+
+  const { productHandle, ...options } = request;
+  const [job] = await db
+    .insert(writerJobs)
+    .values({ productHandle, options, prompt, createdBy: createdBy ?? null })
+    .returning();
+  return job;
+}
+
+export async function getWriterJob(id: string): Promise<WriterJob | null> {
+  const job = await db.query.writerJobs.findFirst({
+    where: eq(writerJobs.id, id),
+  });
+  return job ?? null;
+}
+
+/**
+ * Whether a run may pick the job up now: it hasn't started, its last run
+ * failed, or the run streaming it stopped sending heartbeats
+ */
+export function canResumeWriterJob(job: WriterJob, now: Date = new Date()): boolean {
+  if (job.attempts >= WRITER_STREAM_CONFIG.maxAttempts) return false;
+  if (job.status === 'pending' || job.status === 'failed') return true;
+  if (job.status !== 'streaming') return false;
+  return !job.heartbeatAt || now.getTime() - job.heartbeatAt.getTime() > WRITER_STREAM_CONFIG.staleAfterMs;
+}
+
+/**
+ * Run (or resume) a job, calling `onEvent` for every section and
+ * top-level field as it completes. Returns the job as saved at the end;
+ * generation failures are saved on the job, not thrown.
+ */
+export async function runWriterJob(
+  id: string,
+  onEvent: (event: WriterJobEvent) => void = () => {}
+): Promise<WriterJob> {
+  const job = await claimWriterJob(id);
+
+  // Keep what the last run finished; drop its incomplete tail
+  const replay = new ArticleStreamParser();
+  replay.push(job.output);
+  const prefix = job.output.slice(0, replay.resumePoint);
+
+  const parser = new ArticleStreamParser();
+  const sections: BlogSection[] = [];
+  const fields: WriterFields = {};
+  for (const event of parser.push(prefix)) {
+    collect(event, sections, fields);
+  }
+
+  const save = (set: Partial<typeof writerJobs.$inferInsert>) =>
+    db
+      .update(writerJobs)
+      .set({ output: parser.output, sections, fields, heartbeatAt: new Date(), updatedAt: new Date(), ...set })
+      .where(eq(writerJobs.id, id))
+      .returning()
+      .then(([row]) => row);
+
+  await save({});
+
+  const prompt = prefix ? buildContinuationPrompt(job.prompt, prefix) : job.prompt;
+  const stripFence = prefix ? createFenceStripper() : (chunk: string) => chunk;
+  let lastSave = Date.now();
+
+  try {
+    await withUsageContext({ source: 'writer:stream' }, async () => {
+      const stream = getDefaultProvider().streamText(prompt, {
+        temperature: 0.7,
+        maxTokens: WRITER_STREAM_CONFIG.maxTokens,
+      });
+
+      for await (const chunk of stream) {
+        const events = parser.push(stripFence(chunk));
+        for (const event of events) {
+          collect(event, sections, fields);
+          onEvent(event);
+        }
+
+        if (events.length > 0 || Date.now() - lastSave >= WRITER_STREAM_CONFIG.saveIntervalMs) {
+          await save({});
+          lastSave = Date.now();
+        }
+        // Providers report usage for the tokens generated so far on early exit
+        if (parser.complete) break;
+      }
+    });
+
+    if (!parser.complete) {
+      throw new Error('Generation stopped before the article was finished');
+    }
+
+    const content = parseAIResponse<BlogContent>(parser.output);
+    if (!validateBlogContent(content)) {
+      throw new Error('Generated content failed validation');
+    }
+
+    const html = renderBlogHtml(content);
+    const saved = await save({
+      status: 'completed',
+      content,
+      html,
+      errorMessage: null,
+      completedAt: new Date(),
+    });
+
+    onEvent({ type: 'complete', content, html });
+    return saved;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Generation failed';
+    console.error(`Writer job ${id} failed:`, error);
+
+    const saved = await save({ status: 'failed', errorMessage: message });
+    onEvent({ type: 'failed', error: message, resumable: canResumeWriterJob(saved) });
+    return saved;
+  }
+}
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Take the job's lease. Only one run streams a job at a time; a run that
+ * stopped heartbeating loses it.
+ */
+async function claimWriterJob(id: string): Promise<WriterJob> {
+  const staleBefore = new Date(Date.now() - WRITER_STREAM_CONFIG.staleAfterMs);
+
+  const [claimed] = await db
+    .update(writerJobs)
+    .set({
+      status: 'streaming',
+      attempts: sql`${writerJobs.attempts} + 1`,
+      heartbeatAt: new Date(),
+      errorMessage: null,
+      updatedAt: new Date(),
+    })
+    .where(
+      and(
+        eq(writerJobs.id, id),
+        lt(writerJobs.attempts, WRITER_STREAM_CONFIG.maxAttempts),
+        or(
+          eq(writerJobs.status, 'pending'),
+          eq(writerJobs.status, 'failed'),
+          and(
+            eq(writerJobs.status, 'streaming'),
+            or(isNull(writerJobs.heartbeatAt), lt(writerJobs.heartbeatAt, staleBefore))
+          )
+        )
+      )
+    )
+    .returning();
+
+  if (claimed) return claimed;
+
+  const job = await getWriterJob(id);
+  if (!job) {
+    throw new WriterJobError('NOT_FOUND', 'Writer job not found');
+  }
+  if (job.status === 'streaming') {
+    throw new WriterJobError('ALREADY_RUNNING', 'Writer job is already streaming');
+  }
+  throw new WriterJobError(
+    'NOT_RESUMABLE',
+    job.status === 'completed'
+      ? 'Writer job is already complete'
+      : `Writer job failed ${job.attempts} times and can't be resumed`
+  );
+}
+
+function collect(event: ArticleStreamEvent, sections: BlogSection[], fields: WriterFields): void {
+  if (event.type === 'section') {
+    sections[event.index] = event.section;
+  } else {
+    (fields as Record<string, unknown>)[event.key] = event.value;
+  }
+}
+
+/**
+ * Ask the model to pick up a cut-off response where it stops
+ */
+function buildContinuationPrompt(prompt: string, partial: string): string {
+  return `${prompt}
+
+YOUR RESPONSE SO FAR (it was cut off):
+${partial}
+
+Continue the JSON from exactly where it stops. Output only the remaining text - do not repeat anything above and do not wrap it in a code block.`;
+}
+
+/**
+ * Drop a code fence the model opens a continuation with, despite being
+ * asked not to. Chunks are held back until the start is known.
+ */
+function createFenceStripper(): (chunk: string) => string {
+  let head = '';
+  let done = false;
+
+  return (chunk) => {
+    if (done) return chunk;
+    head += chunk;
+
+    const trimmed = head.trimStart();
+    if (!trimmed) return '';
+    if (!trimmed.startsWith('`')) {
+      done = true;
+      return head;
+    }
+
+    const newline = trimmed.indexOf('\n');
+    if (newline < 0) return '';
+    done = true;
+    return trimmed.slice(newline + 1);
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Article Stream Parser
+ *
+ * Incrementally scans the article JSON as the model streams it and hands
+ * back each piece as soon as it is complete: every element of the
+ * top-level `sections` array, and the other top-level objects (`meta`,
+ * `hero`, `cta`). Text before the opening brace (a code fence, a stray
+ * sentence) is skipped. The scanner only tracks strings, escapes and
+ * nesting depth, so it never re-parses what it has already seen.
+ */
+
+import { parseAIResponse } from '@/lib/utils/json-repair';
+import type { BlogContent, BlogSection } from '@/lib/templates/section-renderers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type ArticleFieldKey = Exclude<keyof BlogContent, 'sections'>;
+
+export type ArticleStreamEvent =
+  | { type: 'field'; key: ArticleFieldKey; value: unknown }
+  | { type: 'section'; index: number; section: BlogSection };
+
+// ============================================================================
+// PARSER
+// ============================================================================
+
+export class ArticleStreamParser {
+  private text = '';
+  private pos = 0;
+  private depth = 0;
+  private closed = false;
+
+  // String state
+  private inString = false;
+  private escaped = false;
+  private keyStart = -1;
+
+  // Top-level key/value state
+  private expectKey = false;
+  private currentKey: string | null = null;
+  private valueStart = -1;
+
+  // Sections array state
+  private inSections = false;
+  private sectionStart = -1;
+  private sectionCount = 0;
+  private resumeOffset = 0;
+
+  /**
+   * Feed the next chunk of model output; returns what it completed
+   */
+  push(chunk: string): ArticleStreamEvent[] {
+    this.text += chunk;
+    const events: ArticleStreamEvent[] = [];
+
+    for (; this.pos < this.text.length && !this.closed; this.pos++) {
+      const c = this.text[this.pos];
+
+      if (this.depth === 0) {
+        if (c === '{') {
+          this.depth = 1;
+          this.expectKey = true;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (c === '\\') {
+          this.escaped = true;
+        } else if (c === '"') {
+          this.inString = false;
+          if (this.keyStart >= 0) {
+            this.currentKey = JSON.parse(this.text.slice(this.keyStart, this.pos + 1)) as string;
+            this.expectKey = false;
+            this.keyStart = -1;
+          }
+        }
+        continue;
+      }
+
+      switch (c) {
+        case '"':
+          this.inString = true;
+          if (this.depth === 1 && this.expectKey) this.keyStart = this.pos;
+          break;
+
+        case '{':
+        case '[':
+          if (this.depth === 1) {
+            this.valueStart = this.pos;
+            this.inSections = this.currentKey === 'sections' && c === '[';
+          } else if (this.depth === 2 && this.inSections && c === '{') {
+            this.sectionStart = this.pos;
+          }
+          this.depth++;
+          break;
+
+        case '}':
+        case ']':
+          this.depth--;
+          if (this.depth === 2 && this.inSections && this.sectionStart >= 0) {
+            const section = parseFragment<BlogSection>(this.text.slice(this.sectionStart, this.pos + 1));
+            if (section) {
+              events.push({ type: 'section', index: this.sectionCount++, section });
+              this.resumeOffset = this.pos + 1;
+            }
+            this.sectionStart = -1;
+          } else if (this.depth === 1 && this.valueStart >= 0) {
+            if (this.inSections) {
+              this.inSections = false;
+            } else if (this.currentKey) {
+              const value = parseFragment<unknown>(this.text.slice(this.valueStart, this.pos + 1));
+              if (value !== null) {
+                events.push({ type: 'field', key: this.currentKey as ArticleFieldKey, value });
+              }
+            }
+            this.valueStart = -1;
+            this.resumeOffset = this.pos + 1;
+          } else if (this.depth === 0) {
+            this.closed = true;
+          }
+          break;
+
+        case ',':
+          if (this.depth === 1) {
+            this.expectKey = true;
+            this.currentKey = null;
+            this.valueStart = -1;
+          }
+          break;
+      }
+    }
+
+    return events;
+  }
+
+  /** Everything fed so far */
+  get output(): string {
+    return this.text;
+  }
+
+  /** Sections completed so far */
+  get sectionsParsed(): number {
+    return this.sectionCount;
+  }
+
+  /**
+   * Length of the output that ends on a complete section or top-level
+   * value - the point a resumed run continues from. 0 until the first one.
+   */
+  get resumePoint(): number {
+    return this.resumeOffset;
+  }
+
+  /** Whether the root object has been closed */
+  get complete(): boolean {
+    return this.closed;
+  }
+}
+
+/**
+ * Parse one complete JSON fragment, repairing it if needed; null if it
+ * can't be salvaged (the full parse at the end gets another try)
+ */
+function parseFragment<T>(json: string): T | null {
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    try {
+      return parseAIResponse<T>(json);
+    } catch {
+      return null;
+    }
+  }
+}
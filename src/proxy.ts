@@ -0,0 +1,45 @@
+/**
+ * Request Proxy (formerly middleware)
+ *
+ * Requires a signed-in user with a sufficient role for admin pages, the
+ * writer and every API route (see ROUTE_RULES in lib/auth/roles.ts).
+ * API requests get JSON 401/403 responses; pages redirect to /login.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateRequest } from '@/lib/auth/session';
+import { getRequiredRole, hasRole, isPublicRoute } from '@/lib/auth/roles';
+
+export async function proxy(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+
+  if (isPublicRoute(pathname)) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith('/api/');
+  const user = await authenticateRequest(request);
+
+  if (!user) {
+    if (isApi) {
+      return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+    }
+    const loginUrl = new URL('/login', request.url);
+    loginUrl.searchParams.set('next', `${pathname}${search}`);
+    return NextResponse.redirect(loginUrl);
+  }
+
+  const requiredRole = getRequiredRole(pathname, request.method);
+  if (!hasRole(user.role, requiredRole)) {
+    const error = `Requires the ${requiredRole} role`;
+    return isApi
+      ? NextResponse.json({ error }, { status: 403 })
+      : new NextResponse(error, { status: 403 });
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ['/admin/:path*', '/api/:path*', '/write/:path*'],
+};